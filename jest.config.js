@@ -5,11 +5,11 @@ module.exports = {
   
   // TypeScript configuration
   transform: {
-    '^.+\\.ts$': 'ts-jest',
+    '^.+\\.ts$': ['ts-jest', { tsconfig: 'tsconfig.json' }],
   },
   
   // Module resolution
-  moduleNameMapping: {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
     '^@/presentation/(.*)$': '<rootDir>/src/presentation/$1',
     '^@/business/(.*)$': '<rootDir>/src/business/$1',
@@ -60,22 +60,9 @@ module.exports = {
   clearMocks: true,
   restoreMocks: true,
   
-  // Globals
-  globals: {
-    'ts-jest': {
-      tsconfig: 'tsconfig.json',
-    },
-  },
-  
   // Verbose output
   verbose: true,
   
   // Error handling
   errorOnDeprecated: true,
-  
-  // Watch options
-  watchPlugins: [
-    'jest-watch-typeahead/filename',
-    'jest-watch-typeahead/testname',
-  ],
 };
\ No newline at end of file
@@ -0,0 +1,58 @@
+-- Converts money columns from decimal Float values to integer minor units (cents).
+--
+-- Databases created before amounts were stored in cents must run this once, BEFORE
+-- `npm run db:migrate`; otherwise Prisma casts 19.9 to 20 instead of 1990.
+--   psql "$DATABASE_URL" -f prisma/backfill/money-to-minor-units.sql
+--
+-- Only columns still typed as double precision are converted, so running it again is a no-op.
+
+BEGIN;
+
+DO $$
+DECLARE
+  money_column RECORD;
+BEGIN
+  FOR money_column IN
+    SELECT table_name, column_name, column_default
+    FROM information_schema.columns
+    WHERE table_schema = current_schema()
+      AND data_type = 'double precision'
+      AND (table_name, column_name) IN (
+        ('products', 'price'),
+        ('orders', 'subtotal'),
+        ('orders', 'shipping'),
+        ('orders', 'taxes'),
+        ('orders', 'discount'),
+        ('orders', 'total'),
+        ('order_items', 'unitPrice'),
+        ('order_items', 'subtotal'),
+        ('order_items', 'taxAmount'),
+        ('order_items', 'discountAmount'),
+        ('coupons', 'minSubtotal'),
+        ('coupon_redemptions', 'amount')
+      )
+  LOOP
+    -- A Float default cannot be cast along with the column; every money default is 0
+    IF money_column.column_default IS NOT NULL THEN
+      EXECUTE format('ALTER TABLE %I ALTER COLUMN %I DROP DEFAULT', money_column.table_name, money_column.column_name);
+    END IF;
+
+    -- Round through numeric so halves are rounded away from zero, as Money.fromDecimal does
+    EXECUTE format(
+      'ALTER TABLE %I ALTER COLUMN %I TYPE INTEGER USING ROUND(%I::numeric * 100)::INTEGER',
+      money_column.table_name, money_column.column_name, money_column.column_name
+    );
+
+    IF money_column.column_default IS NOT NULL THEN
+      EXECUTE format('ALTER TABLE %I ALTER COLUMN %I SET DEFAULT 0', money_column.table_name, money_column.column_name);
+    END IF;
+
+    RAISE NOTICE 'Converted %.% to minor units', money_column.table_name, money_column.column_name;
+  END LOOP;
+END $$;
+
+-- Existing rows were priced in the store's only currency
+ALTER TABLE "products" ADD COLUMN IF NOT EXISTS "currency" TEXT NOT NULL DEFAULT 'BRL';
+ALTER TABLE "orders" ADD COLUMN IF NOT EXISTS "currency" TEXT NOT NULL DEFAULT 'BRL';
+
+COMMIT;
@@ -0,0 +1,55 @@
+-- Creates a category row for every category a product refers to.
+--
+-- Product.categoryId used to be free text; it is now a foreign key to categories.id.
+-- Databases created before categories existed must run this once, BEFORE
+-- `npm run db:migrate`; otherwise adding the foreign key fails on the old values.
+--   psql "$DATABASE_URL" -f prisma/backfill/product-categories.sql
+--
+-- Backfilled categories are top-level and named after the old value; rename or move
+-- them afterwards through the admin API. Running it again is a no-op.
+
+BEGIN;
+
+-- Same definition Prisma creates from schema.prisma
+CREATE TABLE IF NOT EXISTS "categories" (
+  "id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "slug" TEXT NOT NULL,
+  "description" TEXT NOT NULL DEFAULT '',
+  "parentId" TEXT,
+  "sortOrder" INTEGER NOT NULL DEFAULT 0,
+  "isActive" BOOLEAN NOT NULL DEFAULT true,
+  "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "categories_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "categories_slug_key" ON "categories"("slug");
+CREATE INDEX IF NOT EXISTS "categories_parentId_sortOrder_idx" ON "categories"("parentId", "sortOrder");
+
+WITH missing AS (
+  SELECT DISTINCT p."categoryId" AS id
+  FROM "products" p
+  WHERE NOT EXISTS (SELECT 1 FROM "categories" c WHERE c."id" = p."categoryId")
+),
+slugged AS (
+  -- Same rules as Category.slugify, minus accent folding
+  SELECT id, COALESCE(NULLIF(TRIM(BOTH '-' FROM REGEXP_REPLACE(LOWER(id), '[^a-z0-9]+', '-', 'g')), ''), 'category') AS slug
+  FROM missing
+)
+INSERT INTO "categories" ("id", "name", "slug", "updatedAt")
+SELECT
+  id,
+  id,
+  -- Slugs are unique, so values like "Books" and "books" get a stable suffix
+  CASE
+    WHEN COUNT(*) OVER (PARTITION BY slug) > 1
+      OR EXISTS (SELECT 1 FROM "categories" c WHERE c."slug" = slugged.slug)
+    THEN slug || '-' || SUBSTRING(MD5(id) FROM 1 FOR 8)
+    ELSE slug
+  END,
+  CURRENT_TIMESTAMP
+FROM slugged;
+
+COMMIT;
@@ -9,6 +9,8 @@ import morgan from 'morgan';
 import { Container } from '@/infrastructure/container/Container';
 import { DatabaseConnection } from '@/infrastructure/database/DatabaseConnection';
 import { RedisConnection } from '@/infrastructure/cache/RedisConnection';
+import { OrderExpiryScheduler } from '@/infrastructure/scheduler/OrderExpiryScheduler';
+import { AbandonedCartScheduler } from '@/infrastructure/scheduler/AbandonedCartScheduler';
 import { Logger } from '@/shared/utils/Logger';
 import { ErrorHandler } from '@/shared/errors/ErrorHandler';
 
@@ -18,6 +20,12 @@ import { UserRoutes } from '@/presentation/routes/UserRoutes';
 import { AuthRoutes } from '@/presentation/routes/AuthRoutes';
 import { CartRoutes } from '@/presentation/routes/CartRoutes';
 import { OrderRoutes } from '@/presentation/routes/OrderRoutes';
+import { PaymentRoutes } from '@/presentation/routes/PaymentRoutes';
+import { TaxRuleRoutes } from '@/presentation/routes/TaxRuleRoutes';
+import { CouponRoutes } from '@/presentation/routes/CouponRoutes';
+import { ReturnRoutes } from '@/presentation/routes/ReturnRoutes';
+import { WishlistRoutes } from '@/presentation/routes/WishlistRoutes';
+import { CategoryRoutes } from '@/presentation/routes/CategoryRoutes';
 import { HealthRoutes } from '@/presentation/routes/HealthRoutes';
 
 // Extend Express Request interface
@@ -25,6 +33,7 @@ declare global {
   namespace Express {
     interface Request {
       id?: string;
+      rawBody?: Buffer;
     }
   }
 }
@@ -57,7 +66,13 @@ class Application {
     this.app.use(morgan('combined'));
     
     // Body parsing
-    this.app.use(express.json({ limit: '10mb' }));
+    // Keep the raw payload around so webhook signatures can be verified
+    this.app.use(express.json({
+      limit: '10mb',
+      verify: (req, res, buf) => {
+        (req as express.Request).rawBody = buf;
+      },
+    }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
     
     // Request ID middleware
@@ -73,13 +88,28 @@ class Application {
     
     // Health check (outside API prefix)
     this.app.use('/', new HealthRoutes(this.container).router);
+
+    // Files written by the local storage adapter (skipped when uploads are served from another host)
+    const uploadPublicUrl = process.env.UPLOAD_PUBLIC_URL || '/uploads';
+    if (uploadPublicUrl.startsWith('/')) {
+      this.app.use(uploadPublicUrl, express.static(process.env.UPLOAD_DIR || 'uploads', {
+        // Helmet defaults to same-origin, which would keep storefronts on other origins from showing the images
+        setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+      }));
+    }
     
     // API routes
     this.app.use(`${apiPrefix}/auth`, new AuthRoutes(this.container).router);
     this.app.use(`${apiPrefix}/users`, new UserRoutes(this.container).router);
     this.app.use(`${apiPrefix}/products`, new ProductRoutes(this.container).router);
+    this.app.use(`${apiPrefix}/categories`, new CategoryRoutes(this.container).router);
     this.app.use(`${apiPrefix}/cart`, new CartRoutes(this.container).router);
     this.app.use(`${apiPrefix}/orders`, new OrderRoutes(this.container).router);
+    this.app.use(`${apiPrefix}/payments`, new PaymentRoutes(this.container).router);
+    this.app.use(`${apiPrefix}/tax-rules`, new TaxRuleRoutes(this.container).router);
+    this.app.use(`${apiPrefix}/coupons`, new CouponRoutes(this.container).router);
+    this.app.use(`${apiPrefix}/returns`, new ReturnRoutes(this.container).router);
+    this.app.use(`${apiPrefix}/wishlist`, new WishlistRoutes(this.container).router);
     
     // API documentation
     if (process.env.ENABLE_DOCS === 'true') {
@@ -92,8 +122,14 @@ class Application {
             auth: `${apiPrefix}/auth`,
             users: `${apiPrefix}/users`,
             products: `${apiPrefix}/products`,
+            categories: `${apiPrefix}/categories`,
             cart: `${apiPrefix}/cart`,
             orders: `${apiPrefix}/orders`,
+            payments: `${apiPrefix}/payments`,
+            taxRules: `${apiPrefix}/tax-rules`,
+            coupons: `${apiPrefix}/coupons`,
+            returns: `${apiPrefix}/returns`,
+            wishlist: `${apiPrefix}/wishlist`,
           },
           patterns: [
             'Layered Architecture',
@@ -162,10 +198,20 @@ class Application {
       this.logger.info(`📊 API docs: http://localhost:${port}/docs`);
       this.logger.info(`🏗️  Environment: ${process.env.NODE_ENV}`);
     });
+
+    if (process.env.ORDER_EXPIRY_ENABLED !== 'false') {
+      this.container.resolve<OrderExpiryScheduler>('OrderExpiryScheduler').start();
+    }
+
+    if (process.env.ABANDONED_CART_ENABLED === 'true') {
+      this.container.resolve<AbandonedCartScheduler>('AbandonedCartScheduler').start();
+    }
   }
 
   public async shutdown(): Promise<void> {
     try {
+      this.container.resolve<OrderExpiryScheduler>('OrderExpiryScheduler').stop();
+      this.container.resolve<AbandonedCartScheduler>('AbandonedCartScheduler').stop();
       await DatabaseConnection.disconnect();
       await RedisConnection.disconnect();
       this.logger.info('Application shutdown completed');
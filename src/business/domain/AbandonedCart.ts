@@ -0,0 +1,71 @@
+import { Money } from '@/business/domain/Money';
+
+export class AbandonedCart {
+  id: string;
+  userId: string;
+  cartUpdatedAt: Date; // identifies the idle cart version, so one idle cart is only recorded once
+  itemCount: number;
+  cartTotal: Money;
+  couponCode: string | null;
+  notifiedAt: Date | null;
+  recoveredOrderId: string | null;
+  recoveredTotal: Money | null;
+  recoveredAt: Date | null;
+  createdAt: Date;
+
+  constructor(data: Partial<AbandonedCart>) {
+    this.id = data.id || '';
+    this.userId = data.userId || '';
+    this.cartUpdatedAt = data.cartUpdatedAt ? new Date(data.cartUpdatedAt) : new Date();
+    this.itemCount = data.itemCount || 0;
+    this.cartTotal = Money.from(data.cartTotal);
+    this.couponCode = data.couponCode ?? null;
+    this.notifiedAt = data.notifiedAt ? new Date(data.notifiedAt) : null;
+    this.recoveredOrderId = data.recoveredOrderId ?? null;
+    this.recoveredTotal = data.recoveredTotal ? Money.from(data.recoveredTotal) : null;
+    this.recoveredAt = data.recoveredAt ? new Date(data.recoveredAt) : null;
+    this.createdAt = data.createdAt || new Date();
+  }
+
+  // Business logic methods
+  markNotified(couponCode: string | null, notifiedAt: Date = new Date()): void {
+    this.couponCode = couponCode;
+    this.notifiedAt = notifiedAt;
+  }
+
+  markRecovered(orderId: string, orderTotal: Money, recoveredAt: Date = new Date()): void {
+    if (this.isRecovered()) {
+      throw new Error('Abandoned cart has already been recovered');
+    }
+    this.recoveredOrderId = orderId;
+    this.recoveredTotal = orderTotal;
+    this.recoveredAt = recoveredAt;
+  }
+
+  isRecovered(): boolean {
+    return this.recoveredAt !== null;
+  }
+
+  // Validation
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.userId) {
+      errors.push('User ID is required');
+    }
+
+    if (this.itemCount <= 0) {
+      errors.push('An abandoned cart must have at least one item');
+    }
+
+    if (this.cartTotal.isNegative()) {
+      errors.push('Cart total cannot be negative');
+    }
+
+    return errors;
+  }
+
+  isValid(): boolean {
+    return this.validate().length === 0;
+  }
+}
@@ -1,9 +1,20 @@
+import { Money } from '@/business/domain/Money';
+
+// Ways a cart line can have drifted from the product since it was added
+export enum CartItemIssue {
+  PRICE_INCREASED = 'PRICE_INCREASED',
+  PRICE_DECREASED = 'PRICE_DECREASED',
+  PRODUCT_UNAVAILABLE = 'PRODUCT_UNAVAILABLE',
+  INSUFFICIENT_STOCK = 'INSUFFICIENT_STOCK',
+}
+
 export interface CartItem {
   id: string;
   productId: string;
+  variantId: string | null; // set for products sold per variant
   quantity: number;
-  price: number;
-  subtotal: number;
+  price: Money;
+  subtotal: Money;
   addedAt: Date;
 }
 
@@ -11,35 +22,50 @@ export class Cart {
   id: string;
   userId: string;
   items: CartItem[];
-  total: number;
+  total: Money;
   itemCount: number;
+  couponCode: string | null;
   createdAt: Date;
   updatedAt: Date;
 
   constructor(data: Partial<Cart>) {
     this.id = data.id || '';
     this.userId = data.userId || '';
-    this.items = data.items || [];
-    this.total = data.total || 0;
+    // Carts are rehydrated from JSON, where money is serialized as decimal numbers and dates as strings
+    this.items = (data.items || []).map(item => ({
+      ...item,
+      variantId: item.variantId ?? null,
+      price: Money.from(item.price),
+      subtotal: Money.from(item.subtotal),
+      addedAt: item.addedAt ? new Date(item.addedAt) : new Date(),
+    }));
+    this.total = Money.from(data.total);
     this.itemCount = data.itemCount || 0;
-    this.createdAt = data.createdAt || new Date();
-    this.updatedAt = data.updatedAt || new Date();
+    this.couponCode = data.couponCode ?? null;
+    this.createdAt = data.createdAt ? new Date(data.createdAt) : new Date();
+    this.updatedAt = data.updatedAt ? new Date(data.updatedAt) : new Date();
+  }
+
+  // Lines are identified by product and variant; variantId is null for products without variants
+  findItem(productId: string, variantId: string | null = null): CartItem | undefined {
+    return this.items.find(item => item.productId === productId && item.variantId === variantId);
   }
 
   // Business logic methods
-  addItem(productId: string, quantity: number, price: number): void {
-    const existingItem = this.items.find(item => item.productId === productId);
+  addItem(productId: string, quantity: number, price: Money, variantId: string | null = null): void {
+    const existingItem = this.findItem(productId, variantId);
 
     if (existingItem) {
       existingItem.quantity += quantity;
-      existingItem.subtotal = existingItem.quantity * existingItem.price;
+      existingItem.subtotal = existingItem.price.multiply(existingItem.quantity);
     } else {
       const newItem: CartItem = {
         id: Math.random().toString(36).substring(2, 15),
         productId,
+        variantId,
         quantity,
         price,
-        subtotal: quantity * price,
+        subtotal: price.multiply(quantity),
         addedAt: new Date(),
       };
       this.items.push(newItem);
@@ -49,22 +75,33 @@ export class Cart {
     this.updatedAt = new Date();
   }
 
-  removeItem(productId: string): void {
-    this.items = this.items.filter(item => item.productId !== productId);
+  removeItem(productId: string, variantId: string | null = null): void {
+    this.items = this.items.filter(item => item.productId !== productId || item.variantId !== variantId);
     this.recalculateTotal();
     this.updatedAt = new Date();
   }
 
-  updateItemQuantity(productId: string, quantity: number): void {
+  updateItemQuantity(productId: string, quantity: number, variantId: string | null = null): void {
     if (quantity <= 0) {
-      this.removeItem(productId);
+      this.removeItem(productId, variantId);
       return;
     }
 
-    const item = this.items.find(item => item.productId === productId);
+    const item = this.findItem(productId, variantId);
     if (item) {
       item.quantity = quantity;
-      item.subtotal = quantity * item.price;
+      item.subtotal = item.price.multiply(quantity);
+      this.recalculateTotal();
+      this.updatedAt = new Date();
+    }
+  }
+
+  // Moves a line to the product's current price, keeping its quantity
+  repriceItem(productId: string, price: Money, variantId: string | null = null): void {
+    const item = this.findItem(productId, variantId);
+    if (item) {
+      item.price = price;
+      item.subtotal = price.multiply(item.quantity);
       this.recalculateTotal();
       this.updatedAt = new Date();
     }
@@ -72,8 +109,19 @@ export class Cart {
 
   clear(): void {
     this.items = [];
-    this.total = 0;
+    this.total = Money.zero();
     this.itemCount = 0;
+    this.couponCode = null;
+    this.updatedAt = new Date();
+  }
+
+  applyCoupon(code: string): void {
+    this.couponCode = code.trim().toUpperCase();
+    this.updatedAt = new Date();
+  }
+
+  removeCoupon(): void {
+    this.couponCode = null;
     this.updatedAt = new Date();
   }
 
@@ -82,7 +130,7 @@ export class Cart {
   }
 
   private recalculateTotal(): void {
-    this.total = this.items.reduce((sum, item) => sum + item.subtotal, 0);
+    this.total = Money.sum(this.items.map(item => item.subtotal));
     this.itemCount = this.items.reduce((sum, item) => sum + item.quantity, 0);
   }
 
@@ -105,7 +153,7 @@ export class Cart {
       if (item.quantity <= 0) {
         errors.push(`Item ${index + 1}: Quantity must be positive`);
       }
-      if (item.price < 0) {
+      if (item.price.isNegative()) {
         errors.push(`Item ${index + 1}: Price cannot be negative`);
       }
     });
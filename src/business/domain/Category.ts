@@ -0,0 +1,74 @@
+export class Category {
+  id: string;
+  name: string;
+  slug: string; // url-safe, unique across the whole tree
+  description: string;
+  parentId: string | null; // null for top-level categories
+  sortOrder: number; // position among its siblings
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(data: Partial<Category>) {
+    this.id = data.id || '';
+    this.name = (data.name || '').trim();
+    this.slug = data.slug || Category.slugify(this.name);
+    this.description = data.description || '';
+    this.parentId = data.parentId || null;
+    this.sortOrder = data.sortOrder ?? 0;
+    this.isActive = data.isActive ?? true;
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  // "Periféricos & Acessórios" -> "perifericos-acessorios"
+  static slugify(value: string): string {
+    return value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+
+  isRoot(): boolean {
+    return this.parentId === null;
+  }
+
+  activate(): void {
+    this.isActive = true;
+    this.updatedAt = new Date();
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.updatedAt = new Date();
+  }
+
+  // Validation
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.name) {
+      errors.push('Category name is required');
+    }
+
+    if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(this.slug)) {
+      errors.push('Slug must contain only lowercase letters, numbers and single hyphens');
+    }
+
+    if (this.id && this.parentId === this.id) {
+      errors.push('Category cannot be its own parent');
+    }
+
+    if (!Number.isInteger(this.sortOrder) || this.sortOrder < 0) {
+      errors.push('Sort order must be a non-negative integer');
+    }
+
+    return errors;
+  }
+
+  isValid(): boolean {
+    return this.validate().length === 0;
+  }
+}
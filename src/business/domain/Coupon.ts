@@ -0,0 +1,213 @@
+import { Money } from '@/business/domain/Money';
+
+export enum CouponType {
+  PERCENTAGE = 'PERCENTAGE',
+  FIXED_AMOUNT = 'FIXED_AMOUNT',
+  BUY_X_GET_Y = 'BUY_X_GET_Y',
+}
+
+// A cart or order line as seen by the promotion engine
+export interface DiscountableLine {
+  productId: string;
+  variantId?: string | null;
+  categoryId: string;
+  quantity: number;
+  unitPrice: Money;
+  subtotal: Money;
+}
+
+export interface LineDiscount {
+  productId: string;
+  variantId: string | null;
+  amount: Money;
+}
+
+export class Coupon {
+  id: string;
+  code: string;
+  description: string;
+  type: CouponType;
+  value: number; // percentage (0-100) or fixed amount in major units, unused for BUY_X_GET_Y
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  categoryId: string | null;
+  minSubtotal: Money | null;
+  maxUses: number | null;
+  maxUsesPerUser: number | null;
+  usesCount: number;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(data: Partial<Coupon>) {
+    this.id = data.id || '';
+    this.code = (data.code || '').trim().toUpperCase();
+    this.description = data.description || '';
+    this.type = data.type || CouponType.PERCENTAGE;
+    this.value = data.value || 0;
+    this.buyQuantity = data.buyQuantity ?? null;
+    this.getQuantity = data.getQuantity ?? null;
+    this.categoryId = data.categoryId || null;
+    this.minSubtotal = data.minSubtotal !== null && data.minSubtotal !== undefined
+      ? Money.from(data.minSubtotal)
+      : null;
+    this.maxUses = data.maxUses ?? null;
+    this.maxUsesPerUser = data.maxUsesPerUser ?? null;
+    this.usesCount = data.usesCount || 0;
+    this.startsAt = data.startsAt ? new Date(data.startsAt) : null;
+    this.endsAt = data.endsAt ? new Date(data.endsAt) : null;
+    this.isActive = data.isActive ?? true;
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  // Business logic methods
+  isWithinValidityWindow(now: Date = new Date()): boolean {
+    if (this.startsAt && now < this.startsAt) return false;
+    if (this.endsAt && now > this.endsAt) return false;
+    return true;
+  }
+
+  hasUsesRemaining(): boolean {
+    return this.maxUses === null || this.usesCount < this.maxUses;
+  }
+
+  // Returns why the coupon cannot be used for this cart, or null when it can
+  getIneligibilityReason(lines: DiscountableLine[], userRedemptions: number, now: Date = new Date()): string | null {
+    if (!this.isActive) {
+      return 'Coupon is not active';
+    }
+
+    if (!this.isWithinValidityWindow(now)) {
+      return this.startsAt && now < this.startsAt ? 'Coupon is not yet valid' : 'Coupon has expired';
+    }
+
+    if (!this.hasUsesRemaining()) {
+      return 'Coupon usage limit reached';
+    }
+
+    if (this.maxUsesPerUser !== null && userRedemptions >= this.maxUsesPerUser) {
+      return 'Coupon already used the maximum number of times';
+    }
+
+    return this.getLineIneligibilityReason(lines);
+  }
+
+  // Rules that depend only on the lines; also re-checked when a redeemed order is edited
+  getLineIneligibilityReason(lines: DiscountableLine[]): string | null {
+    const subtotal = Money.sum(lines.map(line => line.subtotal));
+    if (this.minSubtotal !== null && subtotal.lessThan(this.minSubtotal)) {
+      return `Coupon requires a minimum subtotal of ${this.minSubtotal.toDecimal().toFixed(2)}`;
+    }
+
+    if (this.getEligibleLines(lines).length === 0) {
+      return 'Coupon does not apply to any item in the cart';
+    }
+
+    return null;
+  }
+
+  // Splits the discount across eligible lines so taxes can be computed on net amounts
+  calculateLineDiscounts(lines: DiscountableLine[]): LineDiscount[] {
+    const eligible = this.getEligibleLines(lines);
+    const eligibleSubtotal = Money.sum(eligible.map(line => line.subtotal));
+
+    if (!eligibleSubtotal.isPositive()) return [];
+
+    switch (this.type) {
+      case CouponType.PERCENTAGE:
+        return eligible.map(line => ({
+          productId: line.productId,
+          variantId: line.variantId ?? null,
+          amount: line.subtotal.multiply(Math.min(this.value, 100) / 100),
+        }));
+
+      case CouponType.FIXED_AMOUNT: {
+        const total = Money.fromDecimal(this.value, eligibleSubtotal.currency).min(eligibleSubtotal);
+        // allocate() hands out every cent, so the parts always add up to the total
+        const parts = total.allocate(eligible.map(line => line.subtotal.amount));
+        return eligible.map((line, index) => ({
+          productId: line.productId,
+          variantId: line.variantId ?? null,
+          amount: parts[index]!,
+        }));
+      }
+
+      case CouponType.BUY_X_GET_Y: {
+        const buy = this.buyQuantity || 0;
+        const get = this.getQuantity || 0;
+        if (buy <= 0 || get <= 0) return [];
+
+        return eligible
+          .map(line => ({
+            productId: line.productId,
+            variantId: line.variantId ?? null,
+            amount: line.unitPrice.multiply(Math.floor(line.quantity / (buy + get)) * get),
+          }))
+          .filter(discount => discount.amount.isPositive());
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  calculateDiscount(lines: DiscountableLine[]): Money {
+    return Money.sum(this.calculateLineDiscounts(lines).map(discount => discount.amount));
+  }
+
+  incrementUses(): void {
+    this.usesCount += 1;
+    this.updatedAt = new Date();
+  }
+
+  private getEligibleLines(lines: DiscountableLine[]): DiscountableLine[] {
+    return this.categoryId ? lines.filter(line => line.categoryId === this.categoryId) : lines;
+  }
+
+  // Validation
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.code || !/^[A-Z0-9_-]{3,32}$/.test(this.code)) {
+      errors.push('Code must be 3-32 characters of letters, numbers, "-" or "_"');
+    }
+
+    if (this.type === CouponType.PERCENTAGE && (this.value <= 0 || this.value > 100)) {
+      errors.push('Percentage must be between 0 and 100');
+    }
+
+    if (this.type === CouponType.FIXED_AMOUNT && this.value <= 0) {
+      errors.push('Fixed amount must be positive');
+    }
+
+    if (this.type === CouponType.BUY_X_GET_Y &&
+        (!this.buyQuantity || this.buyQuantity < 1 || !this.getQuantity || this.getQuantity < 1)) {
+      errors.push('Buy X get Y coupons require positive buy and get quantities');
+    }
+
+    if (this.minSubtotal !== null && this.minSubtotal.isNegative()) {
+      errors.push('Minimum subtotal cannot be negative');
+    }
+
+    if (this.maxUses !== null && this.maxUses < 1) {
+      errors.push('Max uses must be at least 1');
+    }
+
+    if (this.maxUsesPerUser !== null && this.maxUsesPerUser < 1) {
+      errors.push('Max uses per user must be at least 1');
+    }
+
+    if (this.startsAt && this.endsAt && this.startsAt >= this.endsAt) {
+      errors.push('Coupon end date must be after its start date');
+    }
+
+    return errors;
+  }
+
+  isValid(): boolean {
+    return this.validate().length === 0;
+  }
+}
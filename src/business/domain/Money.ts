@@ -0,0 +1,139 @@
+// Monetary amount stored as an integer number of minor units (cents) plus currency.
+// All supported currencies use two decimal places.
+export class Money {
+  static readonly DEFAULT_CURRENCY = 'BRL';
+  private static readonly MINOR_UNITS = 100;
+
+  readonly amount: number;
+  readonly currency: string;
+
+  private constructor(amount: number, currency: string) {
+    if (!Number.isSafeInteger(amount)) {
+      throw new Error(`Money amount must be an integer number of minor units, got ${amount}`);
+    }
+    this.amount = amount;
+    this.currency = currency.toUpperCase();
+  }
+
+  // Factory methods
+  static fromMinor(amount: number, currency: string = Money.DEFAULT_CURRENCY): Money {
+    return new Money(amount, currency);
+  }
+
+  static fromDecimal(value: number, currency: string = Money.DEFAULT_CURRENCY): Money {
+    return new Money(Money.roundHalfUp(value * Money.MINOR_UNITS), currency);
+  }
+
+  static zero(currency: string = Money.DEFAULT_CURRENCY): Money {
+    return new Money(0, currency);
+  }
+
+  // Rehydrates values coming from JSON (API bodies, Redis cache), where money is a decimal number
+  static from(value: Money | number | null | undefined, currency: string = Money.DEFAULT_CURRENCY): Money {
+    if (value instanceof Money) return value;
+    if (value === null || value === undefined) return Money.zero(currency);
+    return Money.fromDecimal(Number(value), currency);
+  }
+
+  static sum(values: Money[], currency: string = Money.DEFAULT_CURRENCY): Money {
+    return values.reduce((total, value) => total.add(value), Money.zero(currency));
+  }
+
+  // Arithmetic
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.amount + other.amount, this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(this.amount - other.amount, this.currency);
+  }
+
+  // Used for quantities and rates (tax, percentage discounts); rounds half away from zero
+  multiply(factor: number): Money {
+    return new Money(Money.roundHalfUp(this.amount * factor), this.currency);
+  }
+
+  // Splits the amount proportionally to the given weights without losing or creating cents
+  allocate(weights: number[]): Money[] {
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    if (totalWeight <= 0) {
+      return weights.map(() => Money.zero(this.currency));
+    }
+
+    const parts = weights.map(weight => Math.floor(this.amount * weight / totalWeight));
+    let remainder = this.amount - parts.reduce((sum, part) => sum + part, 0);
+
+    for (let i = 0; remainder > 0 && i < parts.length; i++) {
+      if (weights[i]! > 0) {
+        parts[i]! += 1;
+        remainder -= 1;
+      }
+    }
+
+    return parts.map(part => new Money(part, this.currency));
+  }
+
+  min(other: Money): Money {
+    this.assertSameCurrency(other);
+    return this.amount <= other.amount ? this : other;
+  }
+
+  // Comparison
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.amount === other.amount;
+  }
+
+  greaterThan(other: Money): boolean {
+    this.assertSameCurrency(other);
+    return this.amount > other.amount;
+  }
+
+  greaterThanOrEqual(other: Money): boolean {
+    this.assertSameCurrency(other);
+    return this.amount >= other.amount;
+  }
+
+  lessThan(other: Money): boolean {
+    this.assertSameCurrency(other);
+    return this.amount < other.amount;
+  }
+
+  isZero(): boolean {
+    return this.amount === 0;
+  }
+
+  isPositive(): boolean {
+    return this.amount > 0;
+  }
+
+  isNegative(): boolean {
+    return this.amount < 0;
+  }
+
+  // Conversion
+  toDecimal(): number {
+    return this.amount / Money.MINOR_UNITS;
+  }
+
+  // The JSON API has always exposed money as decimal numbers (e.g. 29.99)
+  toJSON(): number {
+    return this.toDecimal();
+  }
+
+  toString(): string {
+    return `${this.currency} ${this.toDecimal().toFixed(2)}`;
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (this.currency !== other.currency) {
+      throw new Error(`Currency mismatch: ${this.currency} vs ${other.currency}`);
+    }
+  }
+
+  private static roundHalfUp(value: number): number {
+    // The epsilon absorbs binary float error such as 1.005 * 100 = 100.49999999999999
+    return Math.sign(value) * Math.round(Math.abs(value) + 1e-9);
+  }
+}
@@ -1,7 +1,10 @@
+import { Money } from '@/business/domain/Money';
+
 export enum OrderStatus {
   PENDING = 'PENDING',
   CONFIRMED = 'CONFIRMED',
   PROCESSING = 'PROCESSING',
+  PARTIALLY_SHIPPED = 'PARTIALLY_SHIPPED',
   SHIPPED = 'SHIPPED',
   DELIVERED = 'DELIVERED',
   CANCELLED = 'CANCELLED',
@@ -15,13 +18,37 @@ export enum PaymentStatus {
   REFUNDED = 'REFUNDED',
 }
 
+export enum StatusChangeType {
+  ORDER = 'ORDER',
+  PAYMENT = 'PAYMENT',
+}
+
+export interface OrderStatusChange {
+  id: string;
+  orderId: string;
+  type: StatusChangeType;
+  fromStatus: string | null;
+  toStatus: string;
+  actorId: string | null;
+  reason: string | null;
+  createdAt: Date;
+}
+
+export type NewOrderStatusChange = Omit<OrderStatusChange, 'id' | 'orderId' | 'createdAt'>;
+
 export interface OrderItem {
   id: string;
   productId: string;
   productName: string;
+  variantId: string | null;
+  variantName: string | null; // option values at order time, e.g. "M / Azul"
   quantity: number;
-  unitPrice: number;
-  subtotal: number;
+  unitPrice: Money;
+  subtotal: Money;
+  taxRate: number;
+  taxAmount: Money;
+  taxRuleId: string | null;
+  discountAmount: Money;
 }
 
 export interface ShippingAddress {
@@ -32,18 +59,32 @@ export interface ShippingAddress {
   country: string;
 }
 
+export interface SelectedShippingOption {
+  method: string;
+  name: string;
+  estimatedDays: number;
+}
+
 export class Order {
   id: string;
-  userId: string;
+  userId: string | null; // null for guest orders
+  guestId: string | null;
+  guestEmail: string | null;
   orderNumber: string;
   items: OrderItem[];
-  subtotal: number;
-  shipping: number;
-  taxes: number;
-  total: number;
+  currency: string;
+  subtotal: Money;
+  shipping: Money;
+  taxes: Money;
+  discount: Money;
+  total: Money;
+  refundedTotal: Money;
+  couponCode: string | null;
   status: OrderStatus;
   paymentStatus: PaymentStatus;
+  paymentIntentId: string | null;
   shippingAddress: ShippingAddress;
+  shippingOption: SelectedShippingOption | null;
   createdAt: Date;
   updatedAt: Date;
   shippedAt?: Date;
@@ -51,16 +92,33 @@ export class Order {
 
   constructor(data: Partial<Order>) {
     this.id = data.id || '';
-    this.userId = data.userId || '';
-    this.orderNumber = data.orderNumber || this.generateOrderNumber();
-    this.items = data.items || [];
-    this.subtotal = data.subtotal || 0;
-    this.shipping = data.shipping || 0;
-    this.taxes = data.taxes || 0;
-    this.total = data.total || 0;
+    this.userId = data.userId || null;
+    this.guestId = data.guestId || null;
+    this.guestEmail = data.guestEmail || null;
+    this.orderNumber = data.orderNumber || '';
+    this.currency = data.currency || Money.DEFAULT_CURRENCY;
+    // Orders are rehydrated from JSON (cache), where money is serialized as decimal numbers
+    this.items = (data.items || []).map(item => ({
+      ...item,
+      variantId: item.variantId ?? null,
+      variantName: item.variantName ?? null,
+      unitPrice: Money.from(item.unitPrice, this.currency),
+      subtotal: Money.from(item.subtotal, this.currency),
+      taxAmount: Money.from(item.taxAmount, this.currency),
+      discountAmount: Money.from(item.discountAmount, this.currency),
+    }));
+    this.subtotal = Money.from(data.subtotal, this.currency);
+    this.shipping = Money.from(data.shipping, this.currency);
+    this.taxes = Money.from(data.taxes, this.currency);
+    this.discount = Money.from(data.discount, this.currency);
+    this.total = Money.from(data.total, this.currency);
+    this.refundedTotal = Money.from(data.refundedTotal, this.currency);
+    this.couponCode = data.couponCode ?? null;
     this.status = data.status || OrderStatus.PENDING;
     this.paymentStatus = data.paymentStatus || PaymentStatus.PENDING;
+    this.paymentIntentId = data.paymentIntentId ?? null;
     this.shippingAddress = data.shippingAddress || {} as ShippingAddress;
+    this.shippingOption = data.shippingOption ?? null;
     this.createdAt = data.createdAt || new Date();
     this.updatedAt = data.updatedAt || new Date();
     this.shippedAt = data.shippedAt;
@@ -102,6 +160,42 @@ export class Order {
     this.updatedAt = new Date();
   }
 
+  // Derives fulfillment status from how much of each line has been shipped / delivered
+  applyShipmentCoverage(shipped: Record<string, number>, delivered: Record<string, number>): void {
+    if ([OrderStatus.CANCELLED, OrderStatus.REFUNDED].includes(this.status) ||
+        (this.status === OrderStatus.PENDING && this.paymentStatus !== PaymentStatus.PAID)) {
+      throw new Error('Cannot ship or deliver order in current status');
+    }
+
+    const covers = (quantities: Record<string, number>) =>
+      this.items.every(item => (quantities[item.id] || 0) >= item.quantity);
+    const anyShipped = this.items.some(item => (shipped[item.id] || 0) > 0);
+
+    if (!anyShipped) return;
+
+    if (covers(delivered)) {
+      this.status = OrderStatus.DELIVERED;
+      this.deliveredAt = this.deliveredAt || new Date();
+    } else if (covers(shipped)) {
+      this.status = OrderStatus.SHIPPED;
+    } else {
+      this.status = OrderStatus.PARTIALLY_SHIPPED;
+    }
+    this.shippedAt = this.shippedAt || new Date();
+    this.updatedAt = new Date();
+  }
+
+  // Once a payment intent exists its amount is fixed, so the order can no longer change
+  canBeEdited(): boolean {
+    return this.status === OrderStatus.PENDING &&
+           this.paymentStatus === PaymentStatus.PENDING &&
+           !this.paymentIntentId;
+  }
+
+  canBeShipped(): boolean {
+    return [OrderStatus.CONFIRMED, OrderStatus.PROCESSING, OrderStatus.PARTIALLY_SHIPPED].includes(this.status);
+  }
+
   cancel(): void {
     if ([OrderStatus.DELIVERED, OrderStatus.CANCELLED, OrderStatus.REFUNDED].includes(this.status)) {
       throw new Error('Cannot cancel order in current status');
@@ -126,14 +220,90 @@ export class Order {
     }
     this.paymentStatus = PaymentStatus.REFUNDED;
     this.status = OrderStatus.REFUNDED;
+    this.refundedTotal = this.total;
+    this.updatedAt = new Date();
+  }
+
+  // Partial refunds (returns) are added to refundedTotal when reserved; the order becomes REFUNDED once everything was paid back
+  settleRefunds(): void {
+    if (this.paymentStatus !== PaymentStatus.PAID) {
+      throw new Error('Only paid orders can be refunded');
+    }
+    if (this.refundedTotal.greaterThanOrEqual(this.total)) {
+      this.paymentStatus = PaymentStatus.REFUNDED;
+      this.status = OrderStatus.REFUNDED;
+    }
     this.updatedAt = new Date();
   }
 
   calculateTotals(): void {
-    this.subtotal = this.items.reduce((sum, item) => sum + item.subtotal, 0);
-    this.taxes = this.subtotal * 0.1; // 10% tax
-    this.shipping = this.subtotal > 100 ? 0 : 10; // Free shipping over $100
-    this.total = this.subtotal + this.taxes + this.shipping;
+    this.subtotal = Money.sum(this.items.map(item => item.subtotal), this.currency);
+    this.discount = Money.sum(this.items.map(item => item.discountAmount), this.currency);
+    // Per-line tax is resolved by TaxService from the shipping address and product category
+    this.taxes = Money.sum(this.items.map(item => item.taxAmount), this.currency);
+    // Shipping is quoted by ShippingService for the selected option
+    this.total = this.subtotal.subtract(this.discount).add(this.taxes).add(this.shipping);
+    this.updatedAt = new Date();
+  }
+
+  // Item edits; callers re-price the lines and call calculateTotals afterwards
+  addItem(
+    productId: string,
+    productName: string,
+    quantity: number,
+    unitPrice: Money,
+    variantId: string | null = null,
+    variantName: string | null = null
+  ): void {
+    this.assertEditable();
+    const existing = this.items.find(item => item.productId === productId && item.variantId === variantId);
+    if (existing) {
+      this.changeItemQuantity(existing.id, existing.quantity + quantity);
+      return;
+    }
+
+    this.items.push({
+      id: '',
+      productId,
+      productName,
+      variantId,
+      variantName,
+      quantity,
+      unitPrice,
+      subtotal: unitPrice.multiply(quantity),
+      taxRate: 0,
+      taxAmount: Money.zero(this.currency),
+      taxRuleId: null,
+      discountAmount: Money.zero(this.currency),
+    });
+    this.updatedAt = new Date();
+  }
+
+  changeItemQuantity(itemId: string, quantity: number): void {
+    this.assertEditable();
+    const item = this.items.find(orderItem => orderItem.id === itemId);
+    if (!item) {
+      throw new Error('Order item not found');
+    }
+    if (quantity <= 0) {
+      throw new Error('Quantity must be positive');
+    }
+
+    item.quantity = quantity;
+    item.subtotal = item.unitPrice.multiply(quantity);
+    this.updatedAt = new Date();
+  }
+
+  removeItem(itemId: string): void {
+    this.assertEditable();
+    if (!this.items.some(item => item.id === itemId)) {
+      throw new Error('Order item not found');
+    }
+    if (this.items.length === 1) {
+      throw new Error('Cannot remove the last item of an order; cancel the order instead');
+    }
+
+    this.items = this.items.filter(item => item.id !== itemId);
     this.updatedAt = new Date();
   }
 
@@ -144,25 +314,46 @@ export class Order {
 
   canBeRefunded(): boolean {
     return this.paymentStatus === PaymentStatus.PAID && 
-           [OrderStatus.DELIVERED, OrderStatus.SHIPPED].includes(this.status);
+           [OrderStatus.DELIVERED, OrderStatus.SHIPPED, OrderStatus.PARTIALLY_SHIPPED].includes(this.status);
+  }
+
+  getRefundableAmount(): Money {
+    return this.total.subtract(this.refundedTotal);
+  }
+
+  canRequestReturn(): boolean {
+    return this.paymentStatus === PaymentStatus.PAID &&
+           [OrderStatus.DELIVERED, OrderStatus.SHIPPED, OrderStatus.PARTIALLY_SHIPPED].includes(this.status);
+  }
+
+  isGuestOrder(): boolean {
+    return this.userId === null;
   }
 
   isCompleted(): boolean {
     return this.status === OrderStatus.DELIVERED;
   }
 
-  private generateOrderNumber(): string {
-    const timestamp = Date.now().toString(36).toUpperCase();
-    const random = Math.random().toString(36).substring(2, 8).toUpperCase();
-    return `ORD-${timestamp}-${random}`;
+  private assertEditable(): void {
+    if (!this.canBeEdited()) {
+      throw new Error('Only pending orders without a payment can be edited');
+    }
   }
 
   // Validation
   validate(): string[] {
     const errors: string[] = [];
 
-    if (!this.userId) {
-      errors.push('User ID is required');
+    if (!this.userId && !(this.guestId && this.guestEmail)) {
+      errors.push('User ID or guest email is required');
+    }
+
+    if (this.guestEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(this.guestEmail)) {
+      errors.push('Guest email is invalid');
+    }
+
+    if (!this.orderNumber) {
+      errors.push('Order number is required');
     }
 
     if (this.items.length === 0) {
@@ -180,7 +371,7 @@ export class Order {
       if (item.quantity <= 0) {
         errors.push(`Item ${index + 1}: Quantity must be positive`);
       }
-      if (item.unitPrice < 0) {
+      if (item.unitPrice.isNegative()) {
         errors.push(`Item ${index + 1}: Unit price cannot be negative`);
       }
     });
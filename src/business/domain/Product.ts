@@ -1,11 +1,47 @@
+import { Money } from '@/business/domain/Money';
+import { ProductVariant } from '@/business/domain/ProductVariant';
+import { ProductImage } from '@/business/domain/ProductImage';
+
+// An axis variants differ on, e.g. { name: 'size', values: ['P', 'M', 'G'] }
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+// What a cart or order line actually buys: the product itself, or one of its variants
+export interface Sellable {
+  id: string; // where the stock is kept: the variant id, or the product id
+  productId: string;
+  variantId: string | null;
+  variantName: string | null;
+  sku: string;
+  price: Money;
+  stock: number;
+  isActive: boolean;
+}
+
+// One combination of option values and the variant that sells it, if any
+export interface VariantMatrixCell {
+  options: Record<string, string>;
+  variantId: string | null;
+  sku: string | null;
+  price: Money | null;
+  stock: number;
+  isAvailable: boolean;
+}
+
 export class Product {
   id: string;
   name: string;
   description: string;
-  price: number;
+  price: Money;
   sku: string;
   stock: number;
+  weight: number; // kg, used for shipping quotes
   categoryId: string;
+  options: ProductOption[];
+  variants: ProductVariant[];
+  images: ProductImage[]; // in display order
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -14,10 +50,16 @@ export class Product {
     this.id = data.id || '';
     this.name = data.name || '';
     this.description = data.description || '';
-    this.price = data.price || 0;
+    this.price = Money.from(data.price);
     this.sku = data.sku || '';
     this.stock = data.stock || 0;
+    this.weight = data.weight || 0;
     this.categoryId = data.categoryId || '';
+    this.options = (data.options || []).map(option => ({ name: option.name, values: [...option.values] }));
+    this.variants = (data.variants || []).map(variant => new ProductVariant(variant));
+    this.images = (data.images || [])
+      .map(image => new ProductImage(image))
+      .sort((a, b) => a.position - b.position);
     this.isActive = data.isActive ?? true;
     this.createdAt = data.createdAt || new Date();
     this.updatedAt = data.updatedAt || new Date();
@@ -25,7 +67,110 @@ export class Product {
 
   // Business logic methods
   isInStock(): boolean {
-    return this.stock > 0;
+    return this.getAvailableStock() > 0;
+  }
+
+  // Variant products keep their stock on the variants; the product's own stock is not sold
+  getAvailableStock(): number {
+    if (!this.hasVariants()) return this.stock;
+    return this.variants
+      .filter(variant => variant.isActive)
+      .reduce((sum, variant) => sum + variant.stock, 0);
+  }
+
+  hasVariants(): boolean {
+    return this.variants.length > 0;
+  }
+
+  findVariant(variantId: string): ProductVariant | undefined {
+    return this.variants.find(variant => variant.id === variantId);
+  }
+
+  findImage(imageId: string): ProductImage | undefined {
+    return this.images.find(image => image.id === imageId);
+  }
+
+  // Resolves the line a customer buys; variant products must be bought through one of their variants
+  getSellable(variantId: string | null): Sellable {
+    if (!variantId) {
+      if (this.hasVariants()) {
+        throw new Error(`Select a variant of ${this.name}`);
+      }
+
+      return {
+        id: this.id,
+        productId: this.id,
+        variantId: null,
+        variantName: null,
+        sku: this.sku,
+        price: this.price,
+        stock: this.stock,
+        isActive: this.isActive,
+      };
+    }
+
+    const variant = this.findVariant(variantId);
+    if (!variant) {
+      throw new Error(`Variant ${variantId} not found for ${this.name}`);
+    }
+
+    return {
+      id: variant.id,
+      productId: this.id,
+      variantId: variant.id,
+      variantName: variant.getName(this.options.map(option => option.name)),
+      sku: variant.sku,
+      price: variant.priceOr(this.price),
+      stock: variant.stock,
+      isActive: this.isActive && variant.isActive,
+    };
+  }
+
+  // A variant must pick exactly one known value on every axis
+  validateVariantOptions(options: Record<string, string>): string[] {
+    const errors: string[] = [];
+
+    if (this.options.length === 0) {
+      errors.push('Product has no option axes; define them before adding variants');
+      return errors;
+    }
+
+    for (const option of this.options) {
+      const value = options[option.name];
+      if (value === undefined) {
+        errors.push(`Missing value for option ${option.name}`);
+      } else if (!option.values.includes(value)) {
+        errors.push(`Invalid value "${value}" for option ${option.name}`);
+      }
+    }
+
+    Object.keys(options)
+      .filter(name => !this.options.some(option => option.name === name))
+      .forEach(name => errors.push(`Unknown option ${name}`));
+
+    return errors;
+  }
+
+  // Every combination of the option axes, with the variant that sells it (or none)
+  getVariantMatrix(): VariantMatrixCell[] {
+    if (this.options.length === 0) return [];
+
+    const combinations = this.options.reduce<Array<Record<string, string>>>(
+      (rows, option) => rows.flatMap(row => option.values.map(value => ({ ...row, [option.name]: value }))),
+      [{}]
+    );
+
+    return combinations.map(options => {
+      const variant = this.variants.find(candidate => candidate.matchesOptions(options));
+      return {
+        options,
+        variantId: variant?.id ?? null,
+        sku: variant?.sku ?? null,
+        price: variant ? variant.priceOr(this.price) : null,
+        stock: variant?.stock ?? 0,
+        isAvailable: !!variant && this.isActive && variant.isActive && variant.stock > 0,
+      };
+    });
   }
 
   canFulfillQuantity(quantity: number): boolean {
@@ -48,8 +193,8 @@ export class Product {
     this.updatedAt = new Date();
   }
 
-  updatePrice(newPrice: number): void {
-    if (newPrice < 0) {
+  updatePrice(newPrice: Money): void {
+    if (newPrice.isNegative()) {
       throw new Error('Price cannot be negative');
     }
     this.price = newPrice;
@@ -76,13 +221,13 @@ export class Product {
   getFormattedPrice(): string {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
-      currency: 'BRL'
-    }).format(this.price);
+      currency: this.price.currency
+    }).format(this.price.toDecimal());
   }
 
-  getStockStatus(): 'in_stock' | 'low_stock' | 'out_of_stock' {
-    if (this.stock === 0) return 'out_of_stock';
-    if (this.stock <= 10) return 'low_stock';
+  getStockStatus(stock: number = this.getAvailableStock()): 'in_stock' | 'low_stock' | 'out_of_stock' {
+    if (stock === 0) return 'out_of_stock';
+    if (stock <= 10) return 'low_stock';
     return 'in_stock';
   }
 
@@ -98,7 +243,7 @@ export class Product {
       errors.push('Product description is required');
     }
 
-    if (this.price < 0) {
+    if (this.price.isNegative()) {
       errors.push('Price cannot be negative');
     }
 
@@ -110,10 +255,28 @@ export class Product {
       errors.push('Stock cannot be negative');
     }
 
+    if (this.weight < 0) {
+      errors.push('Weight cannot be negative');
+    }
+
     if (!this.categoryId || this.categoryId.trim().length === 0) {
       errors.push('Category is required');
     }
 
+    const optionNames = this.options.map(option => option.name);
+    if (new Set(optionNames).size !== optionNames.length) {
+      errors.push('Option names must be unique');
+    }
+
+    this.options.forEach(option => {
+      if (!option.name || option.name.trim().length === 0) {
+        errors.push('Option name is required');
+      }
+      if (option.values.length === 0 || new Set(option.values).size !== option.values.length) {
+        errors.push(`Option ${option.name} must have unique values`);
+      }
+    });
+
     return errors;
   }
 
@@ -0,0 +1,65 @@
+export class ProductImage {
+  id: string;
+  productId: string;
+  storageKey: string;
+  thumbnailKey: string;
+  contentType: string;
+  size: number; // bytes
+  width: number;
+  height: number;
+  altText: string;
+  position: number; // 0 is the main image
+  url: string | null; // resolved from the storage key when read
+  thumbnailUrl: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  static readonly MAX_ALT_TEXT_LENGTH = 255;
+  static readonly FORMATS: readonly string[] = ['jpeg', 'png', 'webp']; // as decoded, not as declared by the client
+
+  constructor(data: Partial<ProductImage>) {
+    this.id = data.id || '';
+    this.productId = data.productId || '';
+    this.storageKey = data.storageKey || '';
+    this.thumbnailKey = data.thumbnailKey || '';
+    this.contentType = data.contentType || '';
+    this.size = data.size || 0;
+    this.width = data.width || 0;
+    this.height = data.height || 0;
+    this.altText = data.altText || '';
+    this.position = data.position || 0;
+    this.url = data.url ?? null;
+    this.thumbnailUrl = data.thumbnailUrl ?? null;
+    this.createdAt = data.createdAt ? new Date(data.createdAt) : new Date();
+    this.updatedAt = data.updatedAt ? new Date(data.updatedAt) : new Date();
+  }
+
+  // Business logic methods
+  resolveUrls(toUrl: (key: string) => string): void {
+    this.url = toUrl(this.storageKey);
+    this.thumbnailUrl = toUrl(this.thumbnailKey);
+  }
+
+  // Validation
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.storageKey || !this.thumbnailKey) {
+      errors.push('Image file is required');
+    }
+
+    if (this.altText.length > ProductImage.MAX_ALT_TEXT_LENGTH) {
+      errors.push(`Alt text must not exceed ${ProductImage.MAX_ALT_TEXT_LENGTH} characters`);
+    }
+
+    if (this.position < 0) {
+      errors.push('Position cannot be negative');
+    }
+
+    return errors;
+  }
+
+  isValid(): boolean {
+    return this.validate().length === 0;
+  }
+}
@@ -0,0 +1,75 @@
+import { Money } from '@/business/domain/Money';
+
+export class ProductVariant {
+  id: string;
+  productId: string;
+  sku: string;
+  options: Record<string, string>; // one value per product axis, e.g. { size: 'M', color: 'Azul' }
+  price: Money | null; // null sells at the product price
+  stock: number;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(data: Partial<ProductVariant>) {
+    this.id = data.id || '';
+    this.productId = data.productId || '';
+    this.sku = data.sku || '';
+    this.options = { ...(data.options || {}) };
+    this.price = data.price !== null && data.price !== undefined ? Money.from(data.price) : null;
+    this.stock = data.stock || 0;
+    this.isActive = data.isActive ?? true;
+    this.createdAt = data.createdAt ? new Date(data.createdAt) : new Date();
+    this.updatedAt = data.updatedAt ? new Date(data.updatedAt) : new Date();
+  }
+
+  // Business logic methods
+  priceOr(productPrice: Money): Money {
+    return this.price ?? productPrice;
+  }
+
+  // Option values in axis order, e.g. "M / Azul"
+  getName(axisNames: string[]): string {
+    return axisNames.map(name => this.options[name]).filter(Boolean).join(' / ');
+  }
+
+  matchesOptions(options: Record<string, string>): boolean {
+    const names = Object.keys(this.options);
+    return names.length === Object.keys(options).length && names.every(name => this.options[name] === options[name]);
+  }
+
+  increaseStock(quantity: number): void {
+    if (quantity <= 0) {
+      throw new Error('Quantity must be positive');
+    }
+    this.stock += quantity;
+    this.updatedAt = new Date();
+  }
+
+  // Validation
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.sku || this.sku.trim().length === 0) {
+      errors.push('SKU is required');
+    }
+
+    if (Object.keys(this.options).length === 0) {
+      errors.push('Variant must have at least one option value');
+    }
+
+    if (this.price && this.price.isNegative()) {
+      errors.push('Price cannot be negative');
+    }
+
+    if (this.stock < 0) {
+      errors.push('Stock cannot be negative');
+    }
+
+    return errors;
+  }
+
+  isValid(): boolean {
+    return this.validate().length === 0;
+  }
+}
@@ -0,0 +1,162 @@
+import { Money } from '@/business/domain/Money';
+
+export enum ReturnStatus {
+  REQUESTED = 'REQUESTED',
+  APPROVED = 'APPROVED',
+  REJECTED = 'REJECTED',
+  RECEIVED = 'RECEIVED',
+  REFUNDING = 'REFUNDING',
+  REFUNDED = 'REFUNDED',
+}
+
+export interface ReturnItem {
+  id: string;
+  orderItemId: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+  refundAmount: Money;
+}
+
+export class ReturnRequest {
+  id: string;
+  orderId: string;
+  userId: string;
+  status: ReturnStatus;
+  reason: string;
+  resolutionNote: string | null;
+  items: ReturnItem[];
+  currency: string;
+  refundAmount: Money;
+  restocked: boolean;
+  reviewedBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  receivedAt: Date | null;
+  refundedAt: Date | null;
+
+  constructor(data: Partial<ReturnRequest>) {
+    this.id = data.id || '';
+    this.orderId = data.orderId || '';
+    this.userId = data.userId || '';
+    this.status = data.status || ReturnStatus.REQUESTED;
+    this.reason = data.reason || '';
+    this.resolutionNote = data.resolutionNote ?? null;
+    this.currency = data.currency || Money.DEFAULT_CURRENCY;
+    this.items = (data.items || []).map(item => ({
+      ...item,
+      refundAmount: Money.from(item.refundAmount, this.currency),
+    }));
+    this.refundAmount = Money.from(data.refundAmount, this.currency);
+    this.restocked = data.restocked ?? false;
+    this.reviewedBy = data.reviewedBy ?? null;
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+    this.receivedAt = data.receivedAt ? new Date(data.receivedAt) : null;
+    this.refundedAt = data.refundedAt ? new Date(data.refundedAt) : null;
+  }
+
+  // Business logic methods
+  approve(reviewerId: string, note?: string): void {
+    if (this.status !== ReturnStatus.REQUESTED) {
+      throw new Error('Only requested returns can be approved');
+    }
+    this.status = ReturnStatus.APPROVED;
+    this.reviewedBy = reviewerId;
+    this.resolutionNote = note ?? this.resolutionNote;
+    this.updatedAt = new Date();
+  }
+
+  reject(reviewerId: string, note: string): void {
+    if (this.status !== ReturnStatus.REQUESTED) {
+      throw new Error('Only requested returns can be rejected');
+    }
+    this.status = ReturnStatus.REJECTED;
+    this.reviewedBy = reviewerId;
+    this.resolutionNote = note;
+    this.updatedAt = new Date();
+  }
+
+  // Goods may arrive before or after the refund is issued
+  markReceived(restock: boolean): void {
+    if (!this.canBeReceived()) {
+      throw new Error('Return cannot be received in its current status');
+    }
+    if (this.status === ReturnStatus.APPROVED) {
+      this.status = ReturnStatus.RECEIVED;
+    }
+    this.restocked = restock;
+    this.receivedAt = new Date();
+    this.updatedAt = new Date();
+  }
+
+  // Claimed before the gateway is called so a second refund request cannot go through meanwhile
+  startRefund(): void {
+    if (!this.canBeRefunded()) {
+      throw new Error('Return cannot be refunded in its current status');
+    }
+    this.status = ReturnStatus.REFUNDING;
+    this.updatedAt = new Date();
+  }
+
+  markRefunded(amount: Money): void {
+    if (this.status !== ReturnStatus.REFUNDING) {
+      throw new Error('Return refund has not been started');
+    }
+    this.status = ReturnStatus.REFUNDED;
+    this.refundAmount = amount;
+    this.refundedAt = new Date();
+    this.updatedAt = new Date();
+  }
+
+  // Helper methods
+  canBeReceived(): boolean {
+    return this.receivedAt === null &&
+      [ReturnStatus.APPROVED, ReturnStatus.REFUNDING, ReturnStatus.REFUNDED].includes(this.status);
+  }
+
+  canBeRefunded(): boolean {
+    return [ReturnStatus.APPROVED, ReturnStatus.RECEIVED].includes(this.status);
+  }
+
+  // Rejected returns give their quantities back to the order
+  isActive(): boolean {
+    return this.status !== ReturnStatus.REJECTED;
+  }
+
+  getRequestedRefund(): Money {
+    return Money.sum(this.items.map(item => item.refundAmount), this.currency);
+  }
+
+  // Validation
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.orderId) {
+      errors.push('Order ID is required');
+    }
+
+    if (!this.reason || this.reason.trim().length < 3) {
+      errors.push('Reason must be at least 3 characters long');
+    }
+
+    if (this.items.length === 0) {
+      errors.push('Return must include at least one item');
+    }
+
+    this.items.forEach((item, index) => {
+      if (!item.orderItemId) {
+        errors.push(`Item ${index + 1}: Order item ID is required`);
+      }
+      if (item.quantity <= 0) {
+        errors.push(`Item ${index + 1}: Quantity must be positive`);
+      }
+    });
+
+    return errors;
+  }
+
+  isValid(): boolean {
+    return this.validate().length === 0;
+  }
+}
@@ -0,0 +1,87 @@
+export enum ShipmentStatus {
+  SHIPPED = 'SHIPPED',
+  DELIVERED = 'DELIVERED',
+}
+
+export interface ShipmentItem {
+  id: string;
+  orderItemId: string;
+  productId: string;
+  productName: string;
+  quantity: number;
+}
+
+export class Shipment {
+  id: string;
+  orderId: string;
+  carrier: string;
+  trackingCode: string;
+  status: ShipmentStatus;
+  items: ShipmentItem[];
+  shippedAt: Date;
+  deliveredAt: Date | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(data: Partial<Shipment>) {
+    this.id = data.id || '';
+    this.orderId = data.orderId || '';
+    this.carrier = (data.carrier || '').trim();
+    this.trackingCode = (data.trackingCode || '').trim().toUpperCase();
+    this.status = data.status || ShipmentStatus.SHIPPED;
+    this.items = data.items || [];
+    this.shippedAt = data.shippedAt ? new Date(data.shippedAt) : new Date();
+    this.deliveredAt = data.deliveredAt ? new Date(data.deliveredAt) : null;
+    this.createdBy = data.createdBy ?? null;
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  // Business logic methods
+  markDelivered(deliveredAt: Date = new Date()): void {
+    if (this.status === ShipmentStatus.DELIVERED) {
+      throw new Error('Shipment has already been delivered');
+    }
+    this.status = ShipmentStatus.DELIVERED;
+    this.deliveredAt = deliveredAt;
+    this.updatedAt = new Date();
+  }
+
+  isDelivered(): boolean {
+    return this.status === ShipmentStatus.DELIVERED;
+  }
+
+  // Validation
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.orderId) {
+      errors.push('Order ID is required');
+    }
+
+    if (!this.carrier) {
+      errors.push('Carrier is required');
+    }
+
+    if (!this.trackingCode) {
+      errors.push('Tracking code is required');
+    }
+
+    if (this.items.length === 0) {
+      errors.push('Shipment must include at least one item');
+    }
+
+    this.items.forEach((item, index) => {
+      if (item.quantity <= 0) {
+        errors.push(`Item ${index + 1}: Quantity must be positive`);
+      }
+    });
+
+    return errors;
+  }
+
+  isValid(): boolean {
+    return this.validate().length === 0;
+  }
+}
@@ -0,0 +1,76 @@
+export class TaxRule {
+  id: string;
+  name: string;
+  country: string;
+  state: string | null;
+  categoryId: string | null;
+  rate: number;
+  isExempt: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+
+  constructor(data: Partial<TaxRule>) {
+    this.id = data.id || '';
+    this.name = data.name || '';
+    this.country = (data.country || '').toUpperCase();
+    this.state = data.state ? data.state.toUpperCase() : null;
+    this.categoryId = data.categoryId || null;
+    this.rate = data.rate || 0;
+    this.isExempt = data.isExempt ?? false;
+    this.isActive = data.isActive ?? true;
+    this.createdAt = data.createdAt || new Date();
+    this.updatedAt = data.updatedAt || new Date();
+  }
+
+  // Business logic methods
+  appliesTo(country: string, state: string, categoryId: string): boolean {
+    if (!this.isActive) return false;
+    if (this.country !== country.toUpperCase()) return false;
+    if (this.state && this.state !== state.toUpperCase()) return false;
+    if (this.categoryId && this.categoryId !== categoryId) return false;
+    return true;
+  }
+
+  // Higher is more specific: state + category beats state-only beats category-only beats country-wide
+  getSpecificity(): number {
+    return (this.state ? 2 : 0) + (this.categoryId ? 1 : 0);
+  }
+
+  getEffectiveRate(): number {
+    return this.isExempt ? 0 : this.rate;
+  }
+
+  activate(): void {
+    this.isActive = true;
+    this.updatedAt = new Date();
+  }
+
+  deactivate(): void {
+    this.isActive = false;
+    this.updatedAt = new Date();
+  }
+
+  // Validation
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.name || this.name.trim().length === 0) {
+      errors.push('Tax rule name is required');
+    }
+
+    if (!this.country || this.country.trim().length === 0) {
+      errors.push('Country is required');
+    }
+
+    if (this.rate < 0 || this.rate > 1) {
+      errors.push('Rate must be between 0 and 1');
+    }
+
+    return errors;
+  }
+
+  isValid(): boolean {
+    return this.validate().length === 0;
+  }
+}
@@ -0,0 +1,47 @@
+import { Money } from '@/business/domain/Money';
+
+export class WishlistItem {
+  id: string;
+  userId: string;
+  productId: string;
+  variantId: string | null; // saved variant of a variant product
+  savedPrice: Money; // product or variant price when the entry was saved
+  createdAt: Date;
+
+  constructor(data: Partial<WishlistItem>) {
+    this.id = data.id || '';
+    this.userId = data.userId || '';
+    this.productId = data.productId || '';
+    this.variantId = data.variantId ?? null;
+    this.savedPrice = Money.from(data.savedPrice);
+    this.createdAt = data.createdAt || new Date();
+  }
+
+  // Positive when the product got more expensive since it was saved
+  priceDifference(currentPrice: Money): Money {
+    return currentPrice.subtract(this.savedPrice);
+  }
+
+  // Validation
+  validate(): string[] {
+    const errors: string[] = [];
+
+    if (!this.userId) {
+      errors.push('User ID is required');
+    }
+
+    if (!this.productId) {
+      errors.push('Product ID is required');
+    }
+
+    if (this.savedPrice.isNegative()) {
+      errors.push('Saved price cannot be negative');
+    }
+
+    return errors;
+  }
+
+  isValid(): boolean {
+    return this.validate().length === 0;
+  }
+}
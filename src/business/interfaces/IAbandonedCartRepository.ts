@@ -0,0 +1,22 @@
+import { AbandonedCart } from '@/business/domain/AbandonedCart';
+import { Money } from '@/business/domain/Money';
+
+export interface AbandonedCartStats {
+  abandoned: number;
+  notified: number;
+  recovered: number;
+  recoveredRevenue: Money;
+}
+
+export interface IAbandonedCartRepository {
+  // Basic CRUD operations
+  findByUserAndCartVersion(userId: string, cartUpdatedAt: Date): Promise<AbandonedCart | null>;
+  create(abandonedCartData: Partial<AbandonedCart>): Promise<AbandonedCart>;
+  update(id: string, abandonedCartData: Partial<AbandonedCart>): Promise<AbandonedCart>;
+
+  // Query operations
+  findAwaitingRecovery(notifiedSince: Date, limit?: number): Promise<AbandonedCart[]>;
+
+  // Analytics and reporting
+  getStats(startDate: Date, endDate: Date): Promise<AbandonedCartStats>;
+}
@@ -0,0 +1,21 @@
+import { Money } from '@/business/domain/Money';
+
+export interface CartRecoveryMessage {
+  userId: string;
+  email: string;
+  firstName: string;
+  items: Array<{
+    productId: string;
+    productName: string;
+    quantity: number;
+    unitPrice: Money;
+  }>;
+  cartTotal: Money;
+  couponCode: string | null;
+  couponExpiresAt: Date | null;
+}
+
+// Port for reaching customers who left items in their cart (email provider, push, etc.)
+export interface ICartRecoveryNotifier {
+  sendCartRecovery(message: CartRecoveryMessage): Promise<void>;
+}
@@ -0,0 +1,11 @@
+import { Cart } from '@/business/domain/Cart';
+
+export interface ICartRepository {
+  // Basic CRUD operations
+  findByUserId(userId: string): Promise<Cart | null>;
+  save(cart: Cart): Promise<Cart>; // creates the cart or replaces its coupon and lines
+  delete(userId: string): Promise<void>;
+
+  // Query operations
+  findIdleSince(idleSince: Date, cursorId: string | null, limit?: number): Promise<Cart[]>;
+}
@@ -0,0 +1,15 @@
+import { Category } from '@/business/domain/Category';
+
+export interface ICategoryRepository {
+  // Basic CRUD operations
+  findById(id: string): Promise<Category | null>;
+  findBySlug(slug: string): Promise<Category | null>;
+  create(categoryData: Partial<Category>): Promise<Category>;
+  update(id: string, categoryData: Partial<Category>): Promise<Category>;
+  delete(id: string): Promise<void>;
+
+  // Query operations; the tree is small enough to be assembled in memory
+  findAll(): Promise<Category[]>;
+  countChildren(id: string): Promise<number>;
+  countProducts(id: string): Promise<number>;
+}
@@ -0,0 +1,17 @@
+import { Coupon } from '@/business/domain/Coupon';
+
+export interface ICouponRepository {
+  // Basic CRUD operations
+  findById(id: string): Promise<Coupon | null>;
+  findByCode(code: string): Promise<Coupon | null>;
+  create(couponData: Partial<Coupon>): Promise<Coupon>;
+  update(id: string, couponData: Partial<Coupon>): Promise<Coupon>;
+  delete(id: string): Promise<void>;
+
+  // Query operations
+  findAll(page?: number, limit?: number): Promise<Coupon[]>;
+  count(): Promise<number>;
+
+  // Redemptions are written together with the order (see IOrderRepository)
+  countRedemptionsByUser(couponId: string, userId: string): Promise<number>;
+}
@@ -0,0 +1,7 @@
+// Port for where uploaded files are kept (local disk, S3-compatible bucket, etc.).
+// Keys are relative paths such as "products/<productId>/<file>"; each adapter decides how they are served.
+export interface IFileStorage {
+  put(key: string, content: Buffer, contentType: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string;
+}
@@ -0,0 +1,20 @@
+export interface ImageInfo {
+  format: string; // e.g. "jpeg", "png", "webp"
+  width: number;
+  height: number;
+}
+
+export interface Thumbnail {
+  content: Buffer;
+  contentType: string;
+  extension: string;
+  width: number;
+  height: number;
+}
+
+// Port for reading and resizing uploaded images
+export interface IImageProcessor {
+  // Rejects content that is not a decodable image, whatever its declared content type
+  inspect(content: Buffer): Promise<ImageInfo>;
+  createThumbnail(content: Buffer): Promise<Thumbnail>;
+}
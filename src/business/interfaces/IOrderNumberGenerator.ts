@@ -0,0 +1,4 @@
+export interface IOrderNumberGenerator {
+  // Reserves the next order number; numbers are unique but may have gaps if order creation fails
+  next(date?: Date): Promise<string>;
+}
@@ -1,18 +1,61 @@
-import { Order, OrderStatus, PaymentStatus } from '@/business/domain/Order';
+import { Order, OrderStatus, PaymentStatus, OrderStatusChange, NewOrderStatusChange } from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
 
 export interface OrderSummary {
   totalOrders: number;
-  totalRevenue: number;
-  averageOrderValue: number;
+  totalRevenue: Money;
+  averageOrderValue: Money;
   ordersByStatus: Record<OrderStatus, number>;
 }
 
+export interface StockShortfall {
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  requested: number;
+  available: number;
+}
+
+// Units to reserve (+) or release (-); variants keep their own stock, apart from the product's
+export interface StockDeltas {
+  products: Record<string, number>;
+  variants: Record<string, number>;
+}
+
+// State an order must still be in for a conditional transition to apply
+export interface OrderStateGuard {
+  status: OrderStatus;
+  paymentStatus: PaymentStatus;
+  paymentIntentId?: null;
+}
+
+export type OrderSortField = 'createdAt' | 'total' | 'orderNumber' | 'status';
+
+export interface OrderSearchCriteria {
+  statuses?: OrderStatus[];
+  paymentStatus?: PaymentStatus;
+  createdFrom?: Date;
+  createdTo?: Date;
+  minTotal?: Money;
+  maxTotal?: Money;
+  customerEmail?: string;
+  orderNumberPrefix?: string;
+  requiresAction?: boolean;
+  sortBy?: OrderSortField;
+  sortOrder?: 'asc' | 'desc';
+}
+
 export interface IOrderRepository {
   // Basic CRUD operations
   findById(id: string): Promise<Order | null>;
   findByOrderNumber(orderNumber: string): Promise<Order | null>;
   create(orderData: Partial<Order>): Promise<Order>;
-  update(id: string, orderData: Partial<Order>): Promise<Order>;
+  createWithStockReservation(orderData: Partial<Order>): Promise<Order>;
+  update(id: string, orderData: Partial<Order>, statusChanges?: NewOrderStatusChange[]): Promise<Order>;
+  updateItemsWithStockAdjustment(order: Order, stockDeltas: StockDeltas, expectedUpdatedAt: Date): Promise<Order>;
+  cancelWithStockRelease(order: Order, expected: OrderStateGuard, statusChanges?: NewOrderStatusChange[]): Promise<Order | null>;
+  reserveRefund(id: string, amount: Money): Promise<Order | null>;
+  releaseRefund(id: string, amount: Money): Promise<void>;
   delete(id: string): Promise<void>;
   
   // Query operations
@@ -25,15 +68,20 @@ export interface IOrderRepository {
   findByStatus(status: OrderStatus, page?: number, limit?: number): Promise<Order[]>;
   findByPaymentStatus(paymentStatus: PaymentStatus, page?: number, limit?: number): Promise<Order[]>;
   findByDateRange(startDate: Date, endDate: Date, page?: number, limit?: number): Promise<Order[]>;
+  search(criteria: OrderSearchCriteria, page?: number, limit?: number): Promise<Order[]>;
+  searchAfter(criteria: OrderSearchCriteria, cursorId: string | null, limit?: number): Promise<Order[]>;
+  countSearch(criteria: OrderSearchCriteria): Promise<number>;
   
   // Business operations
   findPendingOrders(page?: number, limit?: number): Promise<Order[]>;
+  findUnpaidPendingOrdersCreatedBefore(cutoff: Date, limit?: number): Promise<Order[]>;
   findRecentOrders(userId: string, limit?: number): Promise<Order[]>;
   findOrdersRequiringAction(page?: number, limit?: number): Promise<Order[]>;
+  findStatusHistory(orderId: string): Promise<OrderStatusChange[]>;
   
   // Analytics and reporting
   getOrderSummary(startDate?: Date, endDate?: Date): Promise<OrderSummary>;
-  getRevenueByPeriod(startDate: Date, endDate: Date): Promise<number>;
+  getRevenueByPeriod(startDate: Date, endDate: Date): Promise<Money>;
   getOrderCountByStatus(): Promise<Record<OrderStatus, number>>;
-  getTopSellingProducts(limit?: number): Promise<Array<{ productId: string; productName: string; totalSold: number; revenue: number }>>;
+  getTopSellingProducts(limit?: number): Promise<Array<{ productId: string; productName: string; totalSold: number; revenue: Money }>>;
 }
\ No newline at end of file
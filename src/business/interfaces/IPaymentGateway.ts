@@ -0,0 +1,56 @@
+export enum PaymentIntentStatus {
+  REQUIRES_CAPTURE = 'REQUIRES_CAPTURE',
+  SUCCEEDED = 'SUCCEEDED',
+  FAILED = 'FAILED',
+  VOIDED = 'VOIDED',
+  REFUNDED = 'REFUNDED',
+  PARTIALLY_REFUNDED = 'PARTIALLY_REFUNDED',
+}
+
+export enum PaymentEventType {
+  PAYMENT_SUCCEEDED = 'payment.succeeded',
+  PAYMENT_FAILED = 'payment.failed',
+  PAYMENT_VOIDED = 'payment.voided',
+  PAYMENT_REFUNDED = 'payment.refunded',
+}
+
+export interface PaymentIntent {
+  id: string;
+  orderId: string;
+  amount: number;
+  amountRefunded: number;
+  currency: string;
+  status: PaymentIntentStatus;
+  clientSecret: string;
+  failureReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreatePaymentIntentRequest {
+  orderId: string;
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+}
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: PaymentEventType;
+  paymentIntentId: string;
+  orderId: string;
+  amount: number;
+  createdAt: Date;
+}
+
+export interface IPaymentGateway {
+  // Payment intent lifecycle
+  createPaymentIntent(request: CreatePaymentIntentRequest): Promise<PaymentIntent>;
+  getPaymentIntent(intentId: string): Promise<PaymentIntent | null>;
+  capturePayment(intentId: string): Promise<PaymentIntent>;
+  voidPayment(intentId: string): Promise<PaymentIntent>;
+  refundPayment(intentId: string, amount?: number): Promise<PaymentIntent>;
+
+  // Webhooks (throws if the signature does not match the payload)
+  constructWebhookEvent(payload: string, signature: string): PaymentWebhookEvent;
+}
@@ -1,4 +1,7 @@
 import { Product } from '@/business/domain/Product';
+import { ProductVariant } from '@/business/domain/ProductVariant';
+import { ProductImage } from '@/business/domain/ProductImage';
+import { Money } from '@/business/domain/Money';
 
 export interface IProductRepository {
   // Basic CRUD operations
@@ -14,13 +17,26 @@ export interface IProductRepository {
   count(): Promise<number>;
   
   // Search and filter operations
-  findByCategory(categoryId: string, page?: number, limit?: number): Promise<Product[]>;
+  findByCategory(categoryIds: string[], page?: number, limit?: number): Promise<Product[]>;
   searchProducts(query: string, page?: number, limit?: number): Promise<Product[]>;
   findActiveProducts(page?: number, limit?: number): Promise<Product[]>;
   findInStock(page?: number, limit?: number): Promise<Product[]>;
-  findByPriceRange(minPrice: number, maxPrice: number, page?: number, limit?: number): Promise<Product[]>;
+  findByPriceRange(minPrice: Money, maxPrice: Money, page?: number, limit?: number): Promise<Product[]>;
   
   // Stock operations
   updateStock(id: string, quantity: number): Promise<Product>;
   findLowStockProducts(threshold?: number): Promise<Product[]>;
+
+  // Variant operations
+  findVariantById(id: string): Promise<ProductVariant | null>;
+  findVariantBySku(sku: string): Promise<ProductVariant | null>;
+  createVariant(variantData: Partial<ProductVariant>): Promise<ProductVariant>;
+  updateVariant(id: string, variantData: Partial<ProductVariant>): Promise<ProductVariant>;
+  deleteVariant(id: string): Promise<void>;
+
+  // Image operations
+  createImage(imageData: Partial<ProductImage>): Promise<ProductImage>;
+  updateImage(id: string, imageData: Partial<ProductImage>): Promise<ProductImage>;
+  deleteImage(id: string): Promise<void>;
+  reorderImages(productId: string, imageIds: string[]): Promise<void>;
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { ReturnRequest, ReturnStatus } from '@/business/domain/ReturnRequest';
+
+export interface IReturnRepository {
+  // Basic CRUD operations
+  findById(id: string): Promise<ReturnRequest | null>;
+  create(returnData: Partial<ReturnRequest>): Promise<ReturnRequest>;
+  update(id: string, returnData: Partial<ReturnRequest>): Promise<ReturnRequest>;
+  // Moves the return to a new status only if it is still in the expected one
+  transitionStatus(id: string, from: ReturnStatus, to: ReturnStatus): Promise<boolean>;
+
+  // Query operations
+  findAll(page?: number, limit?: number, status?: ReturnStatus): Promise<ReturnRequest[]>;
+  count(status?: ReturnStatus): Promise<number>;
+  findByOrderId(orderId: string): Promise<ReturnRequest[]>;
+
+  // Quantities per order item already claimed by non-rejected returns
+  getReturnedQuantities(orderId: string): Promise<Record<string, number>>;
+
+  // Records receipt and, when restocking, puts the items back in stock atomically
+  markReceived(returnRequest: ReturnRequest): Promise<ReturnRequest>;
+}
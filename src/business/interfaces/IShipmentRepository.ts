@@ -0,0 +1,14 @@
+import { Shipment } from '@/business/domain/Shipment';
+
+export interface IShipmentRepository {
+  // Basic CRUD operations
+  findById(id: string): Promise<Shipment | null>;
+  findByTrackingCode(carrier: string, trackingCode: string): Promise<Shipment | null>;
+  create(shipmentData: Partial<Shipment>): Promise<Shipment>;
+  update(id: string, shipmentData: Partial<Shipment>): Promise<Shipment>;
+  // Locks the order, passes its current shipments to `build` and stores the shipment it returns, all in one transaction
+  createForOrder(orderId: string, build: (existing: Shipment[]) => Partial<Shipment>): Promise<Shipment>;
+
+  // Query operations
+  findByOrderId(orderId: string): Promise<Shipment[]>;
+}
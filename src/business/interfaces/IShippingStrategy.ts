@@ -0,0 +1,34 @@
+import { ShippingAddress } from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
+
+export interface ShippingQuoteRequest {
+  address: ShippingAddress;
+  subtotal: Money;
+  totalWeight: number; // kg
+  itemCount: number;
+}
+
+export interface ShippingRate {
+  price: Money;
+  estimatedDays: number;
+}
+
+export interface ShippingOption {
+  method: string;
+  name: string;
+  price: Money;
+  originalPrice: Money;
+  isFree: boolean;
+  estimatedDays: number;
+}
+
+export interface IShippingStrategy {
+  readonly method: string;
+  readonly name: string;
+
+  // Orders at or above this subtotal ship for free with this method (null = never free)
+  readonly freeShippingThreshold: Money | null;
+
+  // Returns null when the method cannot serve the request (destination, weight, ...)
+  calculate(request: ShippingQuoteRequest): ShippingRate | null;
+}
@@ -0,0 +1,16 @@
+import { TaxRule } from '@/business/domain/TaxRule';
+
+export interface ITaxRuleRepository {
+  // Basic CRUD operations
+  findById(id: string): Promise<TaxRule | null>;
+  create(ruleData: Partial<TaxRule>): Promise<TaxRule>;
+  update(id: string, ruleData: Partial<TaxRule>): Promise<TaxRule>;
+  delete(id: string): Promise<void>;
+
+  // Query operations
+  findAll(page?: number, limit?: number): Promise<TaxRule[]>;
+  count(): Promise<number>;
+
+  // Lookup of active rules that may apply to an address (state-specific and country-wide)
+  findActiveForLocation(country: string, state: string): Promise<TaxRule[]>;
+}
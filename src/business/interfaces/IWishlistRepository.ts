@@ -0,0 +1,11 @@
+import { WishlistItem } from '@/business/domain/WishlistItem';
+
+export interface IWishlistRepository {
+  // Basic CRUD operations
+  findByUserAndProduct(userId: string, productId: string): Promise<WishlistItem | null>;
+  create(itemData: Partial<WishlistItem>): Promise<WishlistItem>;
+  delete(userId: string, productId: string): Promise<boolean>;
+
+  // Query operations
+  findByUserId(userId: string): Promise<WishlistItem[]>;
+}
@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import { IAbandonedCartRepository } from '@/business/interfaces/IAbandonedCartRepository';
+import { IOrderRepository } from '@/business/interfaces/IOrderRepository';
+import { IUserRepository } from '@/business/interfaces/IUserRepository';
+import { IProductRepository } from '@/business/interfaces/IProductRepository';
+import { ICartRecoveryNotifier, CartRecoveryMessage } from '@/business/interfaces/ICartRecoveryNotifier';
+import { AbandonedCart } from '@/business/domain/AbandonedCart';
+import { Cart } from '@/business/domain/Cart';
+import { CouponType } from '@/business/domain/Coupon';
+import { Money } from '@/business/domain/Money';
+import { PaymentStatus } from '@/business/domain/Order';
+import { CartService } from '@/business/services/CartService';
+import { CouponService } from '@/business/services/CouponService';
+import { AppError } from '@/shared/errors/AppError';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface AbandonedCartOptions {
+  couponPercentOff: number; // 0 sends the reminder without a coupon
+  couponValidDays: number;
+  recoveryWindowDays: number; // a paid order this long after the email still counts as recovered
+}
+
+export interface AbandonedCartRunResult {
+  detected: number;
+  notified: number;
+  recovered: number;
+  failed: Array<{ userId: string; error: string }>;
+  idleSince: Date;
+}
+
+export interface AbandonedCartReport {
+  from: Date;
+  to: Date;
+  abandonedCarts: number;
+  notifiedCarts: number;
+  recoveredCarts: number;
+  ordersPlaced: number;
+  abandonmentRate: number; // abandoned carts / (abandoned carts + orders placed)
+  recoveryRate: number; // recovered / notified
+  recoveredRevenue: Money;
+}
+
+export class AbandonedCartService {
+  private logger = new Logger('AbandonedCartService');
+
+  constructor(
+    private abandonedCartRepository: IAbandonedCartRepository,
+    private orderRepository: IOrderRepository,
+    private userRepository: IUserRepository,
+    private productRepository: IProductRepository,
+    private cartService: CartService,
+    private couponService: CouponService,
+    private notifier: ICartRecoveryNotifier,
+    private options: AbandonedCartOptions
+  ) {}
+
+  // Records and notifies up to `limit` carts idle since the cutoff, then credits recovered carts with their orders
+  async processIdleCarts(idleSince: Date, limit: number = 100): Promise<AbandonedCartRunResult> {
+    try {
+      const result: AbandonedCartRunResult = { detected: 0, notified: 0, recovered: 0, failed: [], idleSince };
+
+      for await (const cart of this.cartService.findIdleCarts(idleSince)) {
+        if (result.detected >= limit) break;
+
+        try {
+          const cartUpdatedAt = new Date(cart.updatedAt);
+          const existing = await this.abandonedCartRepository.findByUserAndCartVersion(cart.userId, cartUpdatedAt);
+          if (existing) continue; // this idle cart was already handled by an earlier run
+
+          const user = await this.userRepository.findById(cart.userId);
+          if (!user || !user.isActive) continue;
+
+          const abandonedCart = await this.abandonedCartRepository.create(new AbandonedCart({
+            userId: cart.userId,
+            cartUpdatedAt,
+            itemCount: cart.itemCount,
+            cartTotal: cart.total,
+          }));
+          result.detected++;
+
+          const coupon = await this.createRecoveryCoupon();
+          await this.notifier.sendCartRecovery({
+            userId: user.id,
+            email: user.email,
+            firstName: user.firstName,
+            items: await this.describeItems(cart),
+            cartTotal: cart.total,
+            couponCode: coupon?.code ?? null,
+            couponExpiresAt: coupon?.endsAt ?? null,
+          });
+
+          abandonedCart.markNotified(coupon?.code ?? null);
+          await this.abandonedCartRepository.update(abandonedCart.id, abandonedCart);
+          result.notified++;
+        } catch (error) {
+          result.failed.push({
+            userId: cart.userId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      result.recovered = await this.creditRecoveredCarts();
+
+      this.logger.info(
+        `Abandoned cart run: ${result.detected} detected, ${result.notified} notified, ` +
+        `${result.recovered} recovered, ${result.failed.length} failed`
+      );
+      return result;
+    } catch (error) {
+      this.logger.error('Error processing idle carts:', error);
+      throw error;
+    }
+  }
+
+  async getReport(from: Date, to: Date): Promise<AbandonedCartReport> {
+    try {
+      if (from > to) {
+        throw AppError.validation('Report start must be before its end');
+      }
+
+      const [stats, ordersPlaced] = await Promise.all([
+        this.abandonedCartRepository.getStats(from, to),
+        this.orderRepository.countSearch({ createdFrom: from, createdTo: to }),
+      ]);
+
+      const sessions = stats.abandoned + ordersPlaced;
+
+      return {
+        from,
+        to,
+        abandonedCarts: stats.abandoned,
+        notifiedCarts: stats.notified,
+        recoveredCarts: stats.recovered,
+        ordersPlaced,
+        abandonmentRate: sessions > 0 ? this.round(stats.abandoned / sessions) : 0,
+        recoveryRate: stats.notified > 0 ? this.round(stats.recovered / stats.notified) : 0,
+        recoveredRevenue: stats.recoveredRevenue,
+      };
+    } catch (error) {
+      this.logger.error('Error getting abandoned cart report:', error);
+      throw error;
+    }
+  }
+
+  // Private helper methods
+
+  // A notified cart counts as recovered when the customer pays for an order placed after the email
+  private async creditRecoveredCarts(): Promise<number> {
+    const notifiedSince = new Date(Date.now() - this.options.recoveryWindowDays * 24 * 60 * 60 * 1000);
+    const awaiting = await this.abandonedCartRepository.findAwaitingRecovery(notifiedSince);
+    let recovered = 0;
+
+    for (const abandonedCart of awaiting) {
+      try {
+        const orders = await this.orderRepository.findRecentOrders(abandonedCart.userId, 10);
+        const order = orders
+          .filter(order => order.paymentStatus === PaymentStatus.PAID && order.createdAt > abandonedCart.notifiedAt!)
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())[0];
+
+        if (!order) continue;
+
+        abandonedCart.markRecovered(order.id, order.total);
+        await this.abandonedCartRepository.update(abandonedCart.id, abandonedCart);
+        recovered++;
+      } catch (error) {
+        // e.g. the order was already credited to a more recent abandoned cart of the same user
+        this.logger.warn(`Could not credit recovery for abandoned cart ${abandonedCart.id}:`, error);
+      }
+    }
+
+    return recovered;
+  }
+
+  // One-time code: a single use overall and for the customer, expiring after the configured days
+  private async createRecoveryCoupon(): Promise<{ code: string; endsAt: Date } | null> {
+    if (this.options.couponPercentOff <= 0) {
+      return null;
+    }
+
+    const endsAt = new Date(Date.now() + this.options.couponValidDays * 24 * 60 * 60 * 1000);
+    const coupon = await this.couponService.createCoupon({
+      code: `BACK-${crypto.randomBytes(5).toString('hex').toUpperCase()}`,
+      description: `${this.options.couponPercentOff}% off to finish your order`,
+      type: CouponType.PERCENTAGE,
+      value: this.options.couponPercentOff,
+      maxUses: 1,
+      maxUsesPerUser: 1,
+      endsAt,
+    });
+
+    return { code: coupon.code, endsAt };
+  }
+
+  private async describeItems(cart: Cart): Promise<CartRecoveryMessage['items']> {
+    return Promise.all(
+      cart.items.map(async (item) => {
+        const product = await this.productRepository.findById(item.productId);
+        const variant = item.variantId ? product?.findVariant(item.variantId) : undefined;
+        const variantName = product && variant ? variant.getName(product.options.map(option => option.name)) : '';
+        return {
+          productId: item.productId,
+          productName: variantName ? `${product!.name} (${variantName})` : product?.name || 'Unknown Product',
+          quantity: item.quantity,
+          unitPrice: item.price,
+        };
+      })
+    );
+  }
+
+  private round(rate: number): number {
+    return Math.round(rate * 10000) / 10000;
+  }
+}
@@ -1,5 +1,6 @@
 import { RedisClientType } from 'redis';
 import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
 import bcrypt from 'bcryptjs';
 import { IUserRepository } from '@/business/interfaces/IUserRepository';
 import { User } from '@/business/domain/User';
@@ -21,6 +22,12 @@ export interface LoginResult {
   expiresIn: string;
 }
 
+export interface GuestSession {
+  guestId: string;
+  guestToken: string;
+  expiresIn: string;
+}
+
 export interface TokenPayload {
   id: string;
   email: string;
@@ -28,11 +35,17 @@ export interface TokenPayload {
   isActive: boolean;
 }
 
+export interface GuestTokenPayload {
+  guestId: string;
+  type: 'guest';
+}
+
 export class AuthService {
   private logger = new Logger('AuthService');
   private readonly ACCESS_TOKEN_EXPIRES = process.env.JWT_EXPIRES_IN || '7d';
   private readonly REFRESH_TOKEN_EXPIRES = process.env.JWT_REFRESH_EXPIRES_IN || '30d';
   private readonly REFRESH_TOKEN_PREFIX = 'refresh_token:';
+  private readonly GUEST_TOKEN_EXPIRES = process.env.GUEST_TOKEN_EXPIRES_IN || '30d';
 
   constructor(
     private userRepository: IUserRepository,
@@ -181,6 +194,24 @@ export class AuthService {
     }
   }
 
+  // Anonymous identity for guest carts and orders; carries no user id, so it never passes AuthMiddleware.authenticate
+  createGuestSession(): GuestSession {
+    try {
+      const guestId = randomUUID();
+      const payload: GuestTokenPayload = { guestId, type: 'guest' };
+      const guestToken = jwt.sign(payload, this.getJwtSecret(), {
+        // A duration such as '30d', read from the environment
+        expiresIn: this.GUEST_TOKEN_EXPIRES as NonNullable<jwt.SignOptions['expiresIn']>,
+      });
+
+      this.logger.info(`Guest session created: ${guestId}`);
+      return { guestId, guestToken, expiresIn: this.GUEST_TOKEN_EXPIRES };
+    } catch (error) {
+      this.logger.error('Error creating guest session:', error);
+      throw new Error('Failed to create guest session');
+    }
+  }
+
   async verifyToken(token: string): Promise<TokenPayload> {
     try {
       const decoded = jwt.verify(token, this.getJwtSecret()) as TokenPayload;
@@ -1,19 +1,68 @@
 import { RedisClientType } from 'redis';
 import { IProductRepository } from '@/business/interfaces/IProductRepository';
 import { IUserRepository } from '@/business/interfaces/IUserRepository';
-import { Cart, CartItem } from '@/business/domain/Cart';
+import { ICartRepository } from '@/business/interfaces/ICartRepository';
+import { Cart, CartItem, CartItemIssue } from '@/business/domain/Cart';
+import { Product, Sellable } from '@/business/domain/Product';
+import { ShippingAddress } from '@/business/domain/Order';
+import { DiscountableLine } from '@/business/domain/Coupon';
+import { Money } from '@/business/domain/Money';
+import { CouponService } from '@/business/services/CouponService';
+import { StockHoldService } from '@/business/services/StockHoldService';
+import { TaxService } from '@/business/services/TaxService';
+import { ShippingService } from '@/business/services/ShippingService';
+import { ShippingOption } from '@/business/interfaces/IShippingStrategy';
 import { Logger } from '@/shared/utils/Logger';
 
+export interface CartDiscountLine {
+  code: string;
+  description: string;
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  amount: Money;
+}
+
+// A cart line compared with the product as it is now
+export interface CartItemChange {
+  productId: string;
+  productName: string;
+  variantId: string | null;
+  variantName: string | null;
+  quantity: number;
+  cartPrice: Money;
+  currentPrice: Money | null; // null when the product or variant no longer exists
+  availableStock: number;
+  issues: CartItemIssue[];
+}
+
+type ReviewedCartItem = CartItemChange & {
+  categoryId: string;
+  sellable: Sellable | null;
+};
+
 export interface CartSummary {
   itemCount: number;
-  subtotal: number;
-  estimatedTotal: number;
+  subtotal: Money;
+  discountTotal: Money;
+  estimatedTaxes: Money;
+  estimatedShipping: Money | null; // null until a destination the cart can ship to is given
+  estimatedTotal: Money;
+  couponCode: string | null;
+  couponError: string | null;
+  discounts: CartDiscountLine[];
+  hasChanges: boolean; // some line needs the customer's attention before checkout
   items: Array<{
     productId: string;
     productName: string;
+    variantId: string | null;
+    variantName: string | null;
     quantity: number;
-    unitPrice: number;
-    subtotal: number;
+    unitPrice: Money;
+    currentPrice: Money | null;
+    subtotal: Money;
+    issues: CartItemIssue[];
+    holdExpiresAt: Date | null; // null when the line holds no stock
   }>;
 }
 
@@ -42,54 +91,69 @@ class CartError extends Error {
 }
 
 export class CartService {
+  // Guest carts live next to user carts, keyed by the id carried in the guest token
+  static readonly GUEST_CART_PREFIX = 'guest:';
+
   private logger = new Logger('CartService');
-  private readonly CART_TTL = 86400; // 24 hours
+  private readonly CART_TTL = 86400; // 24 hours in the cache; the database keeps the cart itself
   private readonly CART_PREFIX = 'cart:';
+  private readonly IDLE_SCAN_BATCH_SIZE = 100;
 
   constructor(
     private productRepository: IProductRepository,
     private userRepository: IUserRepository,
+    private cartRepository: ICartRepository,
+    private couponService: CouponService,
+    private stockHoldService: StockHoldService,
+    private taxService: TaxService,
+    private shippingService: ShippingService,
     private redis: RedisClientType
   ) {}
 
+  static guestCartId(guestId: string): string {
+    return `${CartService.GUEST_CART_PREFIX}${guestId}`;
+  }
+
   async getCartByUserId(userId: string): Promise<Cart> {
     try {
-      // Validate user exists
-      const user = await this.userRepository.findById(userId);
-      if (!user) {
-        throw CartError.notFound('User not found');
+      // Validate user exists (guest carts have no account behind them)
+      if (!this.isGuestCart(userId)) {
+        const user = await this.userRepository.findById(userId);
+        if (!user) {
+          throw CartError.notFound('User not found');
+        }
       }
 
       // Try to get cart from Redis first
-      const cacheKey = `${this.CART_PREFIX}${userId}`;
-      const cachedCart = await this.redis.get(cacheKey);
-
+      const cachedCart = await this.getCachedCart(userId);
       if (cachedCart) {
-        const cart = new Cart(JSON.parse(cachedCart));
         this.logger.debug(`Cart found in cache for user: ${userId}`);
-        return cart;
+        return cachedCart;
+      }
+
+      // Fall back to the stored cart and warm the cache with it
+      const storedCart = await this.cartRepository.findByUserId(userId);
+      if (storedCart) {
+        await this.cacheCart(storedCart);
+        return storedCart;
       }
 
-      // Create empty cart if not found
-      const newCart = new Cart({
+      // Start an empty cart; it is only stored once something is put in it
+      this.logger.debug(`No stored cart for user: ${userId}, starting an empty one`);
+      return new Cart({
         userId,
         items: [],
-        total: 0,
+        total: Money.zero(),
         itemCount: 0,
       });
-
-      // Cache the empty cart
-      await this.cacheCart(newCart);
-      
-      this.logger.info(`New cart created for user: ${userId}`);
-      return newCart;
     } catch (error) {
       this.logger.error('Error getting cart:', error);
       throw error;
     }
   }
 
-  async addItemToCart(userId: string, productId: string, quantity: number): Promise<Cart> {
+  // variantId picks the variant to buy; it is required for products sold per variant
+  async addItemToCart(userId: string, productId: string, quantity: number, variantId: string | null = null): Promise<Cart> {
     try {
       if (quantity <= 0) {
         throw CartError.validation('Quantity must be positive');
@@ -104,28 +168,32 @@ export class CartService {
         throw CartError.notFound('Product not found');
       }
 
-      if (!product.isActive) {
+      const sellable = this.getSellable(product, variantId);
+      if (!sellable.isActive) {
         throw CartError.businessLogic('Product is not available');
       }
 
       // Check if adding this quantity would exceed available stock
-      const existingItem = cart.items.find(item => item.productId === productId);
+      const existingItem = cart.findItem(productId, sellable.variantId);
       const currentQuantityInCart = existingItem ? existingItem.quantity : 0;
       const totalQuantityRequested = currentQuantityInCart + quantity;
 
-      if (!product.canFulfillQuantity(totalQuantityRequested)) {
+      if (sellable.stock < totalQuantityRequested) {
         throw CartError.businessLogic(
-          `Insufficient stock. Available: ${product.stock}, Requested: ${totalQuantityRequested}, Currently in cart: ${currentQuantityInCart}`
+          `Insufficient stock. Available: ${sellable.stock}, Requested: ${totalQuantityRequested}, Currently in cart: ${currentQuantityInCart}`
         );
       }
 
+      // Keep the whole line quantity off sale while it sits in the cart (no-op unless holds are enabled)
+      await this.stockHoldService.holdStock(userId, sellable, totalQuantityRequested);
+
       // Add item to cart
-      cart.addItem(productId, quantity, product.price);
+      cart.addItem(productId, quantity, sellable.price, sellable.variantId);
 
       // Cache updated cart
-      await this.cacheCart(cart);
+      await this.saveCart(cart);
 
-      this.logger.info(`Item added to cart: ${productId} (qty: ${quantity}) for user: ${userId}`);
+      this.logger.info(`Item added to cart: ${sellable.sku} (qty: ${quantity}) for user: ${userId}`);
       return cart;
     } catch (error) {
       this.logger.error('Error adding item to cart:', error);
@@ -133,7 +201,12 @@ export class CartService {
     }
   }
 
-  async updateCartItemQuantity(userId: string, productId: string, quantity: number): Promise<Cart> {
+  async updateCartItemQuantity(
+    userId: string,
+    productId: string,
+    quantity: number,
+    variantId: string | null = null
+  ): Promise<Cart> {
     try {
       if (quantity < 0) {
         throw CartError.validation('Quantity cannot be negative');
@@ -143,14 +216,14 @@ export class CartService {
       const cart = await this.getCartByUserId(userId);
 
       // Check if item exists in cart
-      const existingItem = cart.items.find(item => item.productId === productId);
+      const existingItem = cart.findItem(productId, variantId);
       if (!existingItem) {
         throw CartError.notFound('Item not found in cart');
       }
 
       // If quantity is 0, remove item
       if (quantity === 0) {
-        return this.removeItemFromCart(userId, productId);
+        return this.removeItemFromCart(userId, productId, variantId);
       }
 
       // Get product to check stock
@@ -159,17 +232,20 @@ export class CartService {
         throw CartError.notFound('Product not found');
       }
 
-      if (!product.canFulfillQuantity(quantity)) {
+      const sellable = this.getSellable(product, variantId);
+      if (sellable.stock < quantity) {
         throw CartError.businessLogic(
-          `Insufficient stock. Available: ${product.stock}, Requested: ${quantity}`
+          `Insufficient stock. Available: ${sellable.stock}, Requested: ${quantity}`
         );
       }
 
+      await this.stockHoldService.holdStock(userId, sellable, quantity);
+
       // Update quantity
-      cart.updateItemQuantity(productId, quantity);
+      cart.updateItemQuantity(productId, quantity, variantId);
 
       // Cache updated cart
-      await this.cacheCart(cart);
+      await this.saveCart(cart);
 
       this.logger.info(`Cart item updated: ${productId} (qty: ${quantity}) for user: ${userId}`);
       return cart;
@@ -179,22 +255,23 @@ export class CartService {
     }
   }
 
-  async removeItemFromCart(userId: string, productId: string): Promise<Cart> {
+  async removeItemFromCart(userId: string, productId: string, variantId: string | null = null): Promise<Cart> {
     try {
       // Get current cart
       const cart = await this.getCartByUserId(userId);
 
       // Check if item exists in cart
-      const existingItem = cart.items.find(item => item.productId === productId);
+      const existingItem = cart.findItem(productId, variantId);
       if (!existingItem) {
         throw CartError.notFound('Item not found in cart');
       }
 
       // Remove item
-      cart.removeItem(productId);
+      cart.removeItem(productId, variantId);
 
       // Cache updated cart
-      await this.cacheCart(cart);
+      await this.saveCart(cart);
+      await this.stockHoldService.releaseHold(userId, this.stockItemId(existingItem));
 
       this.logger.info(`Item removed from cart: ${productId} for user: ${userId}`);
       return cart;
@@ -208,12 +285,14 @@ export class CartService {
     try {
       // Get current cart
       const cart = await this.getCartByUserId(userId);
+      const stockItemIds = cart.items.map(item => this.stockItemId(item));
 
       // Clear all items
       cart.clear();
 
       // Cache updated cart
-      await this.cacheCart(cart);
+      await this.saveCart(cart);
+      await this.stockHoldService.releaseHolds(userId, stockItemIds);
 
       this.logger.info(`Cart cleared for user: ${userId}`);
       return cart;
@@ -223,44 +302,112 @@ export class CartService {
     }
   }
 
-  async getCartSummary(userId: string): Promise<CartSummary> {
+  // Without a shipping address taxes use the default rate and shipping is left out of the estimate
+  async getCartSummary(userId: string, shippingAddress?: ShippingAddress): Promise<CartSummary> {
     try {
       const cart = await this.getCartByUserId(userId);
 
       if (cart.isEmpty()) {
         return {
           itemCount: 0,
-          subtotal: 0,
-          estimatedTotal: 0,
+          subtotal: Money.zero(),
+          discountTotal: Money.zero(),
+          estimatedTaxes: Money.zero(),
+          estimatedShipping: null,
+          estimatedTotal: Money.zero(),
+          couponCode: null,
+          couponError: null,
+          discounts: [],
+          hasChanges: false,
           items: [],
         };
       }
 
-      // Get product details for each item
-      const itemsWithDetails = await Promise.all(
-        cart.items.map(async (item) => {
-          const product = await this.productRepository.findById(item.productId);
-          return {
-            productId: item.productId,
-            productName: product?.name || 'Unknown Product',
-            quantity: item.quantity,
-            unitPrice: item.price,
-            subtotal: item.subtotal,
-          };
-        })
+      const holdExpiries = await this.stockHoldService.getHoldExpiries(
+        userId,
+        cart.items.map(item => this.stockItemId(item))
       );
 
+      // Compare each line with the product as it is now
+      const reviewedItems = await this.reviewItems(cart);
+      const itemsWithDetails = cart.items.map((item, index) => {
+        const review = reviewedItems[index]!;
+        return {
+          productId: item.productId,
+          productName: review.productName,
+          variantId: item.variantId,
+          variantName: review.variantName,
+          categoryId: review.categoryId,
+          quantity: item.quantity,
+          unitPrice: item.price,
+          currentPrice: review.currentPrice,
+          subtotal: item.subtotal,
+          issues: review.issues,
+          holdExpiresAt: holdExpiries.get(this.stockItemId(item)) ?? null,
+        };
+      });
+
+      // Re-evaluate the applied coupon; it may have expired or stopped matching the cart
+      const discounts: CartDiscountLine[] = [];
+      let couponError: string | null = null;
+
+      if (cart.couponCode) {
+        try {
+          const evaluation = await this.couponService.evaluateCoupon(cart.couponCode, userId, itemsWithDetails);
+          for (const lineDiscount of evaluation.lineDiscounts) {
+            discounts.push({
+              code: evaluation.coupon.code,
+              description: evaluation.coupon.description,
+              productId: lineDiscount.productId,
+              variantId: lineDiscount.variantId,
+              productName: itemsWithDetails.find(
+                item => item.productId === lineDiscount.productId && item.variantId === lineDiscount.variantId
+              )?.productName || '',
+              amount: lineDiscount.amount,
+            });
+          }
+        } catch (error) {
+          couponError = error instanceof Error ? error.message : 'Coupon could not be applied';
+        }
+      }
+
       // Calculate estimated total (including taxes and shipping)
       const subtotal = cart.total;
-      const taxes = subtotal * 0.1; // 10% tax
-      const shipping = subtotal > 100 ? 0 : 10; // Free shipping over $100
-      const estimatedTotal = subtotal + taxes + shipping;
+      const discountTotal = Money.sum(discounts.map(d => d.amount));
+      const netSubtotal = subtotal.subtract(discountTotal);
+
+      // Taxes and shipping are based on discounted amounts, as createOrder does
+      const taxableLines = itemsWithDetails.map(item => ({
+        categoryId: item.categoryId,
+        amount: item.subtotal.subtract(Money.sum(
+          discounts
+            .filter(discount => discount.productId === item.productId && discount.variantId === item.variantId)
+            .map(discount => discount.amount)
+        )),
+      }));
+      const lineTaxes = shippingAddress
+        ? await this.taxService.calculateLineTaxes(shippingAddress, taxableLines)
+        : this.taxService.estimateLineTaxes(taxableLines);
+      const taxes = Money.sum(lineTaxes.map(lineTax => lineTax.taxAmount));
+
+      // Checkout defaults to the cheapest option
+      const shipping = shippingAddress
+        ? (await this.quoteShippingOptions(cart, shippingAddress, netSubtotal))[0]?.price ?? null
+        : null;
+      const estimatedTotal = netSubtotal.add(taxes).add(shipping ?? Money.zero());
 
       return {
         itemCount: cart.itemCount,
         subtotal: subtotal,
+        discountTotal,
+        estimatedTaxes: taxes,
+        estimatedShipping: shipping,
         estimatedTotal: estimatedTotal,
-        items: itemsWithDetails,
+        couponCode: cart.couponCode,
+        couponError,
+        discounts,
+        hasChanges: reviewedItems.some(review => review.issues.length > 0),
+        items: itemsWithDetails.map(({ categoryId: _categoryId, ...item }) => item),
       };
     } catch (error) {
       this.logger.error('Error getting cart summary:', error);
@@ -268,6 +415,133 @@ export class CartService {
     }
   }
 
+  // Shipping options for the cart, quoted on the subtotal after the applied coupon
+  async quoteShipping(userId: string, shippingAddress: ShippingAddress): Promise<ShippingOption[]> {
+    try {
+      const cart = await this.getCartByUserId(userId);
+
+      if (cart.isEmpty()) {
+        throw CartError.validation('Cart is empty');
+      }
+
+      // A coupon that no longer applies discounts nothing, as in the summary
+      let discountTotal = Money.zero();
+      if (cart.couponCode) {
+        try {
+          const evaluation = await this.couponService.evaluateCoupon(
+            cart.couponCode,
+            userId,
+            await this.buildDiscountableLines(cart)
+          );
+          discountTotal = Money.sum(evaluation.lineDiscounts.map(lineDiscount => lineDiscount.amount));
+        } catch (error) {
+          this.logger.debug(`Coupon ${cart.couponCode} ignored for shipping quote:`, error);
+        }
+      }
+
+      const options = await this.quoteShippingOptions(cart, shippingAddress, cart.total.subtract(discountTotal));
+
+      this.logger.info(`Shipping quote for user ${userId}: ${options.length} options to ${shippingAddress.zipCode}`);
+      return options;
+    } catch (error) {
+      this.logger.error('Error quoting cart shipping:', error);
+      throw error;
+    }
+  }
+
+  // Lines whose price, availability or stock changed since they were added
+  async getCartChanges(userId: string): Promise<CartItemChange[]> {
+    try {
+      const cart = await this.getCartByUserId(userId);
+      const reviewedItems = await this.reviewItems(cart);
+
+      return reviewedItems
+        .filter(review => review.issues.length > 0)
+        .map(({ categoryId: _categoryId, sellable: _sellable, ...change }) => change);
+    } catch (error) {
+      this.logger.error('Error getting cart changes:', error);
+      throw error;
+    }
+  }
+
+  // The customer agrees to the current catalog: lines take the new prices, unavailable products are dropped
+  // and quantities shrink to what is still in stock
+  async acceptCartChanges(userId: string): Promise<CartSummary> {
+    try {
+      const cart = await this.getCartByUserId(userId);
+      const reviewedItems = await this.reviewItems(cart);
+      const removedStockItemIds: string[] = [];
+
+      for (const review of reviewedItems) {
+        if (!review.sellable || review.issues.includes(CartItemIssue.PRODUCT_UNAVAILABLE) || review.availableStock === 0) {
+          cart.removeItem(review.productId, review.variantId);
+          removedStockItemIds.push(this.stockItemId(review));
+          continue;
+        }
+
+        if (review.currentPrice && !review.currentPrice.equals(review.cartPrice)) {
+          cart.repriceItem(review.productId, review.currentPrice, review.variantId);
+        }
+
+        if (review.issues.includes(CartItemIssue.INSUFFICIENT_STOCK)) {
+          cart.updateItemQuantity(review.productId, review.availableStock, review.variantId);
+          await this.stockHoldService.holdStock(userId, review.sellable, review.availableStock);
+        }
+      }
+
+      await this.saveCart(cart);
+      await this.stockHoldService.releaseHolds(userId, removedStockItemIds);
+
+      this.logger.info(`Cart changes accepted for user: ${userId}`);
+      return await this.getCartSummary(userId);
+    } catch (error) {
+      this.logger.error('Error accepting cart changes:', error);
+      throw error;
+    }
+  }
+
+  async applyCoupon(userId: string, code: string): Promise<CartSummary> {
+    try {
+      const cart = await this.getCartByUserId(userId);
+
+      if (cart.isEmpty()) {
+        throw CartError.validation('Cannot apply a coupon to an empty cart');
+      }
+
+      // Redemptions are tracked per account
+      if (this.isGuestCart(userId)) {
+        throw CartError.businessLogic('Sign in to use a coupon');
+      }
+
+      // Rejects codes that do not apply to the current cart contents
+      const evaluation = await this.couponService.evaluateCoupon(code, userId, await this.buildDiscountableLines(cart));
+
+      cart.applyCoupon(evaluation.coupon.code);
+      await this.saveCart(cart);
+
+      this.logger.info(`Coupon ${evaluation.coupon.code} applied to cart for user: ${userId}`);
+      return await this.getCartSummary(userId);
+    } catch (error) {
+      this.logger.error('Error applying coupon:', error);
+      throw error;
+    }
+  }
+
+  async removeCoupon(userId: string): Promise<CartSummary> {
+    try {
+      const cart = await this.getCartByUserId(userId);
+
+      cart.removeCoupon();
+      await this.saveCart(cart);
+
+      this.logger.info(`Coupon removed from cart for user: ${userId}`);
+      return await this.getCartSummary(userId);
+    } catch (error) {
+      this.logger.error('Error removing coupon:', error);
+      throw error;
+    }
+  }
+
   async validateCartForCheckout(userId: string): Promise<{ isValid: boolean; errors: string[] }> {
     try {
       const cart = await this.getCartByUserId(userId);
@@ -287,21 +561,26 @@ export class CartService {
           continue;
         }
 
-        if (!product.isActive) {
-          errors.push(`Product ${product.name} is no longer available`);
+        const sellable = this.findSellable(product, item.variantId);
+        const name = this.lineName(product.name, sellable?.variantName ?? null);
+
+        if (!sellable || !sellable.isActive) {
+          errors.push(`Product ${name} is no longer available`);
           continue;
         }
 
-        if (!product.canFulfillQuantity(item.quantity)) {
+        // Units other carts are holding are not for sale; this cart's own hold is
+        const available = await this.stockHoldService.getAvailableStock(sellable, userId);
+        if (available < item.quantity) {
           errors.push(
-            `Insufficient stock for ${product.name}. Available: ${product.stock}, Requested: ${item.quantity}`
+            `Insufficient stock for ${name}. Available: ${available}, Requested: ${item.quantity}`
           );
         }
 
         // Check if price has changed
-        if (Math.abs(item.price - product.price) > 0.01) {
+        if (!item.price.equals(sellable.price)) {
           errors.push(
-            `Price has changed for ${product.name}. Current: $${product.price}, Cart: $${item.price}`
+            `Price has changed for ${name}. Current: ${sellable.price}, Cart: ${item.price}. Accept the new prices before checkout`
           );
         }
       }
@@ -323,16 +602,25 @@ export class CartService {
       for (const guestItem of guestCartItems) {
         // Validate product exists
         const product = await this.productRepository.findById(guestItem.productId);
-        if (!product || !product.isActive) {
+        const sellable = product ? this.findSellable(product, guestItem.variantId) : null;
+        if (!sellable || !sellable.isActive) {
           continue; // Skip invalid products
         }
 
         // Add to user cart (this will merge with existing items)
-        userCart.addItem(guestItem.productId, guestItem.quantity, product.price);
+        userCart.addItem(guestItem.productId, guestItem.quantity, sellable.price, sellable.variantId);
+
+        // A line that can't be held stays in the cart and is re-checked at checkout
+        const mergedQuantity = userCart.findItem(guestItem.productId, sellable.variantId)?.quantity ?? 0;
+        try {
+          await this.stockHoldService.holdStock(userId, sellable, mergedQuantity);
+        } catch (error) {
+          this.logger.warn(`Could not hold stock for merged item ${guestItem.productId}:`, error);
+        }
       }
 
       // Cache updated cart
-      await this.cacheCart(userCart);
+      await this.saveCart(userCart);
 
       this.logger.info(`Guest cart merged for user: ${userId}`);
       return userCart;
@@ -342,7 +630,178 @@ export class CartService {
     }
   }
 
+  // Moves a guest cart into the user's cart after login or registration, then empties the guest cart
+  async adoptGuestCart(userId: string, guestId: string): Promise<Cart> {
+    try {
+      const guestCartId = CartService.guestCartId(guestId);
+      const guestCart = await this.getCartByUserId(guestCartId);
+
+      if (guestCart.isEmpty()) {
+        return await this.getCartByUserId(userId);
+      }
+
+      // Free the guest's holds first so the merged lines can take them over
+      await this.stockHoldService.releaseHolds(guestCartId, guestCart.items.map(item => this.stockItemId(item)));
+
+      const cart = await this.mergeGuestCart(userId, guestCart.items);
+      await this.deleteCart(guestCartId);
+
+      this.logger.info(`Guest cart ${guestId} adopted by user: ${userId}`);
+      return cart;
+    } catch (error) {
+      this.logger.error('Error adopting guest cart:', error);
+      throw error;
+    }
+  }
+
+  // Walks the stored account carts that still hold items and were last changed before `idleSince`.
+  // Guest carts are left out: there is nobody to contact about them.
+  async *findIdleCarts(idleSince: Date): AsyncGenerator<Cart> {
+    let cursorId: string | null = null;
+
+    while (true) {
+      const batch: Cart[] = await this.cartRepository.findIdleSince(idleSince, cursorId, this.IDLE_SCAN_BATCH_SIZE);
+
+      for (const cart of batch) {
+        if (!this.isGuestCart(cart.userId)) {
+          yield cart;
+        }
+      }
+
+      if (batch.length < this.IDLE_SCAN_BATCH_SIZE) return;
+      cursorId = batch[batch.length - 1]!.id;
+    }
+  }
+
   // Private helper methods
+  private isGuestCart(cartId: string): boolean {
+    return cartId.startsWith(CartService.GUEST_CART_PREFIX);
+  }
+
+  // Stock holds are kept on the variant for variant lines, on the product otherwise
+  private stockItemId(item: { productId: string; variantId: string | null }): string {
+    return item.variantId ?? item.productId;
+  }
+
+  private getSellable(product: Product, variantId: string | null): Sellable {
+    try {
+      return product.getSellable(variantId);
+    } catch (error) {
+      throw CartError.validation(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // Same as getSellable, for lines that may point at a variant that has since been removed
+  private findSellable(product: Product, variantId: string | null): Sellable | null {
+    try {
+      return product.getSellable(variantId);
+    } catch {
+      return null;
+    }
+  }
+
+  private lineName(productName: string, variantName: string | null): string {
+    return variantName ? `${productName} (${variantName})` : productName;
+  }
+
+  private async reviewItems(cart: Cart): Promise<ReviewedCartItem[]> {
+    return Promise.all(
+      cart.items.map(async (item) => {
+        const product = await this.productRepository.findById(item.productId);
+        const sellable = product ? this.findSellable(product, item.variantId) : null;
+        const issues: CartItemIssue[] = [];
+        let availableStock = 0;
+
+        if (!sellable || !sellable.isActive) {
+          issues.push(CartItemIssue.PRODUCT_UNAVAILABLE);
+        } else {
+          if (sellable.price.greaterThan(item.price)) {
+            issues.push(CartItemIssue.PRICE_INCREASED);
+          } else if (sellable.price.lessThan(item.price)) {
+            issues.push(CartItemIssue.PRICE_DECREASED);
+          }
+
+          availableStock = await this.stockHoldService.getAvailableStock(sellable, cart.userId);
+          if (availableStock < item.quantity) {
+            issues.push(CartItemIssue.INSUFFICIENT_STOCK);
+          }
+        }
+
+        return {
+          productId: item.productId,
+          productName: product?.name || 'Unknown Product',
+          variantId: item.variantId,
+          variantName: sellable?.variantName ?? null,
+          categoryId: product?.categoryId || '',
+          quantity: item.quantity,
+          cartPrice: item.price,
+          currentPrice: sellable ? sellable.price : null,
+          availableStock,
+          issues,
+          sellable,
+        };
+      })
+    );
+  }
+
+  private async quoteShippingOptions(
+    cart: Cart,
+    shippingAddress: ShippingAddress,
+    netSubtotal: Money
+  ): Promise<ShippingOption[]> {
+    let totalWeight = 0;
+    for (const item of cart.items) {
+      const product = await this.productRepository.findById(item.productId);
+      totalWeight += (product?.weight || 0) * item.quantity;
+    }
+
+    return this.shippingService.getShippingOptions({
+      address: shippingAddress,
+      subtotal: netSubtotal,
+      totalWeight,
+      itemCount: cart.itemCount,
+    });
+  }
+
+  private async buildDiscountableLines(cart: Cart): Promise<DiscountableLine[]> {
+    return Promise.all(
+      cart.items.map(async (item) => {
+        const product = await this.productRepository.findById(item.productId);
+        return {
+          productId: item.productId,
+          variantId: item.variantId,
+          categoryId: product?.categoryId || '',
+          quantity: item.quantity,
+          unitPrice: item.price,
+          subtotal: item.subtotal,
+        };
+      })
+    );
+  }
+
+  // Write-through: the database first, then the cache
+  private async saveCart(cart: Cart): Promise<void> {
+    const saved = await this.cartRepository.save(cart);
+    cart.id = saved.id;
+    await this.cacheCart(cart);
+  }
+
+  private async deleteCart(userId: string): Promise<void> {
+    await this.cartRepository.delete(userId);
+    await this.clearCartCache(userId);
+  }
+
+  // A cache that can't be read behaves like a miss, so carts stay readable while Redis is down
+  private async getCachedCart(userId: string): Promise<Cart | null> {
+    try {
+      const cachedCart = await this.redis.get(`${this.CART_PREFIX}${userId}`);
+      return cachedCart ? new Cart(JSON.parse(cachedCart)) : null;
+    } catch (error) {
+      this.logger.warn('Error reading cart cache:', error);
+      return null;
+    }
+  }
+
   private async cacheCart(cart: Cart): Promise<void> {
     try {
       const cacheKey = `${this.CART_PREFIX}${cart.userId}`;
@@ -0,0 +1,195 @@
+import { ICategoryRepository } from '@/business/interfaces/ICategoryRepository';
+import { Category } from '@/business/domain/Category';
+import { AppError } from '@/shared/errors/AppError';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface CategoryTreeNode {
+  id: string;
+  name: string;
+  slug: string;
+  description: string;
+  parentId: string | null;
+  sortOrder: number;
+  isActive: boolean;
+  children: CategoryTreeNode[];
+}
+
+export class CategoryService {
+  private logger = new Logger('CategoryService');
+
+  constructor(private categoryRepository: ICategoryRepository) {}
+
+  // Inactive categories are left out together with everything below them, unless asked for
+  async getCategoryTree(includeInactive: boolean = false): Promise<CategoryTreeNode[]> {
+    try {
+      const categories = await this.categoryRepository.findAll();
+      return this.buildTree(categories, null, includeInactive);
+    } catch (error) {
+      this.logger.error('Error getting category tree:', error);
+      throw error;
+    }
+  }
+
+  async getCategoryById(id: string, includeInactive: boolean = false): Promise<CategoryTreeNode | null> {
+    try {
+      const categories = await this.categoryRepository.findAll();
+      const category = categories.find(c => c.id === id);
+      if (!category) return null;
+
+      return this.toNode(category, this.buildTree(categories, id, includeInactive));
+    } catch (error) {
+      this.logger.error('Error getting category by ID:', error);
+      throw error;
+    }
+  }
+
+  // The category itself followed by its active descendants, for listings that span a subtree
+  async getDescendantIds(id: string): Promise<string[]> {
+    try {
+      const categories = await this.categoryRepository.findAll();
+      if (!categories.some(c => c.id === id)) {
+        throw AppError.notFound('Category not found');
+      }
+
+      const ids = [id];
+      for (let i = 0; i < ids.length; i++) {
+        for (const child of categories) {
+          if (child.parentId === ids[i] && child.isActive) {
+            ids.push(child.id);
+          }
+        }
+      }
+
+      return ids;
+    } catch (error) {
+      this.logger.error('Error getting category descendants:', error);
+      throw error;
+    }
+  }
+
+  async createCategory(categoryData: Partial<Category>): Promise<Category> {
+    try {
+      const category = new Category(categoryData);
+      const validationErrors = category.validate();
+
+      if (validationErrors.length > 0) {
+        throw AppError.validation(`Validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      const existingCategory = await this.categoryRepository.findBySlug(category.slug);
+      if (existingCategory) {
+        throw AppError.conflict('Category with this slug already exists');
+      }
+
+      if (category.parentId && !(await this.categoryRepository.findById(category.parentId))) {
+        throw AppError.validation('Validation failed: Parent category does not exist');
+      }
+
+      const createdCategory = await this.categoryRepository.create(category);
+
+      this.logger.info(`Category created: ${createdCategory.slug} (ID: ${createdCategory.id})`);
+      return createdCategory;
+    } catch (error) {
+      this.logger.error('Error creating category:', error);
+      throw error;
+    }
+  }
+
+  async updateCategory(id: string, categoryData: Partial<Category>): Promise<Category> {
+    try {
+      const existingCategory = await this.categoryRepository.findById(id);
+      if (!existingCategory) {
+        throw AppError.notFound('Category not found');
+      }
+
+      const merged = new Category({ ...existingCategory, ...categoryData, id });
+      const validationErrors = merged.validate();
+      if (validationErrors.length > 0) {
+        throw AppError.validation(`Validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      if (categoryData.slug && categoryData.slug !== existingCategory.slug) {
+        const categoryWithSlug = await this.categoryRepository.findBySlug(categoryData.slug);
+        if (categoryWithSlug && categoryWithSlug.id !== id) {
+          throw AppError.conflict('Category with this slug already exists');
+        }
+      }
+
+      if (merged.parentId && merged.parentId !== existingCategory.parentId) {
+        await this.assertValidParent(id, merged.parentId);
+      }
+
+      const updatedCategory = await this.categoryRepository.update(id, categoryData);
+
+      this.logger.info(`Category updated: ${updatedCategory.slug} (ID: ${id})`);
+      return updatedCategory;
+    } catch (error) {
+      this.logger.error('Error updating category:', error);
+      throw error;
+    }
+  }
+
+  // Products and child categories must be moved first; deactivate the category to hide it instead
+  async deleteCategory(id: string): Promise<void> {
+    try {
+      const existingCategory = await this.categoryRepository.findById(id);
+      if (!existingCategory) {
+        throw AppError.notFound('Category not found');
+      }
+
+      const [childCount, productCount] = await Promise.all([
+        this.categoryRepository.countChildren(id),
+        this.categoryRepository.countProducts(id),
+      ]);
+
+      if (childCount > 0 || productCount > 0) {
+        throw AppError.businessLogic(
+          `Category has ${childCount} subcategories and ${productCount} products and cannot be deleted`
+        );
+      }
+
+      await this.categoryRepository.delete(id);
+
+      this.logger.info(`Category deleted: ${existingCategory.slug} (ID: ${id})`);
+    } catch (error) {
+      this.logger.error('Error deleting category:', error);
+      throw error;
+    }
+  }
+
+  // Moving a category under itself or one of its descendants would cut the subtree off the tree
+  private async assertValidParent(id: string, parentId: string): Promise<void> {
+    const categories = await this.categoryRepository.findAll();
+    const byId = new Map(categories.map(c => [c.id, c]));
+
+    if (!byId.has(parentId)) {
+      throw AppError.validation('Validation failed: Parent category does not exist');
+    }
+
+    for (let current = byId.get(parentId); current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+      if (current.id === id) {
+        throw AppError.validation('Validation failed: Category cannot be moved under one of its descendants');
+      }
+    }
+  }
+
+  // Categories arrive ordered by sortOrder and name, so siblings keep that order
+  private buildTree(categories: Category[], parentId: string | null, includeInactive: boolean): CategoryTreeNode[] {
+    return categories
+      .filter(c => c.parentId === parentId && (includeInactive || c.isActive))
+      .map(c => this.toNode(c, this.buildTree(categories, c.id, includeInactive)));
+  }
+
+  private toNode(category: Category, children: CategoryTreeNode[]): CategoryTreeNode {
+    return {
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+      description: category.description,
+      parentId: category.parentId,
+      sortOrder: category.sortOrder,
+      isActive: category.isActive,
+      children,
+    };
+  }
+}
@@ -0,0 +1,161 @@
+import { ICouponRepository } from '@/business/interfaces/ICouponRepository';
+import { Coupon, DiscountableLine, LineDiscount } from '@/business/domain/Coupon';
+import { Money } from '@/business/domain/Money';
+import { AppError } from '@/shared/errors/AppError';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface CouponEvaluation {
+  coupon: Coupon;
+  discount: Money;
+  lineDiscounts: LineDiscount[];
+}
+
+export class CouponService {
+  private logger = new Logger('CouponService');
+
+  constructor(private couponRepository: ICouponRepository) {}
+
+  async createCoupon(couponData: Partial<Coupon>): Promise<Coupon> {
+    try {
+      const coupon = new Coupon(couponData);
+      const validationErrors = coupon.validate();
+
+      if (validationErrors.length > 0) {
+        throw AppError.validation(`Validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      const existingCoupon = await this.couponRepository.findByCode(coupon.code);
+      if (existingCoupon) {
+        throw AppError.conflict('Coupon with this code already exists');
+      }
+
+      const createdCoupon = await this.couponRepository.create(coupon);
+
+      this.logger.info(`Coupon created: ${createdCoupon.code} (${createdCoupon.type})`);
+      return createdCoupon;
+    } catch (error) {
+      this.logger.error('Error creating coupon:', error);
+      throw error;
+    }
+  }
+
+  async getCouponById(id: string): Promise<Coupon | null> {
+    try {
+      return await this.couponRepository.findById(id);
+    } catch (error) {
+      this.logger.error('Error getting coupon by ID:', error);
+      throw error;
+    }
+  }
+
+  async getAllCoupons(page: number = 1, limit: number = 10): Promise<{ coupons: Coupon[]; total: number }> {
+    try {
+      const [coupons, total] = await Promise.all([
+        this.couponRepository.findAll(page, limit),
+        this.couponRepository.count(),
+      ]);
+
+      return { coupons, total };
+    } catch (error) {
+      this.logger.error('Error getting all coupons:', error);
+      throw error;
+    }
+  }
+
+  async updateCoupon(id: string, couponData: Partial<Coupon>): Promise<Coupon> {
+    try {
+      const existingCoupon = await this.couponRepository.findById(id);
+      if (!existingCoupon) {
+        throw AppError.notFound('Coupon not found');
+      }
+
+      // The code is what customers type in, so it is immutable once created
+      const { code: _code, usesCount: _usesCount, ...changes } = couponData;
+
+      const merged = new Coupon({ ...existingCoupon, ...changes });
+      const validationErrors = merged.validate();
+      if (validationErrors.length > 0) {
+        throw AppError.validation(`Validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      const updatedCoupon = await this.couponRepository.update(id, changes);
+
+      this.logger.info(`Coupon updated: ${updatedCoupon.code} (ID: ${id})`);
+      return updatedCoupon;
+    } catch (error) {
+      this.logger.error('Error updating coupon:', error);
+      throw error;
+    }
+  }
+
+  async deleteCoupon(id: string): Promise<void> {
+    try {
+      const existingCoupon = await this.couponRepository.findById(id);
+      if (!existingCoupon) {
+        throw AppError.notFound('Coupon not found');
+      }
+
+      // Redeemed coupons are referenced by orders; deactivate them instead
+      if (existingCoupon.usesCount > 0) {
+        throw AppError.businessLogic('Coupon has already been redeemed and cannot be deleted; deactivate it instead');
+      }
+
+      await this.couponRepository.delete(id);
+
+      this.logger.info(`Coupon deleted: ${existingCoupon.code} (ID: ${id})`);
+    } catch (error) {
+      this.logger.error('Error deleting coupon:', error);
+      throw error;
+    }
+  }
+
+  // Checks every rule for the given lines and returns the discount split per line
+  async evaluateCoupon(code: string, userId: string, lines: DiscountableLine[]): Promise<CouponEvaluation> {
+    try {
+      const coupon = await this.couponRepository.findByCode(code);
+      if (!coupon) {
+        throw AppError.validation('Invalid coupon code');
+      }
+
+      const userRedemptions = coupon.maxUsesPerUser !== null
+        ? await this.couponRepository.countRedemptionsByUser(coupon.id, userId)
+        : 0;
+
+      const reason = coupon.getIneligibilityReason(lines, userRedemptions);
+      if (reason) {
+        throw AppError.validation(reason);
+      }
+
+      const lineDiscounts = coupon.calculateLineDiscounts(lines);
+      const discount = coupon.calculateDiscount(lines);
+
+      return { coupon, discount, lineDiscounts };
+    } catch (error) {
+      this.logger.error('Error evaluating coupon:', error);
+      throw error;
+    }
+  }
+
+  // Recomputes the discount of a coupon an order has already redeemed; validity window and usage limits were settled at checkout
+  async reevaluateRedeemedCoupon(code: string, lines: DiscountableLine[]): Promise<CouponEvaluation> {
+    try {
+      const coupon = await this.couponRepository.findByCode(code);
+      if (!coupon) {
+        throw AppError.validation('Invalid coupon code');
+      }
+
+      const reason = coupon.getLineIneligibilityReason(lines);
+      if (reason) {
+        throw AppError.validation(`Coupon ${coupon.code} would no longer apply: ${reason}`);
+      }
+
+      const lineDiscounts = coupon.calculateLineDiscounts(lines);
+      const discount = coupon.calculateDiscount(lines);
+
+      return { coupon, discount, lineDiscounts };
+    } catch (error) {
+      this.logger.error('Error re-evaluating coupon:', error);
+      throw error;
+    }
+  }
+}
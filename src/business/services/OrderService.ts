@@ -1,9 +1,26 @@
 import { RedisClientType } from 'redis';
-import { IOrderRepository } from '@/business/interfaces/IOrderRepository';
+import { IOrderRepository, OrderSearchCriteria, StockDeltas } from '@/business/interfaces/IOrderRepository';
 import { IProductRepository } from '@/business/interfaces/IProductRepository';
 import { IUserRepository } from '@/business/interfaces/IUserRepository';
-import { Order, OrderStatus, PaymentStatus, OrderItem, ShippingAddress } from '@/business/domain/Order';
+import { IOrderNumberGenerator } from '@/business/interfaces/IOrderNumberGenerator';
+import {
+  Order,
+  OrderStatus,
+  PaymentStatus,
+  OrderItem,
+  ShippingAddress,
+  OrderStatusChange,
+  NewOrderStatusChange,
+  StatusChangeType,
+} from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
+import { Product, Sellable } from '@/business/domain/Product';
 import { Cart } from '@/business/domain/Cart';
+import { CartService } from '@/business/services/CartService';
+import { TaxService } from '@/business/services/TaxService';
+import { ShippingService } from '@/business/services/ShippingService';
+import { CouponService } from '@/business/services/CouponService';
+import { StockHoldService } from '@/business/services/StockHoldService';
 import { Logger } from '@/shared/utils/Logger';
 
 // Temporary error classes until AppError is implemented
@@ -30,22 +47,63 @@ class OrderError extends Error {
   }
 }
 
+export interface GuestCheckout {
+  guestId: string;
+  email: string;
+}
+
 export interface CreateOrderRequest {
-  userId: string;
+  userId: string | null; // null together with `guest` for guest checkouts
+  guest?: GuestCheckout;
   cartItems: Array<{
     productId: string;
+    variantId?: string | null;
     quantity: number;
   }>;
   shippingAddress: ShippingAddress;
+  shippingMethod?: string;
+  couponCode?: string;
 }
 
 export interface OrderSummary {
   totalOrders: number;
-  totalRevenue: number;
-  averageOrderValue: number;
+  totalRevenue: Money;
+  averageOrderValue: Money;
   ordersByStatus: Record<OrderStatus, number>;
 }
 
+export interface ReorderLine {
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  requested: number;
+  added: number;
+  reason?: string; // why the line was skipped or reduced
+}
+
+export interface ReorderPriceChange {
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  previousPrice: Money;
+  currentPrice: Money;
+}
+
+export interface ReorderResult {
+  cart: Cart;
+  added: ReorderLine[];
+  reduced: ReorderLine[];
+  skipped: ReorderLine[];
+  priceChanges: ReorderPriceChange[];
+}
+
+export interface OrderExpiryResult {
+  cutoff: Date;
+  expired: string[];
+  skipped: string[];
+  failed: Array<{ orderId: string; orderNumber: string; error: string }>;
+}
+
 export class OrderService {
   private logger = new Logger('OrderService');
   private readonly CACHE_TTL = 300; // 5 minutes
@@ -54,21 +112,34 @@ export class OrderService {
     private orderRepository: IOrderRepository,
     private productRepository: IProductRepository,
     private userRepository: IUserRepository,
+    private cartService: CartService,
+    private taxService: TaxService,
+    private shippingService: ShippingService,
+    private couponService: CouponService,
+    private stockHoldService: StockHoldService,
+    private orderNumberGenerator: IOrderNumberGenerator,
     private redis: RedisClientType
   ) {}
 
   async createOrder(request: CreateOrderRequest): Promise<Order> {
     try {
-      this.logger.info(`Creating order for user: ${request.userId}`);
+      this.logger.info(`Creating order for ${request.userId ? `user: ${request.userId}` : `guest: ${request.guest?.guestId}`}`);
 
-      // Validate user exists
-      const user = await this.userRepository.findById(request.userId);
-      if (!user) {
-        throw OrderError.notFound('User not found');
-      }
+      if (request.userId) {
+        // Validate user exists
+        const user = await this.userRepository.findById(request.userId);
+        if (!user) {
+          throw OrderError.notFound('User not found');
+        }
 
-      if (!user.isActive) {
-        throw OrderError.businessLogic('User account is inactive');
+        if (!user.isActive) {
+          throw OrderError.businessLogic('User account is inactive');
+        }
+      } else if (!request.guest) {
+        throw OrderError.validation('Order requires a user or guest details');
+      } else if (request.couponCode) {
+        // Coupon redemptions are tracked per account
+        throw OrderError.businessLogic('Sign in to use a coupon');
       }
 
       // Validate cart items
@@ -76,9 +147,13 @@ export class OrderService {
         throw OrderError.validation('Order must contain at least one item');
       }
 
+      // The buyer's own cart holds stay available to them, also when ordering directly
+      const holdCartId = request.userId ?? CartService.guestCartId(request.guest!.guestId);
+
       // Validate and prepare order items
       const orderItems: OrderItem[] = [];
-      let subtotal = 0;
+      const categoryIds: string[] = [];
+      let totalWeight = 0;
 
       for (const cartItem of request.cartItems) {
         if (cartItem.quantity <= 0) {
@@ -91,14 +166,16 @@ export class OrderService {
           throw OrderError.notFound(`Product ${cartItem.productId} not found`);
         }
 
-        if (!product.isActive) {
+        const sellable = this.getSellable(product, cartItem.variantId ?? null);
+        if (!sellable.isActive) {
           throw OrderError.businessLogic(`Product ${product.name} is not available`);
         }
 
-        // Check stock availability
-        if (!product.canFulfillQuantity(cartItem.quantity)) {
+        // Check stock availability, leaving out units other carts are holding
+        const available = await this.stockHoldService.getAvailableStock(sellable, holdCartId);
+        if (available < cartItem.quantity) {
           throw OrderError.businessLogic(
-            `Insufficient stock for product ${product.name}. Available: ${product.stock}, Requested: ${cartItem.quantity}`
+            `Insufficient stock for product ${product.name}. Available: ${available}, Requested: ${cartItem.quantity}`
           );
         }
 
@@ -107,34 +184,87 @@ export class OrderService {
           id: Math.random().toString(36).substring(2, 15),
           productId: product.id,
           productName: product.name,
+          variantId: sellable.variantId,
+          variantName: sellable.variantName,
           quantity: cartItem.quantity,
-          unitPrice: product.price,
-          subtotal: product.price * cartItem.quantity,
+          unitPrice: sellable.price,
+          subtotal: sellable.price.multiply(cartItem.quantity),
+          taxRate: 0,
+          taxAmount: Money.zero(product.price.currency),
+          taxRuleId: null,
+          discountAmount: Money.zero(product.price.currency),
         };
 
         orderItems.push(orderItem);
-        subtotal += orderItem.subtotal;
+        categoryIds.push(product.categoryId);
+        totalWeight += product.weight * cartItem.quantity;
       }
 
-      // Calculate totals
-      const taxes = subtotal * 0.1; // 10% tax
-      const shipping = subtotal > 100 ? 0 : 10; // Free shipping over $100
-      const total = subtotal + taxes + shipping;
+      // Apply the coupon first so taxes and shipping are based on discounted amounts
+      let couponCode: string | null = null;
+      if (request.couponCode) {
+        const evaluation = await this.couponService.evaluateCoupon(
+          request.couponCode,
+          request.userId!,
+          orderItems.map((item, index) => ({
+            productId: item.productId,
+            variantId: item.variantId,
+            categoryId: categoryIds[index]!,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            subtotal: item.subtotal,
+          }))
+        );
+
+        for (const lineDiscount of evaluation.lineDiscounts) {
+          const item = orderItems.find(orderItem => this.isSameLine(orderItem, lineDiscount));
+          if (item) item.discountAmount = lineDiscount.amount;
+        }
+        couponCode = evaluation.coupon.code;
+      }
+
+      // Apply per-line taxes for the destination address
+      const lineTaxes = await this.taxService.calculateLineTaxes(
+        request.shippingAddress,
+        orderItems.map((item, index) => ({
+          categoryId: categoryIds[index]!,
+          amount: item.subtotal.subtract(item.discountAmount),
+        }))
+      );
+      orderItems.forEach((item, index) => Object.assign(item, lineTaxes[index]));
+
+      // Quote shipping and lock in the customer's chosen option
+      const shippingOption = this.shippingService.selectShippingOption(
+        {
+          address: request.shippingAddress,
+          subtotal: Money.sum(orderItems.map(item => item.subtotal.subtract(item.discountAmount))),
+          totalWeight,
+          itemCount: orderItems.reduce((sum, item) => sum + item.quantity, 0),
+        },
+        request.shippingMethod
+      );
 
       // Create order
       const orderData: Partial<Order> = {
         userId: request.userId,
+        guestId: request.guest?.guestId ?? null,
+        guestEmail: request.guest?.email ?? null,
+        orderNumber: await this.orderNumberGenerator.next(),
         items: orderItems,
-        subtotal,
-        shipping,
-        taxes,
-        total,
+        shipping: shippingOption.price,
+        shippingOption: {
+          method: shippingOption.method,
+          name: shippingOption.name,
+          estimatedDays: shippingOption.estimatedDays,
+        },
+        couponCode,
         status: OrderStatus.PENDING,
         paymentStatus: PaymentStatus.PENDING,
         shippingAddress: request.shippingAddress,
       };
 
       const order = new Order(orderData);
+      order.calculateTotals();
 
       // Validate order
       const validationErrors = order.validate();
@@ -142,17 +272,8 @@ export class OrderService {
         throw OrderError.validation(`Order validation failed: ${validationErrors.join(', ')}`);
       }
 
-      // Save order
-      const createdOrder = await this.orderRepository.create(order);
-
-      // Reserve stock (reduce product stock)
-      for (const orderItem of orderItems) {
-        const product = await this.productRepository.findById(orderItem.productId);
-        if (product) {
-          product.reduceStock(orderItem.quantity);
-          await this.productRepository.update(product.id, product);
-        }
-      }
+      // Save order and reserve stock atomically (aborts on any shortfall)
+      const createdOrder = await this.orderRepository.createWithStockReservation(order);
 
       // Clear cache
       await this.clearOrdersCache();
@@ -232,13 +353,20 @@ export class OrderService {
     }
   }
 
-  async updateOrderStatus(id: string, status: OrderStatus): Promise<Order> {
+  async updateOrderStatus(id: string, status: OrderStatus, actorId?: string, reason?: string): Promise<Order> {
     try {
       const order = await this.getOrderById(id);
       if (!order) {
         throw OrderError.notFound('Order not found');
       }
 
+      // Cancelling also releases stock, which cancelOrder does atomically
+      if (status === OrderStatus.CANCELLED) {
+        return await this.cancelOrder(id, reason, actorId);
+      }
+
+      const previous = { status: order.status, paymentStatus: order.paymentStatus };
+
       // Apply business logic based on status transition
       switch (status) {
         case OrderStatus.CONFIRMED:
@@ -253,17 +381,16 @@ export class OrderService {
         case OrderStatus.DELIVERED:
           order.deliver();
           break;
-        case OrderStatus.CANCELLED:
-          order.cancel();
-          // Restore stock
-          await this.restoreStock(order);
-          break;
         default:
           throw OrderError.validation(`Invalid status transition: ${status}`);
       }
 
       // Update order
-      const updatedOrder = await this.orderRepository.update(id, order);
+      const updatedOrder = await this.orderRepository.update(
+        id,
+        order,
+        this.collectStatusChanges(previous, order, actorId, reason)
+      );
 
       // Clear cache
       await this.clearOrderCache(id);
@@ -277,13 +404,20 @@ export class OrderService {
     }
   }
 
-  async updatePaymentStatus(id: string, paymentStatus: PaymentStatus): Promise<Order> {
+  async updatePaymentStatus(
+    id: string,
+    paymentStatus: PaymentStatus,
+    actorId?: string,
+    reason?: string
+  ): Promise<Order> {
     try {
       const order = await this.getOrderById(id);
       if (!order) {
         throw OrderError.notFound('Order not found');
       }
 
+      const previous = { status: order.status, paymentStatus: order.paymentStatus };
+
       // Apply business logic based on payment status
       switch (paymentStatus) {
         case PaymentStatus.PAID:
@@ -306,7 +440,11 @@ export class OrderService {
       }
 
       // Update order
-      const updatedOrder = await this.orderRepository.update(id, order);
+      const updatedOrder = await this.orderRepository.update(
+        id,
+        order,
+        this.collectStatusChanges(previous, order, actorId, reason)
+      );
 
       // Clear cache
       await this.clearOrderCache(id);
@@ -320,7 +458,134 @@ export class OrderService {
     }
   }
 
-  async cancelOrder(id: string, reason?: string): Promise<Order> {
+  // Sets a partial refund aside on the order before the payment gateway is asked to send it
+  async reserveRefund(id: string, amount: Money): Promise<Order> {
+    try {
+      if (!amount.isPositive()) {
+        throw OrderError.validation('Refund amount must be positive');
+      }
+
+      const reserved = await this.orderRepository.reserveRefund(id, amount);
+      await this.clearOrderCache(id);
+
+      if (reserved) {
+        return reserved;
+      }
+
+      const order = await this.orderRepository.findById(id);
+      if (!order) {
+        throw OrderError.notFound('Order not found');
+      }
+
+      if (order.paymentStatus !== PaymentStatus.PAID) {
+        throw OrderError.businessLogic('Only paid orders can be refunded');
+      }
+
+      throw OrderError.validation(
+        `Refund amount must be between 0.01 and ${order.getRefundableAmount().toDecimal().toFixed(2)}`
+      );
+    } catch (error) {
+      this.logger.error('Error reserving refund:', error);
+      throw error;
+    }
+  }
+
+  // Undoes reserveRefund when the payment gateway did not send the refund
+  async releaseRefund(id: string, amount: Money): Promise<void> {
+    try {
+      await this.orderRepository.releaseRefund(id, amount);
+      await this.clearOrderCache(id);
+    } catch (error) {
+      this.logger.error('Error releasing refund:', error);
+      throw error;
+    }
+  }
+
+  // Completes a refund reserved with reserveRefund once the payment gateway has processed it
+  async recordRefund(id: string, amount: Money, actorId?: string, reason?: string): Promise<Order> {
+    try {
+      // Read past the cache: refundedTotal already includes this and any concurrent reservation
+      const order = await this.orderRepository.findById(id);
+      if (!order) {
+        throw OrderError.notFound('Order not found');
+      }
+
+      const previous = { status: order.status, paymentStatus: order.paymentStatus };
+
+      order.settleRefunds();
+
+      // refundedTotal is left out so this write cannot undo a reservation made meanwhile
+      const updatedOrder = await this.orderRepository.update(
+        id,
+        { status: order.status, paymentStatus: order.paymentStatus },
+        this.collectStatusChanges(previous, order, actorId, reason)
+      );
+
+      // Clear cache
+      await this.clearOrderCache(id);
+      await this.clearOrdersCache();
+
+      this.logger.info(`Refund recorded: ${order.orderNumber} -> ${amount} (refunded total: ${order.refundedTotal})`);
+      return updatedOrder;
+    } catch (error) {
+      this.logger.error('Error recording refund:', error);
+      throw error;
+    }
+  }
+
+  // Derives the order status from how many units of each item have shipped and been delivered
+  async applyShipmentProgress(
+    id: string,
+    shipped: Record<string, number>,
+    delivered: Record<string, number>,
+    actorId?: string,
+    reason?: string
+  ): Promise<Order> {
+    try {
+      const order = await this.getOrderById(id);
+      if (!order) {
+        throw OrderError.notFound('Order not found');
+      }
+
+      const previous = { status: order.status, paymentStatus: order.paymentStatus };
+
+      order.applyShipmentCoverage(shipped, delivered);
+
+      const updatedOrder = await this.orderRepository.update(
+        id,
+        order,
+        this.collectStatusChanges(previous, order, actorId, reason)
+      );
+
+      // Clear cache
+      await this.clearOrderCache(id);
+      await this.clearOrdersCache();
+
+      this.logger.info(`Shipment progress applied: ${order.orderNumber} -> ${order.status}`);
+      return updatedOrder;
+    } catch (error) {
+      this.logger.error('Error applying shipment progress:', error);
+      throw error;
+    }
+  }
+
+  async attachPaymentIntent(id: string, paymentIntentId: string): Promise<Order> {
+    try {
+      const updatedOrder = await this.orderRepository.update(id, { paymentIntentId });
+
+      // Clear cache
+      await this.clearOrderCache(id);
+      await this.clearOrdersCache();
+
+      this.logger.info(`Payment intent attached: ${updatedOrder.orderNumber} -> ${paymentIntentId}`);
+      return updatedOrder;
+    } catch (error) {
+      this.logger.error('Error attaching payment intent:', error);
+      throw error;
+    }
+  }
+
+  async cancelOrder(id: string, reason?: string, actorId?: string): Promise<Order> {
     try {
       const order = await this.getOrderById(id);
       if (!order) {
@@ -331,17 +596,25 @@ export class OrderService {
         throw OrderError.businessLogic('Order cannot be cancelled in its current status');
       }
 
+      const previous = { status: order.status, paymentStatus: order.paymentStatus };
+
       // Cancel order
       order.cancel();
 
-      // Restore stock
-      await this.restoreStock(order);
-
-      // Update order
-      const updatedOrder = await this.orderRepository.update(id, order);
+      // Status change and stock release commit together, and only if the order was not changed meanwhile
+      const updatedOrder = await this.orderRepository.cancelWithStockRelease(
+        order,
+        previous,
+        this.collectStatusChanges(previous, order, actorId, reason)
+      );
 
       // Clear cache
       await this.clearOrderCache(id);
+
+      if (!updatedOrder) {
+        throw OrderError.businessLogic('Order was changed by another request; reload it and try again');
+      }
+
       await this.clearOrdersCache();
 
       this.logger.info(`Order cancelled: ${order.orderNumber}${reason ? ` - Reason: ${reason}` : ''}`);
@@ -352,6 +625,20 @@ export class OrderService {
     }
   }
 
+  async getOrderTimeline(id: string): Promise<OrderStatusChange[]> {
+    try {
+      const exists = await this.orderRepository.exists(id);
+      if (!exists) {
+        throw OrderError.notFound('Order not found');
+      }
+
+      return await this.orderRepository.findStatusHistory(id);
+    } catch (error) {
+      this.logger.error('Error getting order timeline:', error);
+      throw error;
+    }
+  }
+
   async getOrdersByStatus(status: OrderStatus, page: number = 1, limit: number = 10): Promise<Order[]> {
     try {
       // Try cache first
@@ -386,7 +673,12 @@ export class OrderService {
       
       if (cachedSummary) {
         this.logger.debug('Order summary found in cache');
-        return JSON.parse(cachedSummary);
+        const parsed = JSON.parse(cachedSummary);
+        return {
+          ...parsed,
+          totalRevenue: Money.from(parsed.totalRevenue),
+          averageOrderValue: Money.from(parsed.averageOrderValue),
+        };
       }
 
       // Get summary from database
@@ -403,21 +695,401 @@ export class OrderService {
     }
   }
 
-  async createOrderFromCart(userId: string, cartId: string, shippingAddress: ShippingAddress): Promise<Order> {
+  async addOrderItem(id: string, productId: string, quantity: number, variantId: string | null = null): Promise<Order> {
+    return this.editOrderItems(id, async order => {
+      const product = await this.productRepository.findById(productId);
+      if (!product) {
+        throw OrderError.notFound(`Product ${productId} not found`);
+      }
+
+      const sellable = this.getSellable(product, variantId);
+      if (!sellable.isActive) {
+        throw OrderError.businessLogic(`Product ${product.name} is not available`);
+      }
+
+      order.addItem(product.id, product.name, quantity, sellable.price, sellable.variantId, sellable.variantName);
+    });
+  }
+
+  async updateOrderItemQuantity(id: string, itemId: string, quantity: number): Promise<Order> {
+    return this.editOrderItems(id, async order => order.changeItemQuantity(itemId, quantity));
+  }
+
+  async removeOrderItem(id: string, itemId: string): Promise<Order> {
+    return this.editOrderItems(id, async order => order.removeItem(itemId));
+  }
+
+  // Copies the items of a past order into the user's cart, limited by what can be bought today
+  async reorder(order: Order, userId: string): Promise<ReorderResult> {
+    try {
+      const result: Omit<ReorderResult, 'cart'> = { added: [], reduced: [], skipped: [], priceChanges: [] };
+
+      // The same product or variant may appear on several lines; reorder it as one
+      const lines = new Map<string, OrderItem>();
+      order.items.forEach(item => {
+        const key = item.variantId ?? item.productId;
+        const line = lines.get(key);
+        lines.set(key, line ? { ...line, quantity: line.quantity + item.quantity } : { ...item });
+      });
+
+      const cart = await this.cartService.getCartByUserId(userId);
+
+      for (const item of lines.values()) {
+        const line: ReorderLine = {
+          productId: item.productId,
+          variantId: item.variantId,
+          productName: item.variantName ? `${item.productName} (${item.variantName})` : item.productName,
+          requested: item.quantity,
+          added: 0,
+        };
+
+        const product = await this.productRepository.findById(item.productId);
+        const sellable = product ? this.findSellable(product, item.variantId) : null;
+        if (!product || !sellable || !sellable.isActive) {
+          result.skipped.push({ ...line, reason: 'Product is no longer available' });
+          continue;
+        }
+
+        const inCart = cart.findItem(item.productId, item.variantId)?.quantity || 0;
+        const available = Math.max(await this.stockHoldService.getAvailableStock(sellable, userId) - inCart, 0);
+        if (available === 0) {
+          result.skipped.push({ ...line, reason: inCart > 0 ? 'Available stock is already in your cart' : 'Out of stock' });
+          continue;
+        }
+
+        line.added = Math.min(item.quantity, available);
+        try {
+          await this.cartService.addItemToCart(userId, item.productId, line.added, item.variantId);
+        } catch (error) {
+          // Stock can move between the check above and the cart write
+          result.skipped.push({ ...line, added: 0, reason: error instanceof Error ? error.message : String(error) });
+          continue;
+        }
+
+        if (line.added < item.quantity) {
+          result.reduced.push({ ...line, reason: `Only ${line.added} more available` });
+        } else {
+          result.added.push(line);
+        }
+
+        if (!sellable.price.equals(item.unitPrice)) {
+          result.priceChanges.push({
+            productId: item.productId,
+            variantId: item.variantId,
+            productName: line.productName,
+            previousPrice: item.unitPrice,
+            currentPrice: sellable.price,
+          });
+        }
+      }
+
+      this.logger.info(
+        `Reorder of ${order.orderNumber} by ${userId}: ${result.added.length} added, ` +
+        `${result.reduced.length} reduced, ${result.skipped.length} skipped`
+      );
+      return { cart: await this.cartService.getCartByUserId(userId), ...result };
+    } catch (error) {
+      this.logger.error('Error reordering:', error);
+      throw error;
+    }
+  }
+
+  async searchOrders(
+    criteria: OrderSearchCriteria,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{ orders: Order[]; total: number }> {
     try {
-      // This method would integrate with CartService
-      // For now, throwing not implemented error
-      throw OrderError.internal('Cart integration not implemented yet');
+      const [orders, total] = await Promise.all([
+        this.orderRepository.search(criteria, page, limit),
+        this.orderRepository.countSearch(criteria),
+      ]);
+
+      return { orders, total };
+    } catch (error) {
+      this.logger.error('Error searching orders:', error);
+      throw error;
+    }
+  }
+
+  // Yields every matching order batch by batch so exports never hold the full result in memory
+  async *streamSearchResults(criteria: OrderSearchCriteria, batchSize: number = 200): AsyncGenerator<Order[]> {
+    let cursorId: string | null = null;
+
+    while (true) {
+      const batch: Order[] = await this.orderRepository.searchAfter(criteria, cursorId, batchSize);
+      if (batch.length === 0) return;
+
+      yield batch;
+
+      if (batch.length < batchSize) return;
+      cursorId = batch[batch.length - 1]!.id;
+    }
+  }
+
+  // Unpaid PENDING orders placed before the cutoff, oldest first
+  async getExpiredPendingOrders(cutoff: Date, limit: number = 100): Promise<Order[]> {
+    try {
+      return await this.orderRepository.findUnpaidPendingOrdersCreatedBefore(cutoff, limit);
+    } catch (error) {
+      this.logger.error('Error getting expired pending orders:', error);
+      throw error;
+    }
+  }
+
+  // Cancels unpaid PENDING orders placed before the cutoff and releases their reserved stock
+  async expirePendingOrders(cutoff: Date, limit: number = 100): Promise<OrderExpiryResult> {
+    try {
+      const orders = await this.orderRepository.findUnpaidPendingOrdersCreatedBefore(cutoff, limit);
+      const result: OrderExpiryResult = { cutoff, expired: [], skipped: [], failed: [] };
+
+      for (const order of orders) {
+        try {
+          const expired = await this.expireOrder(order.id, cutoff);
+          (expired ? result.expired : result.skipped).push(order.orderNumber);
+        } catch (error) {
+          result.failed.push({
+            orderId: order.id,
+            orderNumber: order.orderNumber,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+      }
+
+      if (result.expired.length > 0) {
+        await this.clearOrdersCache();
+      }
+
+      return result;
+    } catch (error) {
+      this.logger.error('Error expiring pending orders:', error);
+      throw error;
+    }
+  }
+
+  async createOrderFromCart(
+    userId: string,
+    shippingAddress: ShippingAddress,
+    shippingMethod?: string
+  ): Promise<Order> {
+    try {
+      this.logger.info(`Creating order from cart for user: ${userId}`);
+      return await this.checkoutCart(userId, { userId, shippingAddress, ...(shippingMethod && { shippingMethod }) });
     } catch (error) {
       this.logger.error('Error creating order from cart:', error);
       throw error;
     }
   }
 
+  async createGuestOrderFromCart(
+    guest: GuestCheckout,
+    shippingAddress: ShippingAddress,
+    shippingMethod?: string
+  ): Promise<Order> {
+    try {
+      this.logger.info(`Creating order from cart for guest: ${guest.guestId}`);
+      return await this.checkoutCart(CartService.guestCartId(guest.guestId), {
+        userId: null,
+        guest,
+        shippingAddress,
+        ...(shippingMethod && { shippingMethod }),
+      });
+    } catch (error) {
+      this.logger.error('Error creating guest order from cart:', error);
+      throw error;
+    }
+  }
+
   // Private helper methods
+  private async checkoutCart(
+    cartId: string,
+    request: Omit<CreateOrderRequest, 'cartItems' | 'couponCode'>
+  ): Promise<Order> {
+    // Make sure every cart line can still be bought as-is
+    const validation = await this.cartService.validateCartForCheckout(cartId);
+    if (!validation.isValid) {
+      throw OrderError.validation(`Cart validation failed: ${validation.errors.join(', ')}`);
+    }
+
+    const cart = await this.cartService.getCartByUserId(cartId);
+
+    // createOrder re-reads each product, so the order uses current prices
+    const order = await this.createOrder({
+      ...request,
+      cartItems: cart.items.map(item => ({
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+      })),
+      ...(cart.couponCode && { couponCode: cart.couponCode }),
+    });
+
+    // Only empty the cart once the order has been persisted; this also releases its stock holds
+    try {
+      await this.cartService.clearCart(cartId);
+    } catch (error) {
+      this.logger.warn(`Order ${order.orderNumber} created but cart could not be cleared:`, error);
+    }
+
+    this.logger.info(`Order created from cart: ${order.orderNumber} for cart: ${cartId}`);
+    return order;
+  }
+
+  // Applies an item edit to a pending order, re-prices it and moves the stock reservation by the difference
+  private async editOrderItems(id: string, edit: (order: Order) => Promise<void>): Promise<Order> {
+    try {
+      // Read from the database, not the cache: the repository update is guarded on updatedAt
+      const order = await this.orderRepository.findById(id);
+      if (!order) {
+        throw OrderError.notFound('Order not found');
+      }
+
+      if (!order.canBeEdited()) {
+        throw OrderError.businessLogic('Only pending orders without a payment can be edited');
+      }
+
+      const expectedUpdatedAt = order.updatedAt;
+      const previousQuantities = this.quantitiesByStockItem(order);
+
+      try {
+        await edit(order);
+      } catch (error) {
+        if (error instanceof OrderError) throw error;
+        throw OrderError.businessLogic(error instanceof Error ? error.message : String(error));
+      }
+
+      const stockDeltas = this.quantitiesByStockItem(order);
+      (['products', 'variants'] as const).forEach(kind => {
+        Object.keys(previousQuantities[kind]).forEach(id => {
+          stockDeltas[kind][id] = (stockDeltas[kind][id] || 0) - previousQuantities[kind][id]!;
+        });
+      });
+
+      await this.repriceOrder(order);
+
+      const validationErrors = order.validate();
+      if (validationErrors.length > 0) {
+        throw OrderError.validation(`Order validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      const updatedOrder = await this.orderRepository.updateItemsWithStockAdjustment(
+        order,
+        stockDeltas,
+        expectedUpdatedAt
+      );
+
+      // Clear cache
+      await this.clearOrderCache(id);
+      await this.clearOrdersCache();
+
+      this.logger.info(`Order items edited: ${updatedOrder.orderNumber} (total: ${updatedOrder.total})`);
+      return updatedOrder;
+    } catch (error) {
+      this.logger.error('Error editing order items:', error);
+      throw error;
+    }
+  }
+
+  // Same pricing steps as createOrder: coupon, then per-line taxes, then shipping for the chosen method
+  private async repriceOrder(order: Order): Promise<void> {
+    const products = await Promise.all(order.items.map(item => this.productRepository.findById(item.productId)));
+    const categoryIds = products.map(product => product?.categoryId ?? '');
+    const totalWeight = order.items.reduce(
+      (sum, item, index) => sum + (products[index]?.weight ?? 0) * item.quantity,
+      0
+    );
+
+    order.items.forEach(item => {
+      item.discountAmount = Money.zero(order.currency);
+    });
+
+    if (order.couponCode) {
+      const evaluation = await this.couponService.reevaluateRedeemedCoupon(
+        order.couponCode,
+        order.items.map((item, index) => ({
+          productId: item.productId,
+          variantId: item.variantId,
+          categoryId: categoryIds[index]!,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          subtotal: item.subtotal,
+        }))
+      );
+
+      for (const lineDiscount of evaluation.lineDiscounts) {
+        const item = order.items.find(orderItem => this.isSameLine(orderItem, lineDiscount));
+        if (item) item.discountAmount = lineDiscount.amount;
+      }
+    }
+
+    const lineTaxes = await this.taxService.calculateLineTaxes(
+      order.shippingAddress,
+      order.items.map((item, index) => ({
+        categoryId: categoryIds[index]!,
+        amount: item.subtotal.subtract(item.discountAmount),
+      }))
+    );
+    order.items.forEach((item, index) => Object.assign(item, lineTaxes[index]));
+
+    const shippingOption = this.shippingService.selectShippingOption(
+      {
+        address: order.shippingAddress,
+        subtotal: Money.sum(order.items.map(item => item.subtotal.subtract(item.discountAmount)), order.currency),
+        totalWeight,
+        itemCount: order.items.reduce((sum, item) => sum + item.quantity, 0),
+      },
+      order.shippingOption?.method
+    );
+    order.shipping = shippingOption.price;
+
+    order.calculateTotals();
+  }
+
+  private quantitiesByStockItem(order: Order): StockDeltas {
+    const quantities: StockDeltas = { products: {}, variants: {} };
+    order.items.forEach(item => {
+      if (item.variantId) {
+        quantities.variants[item.variantId] = (quantities.variants[item.variantId] || 0) + item.quantity;
+      } else {
+        quantities.products[item.productId] = (quantities.products[item.productId] || 0) + item.quantity;
+      }
+    });
+    return quantities;
+  }
+
+  private getSellable(product: Product, variantId: string | null): Sellable {
+    try {
+      return product.getSellable(variantId);
+    } catch (error) {
+      throw OrderError.validation(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // Same as getSellable, for past order lines whose variant may have been removed since
+  private findSellable(product: Product, variantId: string | null): Sellable | null {
+    try {
+      return product.getSellable(variantId);
+    } catch {
+      return null;
+    }
+  }
+
+  private isSameLine(item: OrderItem, line: { productId: string; variantId: string | null }): boolean {
+    return item.productId === line.productId && item.variantId === line.variantId;
+  }
+
   private async restoreStock(order: Order): Promise<void> {
     try {
       for (const item of order.items) {
+        if (item.variantId) {
+          const variant = await this.productRepository.findVariantById(item.variantId);
+          if (variant) {
+            variant.increaseStock(item.quantity);
+            await this.productRepository.updateVariant(variant.id, { stock: variant.stock });
+          }
+          continue;
+        }
+
         const product = await this.productRepository.findById(item.productId);
         if (product) {
           product.increaseStock(item.quantity);
@@ -431,6 +1103,74 @@ export class OrderService {
     }
   }
 
+  // Returns false when the order changed since it was selected and was left untouched
+  private async expireOrder(id: string, cutoff: Date): Promise<boolean> {
+    // Re-read from the database: a payment may have arrived since the batch was loaded
+    const order = await this.orderRepository.findById(id);
+    if (!order) {
+      throw OrderError.notFound('Order not found');
+    }
+
+    // An attached payment intent may already be authorized, so only orders without one expire
+    if (order.status !== OrderStatus.PENDING ||
+        order.paymentStatus !== PaymentStatus.PENDING ||
+        order.paymentIntentId ||
+        order.createdAt >= cutoff) {
+      return false;
+    }
+
+    const previous = { status: order.status, paymentStatus: order.paymentStatus };
+
+    order.cancel();
+
+    const expired = await this.orderRepository.cancelWithStockRelease(
+      order,
+      { ...previous, paymentIntentId: null },
+      this.collectStatusChanges(previous, order, undefined, 'Expired: payment not received in time')
+    );
+
+    if (!expired) {
+      return false;
+    }
+
+    await this.clearOrderCache(id);
+
+    this.logger.info(`Order expired: ${order.orderNumber}`);
+    return true;
+  }
+
+  // Diff order/payment status before and after a transition into history entries
+  private collectStatusChanges(
+    previous: { status: OrderStatus; paymentStatus: PaymentStatus },
+    order: Order,
+    actorId?: string,
+    reason?: string
+  ): NewOrderStatusChange[] {
+    const changes: NewOrderStatusChange[] = [];
+
+    if (previous.paymentStatus !== order.paymentStatus) {
+      changes.push({
+        type: StatusChangeType.PAYMENT,
+        fromStatus: previous.paymentStatus,
+        toStatus: order.paymentStatus,
+        actorId: actorId ?? null,
+        reason: reason ?? null,
+      });
+    }
+
+    if (previous.status !== order.status) {
+      changes.push({
+        type: StatusChangeType.ORDER,
+        fromStatus: previous.status,
+        toStatus: order.status,
+        actorId: actorId ?? null,
+        reason: reason ?? null,
+      });
+    }
+
+    return changes;
+  }
+
   // Cache management
   private async clearOrderCache(id: string): Promise<void> {
     try {
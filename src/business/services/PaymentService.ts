@@ -0,0 +1,258 @@
+import { RedisClientType } from 'redis';
+import {
+  IPaymentGateway,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentEventType,
+} from '@/business/interfaces/IPaymentGateway';
+import { Order, OrderStatus, PaymentStatus } from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
+import { OrderService } from '@/business/services/OrderService';
+import { AppError } from '@/shared/errors/AppError';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface WebhookResult {
+  eventId: string;
+  processed: boolean;
+}
+
+export class PaymentService {
+  private logger = new Logger('PaymentService');
+  private readonly WEBHOOK_EVENT_PREFIX = 'payment:webhook:event:';
+  private readonly WEBHOOK_EVENT_TTL = 604800; // 7 days
+
+  constructor(
+    private orderService: OrderService,
+    private paymentGateway: IPaymentGateway,
+    private redis: RedisClientType
+  ) {}
+
+  async createPaymentIntent(orderId: string): Promise<PaymentIntent> {
+    try {
+      const order = await this.getOrderOrThrow(orderId);
+
+      if (order.status === OrderStatus.CANCELLED) {
+        throw AppError.businessLogic('Cannot pay for a cancelled order');
+      }
+
+      if (![PaymentStatus.PENDING, PaymentStatus.FAILED].includes(order.paymentStatus)) {
+        throw AppError.businessLogic(`Order payment is already ${order.paymentStatus}`);
+      }
+
+      // Reuse an authorization that is still waiting for capture
+      if (order.paymentIntentId) {
+        const existingIntent = await this.paymentGateway.getPaymentIntent(order.paymentIntentId);
+        if (existingIntent && existingIntent.status === PaymentIntentStatus.REQUIRES_CAPTURE) {
+          return existingIntent;
+        }
+      }
+
+      const intent = await this.paymentGateway.createPaymentIntent({
+        orderId: order.id,
+        amount: order.total.toDecimal(),
+        currency: order.currency,
+        metadata: { orderNumber: order.orderNumber },
+      });
+
+      await this.orderService.attachPaymentIntent(order.id, intent.id);
+
+      this.logger.info(`Payment intent ${intent.id} created for order: ${order.orderNumber}`);
+      return intent;
+    } catch (error) {
+      this.logger.error('Error creating payment intent:', error);
+      throw error;
+    }
+  }
+
+  async capturePayment(orderId: string, actorId?: string): Promise<Order> {
+    try {
+      const order = await this.getOrderOrThrow(orderId);
+
+      // Its stock is already released; the authorization should be voided instead
+      if (order.status === OrderStatus.CANCELLED) {
+        throw AppError.businessLogic('Cannot capture payment for a cancelled order');
+      }
+
+      const intent = await this.paymentGateway.capturePayment(this.getIntentIdOrThrow(order));
+
+      if (intent.status === PaymentIntentStatus.SUCCEEDED) {
+        return await this.applyPaymentStatus(order.id, PaymentStatus.PAID, actorId, 'Payment captured');
+      }
+
+      return await this.applyPaymentStatus(
+        order.id,
+        PaymentStatus.FAILED,
+        actorId,
+        intent.failureReason || 'Payment capture failed'
+      );
+    } catch (error) {
+      this.logger.error('Error capturing payment:', error);
+      throw error;
+    }
+  }
+
+  async voidPayment(orderId: string, actorId?: string): Promise<Order> {
+    try {
+      const order = await this.getOrderOrThrow(orderId);
+      await this.paymentGateway.voidPayment(this.getIntentIdOrThrow(order));
+
+      return await this.applyPaymentStatus(order.id, PaymentStatus.FAILED, actorId, 'Payment authorization voided');
+    } catch (error) {
+      this.logger.error('Error voiding payment:', error);
+      throw error;
+    }
+  }
+
+  async refundPayment(orderId: string, actorId?: string, reason?: string): Promise<Order> {
+    try {
+      const order = await this.getOrderOrThrow(orderId);
+
+      if (!order.canBeRefunded()) {
+        throw AppError.businessLogic('Order cannot be refunded in its current status');
+      }
+
+      // A full refund would also restock every line, including ones already handled by returns
+      if (order.refundedTotal.isPositive()) {
+        throw AppError.businessLogic('Order has partial refunds; refund the remaining items through a return');
+      }
+
+      await this.paymentGateway.refundPayment(this.getIntentIdOrThrow(order));
+
+      return await this.applyPaymentStatus(order.id, PaymentStatus.REFUNDED, actorId, reason || 'Payment refunded');
+    } catch (error) {
+      this.logger.error('Error refunding payment:', error);
+      throw error;
+    }
+  }
+
+  async refundPartial(orderId: string, amount: Money, actorId?: string, reason?: string): Promise<Order> {
+    try {
+      const order = await this.getOrderOrThrow(orderId);
+      const intentId = this.getIntentIdOrThrow(order);
+
+      // Reserved against a fresh read first, so concurrent refunds cannot pay back more than the order total
+      await this.orderService.reserveRefund(order.id, amount);
+
+      try {
+        await this.paymentGateway.refundPayment(intentId, amount.toDecimal());
+      } catch (error) {
+        await this.orderService.releaseRefund(order.id, amount);
+        throw error;
+      }
+
+      return await this.orderService.recordRefund(order.id, amount, actorId, reason || 'Partial refund');
+    } catch (error) {
+      this.logger.error('Error issuing partial refund:', error);
+      throw error;
+    }
+  }
+
+  async handleWebhook(payload: string, signature: string): Promise<WebhookResult> {
+    try {
+      let event;
+      try {
+        event = this.paymentGateway.constructWebhookEvent(payload, signature);
+      } catch (error) {
+        throw AppError.authentication('Invalid webhook signature');
+      }
+
+      // Providers retry deliveries, so each event is only handled once
+      const eventKey = `${this.WEBHOOK_EVENT_PREFIX}${event.id}`;
+      const firstDelivery = await this.redis.set(eventKey, new Date().toISOString(), {
+        NX: true,
+        EX: this.WEBHOOK_EVENT_TTL,
+      });
+
+      if (!firstDelivery) {
+        this.logger.info(`Duplicate payment webhook ignored: ${event.id}`);
+        return { eventId: event.id, processed: false };
+      }
+
+      try {
+        const targetStatus = this.mapEventToPaymentStatus(event.type);
+        await this.applyPaymentStatus(event.orderId, targetStatus, undefined, `Payment webhook ${event.type} (${event.id})`);
+      } catch (error) {
+        // Let the provider retry the delivery
+        await this.redis.del(eventKey);
+        throw error;
+      }
+
+      this.logger.info(`Payment webhook processed: ${event.id} (${event.type})`);
+      return { eventId: event.id, processed: true };
+    } catch (error) {
+      this.logger.error('Error handling payment webhook:', error);
+      throw error;
+    }
+  }
+
+  // Private helper methods
+  private async applyPaymentStatus(
+    orderId: string,
+    target: PaymentStatus,
+    actorId?: string,
+    reason?: string
+  ): Promise<Order> {
+    const order = await this.getOrderOrThrow(orderId);
+
+    // Applying the same state twice is a no-op, which keeps webhooks and
+    // synchronous capture/void/refund responses from racing each other
+    if (order.paymentStatus === target) {
+      this.logger.debug(`Order ${order.orderNumber} already ${target}, skipping`);
+      return order;
+    }
+
+    const allowedFrom: Record<string, PaymentStatus[]> = {
+      [PaymentStatus.PAID]: [PaymentStatus.PENDING, PaymentStatus.FAILED],
+      [PaymentStatus.FAILED]: [PaymentStatus.PENDING],
+      [PaymentStatus.REFUNDED]: [PaymentStatus.PAID],
+    };
+
+    // Partial refunds are recorded when issued; a provider refund event must not turn them into a full one
+    if (target === PaymentStatus.REFUNDED && order.refundedTotal.isPositive()) {
+      this.logger.warn(`Ignoring refund event for partially refunded order ${order.orderNumber}`);
+      return order;
+    }
+
+    // A cancelled order has released its stock and must not be revived by a late payment
+    if (target === PaymentStatus.PAID && order.status === OrderStatus.CANCELLED) {
+      this.logger.warn(`Ignoring payment for cancelled order ${order.orderNumber}; it needs a manual refund`);
+      return order;
+    }
+
+    if (!allowedFrom[target]?.includes(order.paymentStatus)) {
+      this.logger.warn(`Ignoring payment transition ${order.paymentStatus} -> ${target} for order ${order.orderNumber}`);
+      return order;
+    }
+
+    return this.orderService.updatePaymentStatus(orderId, target, actorId, reason);
+  }
+
+  private mapEventToPaymentStatus(type: PaymentEventType): PaymentStatus {
+    switch (type) {
+      case PaymentEventType.PAYMENT_SUCCEEDED:
+        return PaymentStatus.PAID;
+      case PaymentEventType.PAYMENT_FAILED:
+      case PaymentEventType.PAYMENT_VOIDED:
+        return PaymentStatus.FAILED;
+      case PaymentEventType.PAYMENT_REFUNDED:
+        return PaymentStatus.REFUNDED;
+      default:
+        throw AppError.validation(`Unsupported payment event type: ${type}`);
+    }
+  }
+
+  private async getOrderOrThrow(orderId: string): Promise<Order> {
+    const order = await this.orderService.getOrderById(orderId);
+    if (!order) {
+      throw AppError.notFound('Order not found');
+    }
+    return order;
+  }
+
+  private getIntentIdOrThrow(order: Order): string {
+    if (!order.paymentIntentId) {
+      throw AppError.businessLogic('Order has no payment intent');
+    }
+    return order.paymentIntentId;
+  }
+}
@@ -1,14 +1,30 @@
 import { RedisClientType } from 'redis';
+import { randomUUID } from 'crypto';
 import { IProductRepository } from '@/business/interfaces/IProductRepository';
+import { IFileStorage } from '@/business/interfaces/IFileStorage';
+import { IImageProcessor } from '@/business/interfaces/IImageProcessor';
 import { Product } from '@/business/domain/Product';
+import { ProductVariant } from '@/business/domain/ProductVariant';
+import { ProductImage } from '@/business/domain/ProductImage';
+import { Money } from '@/business/domain/Money';
+import { CategoryService } from '@/business/services/CategoryService';
 import { Logger } from '@/shared/utils/Logger';
 
+export interface ImageUpload {
+  content: Buffer;
+  originalName: string;
+}
+
 export class ProductService {
   private logger = new Logger('ProductService');
   private readonly CACHE_TTL = 300; // 5 minutes
+  private readonly MAX_IMAGES = 10;
 
   constructor(
     private productRepository: IProductRepository,
+    private categoryService: CategoryService,
+    private fileStorage: IFileStorage,
+    private imageProcessor: IImageProcessor,
     private redis: RedisClientType
   ) {}
 
@@ -28,6 +44,8 @@ export class ProductService {
         throw new Error('Product with this SKU already exists');
       }
 
+      await this.assertCategoryAvailable(product.categoryId);
+
       // Create product
       const createdProduct = await this.productRepository.create(product);
 
@@ -54,7 +72,7 @@ export class ProductService {
       }
 
       // Get from database
-      const product = await this.productRepository.findById(id);
+      const product = this.withImageUrls(await this.productRepository.findById(id));
       
       if (product) {
         // Cache product
@@ -81,7 +99,7 @@ export class ProductService {
       }
 
       // Get from database
-      const product = await this.productRepository.findBySku(sku);
+      const product = this.withImageUrls(await this.productRepository.findBySku(sku));
       
       if (product) {
         // Cache product
@@ -112,8 +130,28 @@ export class ProductService {
         }
       }
 
+      if (productData.categoryId && productData.categoryId !== existingProduct.categoryId) {
+        await this.assertCategoryAvailable(productData.categoryId);
+      }
+
+      // Existing variants must still fit the option axes
+      if (productData.options) {
+        const merged = new Product({ ...existingProduct, options: productData.options });
+        const optionErrors = merged.validate();
+        for (const variant of existingProduct.variants) {
+          const variantErrors = merged.validateVariantOptions(variant.options);
+          if (variantErrors.length > 0) {
+            optionErrors.push(`variant ${variant.sku}: ${variantErrors.join(', ')}`);
+          }
+        }
+
+        if (optionErrors.length > 0) {
+          throw new Error(`Validation failed: ${optionErrors.join(', ')}`);
+        }
+      }
+
       // Update product
-      const updatedProduct = await this.productRepository.update(id, productData);
+      const updatedProduct = this.withImageUrls(await this.productRepository.update(id, productData));
 
       // Clear cache
       await this.clearProductCache(id);
@@ -138,6 +176,9 @@ export class ProductService {
       // Delete product
       await this.productRepository.delete(id);
 
+      // Image rows go with the product; their files are removed from storage afterwards
+      await Promise.all(existingProduct.images.map(image => this.deleteImageFiles(image)));
+
       // Clear cache
       await this.clearProductCache(id);
       await this.clearProductsCache();
@@ -161,7 +202,7 @@ export class ProductService {
       }
 
       // Get from database
-      const products = await this.productRepository.findAll(page, limit);
+      const products = this.withImageUrls(await this.productRepository.findAll(page, limit));
 
       // Cache products
       await this.redis.setEx(cacheKey, this.CACHE_TTL, JSON.stringify(products));
@@ -186,7 +227,7 @@ export class ProductService {
       }
 
       // Get from database
-      const products = await this.productRepository.findActiveProducts(page, limit);
+      const products = this.withImageUrls(await this.productRepository.findActiveProducts(page, limit));
 
       // Cache products
       await this.redis.setEx(cacheKey, this.CACHE_TTL, JSON.stringify(products));
@@ -202,7 +243,7 @@ export class ProductService {
   async searchProducts(query: string, page: number = 1, limit: number = 10): Promise<Product[]> {
     try {
       // Don't cache search results as they can be very specific
-      const products = await this.productRepository.searchProducts(query, page, limit);
+      const products = this.withImageUrls(await this.productRepository.searchProducts(query, page, limit));
       
       this.logger.info(`Product search performed: "${query}" - ${products.length} results`);
       return products;
@@ -212,10 +253,16 @@ export class ProductService {
     }
   }
 
-  async getProductsByCategory(categoryId: string, page: number = 1, limit: number = 10): Promise<Product[]> {
+  async getProductsByCategory(
+    categoryId: string,
+    page: number = 1,
+    limit: number = 10,
+    includeDescendants: boolean = false
+  ): Promise<Product[]> {
     try {
       // Try cache first
-      const cacheKey = `products:category:${categoryId}:page:${page}:limit:${limit}`;
+      const scope = includeDescendants ? 'tree' : 'own';
+      const cacheKey = `products:category:${categoryId}:${scope}:page:${page}:limit:${limit}`;
       const cachedProducts = await this.redis.get(cacheKey);
       
       if (cachedProducts) {
@@ -224,7 +271,10 @@ export class ProductService {
       }
 
       // Get from database
-      const products = await this.productRepository.findByCategory(categoryId, page, limit);
+      const categoryIds = includeDescendants
+        ? await this.categoryService.getDescendantIds(categoryId)
+        : [categoryId];
+      const products = this.withImageUrls(await this.productRepository.findByCategory(categoryIds, page, limit));
 
       // Cache products
       await this.redis.setEx(cacheKey, this.CACHE_TTL, JSON.stringify(products));
@@ -243,7 +293,12 @@ export class ProductService {
         throw new Error('Invalid price range');
       }
 
-      const products = await this.productRepository.findByPriceRange(minPrice, maxPrice, page, limit);
+      const products = this.withImageUrls(await this.productRepository.findByPriceRange(
+        Money.fromDecimal(minPrice),
+        Money.fromDecimal(maxPrice),
+        page,
+        limit
+      ));
       
       this.logger.info(`Products by price range: ${minPrice}-${maxPrice} - ${products.length} results`);
       return products;
@@ -255,7 +310,7 @@ export class ProductService {
 
   async getLowStockProducts(threshold: number = 10): Promise<Product[]> {
     try {
-      const products = await this.productRepository.findLowStockProducts(threshold);
+      const products = this.withImageUrls(await this.productRepository.findLowStockProducts(threshold));
       
       this.logger.info(`Low stock products (threshold: ${threshold}): ${products.length} products`);
       return products;
@@ -271,7 +326,7 @@ export class ProductService {
         throw new Error('Stock quantity cannot be negative');
       }
 
-      const product = await this.productRepository.updateStock(id, quantity);
+      const product = this.withImageUrls(await this.productRepository.updateStock(id, quantity));
 
       // Clear cache
       await this.clearProductCache(id);
@@ -293,7 +348,7 @@ export class ProductService {
       }
 
       product.activate();
-      return await this.productRepository.update(id, product);
+      return this.withImageUrls(await this.productRepository.update(id, product));
     } catch (error) {
       this.logger.error('Error activating product:', error);
       throw error;
@@ -308,7 +363,7 @@ export class ProductService {
       }
 
       product.deactivate();
-      return await this.productRepository.update(id, product);
+      return this.withImageUrls(await this.productRepository.update(id, product));
     } catch (error) {
       this.logger.error('Error deactivating product:', error);
       throw error;
@@ -338,6 +393,282 @@ export class ProductService {
     }
   }
 
+  async addVariant(productId: string, variantData: Partial<ProductVariant>): Promise<ProductVariant> {
+    try {
+      const product = await this.productRepository.findById(productId);
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      const variant = new ProductVariant({ ...variantData, productId });
+      const validationErrors = [...variant.validate(), ...product.validateVariantOptions(variant.options)];
+      if (validationErrors.length > 0) {
+        throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      if (product.variants.some(existing => existing.matchesOptions(variant.options))) {
+        throw new Error('Variant with these options already exists');
+      }
+
+      await this.assertVariantSkuAvailable(variant.sku);
+
+      const createdVariant = await this.productRepository.createVariant(variant);
+
+      await this.clearProductCache(productId);
+      await this.clearProductsCache();
+
+      this.logger.info(`Variant created: ${createdVariant.sku} for product ${productId}`);
+      return createdVariant;
+    } catch (error) {
+      this.logger.error('Error adding variant:', error);
+      throw error;
+    }
+  }
+
+  async updateVariant(productId: string, variantId: string, variantData: Partial<ProductVariant>): Promise<ProductVariant> {
+    try {
+      const product = await this.productRepository.findById(productId);
+      const existingVariant = product?.findVariant(variantId);
+      if (!product || !existingVariant) {
+        throw new Error('Variant not found');
+      }
+
+      const merged = new ProductVariant({ ...existingVariant, ...variantData, id: variantId, productId });
+      const validationErrors = [...merged.validate(), ...product.validateVariantOptions(merged.options)];
+      if (validationErrors.length > 0) {
+        throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      if (product.variants.some(other => other.id !== variantId && other.matchesOptions(merged.options))) {
+        throw new Error('Variant with these options already exists');
+      }
+
+      if (variantData.sku && variantData.sku !== existingVariant.sku) {
+        await this.assertVariantSkuAvailable(variantData.sku);
+      }
+
+      const updatedVariant = await this.productRepository.updateVariant(variantId, variantData);
+
+      await this.clearProductCache(productId);
+      await this.clearProductsCache();
+
+      this.logger.info(`Variant updated: ${updatedVariant.sku} (ID: ${variantId})`);
+      return updatedVariant;
+    } catch (error) {
+      this.logger.error('Error updating variant:', error);
+      throw error;
+    }
+  }
+
+  // Past order lines keep their variant name; their link to the variant is cleared
+  async deleteVariant(productId: string, variantId: string): Promise<void> {
+    try {
+      const product = await this.productRepository.findById(productId);
+      if (!product || !product.findVariant(variantId)) {
+        throw new Error('Variant not found');
+      }
+
+      await this.productRepository.deleteVariant(variantId);
+
+      await this.clearProductCache(productId);
+      await this.clearProductsCache();
+
+      this.logger.info(`Variant deleted: ${variantId} from product ${productId}`);
+    } catch (error) {
+      this.logger.error('Error deleting variant:', error);
+      throw error;
+    }
+  }
+
+  // Stores the original and a server-side thumbnail, and appends the image to the end of the gallery
+  async addImage(productId: string, upload: ImageUpload, altText: string = ''): Promise<ProductImage> {
+    try {
+      const product = await this.productRepository.findById(productId);
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      if (product.images.length >= this.MAX_IMAGES) {
+        throw new Error(`Validation failed: A product can have at most ${this.MAX_IMAGES} images`);
+      }
+
+      const info = await this.imageProcessor.inspect(upload.content);
+      // The declared content type is only a hint: SVG, GIF or TIFF labelled image/png would be served as-is
+      if (!ProductImage.FORMATS.includes(info.format)) {
+        throw new Error('Validation failed: Image must be a JPEG, PNG or WebP file');
+      }
+      const thumbnail = await this.imageProcessor.createThumbnail(upload.content);
+
+      const baseKey = `products/${productId}/${randomUUID()}`;
+      const image = new ProductImage({
+        productId,
+        storageKey: `${baseKey}.${info.format === 'jpeg' ? 'jpg' : info.format}`,
+        thumbnailKey: `${baseKey}-thumb.${thumbnail.extension}`,
+        contentType: `image/${info.format}`,
+        size: upload.content.length,
+        width: info.width,
+        height: info.height,
+        altText: altText.trim(),
+        position: product.images.length,
+      });
+
+      const validationErrors = image.validate();
+      if (validationErrors.length > 0) {
+        throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      await this.fileStorage.put(image.storageKey, upload.content, image.contentType);
+      await this.fileStorage.put(image.thumbnailKey, thumbnail.content, thumbnail.contentType);
+
+      let createdImage: ProductImage;
+      try {
+        createdImage = await this.productRepository.createImage(image);
+      } catch (error) {
+        // Don't leave orphaned files behind when the row could not be written
+        await this.deleteImageFiles(image);
+        throw error;
+      }
+
+      await this.clearProductCache(productId);
+      await this.clearProductsCache();
+
+      createdImage.resolveUrls(key => this.fileStorage.getUrl(key));
+      this.logger.info(`Image added to product ${productId}: ${upload.originalName} (${createdImage.id})`);
+      return createdImage;
+    } catch (error) {
+      this.logger.error('Error adding product image:', error);
+      throw error;
+    }
+  }
+
+  async updateImage(productId: string, imageId: string, imageData: Pick<Partial<ProductImage>, 'altText'>): Promise<ProductImage> {
+    try {
+      const product = await this.productRepository.findById(productId);
+      const existingImage = product?.findImage(imageId);
+      if (!product || !existingImage) {
+        throw new Error('Image not found');
+      }
+
+      const altText = imageData.altText?.trim();
+      const merged = new ProductImage({ ...existingImage, ...(altText !== undefined && { altText }) });
+      const validationErrors = merged.validate();
+      if (validationErrors.length > 0) {
+        throw new Error(`Validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      const updatedImage = await this.productRepository.updateImage(imageId, { altText: merged.altText });
+
+      await this.clearProductCache(productId);
+      await this.clearProductsCache();
+
+      updatedImage.resolveUrls(key => this.fileStorage.getUrl(key));
+      this.logger.info(`Image updated: ${imageId} (product: ${productId})`);
+      return updatedImage;
+    } catch (error) {
+      this.logger.error('Error updating product image:', error);
+      throw error;
+    }
+  }
+
+  // imageIds lists every image of the product in the new display order; the first one becomes the main image
+  async reorderImages(productId: string, imageIds: string[]): Promise<ProductImage[]> {
+    try {
+      const product = await this.productRepository.findById(productId);
+      if (!product) {
+        throw new Error('Product not found');
+      }
+
+      const currentIds = new Set(product.images.map(image => image.id));
+      if (imageIds.length !== currentIds.size || new Set(imageIds).size !== imageIds.length ||
+          imageIds.some(id => !currentIds.has(id))) {
+        throw new Error('Validation failed: imageIds must list every image of the product exactly once');
+      }
+
+      await this.productRepository.reorderImages(productId, imageIds);
+
+      await this.clearProductCache(productId);
+      await this.clearProductsCache();
+
+      this.logger.info(`Images reordered for product ${productId}`);
+      return imageIds.map((id, position) => {
+        const image = new ProductImage({ ...product.findImage(id)!, position });
+        image.resolveUrls(key => this.fileStorage.getUrl(key));
+        return image;
+      });
+    } catch (error) {
+      this.logger.error('Error reordering product images:', error);
+      throw error;
+    }
+  }
+
+  async deleteImage(productId: string, imageId: string): Promise<void> {
+    try {
+      const product = await this.productRepository.findById(productId);
+      const image = product?.findImage(imageId);
+      if (!product || !image) {
+        throw new Error('Image not found');
+      }
+
+      await this.productRepository.deleteImage(imageId);
+
+      // Close the gap so positions stay 0..n-1
+      const remainingIds = product.images.filter(other => other.id !== imageId).map(other => other.id);
+      if (remainingIds.length > 0) {
+        await this.productRepository.reorderImages(productId, remainingIds);
+      }
+
+      await this.deleteImageFiles(image);
+
+      await this.clearProductCache(productId);
+      await this.clearProductsCache();
+
+      this.logger.info(`Image deleted: ${imageId} from product ${productId}`);
+    } catch (error) {
+      this.logger.error('Error deleting product image:', error);
+      throw error;
+    }
+  }
+
+  // Variant SKUs share the catalogue's SKU space with products
+  private async assertVariantSkuAvailable(sku: string): Promise<void> {
+    const [product, variant] = await Promise.all([
+      this.productRepository.findBySku(sku),
+      this.productRepository.findVariantBySku(sku),
+    ]);
+
+    if (product || variant) {
+      throw new Error('Product with this SKU already exists');
+    }
+  }
+
+  // Inactive categories are hidden from the catalog, so products cannot be filed under them
+  private async assertCategoryAvailable(categoryId: string): Promise<void> {
+    const category = await this.categoryService.getCategoryById(categoryId);
+    if (!category) {
+      throw new Error(`Validation failed: Category ${categoryId} does not exist`);
+    }
+    if (!category.isActive) {
+      throw new Error(`Validation failed: Category ${categoryId} is not active`);
+    }
+  }
+
+  // Storage decides the public URL, so it is resolved when products are read rather than stored
+  private withImageUrls<T extends Product | Product[] | null>(value: T): T {
+    const products: Product[] = Array.isArray(value) ? value : value ? [value as Product] : [];
+    products.forEach(product => product.images.forEach(image => image.resolveUrls(key => this.fileStorage.getUrl(key))));
+    return value;
+  }
+
+  // Best effort: a file left behind in storage is only wasted space
+  private async deleteImageFiles(image: ProductImage): Promise<void> {
+    try {
+      await this.fileStorage.delete(image.storageKey);
+      await this.fileStorage.delete(image.thumbnailKey);
+    } catch (error) {
+      this.logger.warn(`Error deleting files of image ${image.id}:`, error);
+    }
+  }
+
   // Cache management
   private async clearProductCache(id: string): Promise<void> {
     try {
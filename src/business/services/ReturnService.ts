@@ -0,0 +1,226 @@
+import { IReturnRepository } from '@/business/interfaces/IReturnRepository';
+import { ReturnRequest, ReturnItem, ReturnStatus } from '@/business/domain/ReturnRequest';
+import { Money } from '@/business/domain/Money';
+import { Order } from '@/business/domain/Order';
+import { OrderService } from '@/business/services/OrderService';
+import { PaymentService } from '@/business/services/PaymentService';
+import { AppError } from '@/shared/errors/AppError';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface CreateReturnRequest {
+  reason: string;
+  items: Array<{
+    orderItemId: string;
+    quantity: number;
+  }>;
+}
+
+export class ReturnService {
+  private logger = new Logger('ReturnService');
+
+  constructor(
+    private returnRepository: IReturnRepository,
+    private orderService: OrderService,
+    private paymentService: PaymentService
+  ) {}
+
+  async createReturn(order: Order, request: CreateReturnRequest): Promise<ReturnRequest> {
+    try {
+      if (!order.canRequestReturn()) {
+        throw AppError.businessLogic('Only paid orders that were shipped or delivered can be returned');
+      }
+
+      // Return requests belong to a customer account
+      if (!order.userId) {
+        throw AppError.businessLogic('Only orders placed with an account can be returned online');
+      }
+
+      const alreadyReturned = await this.returnRepository.getReturnedQuantities(order.id);
+      const seen = new Set<string>();
+      const items: ReturnItem[] = [];
+
+      for (const line of request.items) {
+        if (seen.has(line.orderItemId)) {
+          throw AppError.validation(`Order item ${line.orderItemId} is listed more than once`);
+        }
+        seen.add(line.orderItemId);
+
+        const orderItem = order.items.find(item => item.id === line.orderItemId);
+        if (!orderItem) {
+          throw AppError.validation(`Order item ${line.orderItemId} does not belong to this order`);
+        }
+
+        const returnable = orderItem.quantity - (alreadyReturned[orderItem.id] || 0);
+        if (line.quantity > returnable) {
+          throw AppError.validation(
+            `Cannot return ${line.quantity} of ${orderItem.productName}. Returnable: ${returnable}`
+          );
+        }
+
+        // Refund the share of what was actually paid for the line (after discount, including tax)
+        const linePaid = orderItem.subtotal.subtract(orderItem.discountAmount).add(orderItem.taxAmount);
+
+        items.push({
+          id: '',
+          orderItemId: orderItem.id,
+          productId: orderItem.productId,
+          productName: orderItem.productName,
+          quantity: line.quantity,
+          refundAmount: linePaid.multiply(line.quantity / orderItem.quantity),
+        });
+      }
+
+      const returnRequest = new ReturnRequest({
+        orderId: order.id,
+        userId: order.userId,
+        reason: request.reason,
+        currency: order.currency,
+        items,
+      });
+
+      const validationErrors = returnRequest.validate();
+      if (validationErrors.length > 0) {
+        throw AppError.validation(`Validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      const createdReturn = await this.returnRepository.create(returnRequest);
+
+      this.logger.info(`Return requested for order ${order.orderNumber}: ${createdReturn.id}`);
+      return createdReturn;
+    } catch (error) {
+      this.logger.error('Error creating return:', error);
+      throw error;
+    }
+  }
+
+  async getReturnById(id: string): Promise<ReturnRequest | null> {
+    try {
+      return await this.returnRepository.findById(id);
+    } catch (error) {
+      this.logger.error('Error getting return by ID:', error);
+      throw error;
+    }
+  }
+
+  async getReturnsByOrder(orderId: string): Promise<ReturnRequest[]> {
+    try {
+      return await this.returnRepository.findByOrderId(orderId);
+    } catch (error) {
+      this.logger.error('Error getting returns by order:', error);
+      throw error;
+    }
+  }
+
+  async getAllReturns(
+    page: number = 1,
+    limit: number = 10,
+    status?: ReturnStatus
+  ): Promise<{ returns: ReturnRequest[]; total: number }> {
+    try {
+      const [returns, total] = await Promise.all([
+        this.returnRepository.findAll(page, limit, status),
+        this.returnRepository.count(status),
+      ]);
+
+      return { returns, total };
+    } catch (error) {
+      this.logger.error('Error getting all returns:', error);
+      throw error;
+    }
+  }
+
+  async approveReturn(id: string, reviewerId: string, note?: string): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.getReturnOrThrow(id);
+      AppError.applyTransition(() => returnRequest.approve(reviewerId, note));
+
+      const updatedReturn = await this.returnRepository.update(id, returnRequest);
+
+      this.logger.info(`Return approved: ${id} by ${reviewerId}`);
+      return updatedReturn;
+    } catch (error) {
+      this.logger.error('Error approving return:', error);
+      throw error;
+    }
+  }
+
+  async rejectReturn(id: string, reviewerId: string, note: string): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.getReturnOrThrow(id);
+      AppError.applyTransition(() => returnRequest.reject(reviewerId, note));
+
+      const updatedReturn = await this.returnRepository.update(id, returnRequest);
+
+      this.logger.info(`Return rejected: ${id} by ${reviewerId}`);
+      return updatedReturn;
+    } catch (error) {
+      this.logger.error('Error rejecting return:', error);
+      throw error;
+    }
+  }
+
+  async receiveReturn(id: string, restock: boolean): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.getReturnOrThrow(id);
+      AppError.applyTransition(() => returnRequest.markReceived(restock));
+
+      const updatedReturn = await this.returnRepository.markReceived(returnRequest);
+
+      this.logger.info(`Return received: ${id}${restock ? ' and restocked' : ''}`);
+      return updatedReturn;
+    } catch (error) {
+      this.logger.error('Error receiving return:', error);
+      throw error;
+    }
+  }
+
+  // Refunds the return through the payment gateway; defaults to the amount computed for its items
+  async refundReturn(id: string, actorId: string, amount?: Money): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.getReturnOrThrow(id);
+      const previousStatus = returnRequest.status;
+      AppError.applyTransition(() => returnRequest.startRefund());
+
+      // Claim the return first: only one request may call the gateway for it
+      const claimed = await this.returnRepository.transitionStatus(id, previousStatus, ReturnStatus.REFUNDING);
+      if (!claimed) {
+        throw AppError.conflict('Return is already being refunded or was changed by another request');
+      }
+
+      const refundAmount = amount ?? returnRequest.getRequestedRefund();
+      let order: Order;
+      try {
+        order = await this.paymentService.refundPartial(
+          returnRequest.orderId,
+          refundAmount,
+          actorId,
+          `Return ${returnRequest.id} refunded`
+        );
+      } catch (error) {
+        // Release the claim so the refund can be retried
+        await this.returnRepository.transitionStatus(id, ReturnStatus.REFUNDING, previousStatus);
+        throw error;
+      }
+
+      returnRequest.markRefunded(refundAmount);
+      const updatedReturn = await this.returnRepository.update(id, returnRequest);
+
+      this.logger.info(
+        `Return refunded: ${id} (${refundAmount}); order ${order.orderNumber} refunded total ${order.refundedTotal}`
+      );
+      return updatedReturn;
+    } catch (error) {
+      this.logger.error('Error refunding return:', error);
+      throw error;
+    }
+  }
+
+  // Private helper methods
+  private async getReturnOrThrow(id: string): Promise<ReturnRequest> {
+    const returnRequest = await this.returnRepository.findById(id);
+    if (!returnRequest) {
+      throw AppError.notFound('Return not found');
+    }
+    return returnRequest;
+  }
+}
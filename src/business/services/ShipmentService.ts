@@ -0,0 +1,187 @@
+import { IShipmentRepository } from '@/business/interfaces/IShipmentRepository';
+import { Shipment, ShipmentItem } from '@/business/domain/Shipment';
+import { Order } from '@/business/domain/Order';
+import { OrderService } from '@/business/services/OrderService';
+import { AppError } from '@/shared/errors/AppError';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface CreateShipmentRequest {
+  carrier: string;
+  trackingCode: string;
+  // Omitted: ship every unit that has not shipped yet
+  items?: Array<{
+    orderItemId: string;
+    quantity: number;
+  }>;
+}
+
+export interface ShipmentCoverage {
+  shipped: Record<string, number>;
+  delivered: Record<string, number>;
+}
+
+export class ShipmentService {
+  private logger = new Logger('ShipmentService');
+
+  constructor(
+    private shipmentRepository: IShipmentRepository,
+    private orderService: OrderService
+  ) {}
+
+  async createShipment(order: Order, request: CreateShipmentRequest, actorId: string): Promise<Shipment> {
+    try {
+      if (!order.canBeShipped()) {
+        throw AppError.businessLogic('Only confirmed or processing orders can be shipped');
+      }
+
+      const existing = await this.shipmentRepository.findByTrackingCode(
+        request.carrier.trim(),
+        request.trackingCode.trim().toUpperCase()
+      );
+      if (existing) {
+        throw AppError.conflict('A shipment with this carrier and tracking code already exists');
+      }
+
+      // Remaining quantities are computed and the shipment stored while the order is locked
+      const createdShipment = await this.shipmentRepository.createForOrder(order.id, existingShipments => {
+        const { shipped } = this.getCoverage(existingShipments);
+
+        const shipment = new Shipment({
+          orderId: order.id,
+          carrier: request.carrier,
+          trackingCode: request.trackingCode,
+          createdBy: actorId,
+          items: this.buildShipmentItems(order, shipped, request.items),
+        });
+
+        const validationErrors = shipment.validate();
+        if (validationErrors.length > 0) {
+          throw AppError.validation(`Validation failed: ${validationErrors.join(', ')}`);
+        }
+
+        return shipment;
+      });
+      await this.syncOrderStatus(order.id, actorId, `Shipment ${createdShipment.carrier} ${createdShipment.trackingCode} created`);
+
+      this.logger.info(`Shipment created for order ${order.orderNumber}: ${createdShipment.id}`);
+      return createdShipment;
+    } catch (error) {
+      this.logger.error('Error creating shipment:', error);
+      throw error;
+    }
+  }
+
+  async markDelivered(orderId: string, shipmentId: string, actorId: string): Promise<Shipment> {
+    try {
+      const shipment = await this.shipmentRepository.findById(shipmentId);
+      if (!shipment || shipment.orderId !== orderId) {
+        throw AppError.notFound('Shipment not found');
+      }
+
+      AppError.applyTransition(() => shipment.markDelivered());
+
+      const updatedShipment = await this.shipmentRepository.update(shipmentId, shipment);
+      await this.syncOrderStatus(orderId, actorId, `Shipment ${shipment.carrier} ${shipment.trackingCode} delivered`);
+
+      this.logger.info(`Shipment delivered: ${shipmentId} (order ${orderId})`);
+      return updatedShipment;
+    } catch (error) {
+      this.logger.error('Error marking shipment as delivered:', error);
+      throw error;
+    }
+  }
+
+  async getShipmentById(id: string): Promise<Shipment | null> {
+    try {
+      return await this.shipmentRepository.findById(id);
+    } catch (error) {
+      this.logger.error('Error getting shipment by ID:', error);
+      throw error;
+    }
+  }
+
+  async getShipmentsByOrder(orderId: string): Promise<Shipment[]> {
+    try {
+      return await this.shipmentRepository.findByOrderId(orderId);
+    } catch (error) {
+      this.logger.error('Error getting shipments by order:', error);
+      throw error;
+    }
+  }
+
+  // Units shipped and delivered per order item, summed across shipments
+  getCoverage(shipments: Shipment[]): ShipmentCoverage {
+    const shipped: Record<string, number> = {};
+    const delivered: Record<string, number> = {};
+
+    shipments.forEach(shipment => {
+      shipment.items.forEach(item => {
+        shipped[item.orderItemId] = (shipped[item.orderItemId] || 0) + item.quantity;
+        if (shipment.isDelivered()) {
+          delivered[item.orderItemId] = (delivered[item.orderItemId] || 0) + item.quantity;
+        }
+      });
+    });
+
+    return { shipped, delivered };
+  }
+
+  // Private helper methods
+  private buildShipmentItems(
+    order: Order,
+    shipped: Record<string, number>,
+    requested?: CreateShipmentRequest['items']
+  ): ShipmentItem[] {
+    const remaining = (orderItemId: string, quantity: number) => quantity - (shipped[orderItemId] || 0);
+
+    if (!requested) {
+      const items = order.items
+        .filter(item => remaining(item.id, item.quantity) > 0)
+        .map(item => ({
+          id: '',
+          orderItemId: item.id,
+          productId: item.productId,
+          productName: item.productName,
+          quantity: remaining(item.id, item.quantity),
+        }));
+
+      if (items.length === 0) {
+        throw AppError.businessLogic('All items of this order have already been shipped');
+      }
+      return items;
+    }
+
+    const seen = new Set<string>();
+    return requested.map(line => {
+      if (seen.has(line.orderItemId)) {
+        throw AppError.validation(`Order item ${line.orderItemId} is listed more than once`);
+      }
+      seen.add(line.orderItemId);
+
+      const orderItem = order.items.find(item => item.id === line.orderItemId);
+      if (!orderItem) {
+        throw AppError.validation(`Order item ${line.orderItemId} does not belong to this order`);
+      }
+
+      const shippable = remaining(orderItem.id, orderItem.quantity);
+      if (line.quantity > shippable) {
+        throw AppError.validation(
+          `Cannot ship ${line.quantity} of ${orderItem.productName}. Remaining: ${shippable}`
+        );
+      }
+
+      return {
+        id: '',
+        orderItemId: orderItem.id,
+        productId: orderItem.productId,
+        productName: orderItem.productName,
+        quantity: line.quantity,
+      };
+    });
+  }
+
+  private async syncOrderStatus(orderId: string, actorId: string, reason: string): Promise<void> {
+    const { shipped, delivered } = this.getCoverage(await this.shipmentRepository.findByOrderId(orderId));
+    await this.orderService.applyShipmentProgress(orderId, shipped, delivered, actorId, reason);
+  }
+}
@@ -0,0 +1,54 @@
+import {
+  IShippingStrategy,
+  ShippingOption,
+  ShippingQuoteRequest,
+} from '@/business/interfaces/IShippingStrategy';
+import { Money } from '@/business/domain/Money';
+import { AppError } from '@/shared/errors/AppError';
+
+export class ShippingService {
+  constructor(private strategies: IShippingStrategy[]) {}
+
+  getShippingOptions(request: ShippingQuoteRequest): ShippingOption[] {
+    const options: ShippingOption[] = [];
+
+    for (const strategy of this.strategies) {
+      const rate = strategy.calculate(request);
+      if (!rate) continue;
+
+      const isFree = strategy.freeShippingThreshold !== null &&
+        request.subtotal.greaterThanOrEqual(strategy.freeShippingThreshold);
+
+      options.push({
+        method: strategy.method,
+        name: strategy.name,
+        price: isFree ? Money.zero(rate.price.currency) : rate.price,
+        originalPrice: rate.price,
+        isFree,
+        estimatedDays: rate.estimatedDays,
+      });
+    }
+
+    return options.sort((a, b) => a.price.amount - b.price.amount || a.estimatedDays - b.estimatedDays);
+  }
+
+  // Picks the requested method, or the cheapest available one when none is given
+  selectShippingOption(request: ShippingQuoteRequest, method?: string): ShippingOption {
+    const options = this.getShippingOptions(request);
+
+    if (options.length === 0) {
+      throw AppError.validation('No shipping options available for this address');
+    }
+
+    if (!method) {
+      return options[0]!;
+    }
+
+    const option = options.find(o => o.method === method);
+    if (!option) {
+      throw AppError.validation(`Shipping method ${method} is not available for this address`);
+    }
+
+    return option;
+  }
+}
@@ -0,0 +1,166 @@
+import { RedisClientType } from 'redis';
+import { Sellable } from '@/business/domain/Product';
+import { AppError } from '@/shared/errors/AppError';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface StockHoldOptions {
+  enabled: boolean;
+  ttlSeconds: number; // how long a cart line keeps its units off sale
+}
+
+// Holds are kept per stock item: a product without variants, or a single variant
+type StockItem = Pick<Sellable, 'id' | 'stock'>;
+
+// Drops expired holds, sums the other carts' holds and only writes this cart's hold when the rest of the stock covers it.
+// KEYS[1] = stock item hold hash; ARGV = cartId, quantity, now (ms), stock, expiresAt (ms), ttl (ms)
+const PLACE_HOLD_SCRIPT = `
+local now = tonumber(ARGV[3])
+local held = 0
+local holds = redis.call('HGETALL', KEYS[1])
+for i = 1, #holds, 2 do
+  local quantity, expiresAt = string.match(holds[i + 1], '^(%d+):(%d+)$')
+  if tonumber(expiresAt) <= now then
+    redis.call('HDEL', KEYS[1], holds[i])
+  elseif holds[i] ~= ARGV[1] then
+    held = held + tonumber(quantity)
+  end
+end
+local available = math.max(tonumber(ARGV[4]) - held, 0)
+if available < tonumber(ARGV[2]) then
+  return {0, available}
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2] .. ':' .. ARGV[5])
+if redis.call('PTTL', KEYS[1]) < tonumber(ARGV[6]) then
+  redis.call('PEXPIRE', KEYS[1], ARGV[6])
+end
+return {1, available}
+`;
+
+// Time-boxed holds that keep cart quantities off sale for limited drops.
+// Each stock item has one Redis hash of cartId -> "quantity:expiresAtMs"; expired entries simply stop counting.
+export class StockHoldService {
+  private logger = new Logger('StockHoldService');
+  private readonly HOLD_PREFIX = 'stock-hold:';
+
+  constructor(
+    private redis: RedisClientType,
+    private options: StockHoldOptions
+  ) {}
+
+  isEnabled(): boolean {
+    return this.options.enabled && this.options.ttlSeconds > 0;
+  }
+
+  // Stock minus the units other carts hold; the given cart's own hold stays available to it
+  async getAvailableStock(item: StockItem, cartId?: string): Promise<number> {
+    try {
+      if (!this.isEnabled()) {
+        return item.stock;
+      }
+
+      const holds = await this.redis.hGetAll(this.holdKey(item.id));
+      const now = Date.now();
+      let held = 0;
+
+      for (const [holderId, value] of Object.entries(holds)) {
+        const hold = this.parseHold(value);
+        if (holderId !== cartId && hold.expiresAt > now) {
+          held += hold.quantity;
+        }
+      }
+
+      return Math.max(item.stock - held, 0);
+    } catch (error) {
+      this.logger.error('Error getting available stock:', error);
+      throw error;
+    }
+  }
+
+  // Replaces the cart's hold on the item with `quantity` units and a fresh expiry
+  async holdStock(cartId: string, item: StockItem, quantity: number): Promise<Date | null> {
+    try {
+      if (!this.isEnabled()) {
+        return null;
+      }
+
+      const ttlMs = this.options.ttlSeconds * 1000;
+      const now = Date.now();
+      const expiresAt = now + ttlMs;
+
+      const [placed, available] = (await this.redis.eval(PLACE_HOLD_SCRIPT, {
+        keys: [this.holdKey(item.id)],
+        arguments: [cartId, String(quantity), String(now), String(item.stock), String(expiresAt), String(ttlMs)],
+      })) as [number, number];
+
+      if (!placed) {
+        throw AppError.businessLogic(
+          `Insufficient stock. Available: ${available}, Requested: ${quantity} (other carts are holding the rest)`
+        );
+      }
+
+      this.logger.debug(`Holding ${quantity} of ${item.id} for cart ${cartId} until ${new Date(expiresAt).toISOString()}`);
+      return new Date(expiresAt);
+    } catch (error) {
+      this.logger.error('Error holding stock:', error);
+      throw error;
+    }
+  }
+
+  async releaseHold(cartId: string, itemId: string): Promise<void> {
+    await this.releaseHolds(cartId, [itemId]);
+  }
+
+  async releaseHolds(cartId: string, itemIds: string[]): Promise<void> {
+    if (!this.isEnabled() || itemIds.length === 0) {
+      return;
+    }
+
+    try {
+      await Promise.all(itemIds.map(itemId => this.redis.hDel(this.holdKey(itemId), cartId)));
+      this.logger.debug(`Released stock holds of cart ${cartId} on ${itemIds.length} item(s)`);
+    } catch (error) {
+      // Not critical: the hold runs out on its own
+      this.logger.warn('Error releasing stock holds:', error);
+    }
+  }
+
+  // Expiry of each active hold the cart has on the given stock items
+  async getHoldExpiries(cartId: string, itemIds: string[]): Promise<Map<string, Date>> {
+    try {
+      const expiries = new Map<string, Date>();
+      if (!this.isEnabled()) {
+        return expiries;
+      }
+
+      const now = Date.now();
+      const values = await Promise.all(itemIds.map(itemId => this.redis.hGet(this.holdKey(itemId), cartId)));
+
+      values.forEach((value, index) => {
+        if (!value) return;
+
+        const hold = this.parseHold(value);
+        if (hold.expiresAt > now) {
+          expiries.set(itemIds[index]!, new Date(hold.expiresAt));
+        }
+      });
+
+      return expiries;
+    } catch (error) {
+      this.logger.error('Error getting stock hold expiries:', error);
+      throw error;
+    }
+  }
+
+  // Private helper methods
+  private holdKey(itemId: string): string {
+    return `${this.HOLD_PREFIX}${itemId}`;
+  }
+
+  private parseHold(value: string): { quantity: number; expiresAt: number } {
+    const [quantity, expiresAt] = value.split(':');
+    return {
+      quantity: parseInt(quantity || '0'),
+      expiresAt: parseInt(expiresAt || '0'),
+    };
+  }
+}
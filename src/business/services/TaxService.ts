@@ -0,0 +1,184 @@
+import { RedisClientType } from 'redis';
+import { ITaxRuleRepository } from '@/business/interfaces/ITaxRuleRepository';
+import { TaxRule } from '@/business/domain/TaxRule';
+import { ShippingAddress } from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
+import { AppError } from '@/shared/errors/AppError';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface TaxableLine {
+  categoryId: string;
+  amount: Money;
+}
+
+export interface LineTax {
+  taxRate: number;
+  taxAmount: Money;
+  taxRuleId: string | null;
+}
+
+export class TaxService {
+  private logger = new Logger('TaxService');
+  private readonly CACHE_TTL = 300; // 5 minutes
+
+  constructor(
+    private taxRuleRepository: ITaxRuleRepository,
+    private redis: RedisClientType,
+    private defaultRate: number = 0.1
+  ) {}
+
+  async createTaxRule(ruleData: Partial<TaxRule>): Promise<TaxRule> {
+    try {
+      const rule = new TaxRule(ruleData);
+      const validationErrors = rule.validate();
+
+      if (validationErrors.length > 0) {
+        throw AppError.validation(`Validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      const createdRule = await this.taxRuleRepository.create(rule);
+      await this.clearTaxRulesCache();
+
+      this.logger.info(`Tax rule created: ${createdRule.name} (${createdRule.country}/${createdRule.state || '*'})`);
+      return createdRule;
+    } catch (error) {
+      this.logger.error('Error creating tax rule:', error);
+      throw error;
+    }
+  }
+
+  async getTaxRuleById(id: string): Promise<TaxRule | null> {
+    try {
+      return await this.taxRuleRepository.findById(id);
+    } catch (error) {
+      this.logger.error('Error getting tax rule by ID:', error);
+      throw error;
+    }
+  }
+
+  async getAllTaxRules(page: number = 1, limit: number = 10): Promise<{ rules: TaxRule[]; total: number }> {
+    try {
+      const [rules, total] = await Promise.all([
+        this.taxRuleRepository.findAll(page, limit),
+        this.taxRuleRepository.count(),
+      ]);
+
+      return { rules, total };
+    } catch (error) {
+      this.logger.error('Error getting all tax rules:', error);
+      throw error;
+    }
+  }
+
+  async updateTaxRule(id: string, ruleData: Partial<TaxRule>): Promise<TaxRule> {
+    try {
+      const existingRule = await this.taxRuleRepository.findById(id);
+      if (!existingRule) {
+        throw AppError.notFound('Tax rule not found');
+      }
+
+      // Validate the merged result before persisting
+      const merged = new TaxRule({ ...existingRule, ...ruleData });
+      const validationErrors = merged.validate();
+      if (validationErrors.length > 0) {
+        throw AppError.validation(`Validation failed: ${validationErrors.join(', ')}`);
+      }
+
+      const updatedRule = await this.taxRuleRepository.update(id, {
+        ...ruleData,
+        ...(ruleData.country && { country: merged.country }),
+        ...(ruleData.state !== undefined && { state: merged.state }),
+      });
+      await this.clearTaxRulesCache();
+
+      this.logger.info(`Tax rule updated: ${updatedRule.name} (ID: ${id})`);
+      return updatedRule;
+    } catch (error) {
+      this.logger.error('Error updating tax rule:', error);
+      throw error;
+    }
+  }
+
+  async deleteTaxRule(id: string): Promise<void> {
+    try {
+      const existingRule = await this.taxRuleRepository.findById(id);
+      if (!existingRule) {
+        throw AppError.notFound('Tax rule not found');
+      }
+
+      await this.taxRuleRepository.delete(id);
+      await this.clearTaxRulesCache();
+
+      this.logger.info(`Tax rule deleted: ${existingRule.name} (ID: ${id})`);
+    } catch (error) {
+      this.logger.error('Error deleting tax rule:', error);
+      throw error;
+    }
+  }
+
+  async calculateLineTaxes(address: ShippingAddress, lines: TaxableLine[]): Promise<LineTax[]> {
+    try {
+      const rules = await this.getRulesForLocation(address.country, address.state);
+
+      return lines.map(line => {
+        const rule = this.selectRule(rules, address, line.categoryId);
+        const taxRate = rule ? rule.getEffectiveRate() : this.defaultRate;
+
+        return {
+          taxRate,
+          taxAmount: line.amount.multiply(taxRate),
+          taxRuleId: rule ? rule.id : null,
+        };
+      });
+    } catch (error) {
+      this.logger.error('Error calculating line taxes:', error);
+      throw error;
+    }
+  }
+
+  // For carts whose destination is not known yet: every line at the default rate
+  estimateLineTaxes(lines: TaxableLine[]): LineTax[] {
+    return lines.map(line => ({
+      taxRate: this.defaultRate,
+      taxAmount: line.amount.multiply(this.defaultRate),
+      taxRuleId: null,
+    }));
+  }
+
+  // Private helper methods
+  private selectRule(rules: TaxRule[], address: ShippingAddress, categoryId: string): TaxRule | null {
+    const applicable = rules.filter(rule => rule.appliesTo(address.country, address.state, categoryId));
+    if (applicable.length === 0) return null;
+
+    // Most specific rule wins; ties go to the most recently updated rule
+    return applicable.sort((a, b) =>
+      b.getSpecificity() - a.getSpecificity() ||
+      new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+    )[0] || null;
+  }
+
+  private async getRulesForLocation(country: string, state: string): Promise<TaxRule[]> {
+    const cacheKey = `tax-rules:${country.toUpperCase()}:${state.toUpperCase()}`;
+    const cachedRules = await this.redis.get(cacheKey);
+
+    if (cachedRules) {
+      return JSON.parse(cachedRules).map((rule: Partial<TaxRule>) => new TaxRule(rule));
+    }
+
+    const rules = await this.taxRuleRepository.findActiveForLocation(country, state);
+    await this.redis.setEx(cacheKey, this.CACHE_TTL, JSON.stringify(rules));
+
+    return rules;
+  }
+
+  private async clearTaxRulesCache(): Promise<void> {
+    try {
+      const keys = await this.redis.keys('tax-rules:*');
+      if (keys.length > 0) {
+        await this.redis.del(keys);
+      }
+    } catch (error) {
+      this.logger.warn('Error clearing tax rules cache:', error);
+    }
+  }
+}
@@ -0,0 +1,167 @@
+import { IWishlistRepository } from '@/business/interfaces/IWishlistRepository';
+import { IProductRepository } from '@/business/interfaces/IProductRepository';
+import { WishlistItem } from '@/business/domain/WishlistItem';
+import { Money } from '@/business/domain/Money';
+import { Cart } from '@/business/domain/Cart';
+import { CartService } from '@/business/services/CartService';
+import { AppError } from '@/shared/errors/AppError';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface WishlistEntry {
+  id: string;
+  productId: string;
+  variantId: string | null;
+  productName: string;
+  variantName: string | null;
+  savedPrice: Money;
+  currentPrice: Money;
+  priceDifference: Money; // current minus saved; negative means it got cheaper
+  stockStatus: 'in_stock' | 'low_stock' | 'out_of_stock';
+  isAvailable: boolean;
+  savedAt: Date;
+}
+
+// Per-user wishlist kept in Postgres
+export class WishlistService {
+  private logger = new Logger('WishlistService');
+
+  constructor(
+    private wishlistRepository: IWishlistRepository,
+    private productRepository: IProductRepository,
+    private cartService: CartService
+  ) {}
+
+  async getWishlist(userId: string): Promise<WishlistEntry[]> {
+    try {
+      const items = await this.wishlistRepository.findByUserId(userId);
+      const entries: WishlistEntry[] = [];
+
+      for (const item of items) {
+        const product = await this.productRepository.findById(item.productId);
+        if (!product) continue; // entries cascade away with the product; this only covers a race
+
+        // Variant entries compare against the variant's own price and stock; a deleted variant falls back to the product
+        const variant = item.variantId ? product.findVariant(item.variantId) : undefined;
+        const sellable = variant ? product.getSellable(variant.id) : null;
+        const currentPrice = sellable ? sellable.price : product.price;
+
+        entries.push({
+          id: item.id,
+          productId: item.productId,
+          variantId: sellable ? sellable.variantId : null,
+          productName: product.name,
+          variantName: sellable ? sellable.variantName : null,
+          savedPrice: item.savedPrice,
+          currentPrice,
+          priceDifference: item.priceDifference(currentPrice),
+          stockStatus: sellable ? product.getStockStatus(sellable.stock) : product.getStockStatus(),
+          isAvailable: sellable ? sellable.isActive && sellable.stock > 0 : product.isActive && product.isInStock(),
+          savedAt: item.createdAt,
+        });
+      }
+
+      return entries;
+    } catch (error) {
+      this.logger.error('Error getting wishlist:', error);
+      throw error;
+    }
+  }
+
+  // Saving a product twice keeps the first entry, so the price difference stays relative to the original save
+  async addToWishlist(
+    userId: string,
+    productId: string,
+    variantId: string | null = null,
+    savedPrice?: Money
+  ): Promise<WishlistItem> {
+    try {
+      const product = await this.productRepository.findById(productId);
+      if (!product) {
+        throw AppError.notFound('Product not found');
+      }
+
+      const variant = variantId ? product.findVariant(variantId) : undefined;
+      if (variantId && !variant) {
+        throw AppError.notFound('Variant not found');
+      }
+
+      const existing = await this.wishlistRepository.findByUserAndProduct(userId, productId);
+      if (existing) {
+        return existing;
+      }
+
+      const item = new WishlistItem({
+        userId,
+        productId,
+        variantId,
+        savedPrice: savedPrice ?? (variant ? variant.priceOr(product.price) : product.price),
+      });
+
+      const errors = item.validate();
+      if (errors.length > 0) {
+        throw AppError.validation(`Validation failed: ${errors.join(', ')}`);
+      }
+
+      const created = await this.wishlistRepository.create(item);
+
+      this.logger.info(`Product ${productId} saved to wishlist of user: ${userId}`);
+      return created;
+    } catch (error) {
+      this.logger.error('Error adding to wishlist:', error);
+      throw error;
+    }
+  }
+
+  async removeFromWishlist(userId: string, productId: string): Promise<void> {
+    try {
+      const removed = await this.wishlistRepository.delete(userId, productId);
+      if (!removed) {
+        throw AppError.notFound('Item not found in wishlist');
+      }
+
+      this.logger.info(`Product ${productId} removed from wishlist of user: ${userId}`);
+    } catch (error) {
+      this.logger.error('Error removing from wishlist:', error);
+      throw error;
+    }
+  }
+
+  // The entry is only dropped once the cart accepted the item (stock, availability); defaults to the saved variant
+  async moveToCart(userId: string, productId: string, quantity: number = 1, variantId: string | null = null): Promise<Cart> {
+    try {
+      const item = await this.wishlistRepository.findByUserAndProduct(userId, productId);
+      if (!item) {
+        throw AppError.notFound('Item not found in wishlist');
+      }
+
+      const cart = await this.cartService.addItemToCart(userId, productId, quantity, variantId ?? item.variantId);
+      await this.wishlistRepository.delete(userId, productId);
+
+      this.logger.info(`Product ${productId} moved from wishlist to cart for user: ${userId}`);
+      return cart;
+    } catch (error) {
+      this.logger.error('Error moving wishlist item to cart:', error);
+      throw error;
+    }
+  }
+
+  // Save for later: the entry keeps the price the customer saw in the cart
+  async moveFromCart(userId: string, productId: string, variantId: string | null = null): Promise<WishlistItem> {
+    try {
+      const cart = await this.cartService.getCartByUserId(userId);
+      const cartItem = cart.findItem(productId, variantId);
+      if (!cartItem) {
+        throw AppError.notFound('Item not found in cart');
+      }
+
+      const item = await this.addToWishlist(userId, productId, variantId, cartItem.price);
+      await this.cartService.removeItemFromCart(userId, productId, variantId);
+
+      this.logger.info(`Product ${productId} moved from cart to wishlist for user: ${userId}`);
+      return item;
+    } catch (error) {
+      this.logger.error('Error moving cart item to wishlist:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { PrismaClient } from '@prisma/client';
+import { IAbandonedCartRepository, AbandonedCartStats } from '@/business/interfaces/IAbandonedCartRepository';
+import { AbandonedCart } from '@/business/domain/AbandonedCart';
+import { Money } from '@/business/domain/Money';
+import { Logger } from '@/shared/utils/Logger';
+
+export class AbandonedCartRepository implements IAbandonedCartRepository {
+  private logger = new Logger('AbandonedCartRepository');
+
+  constructor(private prisma: PrismaClient) {}
+
+  async findByUserAndCartVersion(userId: string, cartUpdatedAt: Date): Promise<AbandonedCart | null> {
+    try {
+      const abandonedCart = await this.prisma.abandonedCart.findUnique({
+        where: { userId_cartUpdatedAt: { userId, cartUpdatedAt } },
+      });
+
+      if (!abandonedCart) return null;
+
+      return this.mapToAbandonedCart(abandonedCart);
+    } catch (error) {
+      this.logger.error('Error finding abandoned cart:', error);
+      throw error;
+    }
+  }
+
+  async create(abandonedCartData: Partial<AbandonedCart>): Promise<AbandonedCart> {
+    try {
+      const abandonedCart = await this.prisma.abandonedCart.create({
+        data: {
+          userId: abandonedCartData.userId!,
+          cartUpdatedAt: abandonedCartData.cartUpdatedAt!,
+          itemCount: abandonedCartData.itemCount!,
+          cartTotal: abandonedCartData.cartTotal!.amount,
+          currency: abandonedCartData.cartTotal!.currency,
+        },
+      });
+
+      this.logger.info(`Abandoned cart recorded for user ${abandonedCart.userId}`);
+      return this.mapToAbandonedCart(abandonedCart);
+    } catch (error) {
+      this.logger.error('Error creating abandoned cart:', error);
+      throw error;
+    }
+  }
+
+  async update(id: string, abandonedCartData: Partial<AbandonedCart>): Promise<AbandonedCart> {
+    try {
+      const abandonedCart = await this.prisma.abandonedCart.update({
+        where: { id },
+        data: {
+          ...(abandonedCartData.couponCode !== undefined && { couponCode: abandonedCartData.couponCode }),
+          ...(abandonedCartData.notifiedAt !== undefined && { notifiedAt: abandonedCartData.notifiedAt }),
+          ...(abandonedCartData.recoveredOrderId !== undefined && { recoveredOrderId: abandonedCartData.recoveredOrderId }),
+          ...(abandonedCartData.recoveredTotal !== undefined && {
+            recoveredTotal: abandonedCartData.recoveredTotal ? abandonedCartData.recoveredTotal.amount : null,
+          }),
+          ...(abandonedCartData.recoveredAt !== undefined && { recoveredAt: abandonedCartData.recoveredAt }),
+        },
+      });
+
+      return this.mapToAbandonedCart(abandonedCart);
+    } catch (error) {
+      this.logger.error('Error updating abandoned cart:', error);
+      throw error;
+    }
+  }
+
+  async findAwaitingRecovery(notifiedSince: Date, limit: number = 100): Promise<AbandonedCart[]> {
+    try {
+      const abandonedCarts = await this.prisma.abandonedCart.findMany({
+        where: {
+          notifiedAt: { gte: notifiedSince },
+          recoveredAt: null,
+        },
+        orderBy: { notifiedAt: 'asc' },
+        take: limit,
+      });
+
+      return abandonedCarts.map((abandonedCart: any) => this.mapToAbandonedCart(abandonedCart));
+    } catch (error) {
+      this.logger.error('Error finding abandoned carts awaiting recovery:', error);
+      throw error;
+    }
+  }
+
+  async getStats(startDate: Date, endDate: Date): Promise<AbandonedCartStats> {
+    try {
+      const where = { createdAt: { gte: startDate, lte: endDate } };
+
+      const [abandoned, notified, recovered] = await Promise.all([
+        this.prisma.abandonedCart.count({ where }),
+        this.prisma.abandonedCart.count({ where: { ...where, notifiedAt: { not: null } } }),
+        this.prisma.abandonedCart.aggregate({
+          where: { ...where, recoveredAt: { not: null } },
+          _count: { id: true },
+          _sum: { recoveredTotal: true },
+        }),
+      ]);
+
+      return {
+        abandoned,
+        notified,
+        recovered: recovered._count.id,
+        recoveredRevenue: Money.fromMinor(recovered._sum.recoveredTotal || 0),
+      };
+    } catch (error) {
+      this.logger.error('Error getting abandoned cart stats:', error);
+      throw error;
+    }
+  }
+
+  // Helper method to map Prisma result to AbandonedCart domain object
+  private mapToAbandonedCart(prismaAbandonedCart: any): AbandonedCart {
+    return new AbandonedCart({
+      id: prismaAbandonedCart.id,
+      userId: prismaAbandonedCart.userId,
+      cartUpdatedAt: prismaAbandonedCart.cartUpdatedAt,
+      itemCount: prismaAbandonedCart.itemCount,
+      cartTotal: Money.fromMinor(prismaAbandonedCart.cartTotal, prismaAbandonedCart.currency),
+      couponCode: prismaAbandonedCart.couponCode,
+      notifiedAt: prismaAbandonedCart.notifiedAt,
+      recoveredOrderId: prismaAbandonedCart.recoveredOrderId,
+      recoveredTotal: prismaAbandonedCart.recoveredTotal !== null
+        ? Money.fromMinor(prismaAbandonedCart.recoveredTotal, prismaAbandonedCart.currency)
+        : null,
+      recoveredAt: prismaAbandonedCart.recoveredAt,
+      createdAt: prismaAbandonedCart.createdAt,
+    });
+  }
+}
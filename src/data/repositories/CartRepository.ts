@@ -0,0 +1,145 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { ICartRepository } from '@/business/interfaces/ICartRepository';
+import { Cart } from '@/business/domain/Cart';
+import { Money } from '@/business/domain/Money';
+import { Logger } from '@/shared/utils/Logger';
+
+export class CartRepository implements ICartRepository {
+  private logger = new Logger('CartRepository');
+
+  constructor(private prisma: PrismaClient) {}
+
+  async findByUserId(userId: string): Promise<Cart | null> {
+    try {
+      const cart = await this.prisma.cart.findUnique({
+        where: { userId },
+        include: { items: { orderBy: { addedAt: 'asc' } } },
+      });
+
+      if (!cart) return null;
+
+      return this.mapToCart(cart);
+    } catch (error) {
+      this.logger.error('Error finding cart by user ID:', error);
+      throw error;
+    }
+  }
+
+  async save(cart: Cart): Promise<Cart> {
+    try {
+      const saved = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const record = await tx.cart.upsert({
+          where: { userId: cart.userId },
+          create: {
+            userId: cart.userId,
+            couponCode: cart.couponCode,
+            currency: cart.total.currency,
+            createdAt: cart.createdAt,
+            updatedAt: cart.updatedAt,
+          },
+          update: {
+            couponCode: cart.couponCode,
+            updatedAt: cart.updatedAt,
+          },
+        });
+
+        // Lines removed from the cart go away; the rest are written as they are now
+        await tx.cartItem.deleteMany({
+          where: {
+            cartId: record.id,
+            id: { notIn: cart.items.map(item => item.id) },
+          },
+        });
+
+        for (const item of cart.items) {
+          await tx.cartItem.upsert({
+            where: { id: item.id },
+            create: {
+              id: item.id,
+              cartId: record.id,
+              productId: item.productId,
+              variantId: item.variantId,
+              quantity: item.quantity,
+              price: item.price.amount,
+              addedAt: item.addedAt,
+            },
+            update: {
+              quantity: item.quantity,
+              price: item.price.amount,
+            },
+          });
+        }
+
+        return tx.cart.findUniqueOrThrow({
+          where: { id: record.id },
+          include: { items: { orderBy: { addedAt: 'asc' } } },
+        });
+      });
+
+      return this.mapToCart(saved);
+    } catch (error) {
+      this.logger.error('Error saving cart:', error);
+      throw error;
+    }
+  }
+
+  async delete(userId: string): Promise<void> {
+    try {
+      // Lines cascade with the cart
+      await this.prisma.cart.deleteMany({
+        where: { userId },
+      });
+    } catch (error) {
+      this.logger.error('Error deleting cart:', error);
+      throw error;
+    }
+  }
+
+  // Keyset pagination by id so a long scan is not thrown off by carts changing meanwhile
+  async findIdleSince(idleSince: Date, cursorId: string | null, limit: number = 100): Promise<Cart[]> {
+    try {
+      const carts = await this.prisma.cart.findMany({
+        where: {
+          updatedAt: { lt: idleSince },
+          items: { some: {} },
+          ...(cursorId && { id: { gt: cursorId } }),
+        },
+        orderBy: { id: 'asc' },
+        take: limit,
+        include: { items: { orderBy: { addedAt: 'asc' } } },
+      });
+
+      return carts.map((cart: any) => this.mapToCart(cart));
+    } catch (error) {
+      this.logger.error('Error finding idle carts:', error);
+      throw error;
+    }
+  }
+
+  // Helper method to map Prisma result to Cart domain object
+  private mapToCart(prismaCart: any): Cart {
+    const items = prismaCart.items.map((item: any) => {
+      const price = Money.fromMinor(item.price, prismaCart.currency);
+      return {
+        id: item.id,
+        productId: item.productId,
+        variantId: item.variantId,
+        quantity: item.quantity,
+        price,
+        subtotal: price.multiply(item.quantity),
+        addedAt: item.addedAt,
+      };
+    });
+
+    return new Cart({
+      id: prismaCart.id,
+      userId: prismaCart.userId,
+      items,
+      total: Money.sum(items.map((item: any) => item.subtotal), prismaCart.currency),
+      itemCount: items.reduce((sum: number, item: any) => sum + item.quantity, 0),
+      couponCode: prismaCart.couponCode,
+      createdAt: prismaCart.createdAt,
+      updatedAt: prismaCart.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,146 @@
+import { PrismaClient } from '@prisma/client';
+import { ICategoryRepository } from '@/business/interfaces/ICategoryRepository';
+import { Category } from '@/business/domain/Category';
+import { Logger } from '@/shared/utils/Logger';
+
+export class CategoryRepository implements ICategoryRepository {
+  private logger = new Logger('CategoryRepository');
+
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<Category | null> {
+    try {
+      const category = await this.prisma.category.findUnique({
+        where: { id },
+      });
+
+      if (!category) return null;
+
+      return this.mapToCategory(category);
+    } catch (error) {
+      this.logger.error('Error finding category by ID:', error);
+      throw error;
+    }
+  }
+
+  async findBySlug(slug: string): Promise<Category | null> {
+    try {
+      const category = await this.prisma.category.findUnique({
+        where: { slug },
+      });
+
+      if (!category) return null;
+
+      return this.mapToCategory(category);
+    } catch (error) {
+      this.logger.error('Error finding category by slug:', error);
+      throw error;
+    }
+  }
+
+  async create(categoryData: Partial<Category>): Promise<Category> {
+    try {
+      const category = await this.prisma.category.create({
+        data: {
+          name: categoryData.name!,
+          slug: categoryData.slug!,
+          description: categoryData.description || '',
+          parentId: categoryData.parentId ?? null,
+          sortOrder: categoryData.sortOrder ?? 0,
+          isActive: categoryData.isActive ?? true,
+        },
+      });
+
+      this.logger.info(`Category created: ${category.slug}`);
+      return this.mapToCategory(category);
+    } catch (error) {
+      this.logger.error('Error creating category:', error);
+      throw error;
+    }
+  }
+
+  async update(id: string, categoryData: Partial<Category>): Promise<Category> {
+    try {
+      const category = await this.prisma.category.update({
+        where: { id },
+        data: {
+          ...(categoryData.name && { name: categoryData.name }),
+          ...(categoryData.slug && { slug: categoryData.slug }),
+          ...(categoryData.description !== undefined && { description: categoryData.description }),
+          ...(categoryData.parentId !== undefined && { parentId: categoryData.parentId }),
+          ...(categoryData.sortOrder !== undefined && { sortOrder: categoryData.sortOrder }),
+          ...(categoryData.isActive !== undefined && { isActive: categoryData.isActive }),
+        },
+      });
+
+      this.logger.info(`Category updated: ${category.slug} (ID: ${id})`);
+      return this.mapToCategory(category);
+    } catch (error) {
+      this.logger.error('Error updating category:', error);
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.prisma.category.delete({
+        where: { id },
+      });
+
+      this.logger.info(`Category deleted: ${id}`);
+    } catch (error) {
+      this.logger.error('Error deleting category:', error);
+      throw error;
+    }
+  }
+
+  async findAll(): Promise<Category[]> {
+    try {
+      const categories = await this.prisma.category.findMany({
+        orderBy: [{ sortOrder: 'asc' }, { name: 'asc' }],
+      });
+
+      return categories.map((category: any) => this.mapToCategory(category));
+    } catch (error) {
+      this.logger.error('Error finding all categories:', error);
+      throw error;
+    }
+  }
+
+  async countChildren(id: string): Promise<number> {
+    try {
+      return await this.prisma.category.count({
+        where: { parentId: id },
+      });
+    } catch (error) {
+      this.logger.error('Error counting child categories:', error);
+      throw error;
+    }
+  }
+
+  async countProducts(id: string): Promise<number> {
+    try {
+      return await this.prisma.product.count({
+        where: { categoryId: id },
+      });
+    } catch (error) {
+      this.logger.error('Error counting category products:', error);
+      throw error;
+    }
+  }
+
+  // Helper method to map Prisma result to Category domain object
+  private mapToCategory(prismaCategory: any): Category {
+    return new Category({
+      id: prismaCategory.id,
+      name: prismaCategory.name,
+      slug: prismaCategory.slug,
+      description: prismaCategory.description,
+      parentId: prismaCategory.parentId,
+      sortOrder: prismaCategory.sortOrder,
+      isActive: prismaCategory.isActive,
+      createdAt: prismaCategory.createdAt,
+      updatedAt: prismaCategory.updatedAt,
+    });
+  }
+}
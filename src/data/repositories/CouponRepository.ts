@@ -0,0 +1,172 @@
+import { PrismaClient } from '@prisma/client';
+import { ICouponRepository } from '@/business/interfaces/ICouponRepository';
+import { Coupon, CouponType } from '@/business/domain/Coupon';
+import { Money } from '@/business/domain/Money';
+import { Logger } from '@/shared/utils/Logger';
+
+export class CouponRepository implements ICouponRepository {
+  private logger = new Logger('CouponRepository');
+
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<Coupon | null> {
+    try {
+      const coupon = await this.prisma.coupon.findUnique({
+        where: { id },
+      });
+
+      if (!coupon) return null;
+
+      return this.mapToCoupon(coupon);
+    } catch (error) {
+      this.logger.error('Error finding coupon by ID:', error);
+      throw error;
+    }
+  }
+
+  async findByCode(code: string): Promise<Coupon | null> {
+    try {
+      const coupon = await this.prisma.coupon.findUnique({
+        where: { code: code.trim().toUpperCase() },
+      });
+
+      if (!coupon) return null;
+
+      return this.mapToCoupon(coupon);
+    } catch (error) {
+      this.logger.error('Error finding coupon by code:', error);
+      throw error;
+    }
+  }
+
+  async create(couponData: Partial<Coupon>): Promise<Coupon> {
+    try {
+      const coupon = await this.prisma.coupon.create({
+        data: {
+          code: couponData.code!,
+          description: couponData.description || '',
+          type: couponData.type!,
+          value: couponData.value ?? 0,
+          buyQuantity: couponData.buyQuantity ?? null,
+          getQuantity: couponData.getQuantity ?? null,
+          categoryId: couponData.categoryId ?? null,
+          minSubtotal: couponData.minSubtotal ? Money.from(couponData.minSubtotal).amount : null,
+          maxUses: couponData.maxUses ?? null,
+          maxUsesPerUser: couponData.maxUsesPerUser ?? null,
+          startsAt: couponData.startsAt ?? null,
+          endsAt: couponData.endsAt ?? null,
+          isActive: couponData.isActive ?? true,
+        },
+      });
+
+      this.logger.info(`Coupon created: ${coupon.code}`);
+      return this.mapToCoupon(coupon);
+    } catch (error) {
+      this.logger.error('Error creating coupon:', error);
+      throw error;
+    }
+  }
+
+  async update(id: string, couponData: Partial<Coupon>): Promise<Coupon> {
+    try {
+      const coupon = await this.prisma.coupon.update({
+        where: { id },
+        data: {
+          ...(couponData.description !== undefined && { description: couponData.description }),
+          ...(couponData.type && { type: couponData.type }),
+          ...(couponData.value !== undefined && { value: couponData.value }),
+          ...(couponData.buyQuantity !== undefined && { buyQuantity: couponData.buyQuantity }),
+          ...(couponData.getQuantity !== undefined && { getQuantity: couponData.getQuantity }),
+          ...(couponData.categoryId !== undefined && { categoryId: couponData.categoryId }),
+          ...(couponData.minSubtotal !== undefined && {
+            minSubtotal: couponData.minSubtotal ? Money.from(couponData.minSubtotal).amount : null,
+          }),
+          ...(couponData.maxUses !== undefined && { maxUses: couponData.maxUses }),
+          ...(couponData.maxUsesPerUser !== undefined && { maxUsesPerUser: couponData.maxUsesPerUser }),
+          ...(couponData.startsAt !== undefined && { startsAt: couponData.startsAt }),
+          ...(couponData.endsAt !== undefined && { endsAt: couponData.endsAt }),
+          ...(couponData.isActive !== undefined && { isActive: couponData.isActive }),
+        },
+      });
+
+      this.logger.info(`Coupon updated: ${coupon.code} (ID: ${id})`);
+      return this.mapToCoupon(coupon);
+    } catch (error) {
+      this.logger.error('Error updating coupon:', error);
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.prisma.coupon.delete({
+        where: { id },
+      });
+
+      this.logger.info(`Coupon deleted: ${id}`);
+    } catch (error) {
+      this.logger.error('Error deleting coupon:', error);
+      throw error;
+    }
+  }
+
+  async findAll(page: number = 1, limit: number = 10): Promise<Coupon[]> {
+    try {
+      const skip = (page - 1) * limit;
+
+      const coupons = await this.prisma.coupon.findMany({
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return coupons.map((coupon: any) => this.mapToCoupon(coupon));
+    } catch (error) {
+      this.logger.error('Error finding all coupons:', error);
+      throw error;
+    }
+  }
+
+  async count(): Promise<number> {
+    try {
+      return await this.prisma.coupon.count();
+    } catch (error) {
+      this.logger.error('Error counting coupons:', error);
+      throw error;
+    }
+  }
+
+  async countRedemptionsByUser(couponId: string, userId: string): Promise<number> {
+    try {
+      return await this.prisma.couponRedemption.count({
+        where: { couponId, userId },
+      });
+    } catch (error) {
+      this.logger.error('Error counting coupon redemptions:', error);
+      throw error;
+    }
+  }
+
+  // Helper method to map Prisma result to Coupon domain object
+  private mapToCoupon(prismaCoupon: any): Coupon {
+    return new Coupon({
+      id: prismaCoupon.id,
+      code: prismaCoupon.code,
+      description: prismaCoupon.description,
+      type: prismaCoupon.type as CouponType,
+      value: prismaCoupon.value,
+      buyQuantity: prismaCoupon.buyQuantity,
+      getQuantity: prismaCoupon.getQuantity,
+      categoryId: prismaCoupon.categoryId,
+      minSubtotal: prismaCoupon.minSubtotal !== null ? Money.fromMinor(prismaCoupon.minSubtotal) : null,
+      maxUses: prismaCoupon.maxUses,
+      maxUsesPerUser: prismaCoupon.maxUsesPerUser,
+      usesCount: prismaCoupon.usesCount,
+      startsAt: prismaCoupon.startsAt,
+      endsAt: prismaCoupon.endsAt,
+      isActive: prismaCoupon.isActive,
+      createdAt: prismaCoupon.createdAt,
+      updatedAt: prismaCoupon.updatedAt,
+    });
+  }
+}
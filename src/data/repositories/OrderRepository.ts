@@ -1,6 +1,18 @@
-import { PrismaClient } from '@prisma/client';
-import { IOrderRepository, OrderSummary } from '@/business/interfaces/IOrderRepository';
-import { Order, OrderStatus, PaymentStatus, OrderItem, ShippingAddress } from '@/business/domain/Order';
+import { PrismaClient, Prisma, OrderStatusHistory } from '@prisma/client';
+import { IOrderRepository, OrderSummary, StockShortfall, StockDeltas, OrderSearchCriteria, OrderStateGuard } from '@/business/interfaces/IOrderRepository';
+import {
+  Order,
+  OrderStatus,
+  PaymentStatus,
+  OrderItem,
+  ShippingAddress,
+  SelectedShippingOption,
+  OrderStatusChange,
+  NewOrderStatusChange,
+  StatusChangeType,
+} from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
+import { AppError } from '@/shared/errors/AppError';
 import { Logger } from '@/shared/utils/Logger';
 
 export class OrderRepository implements IOrderRepository {
@@ -47,26 +59,7 @@ export class OrderRepository implements IOrderRepository {
   async create(orderData: Partial<Order>): Promise<Order> {
     try {
       const order = await this.prisma.order.create({
-        data: {
-          userId: orderData.userId!,
-          orderNumber: orderData.orderNumber!,
-          subtotal: orderData.subtotal!,
-          shipping: orderData.shipping!,
-          taxes: orderData.taxes!,
-          total: orderData.total!,
-          status: orderData.status!,
-          paymentStatus: orderData.paymentStatus!,
-          shippingAddress: orderData.shippingAddress! as any,
-          items: {
-            create: orderData.items!.map(item => ({
-              productId: item.productId,
-              productName: item.productName,
-              quantity: item.quantity,
-              unitPrice: item.unitPrice,
-              subtotal: item.subtotal,
-            })),
-          },
-        },
+        data: this.buildCreateData(orderData),
         include: {
           items: true,
         },
@@ -80,15 +73,344 @@ export class OrderRepository implements IOrderRepository {
     }
   }
 
-  async update(id: string, orderData: Partial<Order>): Promise<Order> {
+  async createWithStockReservation(orderData: Partial<Order>): Promise<Order> {
+    try {
+      const order = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const shortfalls: StockShortfall[] = [];
+
+        for (const item of orderData.items!) {
+          const available = await this.reserveStock(tx, item.productId, item.variantId, item.quantity);
+          if (available !== null) {
+            shortfalls.push({
+              productId: item.productId,
+              variantId: item.variantId,
+              productName: item.variantName ? `${item.productName} (${item.variantName})` : item.productName,
+              requested: item.quantity,
+              available,
+            });
+          }
+        }
+
+        // Throwing inside the callback rolls back every decrement above
+        if (shortfalls.length > 0) {
+          const summary = shortfalls
+            .map(shortfall => `${shortfall.productName} (available: ${shortfall.available}, requested: ${shortfall.requested})`)
+            .join('; ');
+          throw AppError.businessLogic(`Insufficient stock for: ${summary}`, shortfalls);
+        }
+
+        const couponId = orderData.couponCode
+          ? await this.reserveCouponUse(tx, orderData.couponCode, orderData.userId!)
+          : null;
+
+        const created = await tx.order.create({
+          data: this.buildCreateData(orderData),
+          include: {
+            items: true,
+          },
+        });
+
+        if (couponId) {
+          await tx.couponRedemption.create({
+            data: {
+              couponId,
+              orderId: created.id,
+              userId: orderData.userId!,
+              amount: orderData.discount?.amount ?? 0,
+            },
+          });
+        }
+
+        return created;
+      });
+
+      this.logger.info(`Order created with stock reserved: ${order.orderNumber}`);
+      return this.mapToOrder(order);
+    } catch (error) {
+      this.logger.error('Error creating order with stock reservation:', error);
+      throw error;
+    }
+  }
+
+  // Replaces the items and totals of an editable order; stockDeltas holds extra units to reserve (+) or release (-) per stock item
+  async updateItemsWithStockAdjustment(
+    order: Order,
+    stockDeltas: StockDeltas,
+    expectedUpdatedAt: Date
+  ): Promise<Order> {
+    try {
+      const updated = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Optimistic lock: fails if the order was paid, cancelled or edited since it was read
+        const guard = await tx.order.updateMany({
+          where: {
+            id: order.id,
+            status: OrderStatus.PENDING,
+            paymentStatus: PaymentStatus.PENDING,
+            paymentIntentId: null,
+            updatedAt: expectedUpdatedAt,
+          },
+          data: {
+            subtotal: order.subtotal.amount,
+            shipping: order.shipping.amount,
+            taxes: order.taxes.amount,
+            discount: order.discount.amount,
+            total: order.total.amount,
+            updatedAt: new Date(),
+          },
+        });
+
+        if (guard.count === 0) {
+          throw AppError.conflict('Order was changed by another request or can no longer be edited');
+        }
+
+        const shortfalls: StockShortfall[] = [];
+
+        const adjustments = [
+          ...Object.entries(stockDeltas.products).map(([productId, delta]) => ({ productId, variantId: null, delta })),
+          ...Object.entries(stockDeltas.variants).map(([variantId, delta]) => ({
+            productId: order.items.find(item => item.variantId === variantId)?.productId ?? '',
+            variantId,
+            delta,
+          })),
+        ];
+
+        for (const { productId, variantId, delta } of adjustments) {
+          if (delta < 0) {
+            await this.releaseStock(tx, productId, variantId, -delta);
+            continue;
+          }
+
+          if (delta === 0) continue;
+
+          const available = await this.reserveStock(tx, productId, variantId, delta);
+          if (available !== null) {
+            const item = order.items.find(orderItem =>
+              variantId ? orderItem.variantId === variantId : orderItem.productId === productId && !orderItem.variantId
+            );
+
+            shortfalls.push({
+              productId,
+              variantId,
+              productName: item?.productName ?? productId,
+              requested: delta,
+              available,
+            });
+          }
+        }
+
+        if (shortfalls.length > 0) {
+          const summary = shortfalls
+            .map(shortfall => `${shortfall.productName} (available: ${shortfall.available}, requested: ${shortfall.requested})`)
+            .join('; ');
+          throw AppError.businessLogic(`Insufficient stock for: ${summary}`, shortfalls);
+        }
+
+        const keptIds = order.items.filter(item => item.id).map(item => item.id);
+        await tx.orderItem.deleteMany({
+          where: { orderId: order.id, id: { notIn: keptIds } },
+        });
+
+        for (const item of order.items) {
+          const data = {
+            quantity: item.quantity,
+            unitPrice: item.unitPrice.amount,
+            subtotal: item.subtotal.amount,
+            taxRate: item.taxRate,
+            taxAmount: item.taxAmount.amount,
+            taxRuleId: item.taxRuleId,
+            discountAmount: item.discountAmount.amount,
+          };
+
+          if (item.id) {
+            await tx.orderItem.update({ where: { id: item.id }, data });
+          } else {
+            await tx.orderItem.create({
+              data: {
+                ...data,
+                orderId: order.id,
+                productId: item.productId,
+                productName: item.productName,
+                variantId: item.variantId,
+                variantName: item.variantName,
+              },
+            });
+          }
+        }
+
+        if (order.couponCode) {
+          await tx.couponRedemption.updateMany({
+            where: { orderId: order.id },
+            data: { amount: order.discount.amount },
+          });
+        }
+
+        return tx.order.findUniqueOrThrow({
+          where: { id: order.id },
+          include: {
+            items: true,
+          },
+        });
+      });
+
+      this.logger.info(`Order items updated with stock adjusted: ${updated.orderNumber}`);
+      return this.mapToOrder(updated);
+    } catch (error) {
+      this.logger.error('Error updating order items:', error);
+      throw error;
+    }
+  }
+
+  // Cancels the order and returns its items to stock and its coupon use in one transaction.
+  // Returns null, without touching stock, when the order is no longer in the expected state.
+  async cancelWithStockRelease(
+    order: Order,
+    expected: OrderStateGuard,
+    statusChanges: NewOrderStatusChange[] = []
+  ): Promise<Order | null> {
+    try {
+      const cancelled = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const guard = await tx.order.updateMany({
+          where: { id: order.id, ...expected },
+          data: {
+            status: OrderStatus.CANCELLED,
+            updatedAt: new Date(),
+          },
+        });
+
+        // Another request already cancelled, paid or moved the order on
+        if (guard.count === 0) {
+          return null;
+        }
+
+        for (const item of order.items) {
+          await this.releaseStock(tx, item.productId, item.variantId, item.quantity);
+        }
+
+        if (order.couponCode) {
+          await this.releaseCouponUse(tx, order.id);
+        }
+
+        for (const change of statusChanges) {
+          await tx.orderStatusHistory.create({
+            data: {
+              orderId: order.id,
+              type: change.type,
+              fromStatus: change.fromStatus,
+              toStatus: change.toStatus,
+              actorId: change.actorId,
+              reason: change.reason,
+            },
+          });
+        }
+
+        return tx.order.findUniqueOrThrow({
+          where: { id: order.id },
+          include: {
+            items: true,
+          },
+        });
+      });
+
+      if (!cancelled) {
+        this.logger.warn(`Order ${order.orderNumber} changed before it could be cancelled`);
+        return null;
+      }
+
+      this.logger.info(`Order cancelled with stock released: ${cancelled.orderNumber}`);
+      return this.mapToOrder(cancelled);
+    } catch (error) {
+      this.logger.error('Error cancelling order:', error);
+      throw error;
+    }
+  }
+
+  // Adds a partial refund to refundedTotal before the gateway is called; null when the order is
+  // not paid or less than `amount` is left to refund
+  async reserveRefund(id: string, amount: Money): Promise<Order | null> {
     try {
+      const reserved = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const current = await tx.order.findUnique({
+          where: { id },
+          select: { total: true },
+        });
+        if (!current) return null;
+
+        // The guard re-checks what is left at write time, so concurrent refunds cannot exceed the total
+        const result = await tx.order.updateMany({
+          where: {
+            id,
+            paymentStatus: PaymentStatus.PAID,
+            refundedTotal: { lte: current.total - amount.amount },
+          },
+          data: {
+            refundedTotal: { increment: amount.amount },
+            updatedAt: new Date(),
+          },
+        });
+        if (result.count === 0) return null;
+
+        return tx.order.findUniqueOrThrow({
+          where: { id },
+          include: {
+            items: true,
+          },
+        });
+      });
+
+      if (!reserved) {
+        this.logger.warn(`Refund of ${amount} could not be reserved on order ${id}`);
+        return null;
+      }
+
+      this.logger.info(`Refund reserved: ${reserved.orderNumber} -> ${amount}`);
+      return this.mapToOrder(reserved);
+    } catch (error) {
+      this.logger.error('Error reserving refund:', error);
+      throw error;
+    }
+  }
+
+  // Gives back a reservation whose gateway refund failed
+  async releaseRefund(id: string, amount: Money): Promise<void> {
+    try {
+      await this.prisma.order.updateMany({
+        where: { id, refundedTotal: { gte: amount.amount } },
+        data: {
+          refundedTotal: { decrement: amount.amount },
+          updatedAt: new Date(),
+        },
+      });
+
+      this.logger.info(`Refund reservation released: ${id} -> ${amount}`);
+    } catch (error) {
+      this.logger.error('Error releasing refund reservation:', error);
+      throw error;
+    }
+  }
+
+  async update(id: string, orderData: Partial<Order>, statusChanges: NewOrderStatusChange[] = []): Promise<Order> {
+    try {
+      // History rows are a nested write, so they commit together with the order update
       const order = await this.prisma.order.update({
         where: { id },
         data: {
           ...(orderData.status && { status: orderData.status }),
           ...(orderData.paymentStatus && { paymentStatus: orderData.paymentStatus }),
+          ...(orderData.paymentIntentId && { paymentIntentId: orderData.paymentIntentId }),
           ...(orderData.shippedAt && { shippedAt: orderData.shippedAt }),
           ...(orderData.deliveredAt && { deliveredAt: orderData.deliveredAt }),
+          ...(orderData.refundedTotal && { refundedTotal: orderData.refundedTotal.amount }),
+          ...(statusChanges.length > 0 && {
+            statusHistory: {
+              create: statusChanges.map(change => ({
+                type: change.type,
+                fromStatus: change.fromStatus,
+                toStatus: change.toStatus,
+                actorId: change.actorId,
+                reason: change.reason,
+              })),
+            },
+          }),
           updatedAt: new Date(),
         },
         include: {
@@ -249,6 +571,58 @@ export class OrderRepository implements IOrderRepository {
     }
   }
 
+  async search(criteria: OrderSearchCriteria, page: number = 1, limit: number = 10): Promise<Order[]> {
+    try {
+      const skip = (page - 1) * limit;
+
+      const orders = await this.prisma.order.findMany({
+        where: this.buildSearchWhere(criteria),
+        skip,
+        take: limit,
+        orderBy: this.buildSearchOrderBy(criteria),
+        include: {
+          items: true,
+        },
+      });
+
+      return orders.map(order => this.mapToOrder(order));
+    } catch (error) {
+      this.logger.error('Error searching orders:', error);
+      throw error;
+    }
+  }
+
+  // Keyset pagination for exports: stable while new orders keep arriving
+  async searchAfter(criteria: OrderSearchCriteria, cursorId: string | null, limit: number = 200): Promise<Order[]> {
+    try {
+      const orders = await this.prisma.order.findMany({
+        where: this.buildSearchWhere(criteria),
+        ...(cursorId && { cursor: { id: cursorId }, skip: 1 }),
+        take: limit,
+        orderBy: this.buildSearchOrderBy(criteria),
+        include: {
+          items: true,
+        },
+      });
+
+      return orders.map(order => this.mapToOrder(order));
+    } catch (error) {
+      this.logger.error('Error searching orders after cursor:', error);
+      throw error;
+    }
+  }
+
+  async countSearch(criteria: OrderSearchCriteria): Promise<number> {
+    try {
+      return await this.prisma.order.count({
+        where: this.buildSearchWhere(criteria),
+      });
+    } catch (error) {
+      this.logger.error('Error counting searched orders:', error);
+      throw error;
+    }
+  }
+
   async findPendingOrders(page: number = 1, limit: number = 10): Promise<Order[]> {
     try {
       return this.findByStatus(OrderStatus.PENDING, page, limit);
@@ -258,6 +632,30 @@ export class OrderRepository implements IOrderRepository {
     }
   }
 
+  async findUnpaidPendingOrdersCreatedBefore(cutoff: Date, limit: number = 100): Promise<Order[]> {
+    try {
+      const orders = await this.prisma.order.findMany({
+        where: {
+          status: OrderStatus.PENDING,
+          paymentStatus: PaymentStatus.PENDING,
+          // An attached intent may already be authorized and waiting for capture
+          paymentIntentId: null,
+          createdAt: { lt: cutoff },
+        },
+        take: limit,
+        orderBy: { createdAt: 'asc' },
+        include: {
+          items: true,
+        },
+      });
+
+      return orders.map(order => this.mapToOrder(order));
+    } catch (error) {
+      this.logger.error('Error finding unpaid pending orders:', error);
+      throw error;
+    }
+  }
+
   async findRecentOrders(userId: string, limit: number = 5): Promise<Order[]> {
     try {
       const orders = await this.prisma.order.findMany({
@@ -303,6 +701,29 @@ export class OrderRepository implements IOrderRepository {
     }
   }
 
+  async findStatusHistory(orderId: string): Promise<OrderStatusChange[]> {
+    try {
+      const entries = await this.prisma.orderStatusHistory.findMany({
+        where: { orderId },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return entries.map((entry: OrderStatusHistory) => ({
+        id: entry.id,
+        orderId: entry.orderId,
+        type: entry.type as StatusChangeType,
+        fromStatus: entry.fromStatus,
+        toStatus: entry.toStatus,
+        actorId: entry.actorId,
+        reason: entry.reason,
+        createdAt: entry.createdAt,
+      }));
+    } catch (error) {
+      this.logger.error('Error finding order status history:', error);
+      throw error;
+    }
+  }
+
   async getOrderSummary(startDate?: Date, endDate?: Date): Promise<OrderSummary> {
     try {
       const whereClause = startDate && endDate ? {
@@ -325,8 +746,8 @@ export class OrderRepository implements IOrderRepository {
         }),
       ]);
 
-      const totalRevenue = orders.reduce((sum, order) => sum + order.total, 0);
-      const averageOrderValue = totalOrders > 0 ? totalRevenue / totalOrders : 0;
+      const totalRevenue = Money.fromMinor(orders.reduce((sum, order) => sum + order.total, 0));
+      const averageOrderValue = totalOrders > 0 ? totalRevenue.multiply(1 / totalOrders) : Money.zero();
 
       const ordersByStatus = Object.values(OrderStatus).reduce((acc, status) => {
         acc[status] = 0;
@@ -349,7 +770,7 @@ export class OrderRepository implements IOrderRepository {
     }
   }
 
-  async getRevenueByPeriod(startDate: Date, endDate: Date): Promise<number> {
+  async getRevenueByPeriod(startDate: Date, endDate: Date): Promise<Money> {
     try {
       const result = await this.prisma.order.aggregate({
         where: {
@@ -358,7 +779,7 @@ export class OrderRepository implements IOrderRepository {
             lte: endDate,
           },
           status: {
-            in: [OrderStatus.DELIVERED, OrderStatus.SHIPPED],
+            in: [OrderStatus.DELIVERED, OrderStatus.SHIPPED, OrderStatus.PARTIALLY_SHIPPED],
           },
         },
         _sum: {
@@ -366,7 +787,7 @@ export class OrderRepository implements IOrderRepository {
         },
       });
 
-      return result._sum.total || 0;
+      return Money.fromMinor(result._sum.total || 0);
     } catch (error) {
       this.logger.error('Error getting revenue by period:', error);
       throw error;
@@ -396,7 +817,7 @@ export class OrderRepository implements IOrderRepository {
     }
   }
 
-  async getTopSellingProducts(limit: number = 10): Promise<Array<{ productId: string; productName: string; totalSold: number; revenue: number }>> {
+  async getTopSellingProducts(limit: number = 10): Promise<Array<{ productId: string; productName: string; totalSold: number; revenue: Money }>> {
     try {
       const result = await this.prisma.orderItem.groupBy({
         by: ['productId', 'productName'],
@@ -416,7 +837,7 @@ export class OrderRepository implements IOrderRepository {
         productId: item.productId,
         productName: item.productName,
         totalSold: item._sum.quantity || 0,
-        revenue: item._sum.subtotal || 0,
+        revenue: Money.fromMinor(item._sum.subtotal || 0),
       }));
     } catch (error) {
       this.logger.error('Error getting top selling products:', error);
@@ -424,27 +845,257 @@ export class OrderRepository implements IOrderRepository {
     }
   }
 
+  // Counts one use of the coupon inside the order transaction so usage limits hold under concurrency
+  private async reserveCouponUse(tx: Prisma.TransactionClient, code: string, userId: string): Promise<string> {
+    const coupon = await tx.coupon.findUnique({ where: { code } });
+    if (!coupon || !coupon.isActive) {
+      throw AppError.businessLogic(`Coupon ${code} is no longer available`);
+    }
+
+    if (coupon.maxUsesPerUser !== null) {
+      const userRedemptions = await tx.couponRedemption.count({
+        where: { couponId: coupon.id, userId },
+      });
+      if (userRedemptions >= coupon.maxUsesPerUser) {
+        throw AppError.businessLogic(`Coupon ${code} already used the maximum number of times`);
+      }
+    }
+
+    // The row-level check on usesCount makes the increment safe against concurrent checkouts
+    const result = await tx.coupon.updateMany({
+      where: {
+        id: coupon.id,
+        ...(coupon.maxUses !== null && { usesCount: { lt: coupon.maxUses } }),
+      },
+      data: {
+        usesCount: { increment: 1 },
+      },
+    });
+
+    if (result.count === 0) {
+      throw AppError.businessLogic(`Coupon ${code} usage limit reached`);
+    }
+
+    return coupon.id;
+  }
+
+  // Gives back the use counted for a cancelled order so it no longer counts against the coupon's limits
+  private async releaseCouponUse(tx: Prisma.TransactionClient, orderId: string): Promise<void> {
+    const redemption = await tx.couponRedemption.findUnique({ where: { orderId } });
+    if (!redemption) return;
+
+    await tx.couponRedemption.delete({ where: { id: redemption.id } });
+    await tx.coupon.updateMany({
+      where: { id: redemption.couponId, usesCount: { gt: 0 } },
+      data: {
+        usesCount: { decrement: 1 },
+      },
+    });
+  }
+
+  private buildSearchWhere(criteria: OrderSearchCriteria): Prisma.OrderWhereInput {
+    const conditions: Prisma.OrderWhereInput[] = [];
+
+    if (criteria.statuses && criteria.statuses.length > 0) {
+      conditions.push({ status: { in: criteria.statuses } });
+    }
+
+    if (criteria.paymentStatus) {
+      conditions.push({ paymentStatus: criteria.paymentStatus });
+    }
+
+    if (criteria.createdFrom || criteria.createdTo) {
+      conditions.push({
+        createdAt: {
+          ...(criteria.createdFrom && { gte: criteria.createdFrom }),
+          ...(criteria.createdTo && { lte: criteria.createdTo }),
+        },
+      });
+    }
+
+    if (criteria.minTotal || criteria.maxTotal) {
+      conditions.push({
+        total: {
+          ...(criteria.minTotal && { gte: criteria.minTotal.amount }),
+          ...(criteria.maxTotal && { lte: criteria.maxTotal.amount }),
+        },
+      });
+    }
+
+    // Guest orders have no user, only the email given at checkout
+    if (criteria.customerEmail) {
+      conditions.push({
+        OR: [
+          { user: { email: { contains: criteria.customerEmail, mode: 'insensitive' } } },
+          { guestEmail: { contains: criteria.customerEmail, mode: 'insensitive' } },
+        ],
+      });
+    }
+
+    if (criteria.orderNumberPrefix) {
+      conditions.push({ orderNumber: { startsWith: criteria.orderNumberPrefix } });
+    }
+
+    // Same rules as findOrdersRequiringAction
+    if (criteria.requiresAction) {
+      conditions.push({
+        OR: [
+          { status: OrderStatus.CONFIRMED, paymentStatus: PaymentStatus.PAID },
+          { status: OrderStatus.PROCESSING },
+          { paymentStatus: PaymentStatus.FAILED },
+        ],
+      });
+    }
+
+    return conditions.length > 0 ? { AND: conditions } : {};
+  }
+
+  // The id tiebreaker keeps the order deterministic, which keyset pagination relies on
+  private buildSearchOrderBy(criteria: OrderSearchCriteria): Prisma.OrderOrderByWithRelationInput[] {
+    const sortOrder = criteria.sortOrder || 'desc';
+    return [
+      { [criteria.sortBy || 'createdAt']: sortOrder },
+      { id: sortOrder },
+    ];
+  }
+
+  // Helper method to map Order domain object to Prisma create input
+  private buildCreateData(orderData: Partial<Order>): any {
+    return {
+      userId: orderData.userId ?? null,
+      guestId: orderData.guestId ?? null,
+      guestEmail: orderData.guestEmail ?? null,
+      orderNumber: orderData.orderNumber!,
+      currency: orderData.currency!,
+      subtotal: orderData.subtotal!.amount,
+      shipping: orderData.shipping!.amount,
+      taxes: orderData.taxes!.amount,
+      discount: orderData.discount?.amount ?? 0,
+      total: orderData.total!.amount,
+      refundedTotal: orderData.refundedTotal?.amount ?? 0,
+      couponCode: orderData.couponCode ?? null,
+      status: orderData.status!,
+      paymentStatus: orderData.paymentStatus!,
+      shippingAddress: orderData.shippingAddress! as any,
+      shippingOption: (orderData.shippingOption ?? undefined) as any,
+      items: {
+        create: orderData.items!.map(item => ({
+          productId: item.productId,
+          productName: item.productName,
+          variantId: item.variantId,
+          variantName: item.variantName,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice.amount,
+          subtotal: item.subtotal.amount,
+          taxRate: item.taxRate,
+          taxAmount: item.taxAmount.amount,
+          taxRuleId: item.taxRuleId,
+          discountAmount: item.discountAmount.amount,
+        })),
+      },
+      statusHistory: {
+        create: [{
+          type: StatusChangeType.ORDER,
+          fromStatus: null,
+          toStatus: orderData.status!,
+          actorId: orderData.userId ?? null,
+          reason: 'Order created',
+        }],
+      },
+    };
+  }
+
+  // Conditional decrement of a product's or variant's stock: only succeeds while enough is left.
+  // Returns null on success, or the stock that was available when it failed.
+  private async reserveStock(
+    tx: Prisma.TransactionClient,
+    productId: string,
+    variantId: string | null,
+    quantity: number
+  ): Promise<number | null> {
+    if (variantId) {
+      const result = await tx.productVariant.updateMany({
+        where: { id: variantId, stock: { gte: quantity } },
+        data: { stock: { decrement: quantity } },
+      });
+      if (result.count > 0) return null;
+
+      const variant = await tx.productVariant.findUnique({
+        where: { id: variantId },
+        select: { stock: true },
+      });
+      return variant?.stock ?? 0;
+    }
+
+    const result = await tx.product.updateMany({
+      where: { id: productId, stock: { gte: quantity } },
+      data: { stock: { decrement: quantity } },
+    });
+    if (result.count > 0) return null;
+
+    const product = await tx.product.findUnique({
+      where: { id: productId },
+      select: { stock: true },
+    });
+    return product?.stock ?? 0;
+  }
+
+  // Returns units to a product's or variant's stock; rows deleted since the order was placed are skipped
+  private async releaseStock(
+    tx: Prisma.TransactionClient,
+    productId: string,
+    variantId: string | null,
+    quantity: number
+  ): Promise<void> {
+    if (variantId) {
+      await tx.productVariant.updateMany({
+        where: { id: variantId },
+        data: { stock: { increment: quantity } },
+      });
+      return;
+    }
+
+    await tx.product.updateMany({
+      where: { id: productId },
+      data: { stock: { increment: quantity } },
+    });
+  }
+
   // Helper method to map Prisma result to Order domain object
   private mapToOrder(prismaOrder: any): Order {
     return new Order({
       id: prismaOrder.id,
       userId: prismaOrder.userId,
+      guestId: prismaOrder.guestId,
+      guestEmail: prismaOrder.guestEmail,
       orderNumber: prismaOrder.orderNumber,
       items: prismaOrder.items?.map((item: any) => ({
         id: item.id,
         productId: item.productId,
         productName: item.productName,
+        variantId: item.variantId,
+        variantName: item.variantName,
         quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        subtotal: item.subtotal,
+        unitPrice: Money.fromMinor(item.unitPrice, prismaOrder.currency),
+        subtotal: Money.fromMinor(item.subtotal, prismaOrder.currency),
+        taxRate: item.taxRate,
+        taxAmount: Money.fromMinor(item.taxAmount, prismaOrder.currency),
+        taxRuleId: item.taxRuleId,
+        discountAmount: Money.fromMinor(item.discountAmount, prismaOrder.currency),
       })) || [],
-      subtotal: prismaOrder.subtotal,
-      shipping: prismaOrder.shipping,
-      taxes: prismaOrder.taxes,
-      total: prismaOrder.total,
+      currency: prismaOrder.currency,
+      subtotal: Money.fromMinor(prismaOrder.subtotal, prismaOrder.currency),
+      shipping: Money.fromMinor(prismaOrder.shipping, prismaOrder.currency),
+      taxes: Money.fromMinor(prismaOrder.taxes, prismaOrder.currency),
+      discount: Money.fromMinor(prismaOrder.discount, prismaOrder.currency),
+      total: Money.fromMinor(prismaOrder.total, prismaOrder.currency),
+      refundedTotal: Money.fromMinor(prismaOrder.refundedTotal, prismaOrder.currency),
+      couponCode: prismaOrder.couponCode,
       status: prismaOrder.status as OrderStatus,
       paymentStatus: prismaOrder.paymentStatus as PaymentStatus,
+      paymentIntentId: prismaOrder.paymentIntentId,
       shippingAddress: prismaOrder.shippingAddress as ShippingAddress,
+      shippingOption: (prismaOrder.shippingOption as SelectedShippingOption) ?? null,
       createdAt: prismaOrder.createdAt,
       updatedAt: prismaOrder.updatedAt,
       shippedAt: prismaOrder.shippedAt,
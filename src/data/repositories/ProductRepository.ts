@@ -1,8 +1,17 @@
 import { PrismaClient } from '@prisma/client';
 import { IProductRepository } from '@/business/interfaces/IProductRepository';
 import { Product } from '@/business/domain/Product';
+import { ProductVariant } from '@/business/domain/ProductVariant';
+import { ProductImage } from '@/business/domain/ProductImage';
+import { Money } from '@/business/domain/Money';
 import { Logger } from '@/shared/utils/Logger';
 
+// Variants and images are always loaded with their product: stock, pricing, the variant matrix and responses depend on them
+const PRODUCT_INCLUDE = {
+  variants: { orderBy: { createdAt: 'asc' as const } },
+  images: { orderBy: { position: 'asc' as const } },
+};
+
 export class ProductRepository implements IProductRepository {
   private logger = new Logger('ProductRepository');
 
@@ -12,22 +21,12 @@ export class ProductRepository implements IProductRepository {
     try {
       const product = await this.prisma.product.findUnique({
         where: { id },
+        include: PRODUCT_INCLUDE,
       });
 
       if (!product) return null;
 
-      return new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      });
+      return this.mapToProduct(product);
     } catch (error) {
       this.logger.error('Error finding product by ID:', error);
       throw error;
@@ -38,22 +37,12 @@ export class ProductRepository implements IProductRepository {
     try {
       const product = await this.prisma.product.findUnique({
         where: { sku },
+        include: PRODUCT_INCLUDE,
       });
 
       if (!product) return null;
 
-      return new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      });
+      return this.mapToProduct(product);
     } catch (error) {
       this.logger.error('Error finding product by SKU:', error);
       throw error;
@@ -66,28 +55,21 @@ export class ProductRepository implements IProductRepository {
         data: {
           name: productData.name!,
           description: productData.description!,
-          price: productData.price!,
+          price: Money.from(productData.price).amount,
+          currency: Money.from(productData.price).currency,
           sku: productData.sku!,
           stock: productData.stock!,
+          weight: productData.weight ?? 0,
           categoryId: productData.categoryId!,
+          options: (productData.options ?? []) as any,
           isActive: productData.isActive ?? true,
         },
+        include: PRODUCT_INCLUDE,
       });
 
       this.logger.info(`Product created: ${product.name} (SKU: ${product.sku})`);
 
-      return new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      });
+      return this.mapToProduct(product);
     } catch (error) {
       this.logger.error('Error creating product:', error);
       throw error;
@@ -101,28 +83,23 @@ export class ProductRepository implements IProductRepository {
         data: {
           ...(productData.name && { name: productData.name }),
           ...(productData.description && { description: productData.description }),
-          ...(productData.price !== undefined && { price: productData.price }),
+          ...(productData.price !== undefined && {
+            price: Money.from(productData.price).amount,
+            currency: Money.from(productData.price).currency,
+          }),
           ...(productData.sku && { sku: productData.sku }),
           ...(productData.stock !== undefined && { stock: productData.stock }),
+          ...(productData.weight !== undefined && { weight: productData.weight }),
           ...(productData.categoryId && { categoryId: productData.categoryId }),
+          ...(productData.options && { options: productData.options as any }),
           ...(productData.isActive !== undefined && { isActive: productData.isActive }),
         },
+        include: PRODUCT_INCLUDE,
       });
 
       this.logger.info(`Product updated: ${product.name} (ID: ${id})`);
 
-      return new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      });
+      return this.mapToProduct(product);
     } catch (error) {
       this.logger.error('Error updating product:', error);
       throw error;
@@ -150,20 +127,10 @@ export class ProductRepository implements IProductRepository {
         skip,
         take: limit,
         orderBy: { createdAt: 'desc' },
+        include: PRODUCT_INCLUDE,
       });
 
-      return products.map(product => new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      }));
+      return products.map(product => this.mapToProduct(product));
     } catch (error) {
       this.logger.error('Error finding all products:', error);
       throw error;
@@ -193,29 +160,19 @@ export class ProductRepository implements IProductRepository {
     }
   }
 
-  async findByCategory(categoryId: string, page: number = 1, limit: number = 10): Promise<Product[]> {
+  async findByCategory(categoryIds: string[], page: number = 1, limit: number = 10): Promise<Product[]> {
     try {
       const skip = (page - 1) * limit;
       
       const products = await this.prisma.product.findMany({
-        where: { categoryId },
+        where: { categoryId: { in: categoryIds } },
         skip,
         take: limit,
         orderBy: { createdAt: 'desc' },
+        include: PRODUCT_INCLUDE,
       });
 
-      return products.map(product => new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      }));
+      return products.map(product => this.mapToProduct(product));
     } catch (error) {
       this.logger.error('Error finding products by category:', error);
       throw error;
@@ -237,20 +194,10 @@ export class ProductRepository implements IProductRepository {
         skip,
         take: limit,
         orderBy: { createdAt: 'desc' },
+        include: PRODUCT_INCLUDE,
       });
 
-      return products.map(product => new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      }));
+      return products.map(product => this.mapToProduct(product));
     } catch (error) {
       this.logger.error('Error searching products:', error);
       throw error;
@@ -266,20 +213,10 @@ export class ProductRepository implements IProductRepository {
         skip,
         take: limit,
         orderBy: { createdAt: 'desc' },
+        include: PRODUCT_INCLUDE,
       });
 
-      return products.map(product => new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      }));
+      return products.map(product => this.mapToProduct(product));
     } catch (error) {
       this.logger.error('Error finding active products:', error);
       throw error;
@@ -292,61 +229,44 @@ export class ProductRepository implements IProductRepository {
       
       const products = await this.prisma.product.findMany({
         where: { 
-          stock: { gt: 0 },
           isActive: true,
+          OR: [
+            { stock: { gt: 0 }, variants: { none: {} } },
+            { variants: { some: { isActive: true, stock: { gt: 0 } } } },
+          ],
         },
         skip,
         take: limit,
         orderBy: { createdAt: 'desc' },
+        include: PRODUCT_INCLUDE,
       });
 
-      return products.map(product => new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      }));
+      return products.map(product => this.mapToProduct(product));
     } catch (error) {
       this.logger.error('Error finding products in stock:', error);
       throw error;
     }
   }
 
-  async findByPriceRange(minPrice: number, maxPrice: number, page: number = 1, limit: number = 10): Promise<Product[]> {
+  async findByPriceRange(minPrice: Money, maxPrice: Money, page: number = 1, limit: number = 10): Promise<Product[]> {
     try {
       const skip = (page - 1) * limit;
       
       const products = await this.prisma.product.findMany({
         where: {
           price: {
-            gte: minPrice,
-            lte: maxPrice,
+            gte: minPrice.amount,
+            lte: maxPrice.amount,
           },
           isActive: true,
         },
         skip,
         take: limit,
         orderBy: { price: 'asc' },
+        include: PRODUCT_INCLUDE,
       });
 
-      return products.map(product => new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      }));
+      return products.map(product => this.mapToProduct(product));
     } catch (error) {
       this.logger.error('Error finding products by price range:', error);
       throw error;
@@ -358,22 +278,12 @@ export class ProductRepository implements IProductRepository {
       const product = await this.prisma.product.update({
         where: { id },
         data: { stock: quantity },
+        include: PRODUCT_INCLUDE,
       });
 
       this.logger.info(`Stock updated for product ${id}: ${quantity} units`);
 
-      return new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      });
+      return this.mapToProduct(product);
     } catch (error) {
       this.logger.error('Error updating stock:', error);
       throw error;
@@ -384,27 +294,228 @@ export class ProductRepository implements IProductRepository {
     try {
       const products = await this.prisma.product.findMany({
         where: {
-          stock: { lte: threshold },
           isActive: true,
+          OR: [
+            { stock: { lte: threshold }, variants: { none: {} } },
+            { variants: { some: { isActive: true, stock: { lte: threshold } } } },
+          ],
         },
         orderBy: { stock: 'asc' },
+        include: PRODUCT_INCLUDE,
       });
 
-      return products.map(product => new Product({
-        id: product.id,
-        name: product.name,
-        description: product.description,
-        price: product.price,
-        sku: product.sku,
-        stock: product.stock,
-        categoryId: product.categoryId,
-        isActive: product.isActive,
-        createdAt: product.createdAt,
-        updatedAt: product.updatedAt,
-      }));
+      return products.map(product => this.mapToProduct(product));
     } catch (error) {
       this.logger.error('Error finding low stock products:', error);
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  async findVariantById(id: string): Promise<ProductVariant | null> {
+    try {
+      const variant = await this.prisma.productVariant.findUnique({
+        where: { id },
+        include: { product: { select: { currency: true } } },
+      });
+
+      return variant ? this.mapToVariant(variant, variant.product.currency) : null;
+    } catch (error) {
+      this.logger.error('Error finding variant by ID:', error);
+      throw error;
+    }
+  }
+
+  async findVariantBySku(sku: string): Promise<ProductVariant | null> {
+    try {
+      const variant = await this.prisma.productVariant.findUnique({
+        where: { sku },
+        include: { product: { select: { currency: true } } },
+      });
+
+      return variant ? this.mapToVariant(variant, variant.product.currency) : null;
+    } catch (error) {
+      this.logger.error('Error finding variant by SKU:', error);
+      throw error;
+    }
+  }
+
+  async createVariant(variantData: Partial<ProductVariant>): Promise<ProductVariant> {
+    try {
+      const variant = await this.prisma.productVariant.create({
+        data: {
+          productId: variantData.productId!,
+          sku: variantData.sku!,
+          options: variantData.options! as any,
+          price: variantData.price != null ? Money.from(variantData.price).amount : null,
+          stock: variantData.stock ?? 0,
+          isActive: variantData.isActive ?? true,
+        },
+      });
+
+      this.logger.info(`Variant created: ${variant.sku} (product: ${variant.productId})`);
+      return this.mapToVariant(variant);
+    } catch (error) {
+      this.logger.error('Error creating variant:', error);
+      throw error;
+    }
+  }
+
+  async updateVariant(id: string, variantData: Partial<ProductVariant>): Promise<ProductVariant> {
+    try {
+      const variant = await this.prisma.productVariant.update({
+        where: { id },
+        data: {
+          ...(variantData.sku && { sku: variantData.sku }),
+          ...(variantData.options && { options: variantData.options as any }),
+          ...(variantData.price !== undefined && {
+            price: variantData.price !== null ? Money.from(variantData.price).amount : null,
+          }),
+          ...(variantData.stock !== undefined && { stock: variantData.stock }),
+          ...(variantData.isActive !== undefined && { isActive: variantData.isActive }),
+        },
+      });
+
+      this.logger.info(`Variant updated: ${variant.sku} (ID: ${id})`);
+      return this.mapToVariant(variant);
+    } catch (error) {
+      this.logger.error('Error updating variant:', error);
+      throw error;
+    }
+  }
+
+  async deleteVariant(id: string): Promise<void> {
+    try {
+      await this.prisma.productVariant.delete({
+        where: { id },
+      });
+
+      this.logger.info(`Variant deleted: ${id}`);
+    } catch (error) {
+      this.logger.error('Error deleting variant:', error);
+      throw error;
+    }
+  }
+
+  async createImage(imageData: Partial<ProductImage>): Promise<ProductImage> {
+    try {
+      const image = await this.prisma.productImage.create({
+        data: {
+          productId: imageData.productId!,
+          storageKey: imageData.storageKey!,
+          thumbnailKey: imageData.thumbnailKey!,
+          contentType: imageData.contentType!,
+          size: imageData.size!,
+          width: imageData.width!,
+          height: imageData.height!,
+          altText: imageData.altText ?? '',
+          position: imageData.position ?? 0,
+        },
+      });
+
+      this.logger.info(`Image created: ${image.id} (product: ${image.productId})`);
+      return this.mapToImage(image);
+    } catch (error) {
+      this.logger.error('Error creating image:', error);
+      throw error;
+    }
+  }
+
+  async updateImage(id: string, imageData: Partial<ProductImage>): Promise<ProductImage> {
+    try {
+      const image = await this.prisma.productImage.update({
+        where: { id },
+        data: {
+          ...(imageData.altText !== undefined && { altText: imageData.altText }),
+        },
+      });
+
+      this.logger.info(`Image updated: ${id}`);
+      return this.mapToImage(image);
+    } catch (error) {
+      this.logger.error('Error updating image:', error);
+      throw error;
+    }
+  }
+
+  async deleteImage(id: string): Promise<void> {
+    try {
+      await this.prisma.productImage.delete({
+        where: { id },
+      });
+
+      this.logger.info(`Image deleted: ${id}`);
+    } catch (error) {
+      this.logger.error('Error deleting image:', error);
+      throw error;
+    }
+  }
+
+  // Rewrites every position in one transaction so the gallery never shows a half-applied order
+  async reorderImages(productId: string, imageIds: string[]): Promise<void> {
+    try {
+      await this.prisma.$transaction(
+        imageIds.map((id, position) => this.prisma.productImage.updateMany({
+          where: { id, productId },
+          data: { position },
+        }))
+      );
+
+      this.logger.info(`Images reordered for product ${productId}`);
+    } catch (error) {
+      this.logger.error('Error reordering images:', error);
+      throw error;
+    }
+  }
+
+  // Helper method to map Prisma result to Product domain object
+  private mapToProduct(product: any): Product {
+    return new Product({
+      id: product.id,
+      name: product.name,
+      description: product.description,
+      price: Money.fromMinor(product.price, product.currency),
+      sku: product.sku,
+      stock: product.stock,
+      weight: product.weight,
+      categoryId: product.categoryId,
+      options: product.options ?? [],
+      variants: (product.variants ?? []).map((variant: any) => this.mapToVariant(variant, product.currency)),
+      images: (product.images ?? []).map((image: any) => this.mapToImage(image)),
+      isActive: product.isActive,
+      createdAt: product.createdAt,
+      updatedAt: product.updatedAt,
+    });
+  }
+
+  // Variant price overrides are stored in the product's currency
+  private mapToVariant(variant: any, currency?: string): ProductVariant {
+    return new ProductVariant({
+      id: variant.id,
+      productId: variant.productId,
+      sku: variant.sku,
+      options: variant.options ?? {},
+      price: variant.price !== null ? Money.fromMinor(variant.price, currency) : null,
+      stock: variant.stock,
+      isActive: variant.isActive,
+      createdAt: variant.createdAt,
+      updatedAt: variant.updatedAt,
+    });
+  }
+
+  private mapToImage(image: any): ProductImage {
+    return new ProductImage({
+      id: image.id,
+      productId: image.productId,
+      storageKey: image.storageKey,
+      thumbnailKey: image.thumbnailKey,
+      contentType: image.contentType,
+      size: image.size,
+      width: image.width,
+      height: image.height,
+      altText: image.altText,
+      position: image.position,
+      createdAt: image.createdAt,
+      updatedAt: image.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,261 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { IReturnRepository } from '@/business/interfaces/IReturnRepository';
+import { ReturnRequest, ReturnStatus } from '@/business/domain/ReturnRequest';
+import { Money } from '@/business/domain/Money';
+import { AppError } from '@/shared/errors/AppError';
+import { Logger } from '@/shared/utils/Logger';
+
+export class ReturnRepository implements IReturnRepository {
+  private logger = new Logger('ReturnRepository');
+
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<ReturnRequest | null> {
+    try {
+      const returnRequest = await this.prisma.returnRequest.findUnique({
+        where: { id },
+        include: { items: true },
+      });
+
+      if (!returnRequest) return null;
+
+      return this.mapToReturnRequest(returnRequest);
+    } catch (error) {
+      this.logger.error('Error finding return by ID:', error);
+      throw error;
+    }
+  }
+
+  async create(returnData: Partial<ReturnRequest>): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.prisma.returnRequest.create({
+        data: {
+          orderId: returnData.orderId!,
+          userId: returnData.userId!,
+          status: returnData.status ?? ReturnStatus.REQUESTED,
+          reason: returnData.reason!,
+          currency: returnData.currency!,
+          items: {
+            create: returnData.items!.map(item => ({
+              orderItemId: item.orderItemId,
+              productId: item.productId,
+              productName: item.productName,
+              quantity: item.quantity,
+              refundAmount: item.refundAmount.amount,
+            })),
+          },
+        },
+        include: { items: true },
+      });
+
+      this.logger.info(`Return created: ${returnRequest.id} for order ${returnRequest.orderId}`);
+      return this.mapToReturnRequest(returnRequest);
+    } catch (error) {
+      this.logger.error('Error creating return:', error);
+      throw error;
+    }
+  }
+
+  async update(id: string, returnData: Partial<ReturnRequest>): Promise<ReturnRequest> {
+    try {
+      const returnRequest = await this.prisma.returnRequest.update({
+        where: { id },
+        data: {
+          ...(returnData.status && { status: returnData.status }),
+          ...(returnData.resolutionNote !== undefined && { resolutionNote: returnData.resolutionNote }),
+          ...(returnData.reviewedBy !== undefined && { reviewedBy: returnData.reviewedBy }),
+          ...(returnData.refundAmount && { refundAmount: returnData.refundAmount.amount }),
+          ...(returnData.refundedAt !== undefined && { refundedAt: returnData.refundedAt }),
+          updatedAt: new Date(),
+        },
+        include: { items: true },
+      });
+
+      this.logger.info(`Return updated: ${returnRequest.id} (${returnRequest.status})`);
+      return this.mapToReturnRequest(returnRequest);
+    } catch (error) {
+      this.logger.error('Error updating return:', error);
+      throw error;
+    }
+  }
+
+  async transitionStatus(id: string, from: ReturnStatus, to: ReturnStatus): Promise<boolean> {
+    try {
+      const result = await this.prisma.returnRequest.updateMany({
+        where: { id, status: from },
+        data: {
+          status: to,
+          updatedAt: new Date(),
+        },
+      });
+
+      if (result.count === 0) {
+        return false;
+      }
+
+      this.logger.info(`Return status changed: ${id} (${from} -> ${to})`);
+      return true;
+    } catch (error) {
+      this.logger.error('Error changing return status:', error);
+      throw error;
+    }
+  }
+
+  async findAll(page: number = 1, limit: number = 10, status?: ReturnStatus): Promise<ReturnRequest[]> {
+    try {
+      const skip = (page - 1) * limit;
+
+      const returnRequests = await this.prisma.returnRequest.findMany({
+        where: status ? { status } : {},
+        skip,
+        take: limit,
+        orderBy: { createdAt: 'desc' },
+        include: { items: true },
+      });
+
+      return returnRequests.map((returnRequest: any) => this.mapToReturnRequest(returnRequest));
+    } catch (error) {
+      this.logger.error('Error finding all returns:', error);
+      throw error;
+    }
+  }
+
+  async count(status?: ReturnStatus): Promise<number> {
+    try {
+      return await this.prisma.returnRequest.count({
+        where: status ? { status } : {},
+      });
+    } catch (error) {
+      this.logger.error('Error counting returns:', error);
+      throw error;
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<ReturnRequest[]> {
+    try {
+      const returnRequests = await this.prisma.returnRequest.findMany({
+        where: { orderId },
+        orderBy: { createdAt: 'asc' },
+        include: { items: true },
+      });
+
+      return returnRequests.map((returnRequest: any) => this.mapToReturnRequest(returnRequest));
+    } catch (error) {
+      this.logger.error('Error finding returns by order:', error);
+      throw error;
+    }
+  }
+
+  async getReturnedQuantities(orderId: string): Promise<Record<string, number>> {
+    try {
+      const result = await this.prisma.returnItem.groupBy({
+        by: ['orderItemId'],
+        where: {
+          returnRequest: {
+            orderId,
+            status: { not: ReturnStatus.REJECTED },
+          },
+        },
+        _sum: { quantity: true },
+      });
+
+      return result.reduce((acc: Record<string, number>, item: any) => {
+        acc[item.orderItemId] = item._sum.quantity || 0;
+        return acc;
+      }, {} as Record<string, number>);
+    } catch (error) {
+      this.logger.error('Error getting returned quantities:', error);
+      throw error;
+    }
+  }
+
+  async markReceived(returnRequest: ReturnRequest): Promise<ReturnRequest> {
+    try {
+      const updated = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // Guard against receiving (and restocking) the same return twice
+        const result = await tx.returnRequest.updateMany({
+          where: { id: returnRequest.id, receivedAt: null },
+          data: {
+            restocked: returnRequest.restocked,
+            receivedAt: returnRequest.receivedAt,
+            updatedAt: new Date(),
+          },
+        });
+
+        if (result.count === 0) {
+          throw AppError.conflict('Return has already been received');
+        }
+
+        // Only an approved return moves to RECEIVED; a refund may have claimed it since it was read
+        if (returnRequest.status === ReturnStatus.RECEIVED) {
+          await tx.returnRequest.updateMany({
+            where: { id: returnRequest.id, status: ReturnStatus.APPROVED },
+            data: { status: ReturnStatus.RECEIVED },
+          });
+        }
+
+        if (returnRequest.restocked) {
+          for (const item of returnRequest.items) {
+            // Variant lines go back to the variant they were sold from
+            const orderItem = await tx.orderItem.findUnique({
+              where: { id: item.orderItemId },
+              select: { variantId: true },
+            });
+
+            if (orderItem?.variantId) {
+              await tx.productVariant.update({
+                where: { id: orderItem.variantId },
+                data: { stock: { increment: item.quantity } },
+              });
+              continue;
+            }
+
+            await tx.product.update({
+              where: { id: item.productId },
+              data: { stock: { increment: item.quantity } },
+            });
+          }
+        }
+
+        return tx.returnRequest.findUnique({
+          where: { id: returnRequest.id },
+          include: { items: true },
+        });
+      });
+
+      this.logger.info(`Return received: ${returnRequest.id}${returnRequest.restocked ? ' (restocked)' : ''}`);
+      return this.mapToReturnRequest(updated);
+    } catch (error) {
+      this.logger.error('Error marking return as received:', error);
+      throw error;
+    }
+  }
+
+  // Helper method to map Prisma result to ReturnRequest domain object
+  private mapToReturnRequest(prismaReturn: any): ReturnRequest {
+    return new ReturnRequest({
+      id: prismaReturn.id,
+      orderId: prismaReturn.orderId,
+      userId: prismaReturn.userId,
+      status: prismaReturn.status as ReturnStatus,
+      reason: prismaReturn.reason,
+      resolutionNote: prismaReturn.resolutionNote,
+      currency: prismaReturn.currency,
+      items: prismaReturn.items?.map((item: any) => ({
+        id: item.id,
+        orderItemId: item.orderItemId,
+        productId: item.productId,
+        productName: item.productName,
+        quantity: item.quantity,
+        refundAmount: Money.fromMinor(item.refundAmount, prismaReturn.currency),
+      })) || [],
+      refundAmount: Money.fromMinor(prismaReturn.refundAmount, prismaReturn.currency),
+      restocked: prismaReturn.restocked,
+      reviewedBy: prismaReturn.reviewedBy,
+      createdAt: prismaReturn.createdAt,
+      updatedAt: prismaReturn.updatedAt,
+      receivedAt: prismaReturn.receivedAt,
+      refundedAt: prismaReturn.refundedAt,
+    });
+  }
+}
@@ -0,0 +1,163 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { IShipmentRepository } from '@/business/interfaces/IShipmentRepository';
+import { Shipment, ShipmentStatus } from '@/business/domain/Shipment';
+import { Logger } from '@/shared/utils/Logger';
+
+export class ShipmentRepository implements IShipmentRepository {
+  private logger = new Logger('ShipmentRepository');
+
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<Shipment | null> {
+    try {
+      const shipment = await this.prisma.shipment.findUnique({
+        where: { id },
+        include: { items: true },
+      });
+
+      if (!shipment) return null;
+
+      return this.mapToShipment(shipment);
+    } catch (error) {
+      this.logger.error('Error finding shipment by ID:', error);
+      throw error;
+    }
+  }
+
+  async findByTrackingCode(carrier: string, trackingCode: string): Promise<Shipment | null> {
+    try {
+      const shipment = await this.prisma.shipment.findUnique({
+        where: { carrier_trackingCode: { carrier, trackingCode } },
+        include: { items: true },
+      });
+
+      if (!shipment) return null;
+
+      return this.mapToShipment(shipment);
+    } catch (error) {
+      this.logger.error('Error finding shipment by tracking code:', error);
+      throw error;
+    }
+  }
+
+  async create(shipmentData: Partial<Shipment>): Promise<Shipment> {
+    try {
+      const shipment = await this.prisma.shipment.create({
+        data: this.buildCreateData(shipmentData),
+        include: { items: true },
+      });
+
+      this.logger.info(`Shipment created: ${shipment.carrier} ${shipment.trackingCode} for order ${shipment.orderId}`);
+      return this.mapToShipment(shipment);
+    } catch (error) {
+      this.logger.error('Error creating shipment:', error);
+      throw error;
+    }
+  }
+
+  async createForOrder(orderId: string, build: (existing: Shipment[]) => Partial<Shipment>): Promise<Shipment> {
+    try {
+      const shipment = await this.prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        // The row lock queues concurrent shipments of the same order, so each one sees what the others shipped
+        await tx.$queryRaw`SELECT "id" FROM "orders" WHERE "id" = ${orderId} FOR UPDATE`;
+
+        const existing = await tx.shipment.findMany({
+          where: { orderId },
+          orderBy: { shippedAt: 'asc' },
+          include: { items: true },
+        });
+
+        // Throwing inside the callback rolls the transaction back
+        const shipmentData = build(existing.map(existingShipment => this.mapToShipment(existingShipment)));
+
+        return tx.shipment.create({
+          data: this.buildCreateData({ ...shipmentData, orderId }),
+          include: { items: true },
+        });
+      });
+
+      this.logger.info(`Shipment created: ${shipment.carrier} ${shipment.trackingCode} for order ${shipment.orderId}`);
+      return this.mapToShipment(shipment);
+    } catch (error) {
+      this.logger.error('Error creating shipment for order:', error);
+      throw error;
+    }
+  }
+
+  async update(id: string, shipmentData: Partial<Shipment>): Promise<Shipment> {
+    try {
+      const shipment = await this.prisma.shipment.update({
+        where: { id },
+        data: {
+          ...(shipmentData.status && { status: shipmentData.status }),
+          ...(shipmentData.deliveredAt !== undefined && { deliveredAt: shipmentData.deliveredAt }),
+          updatedAt: new Date(),
+        },
+        include: { items: true },
+      });
+
+      this.logger.info(`Shipment updated: ${shipment.id} (${shipment.status})`);
+      return this.mapToShipment(shipment);
+    } catch (error) {
+      this.logger.error('Error updating shipment:', error);
+      throw error;
+    }
+  }
+
+  async findByOrderId(orderId: string): Promise<Shipment[]> {
+    try {
+      const shipments = await this.prisma.shipment.findMany({
+        where: { orderId },
+        orderBy: { shippedAt: 'asc' },
+        include: { items: true },
+      });
+
+      return shipments.map((shipment: any) => this.mapToShipment(shipment));
+    } catch (error) {
+      this.logger.error('Error finding shipments by order:', error);
+      throw error;
+    }
+  }
+
+  private buildCreateData(shipmentData: Partial<Shipment>): Prisma.ShipmentUncheckedCreateInput {
+    return {
+      orderId: shipmentData.orderId!,
+      carrier: shipmentData.carrier!,
+      trackingCode: shipmentData.trackingCode!,
+      status: shipmentData.status ?? ShipmentStatus.SHIPPED,
+      shippedAt: shipmentData.shippedAt ?? new Date(),
+      createdBy: shipmentData.createdBy ?? null,
+      items: {
+        create: shipmentData.items!.map(item => ({
+          orderItemId: item.orderItemId,
+          productId: item.productId,
+          productName: item.productName,
+          quantity: item.quantity,
+        })),
+      },
+    };
+  }
+
+  // Helper method to map Prisma result to Shipment domain object
+  private mapToShipment(prismaShipment: any): Shipment {
+    return new Shipment({
+      id: prismaShipment.id,
+      orderId: prismaShipment.orderId,
+      carrier: prismaShipment.carrier,
+      trackingCode: prismaShipment.trackingCode,
+      status: prismaShipment.status as ShipmentStatus,
+      items: prismaShipment.items?.map((item: any) => ({
+        id: item.id,
+        orderItemId: item.orderItemId,
+        productId: item.productId,
+        productName: item.productName,
+        quantity: item.quantity,
+      })) || [],
+      shippedAt: prismaShipment.shippedAt,
+      deliveredAt: prismaShipment.deliveredAt,
+      createdBy: prismaShipment.createdBy,
+      createdAt: prismaShipment.createdAt,
+      updatedAt: prismaShipment.updatedAt,
+    });
+  }
+}
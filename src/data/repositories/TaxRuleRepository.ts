@@ -0,0 +1,145 @@
+import { PrismaClient } from '@prisma/client';
+import { ITaxRuleRepository } from '@/business/interfaces/ITaxRuleRepository';
+import { TaxRule } from '@/business/domain/TaxRule';
+import { Logger } from '@/shared/utils/Logger';
+
+export class TaxRuleRepository implements ITaxRuleRepository {
+  private logger = new Logger('TaxRuleRepository');
+
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<TaxRule | null> {
+    try {
+      const rule = await this.prisma.taxRule.findUnique({
+        where: { id },
+      });
+
+      if (!rule) return null;
+
+      return this.mapToTaxRule(rule);
+    } catch (error) {
+      this.logger.error('Error finding tax rule by ID:', error);
+      throw error;
+    }
+  }
+
+  async create(ruleData: Partial<TaxRule>): Promise<TaxRule> {
+    try {
+      const rule = await this.prisma.taxRule.create({
+        data: {
+          name: ruleData.name!,
+          country: ruleData.country!,
+          state: ruleData.state ?? null,
+          categoryId: ruleData.categoryId ?? null,
+          rate: ruleData.rate ?? 0,
+          isExempt: ruleData.isExempt ?? false,
+          isActive: ruleData.isActive ?? true,
+        },
+      });
+
+      this.logger.info(`Tax rule created: ${rule.name}`);
+      return this.mapToTaxRule(rule);
+    } catch (error) {
+      this.logger.error('Error creating tax rule:', error);
+      throw error;
+    }
+  }
+
+  async update(id: string, ruleData: Partial<TaxRule>): Promise<TaxRule> {
+    try {
+      const rule = await this.prisma.taxRule.update({
+        where: { id },
+        data: {
+          ...(ruleData.name && { name: ruleData.name }),
+          ...(ruleData.country && { country: ruleData.country }),
+          ...(ruleData.state !== undefined && { state: ruleData.state }),
+          ...(ruleData.categoryId !== undefined && { categoryId: ruleData.categoryId }),
+          ...(ruleData.rate !== undefined && { rate: ruleData.rate }),
+          ...(ruleData.isExempt !== undefined && { isExempt: ruleData.isExempt }),
+          ...(ruleData.isActive !== undefined && { isActive: ruleData.isActive }),
+        },
+      });
+
+      this.logger.info(`Tax rule updated: ${rule.name} (ID: ${id})`);
+      return this.mapToTaxRule(rule);
+    } catch (error) {
+      this.logger.error('Error updating tax rule:', error);
+      throw error;
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    try {
+      await this.prisma.taxRule.delete({
+        where: { id },
+      });
+
+      this.logger.info(`Tax rule deleted: ${id}`);
+    } catch (error) {
+      this.logger.error('Error deleting tax rule:', error);
+      throw error;
+    }
+  }
+
+  async findAll(page: number = 1, limit: number = 10): Promise<TaxRule[]> {
+    try {
+      const skip = (page - 1) * limit;
+
+      const rules = await this.prisma.taxRule.findMany({
+        skip,
+        take: limit,
+        orderBy: [{ country: 'asc' }, { state: 'asc' }, { createdAt: 'desc' }],
+      });
+
+      return rules.map((rule: any) => this.mapToTaxRule(rule));
+    } catch (error) {
+      this.logger.error('Error finding all tax rules:', error);
+      throw error;
+    }
+  }
+
+  async count(): Promise<number> {
+    try {
+      return await this.prisma.taxRule.count();
+    } catch (error) {
+      this.logger.error('Error counting tax rules:', error);
+      throw error;
+    }
+  }
+
+  async findActiveForLocation(country: string, state: string): Promise<TaxRule[]> {
+    try {
+      const rules = await this.prisma.taxRule.findMany({
+        where: {
+          isActive: true,
+          country: country.toUpperCase(),
+          OR: [
+            { state: state.toUpperCase() },
+            { state: null },
+          ],
+        },
+      });
+
+      return rules.map((rule: any) => this.mapToTaxRule(rule));
+    } catch (error) {
+      this.logger.error('Error finding tax rules for location:', error);
+      throw error;
+    }
+  }
+
+  // Helper method to map Prisma result to TaxRule domain object
+  private mapToTaxRule(prismaRule: any): TaxRule {
+    return new TaxRule({
+      id: prismaRule.id,
+      name: prismaRule.name,
+      country: prismaRule.country,
+      state: prismaRule.state,
+      categoryId: prismaRule.categoryId,
+      rate: prismaRule.rate,
+      isExempt: prismaRule.isExempt,
+      isActive: prismaRule.isActive,
+      createdAt: prismaRule.createdAt,
+      updatedAt: prismaRule.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,85 @@
+import { PrismaClient } from '@prisma/client';
+import { IWishlistRepository } from '@/business/interfaces/IWishlistRepository';
+import { WishlistItem } from '@/business/domain/WishlistItem';
+import { Money } from '@/business/domain/Money';
+import { Logger } from '@/shared/utils/Logger';
+
+export class WishlistRepository implements IWishlistRepository {
+  private logger = new Logger('WishlistRepository');
+
+  constructor(private prisma: PrismaClient) {}
+
+  async findByUserAndProduct(userId: string, productId: string): Promise<WishlistItem | null> {
+    try {
+      const item = await this.prisma.wishlistItem.findUnique({
+        where: { userId_productId: { userId, productId } },
+      });
+
+      if (!item) return null;
+
+      return this.mapToWishlistItem(item);
+    } catch (error) {
+      this.logger.error('Error finding wishlist item:', error);
+      throw error;
+    }
+  }
+
+  async create(itemData: Partial<WishlistItem>): Promise<WishlistItem> {
+    try {
+      const item = await this.prisma.wishlistItem.create({
+        data: {
+          userId: itemData.userId!,
+          productId: itemData.productId!,
+          variantId: itemData.variantId ?? null,
+          savedPrice: itemData.savedPrice!.amount,
+          currency: itemData.savedPrice!.currency,
+        },
+      });
+
+      this.logger.info(`Wishlist item created: ${item.productId} for user ${item.userId}`);
+      return this.mapToWishlistItem(item);
+    } catch (error) {
+      this.logger.error('Error creating wishlist item:', error);
+      throw error;
+    }
+  }
+
+  async delete(userId: string, productId: string): Promise<boolean> {
+    try {
+      const result = await this.prisma.wishlistItem.deleteMany({
+        where: { userId, productId },
+      });
+
+      return result.count > 0;
+    } catch (error) {
+      this.logger.error('Error deleting wishlist item:', error);
+      throw error;
+    }
+  }
+
+  async findByUserId(userId: string): Promise<WishlistItem[]> {
+    try {
+      const items = await this.prisma.wishlistItem.findMany({
+        where: { userId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      return items.map((item: any) => this.mapToWishlistItem(item));
+    } catch (error) {
+      this.logger.error('Error finding wishlist items by user:', error);
+      throw error;
+    }
+  }
+
+  // Helper method to map Prisma result to WishlistItem domain object
+  private mapToWishlistItem(prismaItem: any): WishlistItem {
+    return new WishlistItem({
+      id: prismaItem.id,
+      userId: prismaItem.userId,
+      productId: prismaItem.productId,
+      variantId: prismaItem.variantId,
+      savedPrice: Money.fromMinor(prismaItem.savedPrice, prismaItem.currency),
+      createdAt: prismaItem.createdAt,
+    });
+  }
+}
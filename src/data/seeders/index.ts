@@ -41,25 +41,55 @@ async function main() {
 
     console.log(`✅ Created users: ${adminUser.email}, ${customerUser.email}`);
 
-    // 2. Criar produtos
+    // 2. Criar categorias
+    console.log('🗂️ Creating categories...');
+
+    const electronics = await prisma.category.upsert({
+      where: { slug: 'eletronicos' },
+      update: {},
+      create: {
+        id: 'cat_electronics',
+        name: 'Eletrônicos',
+        slug: 'eletronicos',
+        sortOrder: 0,
+      },
+    });
+
+    const peripherals = await prisma.category.upsert({
+      where: { slug: 'perifericos' },
+      update: {},
+      create: {
+        id: 'cat_peripherals',
+        name: 'Periféricos',
+        slug: 'perifericos',
+        parentId: electronics.id,
+        sortOrder: 0,
+      },
+    });
+
+    console.log(`✅ Created categories: ${electronics.name} > ${peripherals.name}`);
+
+    // 3. Criar produtos
     console.log('📦 Creating products...');
 
     const products = [
       {
         name: 'Notebook Gamer RTX',
         description: 'Notebook para jogos com placa RTX 4060',
-        price: 2999.99,
+        price: 299999, // cents
         sku: 'NBG-RTX-001',
         stock: 50,
+        weight: 2.5,
         categoryId: 'cat_electronics',
         isActive: true,
       },
       {
         name: 'Mouse Gamer RGB',
         description: 'Mouse óptico com iluminação RGB',
-        price: 199.99,
+        price: 19999,
         sku: 'MOU-RGB-002',
         stock: 100,
+        weight: 0.15,
         categoryId: 'cat_peripherals',
         isActive: true,
       },
@@ -6,11 +6,41 @@ import { Logger } from '@/shared/utils/Logger';
 import { IUserRepository } from '@/business/interfaces/IUserRepository';
 import { IProductRepository } from '@/business/interfaces/IProductRepository';
 import { IOrderRepository } from '@/business/interfaces/IOrderRepository';
+import { IPaymentGateway } from '@/business/interfaces/IPaymentGateway';
+import { IShippingStrategy } from '@/business/interfaces/IShippingStrategy';
+import { ITaxRuleRepository } from '@/business/interfaces/ITaxRuleRepository';
+import { ICouponRepository } from '@/business/interfaces/ICouponRepository';
+import { IReturnRepository } from '@/business/interfaces/IReturnRepository';
+import { IShipmentRepository } from '@/business/interfaces/IShipmentRepository';
+import { IOrderNumberGenerator } from '@/business/interfaces/IOrderNumberGenerator';
+import { IWishlistRepository } from '@/business/interfaces/IWishlistRepository';
+import { IAbandonedCartRepository } from '@/business/interfaces/IAbandonedCartRepository';
+import { ICartRepository } from '@/business/interfaces/ICartRepository';
+import { ICategoryRepository } from '@/business/interfaces/ICategoryRepository';
+import { ICartRecoveryNotifier } from '@/business/interfaces/ICartRecoveryNotifier';
+import { IFileStorage } from '@/business/interfaces/IFileStorage';
+import { IImageProcessor } from '@/business/interfaces/IImageProcessor';
 
 // Repository implementations (Adapters)
 import { UserRepository } from '@/data/repositories/UserRepository';
 import { ProductRepository } from '@/data/repositories/ProductRepository';
 import { OrderRepository } from '@/data/repositories/OrderRepository';
+import { TaxRuleRepository } from '@/data/repositories/TaxRuleRepository';
+import { CouponRepository } from '@/data/repositories/CouponRepository';
+import { ReturnRepository } from '@/data/repositories/ReturnRepository';
+import { ShipmentRepository } from '@/data/repositories/ShipmentRepository';
+import { WishlistRepository } from '@/data/repositories/WishlistRepository';
+import { AbandonedCartRepository } from '@/data/repositories/AbandonedCartRepository';
+import { CartRepository } from '@/data/repositories/CartRepository';
+import { CategoryRepository } from '@/data/repositories/CategoryRepository';
+import { FakePaymentGateway, FakePaymentOutcome } from '@/infrastructure/payment/FakePaymentGateway';
+import { FlatRateShippingStrategy } from '@/infrastructure/shipping/FlatRateShippingStrategy';
+import { WeightBasedShippingStrategy } from '@/infrastructure/shipping/WeightBasedShippingStrategy';
+import { ZipRangeShippingStrategy, DEFAULT_CEP_BANDS } from '@/infrastructure/shipping/ZipRangeShippingStrategy';
+import { SequentialOrderNumberGenerator } from '@/infrastructure/ordering/SequentialOrderNumberGenerator';
+import { LoggingCartRecoveryNotifier } from '@/infrastructure/notifications/LoggingCartRecoveryNotifier';
+import { LocalFileStorage } from '@/infrastructure/storage/LocalFileStorage';
+import { SharpImageProcessor } from '@/infrastructure/media/SharpImageProcessor';
 
 // Services
 import { UserService } from '@/business/services/UserService';
@@ -18,6 +48,20 @@ import { ProductService } from '@/business/services/ProductService';
 import { AuthService } from '@/business/services/AuthService';
 import { CartService } from '@/business/services/CartService';
 import { OrderService } from '@/business/services/OrderService';
+import { PaymentService } from '@/business/services/PaymentService';
+import { TaxService } from '@/business/services/TaxService';
+import { ShippingService } from '@/business/services/ShippingService';
+import { CouponService } from '@/business/services/CouponService';
+import { ReturnService } from '@/business/services/ReturnService';
+import { ShipmentService } from '@/business/services/ShipmentService';
+import { StockHoldService } from '@/business/services/StockHoldService';
+import { WishlistService } from '@/business/services/WishlistService';
+import { AbandonedCartService } from '@/business/services/AbandonedCartService';
+import { CategoryService } from '@/business/services/CategoryService';
+
+// Background jobs
+import { OrderExpiryScheduler } from '@/infrastructure/scheduler/OrderExpiryScheduler';
+import { AbandonedCartScheduler } from '@/infrastructure/scheduler/AbandonedCartScheduler';
 
 // Controllers
 import { UserController } from '@/presentation/controllers/UserController';
@@ -25,6 +69,14 @@ import { ProductController } from '@/presentation/controllers/ProductController'
 import { AuthController } from '@/presentation/controllers/AuthController';
 import { CartController } from '@/presentation/controllers/CartController';
 import { OrderController } from '@/presentation/controllers/OrderController';
+import { PaymentController } from '@/presentation/controllers/PaymentController';
+import { TaxRuleController } from '@/presentation/controllers/TaxRuleController';
+import { CouponController } from '@/presentation/controllers/CouponController';
+import { ReturnController } from '@/presentation/controllers/ReturnController';
+import { ShipmentController } from '@/presentation/controllers/ShipmentController';
+import { WishlistController } from '@/presentation/controllers/WishlistController';
+import { AbandonedCartController } from '@/presentation/controllers/AbandonedCartController';
+import { CategoryController } from '@/presentation/controllers/CategoryController';
 
 type ServiceFactory<T> = () => T;
 type ServiceInstance<T> = T;
@@ -54,6 +106,103 @@ export class Container {
       new OrderRepository(this.resolve('DatabaseConnection'))
     );
 
+    this.registerSingleton<ITaxRuleRepository>('TaxRuleRepository', () => 
+      new TaxRuleRepository(this.resolve('DatabaseConnection'))
+    );
+
+    this.registerSingleton<ICouponRepository>('CouponRepository', () => 
+      new CouponRepository(this.resolve('DatabaseConnection'))
+    );
+
+    this.registerSingleton<IReturnRepository>('ReturnRepository', () => 
+      new ReturnRepository(this.resolve('DatabaseConnection'))
+    );
+
+    this.registerSingleton<IShipmentRepository>('ShipmentRepository', () => 
+      new ShipmentRepository(this.resolve('DatabaseConnection'))
+    );
+
+    this.registerSingleton<IWishlistRepository>('WishlistRepository', () => 
+      new WishlistRepository(this.resolve('DatabaseConnection'))
+    );
+
+    this.registerSingleton<IAbandonedCartRepository>('AbandonedCartRepository', () => 
+      new AbandonedCartRepository(this.resolve('DatabaseConnection'))
+    );
+
+    this.registerSingleton<ICartRepository>('CartRepository', () => 
+      new CartRepository(this.resolve('DatabaseConnection'))
+    );
+
+    this.registerSingleton<ICategoryRepository>('CategoryRepository', () => 
+      new CategoryRepository(this.resolve('DatabaseConnection'))
+    );
+
+    // Register external service adapters
+    this.registerSingleton<IPaymentGateway>('PaymentGateway', () =>
+      new FakePaymentGateway(
+        process.env.PAYMENT_WEBHOOK_SECRET || 'dev-payment-webhook-secret',
+        (process.env.PAYMENT_FAKE_OUTCOME as FakePaymentOutcome) || 'succeed'
+      )
+    );
+
+    this.registerSingleton<IOrderNumberGenerator>('OrderNumberGenerator', () =>
+      new SequentialOrderNumberGenerator(this.resolve('DatabaseConnection'), {
+        ...(process.env.ORDER_NUMBER_PREFIX && { prefix: process.env.ORDER_NUMBER_PREFIX }),
+        padLength: parseInt(process.env.ORDER_NUMBER_PADDING || '6'),
+      })
+    );
+
+    this.registerSingleton<ICartRecoveryNotifier>('CartRecoveryNotifier', () =>
+      new LoggingCartRecoveryNotifier()
+    );
+
+    this.registerSingleton<IFileStorage>('FileStorage', () =>
+      new LocalFileStorage({
+        rootDir: process.env.UPLOAD_DIR || 'uploads',
+        publicUrl: process.env.UPLOAD_PUBLIC_URL || '/uploads',
+      })
+    );
+
+    this.registerSingleton<IImageProcessor>('ImageProcessor', () =>
+      new SharpImageProcessor({
+        thumbnailSize: parseInt(process.env.UPLOAD_THUMBNAIL_SIZE || '320'),
+      })
+    );
+
+    this.registerSingleton<IShippingStrategy[]>('ShippingStrategies', () => {
+      const freeShippingThreshold = process.env.SHIPPING_FREE_THRESHOLD
+        ? parseFloat(process.env.SHIPPING_FREE_THRESHOLD)
+        : null;
+
+      return [
+        new FlatRateShippingStrategy({
+          method: 'standard',
+          name: 'Entrega padrão',
+          price: parseFloat(process.env.SHIPPING_FLAT_RATE || '10'),
+          estimatedDays: 7,
+          freeShippingThreshold,
+        }),
+        new WeightBasedShippingStrategy({
+          method: 'express',
+          name: 'Entrega expressa',
+          brackets: [
+            { maxWeight: 1, price: 19.9 },
+            { maxWeight: 5, price: 29.9 },
+            { maxWeight: 10, price: 44.9 },
+          ],
+          extraPerKg: 4.5,
+          estimatedDays: 2,
+        }),
+        new ZipRangeShippingStrategy({
+          method: 'regional',
+          name: 'Entrega regional',
+          bands: DEFAULT_CEP_BANDS,
+          freeShippingThreshold,
+        }),
+      ];
+    });
+
     // Register services (Business Layer)
     this.registerSingleton('UserService', () => 
       new UserService(
@@ -65,10 +214,17 @@ export class Container {
     this.registerSingleton('ProductService', () => 
       new ProductService(
         this.resolve<IProductRepository>('ProductRepository'),
+        this.resolve('CategoryService'),
+        this.resolve<IFileStorage>('FileStorage'),
+        this.resolve<IImageProcessor>('ImageProcessor'),
         this.resolve('RedisConnection')
       )
     );
 
+    this.registerSingleton('CategoryService', () => 
+      new CategoryService(this.resolve<ICategoryRepository>('CategoryRepository'))
+    );
+
     this.registerSingleton('AuthService', () => 
       new AuthService(
         this.resolve<IUserRepository>('UserRepository'),
@@ -76,10 +232,41 @@ export class Container {
       )
     );
 
+    this.registerSingleton('CouponService', () => 
+      new CouponService(this.resolve<ICouponRepository>('CouponRepository'))
+    );
+
+    this.registerSingleton('StockHoldService', () => 
+      new StockHoldService(
+        this.resolve('RedisConnection'),
+        {
+          enabled: process.env.STOCK_HOLDS_ENABLED === 'true',
+          ttlSeconds: parseInt(process.env.STOCK_HOLD_TTL_SECONDS || '900'),
+        }
+      )
+    );
+
+    this.registerSingleton('TaxService', () => 
+      new TaxService(
+        this.resolve<ITaxRuleRepository>('TaxRuleRepository'),
+        this.resolve('RedisConnection'),
+        parseFloat(process.env.DEFAULT_TAX_RATE || '0.1')
+      )
+    );
+
+    this.registerSingleton('ShippingService', () => 
+      new ShippingService(this.resolve<IShippingStrategy[]>('ShippingStrategies'))
+    );
+
     this.registerSingleton('CartService', () => 
       new CartService(
         this.resolve<IProductRepository>('ProductRepository'),
         this.resolve<IUserRepository>('UserRepository'),
+        this.resolve<ICartRepository>('CartRepository'),
+        this.resolve('CouponService'),
+        this.resolve('StockHoldService'),
+        this.resolve('TaxService'),
+        this.resolve('ShippingService'),
         this.resolve('RedisConnection')
       )
     );
@@ -89,29 +276,164 @@ export class Container {
         this.resolve<IOrderRepository>('OrderRepository'),
         this.resolve<IProductRepository>('ProductRepository'),
         this.resolve<IUserRepository>('UserRepository'),
+        this.resolve('CartService'),
+        this.resolve('TaxService'),
+        this.resolve('ShippingService'),
+        this.resolve('CouponService'),
+        this.resolve('StockHoldService'),
+        this.resolve<IOrderNumberGenerator>('OrderNumberGenerator'),
         this.resolve('RedisConnection')
       )
     );
 
+    this.registerSingleton('PaymentService', () => 
+      new PaymentService(
+        this.resolve('OrderService'),
+        this.resolve<IPaymentGateway>('PaymentGateway'),
+        this.resolve('RedisConnection')
+      )
+    );
+
+    this.registerSingleton('ReturnService', () => 
+      new ReturnService(
+        this.resolve<IReturnRepository>('ReturnRepository'),
+        this.resolve('OrderService'),
+        this.resolve('PaymentService')
+      )
+    );
+
+    this.registerSingleton('ShipmentService', () => 
+      new ShipmentService(
+        this.resolve<IShipmentRepository>('ShipmentRepository'),
+        this.resolve('OrderService')
+      )
+    );
+
+    this.registerSingleton('WishlistService', () => 
+      new WishlistService(
+        this.resolve<IWishlistRepository>('WishlistRepository'),
+        this.resolve<IProductRepository>('ProductRepository'),
+        this.resolve('CartService')
+      )
+    );
+
+    this.registerSingleton('AbandonedCartService', () => 
+      new AbandonedCartService(
+        this.resolve<IAbandonedCartRepository>('AbandonedCartRepository'),
+        this.resolve<IOrderRepository>('OrderRepository'),
+        this.resolve<IUserRepository>('UserRepository'),
+        this.resolve<IProductRepository>('ProductRepository'),
+        this.resolve('CartService'),
+        this.resolve('CouponService'),
+        this.resolve<ICartRecoveryNotifier>('CartRecoveryNotifier'),
+        {
+          couponPercentOff: parseFloat(process.env.ABANDONED_CART_COUPON_PERCENT || '0'),
+          couponValidDays: parseInt(process.env.ABANDONED_CART_COUPON_VALID_DAYS || '3'),
+          recoveryWindowDays: parseInt(process.env.ABANDONED_CART_RECOVERY_WINDOW_DAYS || '7'),
+        }
+      )
+    );
+
+    // Register background jobs
+    this.registerSingleton('OrderExpiryScheduler', () => 
+      new OrderExpiryScheduler(
+        this.resolve('OrderService'),
+        this.resolve('RedisConnection'),
+        {
+          ttlMinutes: parseInt(process.env.ORDER_PENDING_TTL_MINUTES || '60'),
+          intervalMs: parseInt(process.env.ORDER_EXPIRY_INTERVAL_SECONDS || '300') * 1000,
+          batchSize: parseInt(process.env.ORDER_EXPIRY_BATCH_SIZE || '100'),
+        }
+      )
+    );
+
+    this.registerSingleton('AbandonedCartScheduler', () => 
+      new AbandonedCartScheduler(
+        this.resolve('AbandonedCartService'),
+        this.resolve('RedisConnection'),
+        {
+          idleHours: parseFloat(process.env.ABANDONED_CART_IDLE_HOURS || '4'),
+          intervalMs: parseInt(process.env.ABANDONED_CART_INTERVAL_SECONDS || '900') * 1000,
+          batchSize: parseInt(process.env.ABANDONED_CART_BATCH_SIZE || '100'),
+        }
+      )
+    );
+
     // Register controllers (Presentation Layer)
     this.registerTransient('UserController', () => 
-      new UserController(this.resolve('UserService'))
+      new UserController(
+        this.resolve('UserService'),
+        this.resolve('CartService')
+      )
     );
 
     this.registerTransient('ProductController', () => 
       new ProductController(this.resolve('ProductService'))
     );
 
+    this.registerTransient('CategoryController', () => 
+      new CategoryController(this.resolve('CategoryService'))
+    );
+
     this.registerTransient('AuthController', () => 
-      new AuthController(this.resolve('AuthService'))
+      new AuthController(
+        this.resolve('AuthService'),
+        this.resolve('CartService')
+      )
     );
 
     this.registerTransient('CartController', () => 
-      new CartController(this.resolve('CartService'))
+      new CartController(
+        this.resolve('CartService'),
+        this.resolve('OrderService')
+      )
     );
 
     this.registerTransient('OrderController', () => 
-      new OrderController(this.resolve('OrderService'))
+      new OrderController(
+        this.resolve('OrderService'),
+        this.resolve('OrderExpiryScheduler')
+      )
+    );
+
+    this.registerTransient('PaymentController', () => 
+      new PaymentController(
+        this.resolve('PaymentService'),
+        this.resolve('OrderService')
+      )
+    );
+
+    this.registerTransient('TaxRuleController', () => 
+      new TaxRuleController(this.resolve('TaxService'))
+    );
+
+    this.registerTransient('CouponController', () => 
+      new CouponController(this.resolve('CouponService'))
+    );
+
+    this.registerTransient('ReturnController', () => 
+      new ReturnController(
+        this.resolve('ReturnService'),
+        this.resolve('OrderService')
+      )
+    );
+
+    this.registerTransient('ShipmentController', () => 
+      new ShipmentController(
+        this.resolve('ShipmentService'),
+        this.resolve('OrderService')
+      )
+    );
+
+    this.registerTransient('WishlistController', () => 
+      new WishlistController(this.resolve('WishlistService'))
+    );
+
+    this.registerTransient('AbandonedCartController', () => 
+      new AbandonedCartController(
+        this.resolve('AbandonedCartService'),
+        this.resolve('AbandonedCartScheduler')
+      )
     );
 
     this.logger.info('Dependency injection container initialized successfully');
@@ -0,0 +1,43 @@
+import sharp from 'sharp';
+import { IImageProcessor, ImageInfo, Thumbnail } from '@/business/interfaces/IImageProcessor';
+
+export interface SharpImageProcessorOptions {
+  thumbnailSize: number; // longest side, in pixels
+}
+
+export class SharpImageProcessor implements IImageProcessor {
+  constructor(private options: SharpImageProcessorOptions) {}
+
+  async inspect(content: Buffer): Promise<ImageInfo> {
+    let metadata: sharp.Metadata;
+    try {
+      metadata = await sharp(content).metadata();
+    } catch {
+      throw new Error('Validation failed: File is not a valid image');
+    }
+
+    if (!metadata.format || !metadata.width || !metadata.height) {
+      throw new Error('Validation failed: File is not a valid image');
+    }
+
+    return { format: metadata.format, width: metadata.width, height: metadata.height };
+  }
+
+  // Fits the image inside a square, keeping its aspect ratio; small images are not enlarged.
+  // Honours EXIF orientation so phone photos are not sideways.
+  async createThumbnail(content: Buffer): Promise<Thumbnail> {
+    const { data, info } = await sharp(content)
+      .rotate()
+      .resize(this.options.thumbnailSize, this.options.thumbnailSize, { fit: 'inside', withoutEnlargement: true })
+      .webp({ quality: 80 })
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      content: data,
+      contentType: 'image/webp',
+      extension: 'webp',
+      width: info.width,
+      height: info.height,
+    };
+  }
+}
@@ -0,0 +1,20 @@
+import { ICartRecoveryNotifier, CartRecoveryMessage } from '@/business/interfaces/ICartRecoveryNotifier';
+import { Logger } from '@/shared/utils/Logger';
+
+// Development notifier: writes the recovery email to the log instead of sending it.
+// Swap it for an email provider adapter in the container.
+export class LoggingCartRecoveryNotifier implements ICartRecoveryNotifier {
+  private logger = new Logger('LoggingCartRecoveryNotifier');
+
+  async sendCartRecovery(message: CartRecoveryMessage): Promise<void> {
+    const lines = message.items.map(item => `${item.quantity}x ${item.productName} (${item.unitPrice})`);
+    const coupon = message.couponCode
+      ? ` Coupon ${message.couponCode} valid until ${message.couponExpiresAt?.toISOString()}.`
+      : '';
+
+    this.logger.info(
+      `Cart recovery email to ${message.email}: Hi ${message.firstName}, you left ${lines.join(', ')} ` +
+      `(total ${message.cartTotal}) in your cart.${coupon}`
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { PrismaClient } from '@prisma/client';
+import { IOrderNumberGenerator } from '@/business/interfaces/IOrderNumberGenerator';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface SequentialOrderNumberOptions {
+  prefix?: string; // optional store prefix, e.g. "SP" -> SP-2026-000123
+  padLength: number;
+}
+
+// Issues per-year sequential numbers (2026-000123) from a database counter row
+export class SequentialOrderNumberGenerator implements IOrderNumberGenerator {
+  private logger = new Logger('SequentialOrderNumberGenerator');
+  private readonly prefix: string | null;
+
+  constructor(
+    private prisma: PrismaClient,
+    private options: SequentialOrderNumberOptions
+  ) {
+    const prefix = (options.prefix || '').trim().toUpperCase();
+    if (prefix && !/^[A-Z0-9]{1,10}$/.test(prefix)) {
+      throw new Error('Order number prefix must be 1-10 letters or digits');
+    }
+    this.prefix = prefix || null;
+  }
+
+  async next(date: Date = new Date()): Promise<string> {
+    try {
+      const year = date.getFullYear();
+      const scope = this.prefix ? `${this.prefix}-${year}` : String(year);
+
+      // A single upsert on the primary key runs as INSERT ... ON CONFLICT, so concurrent callers never share a value
+      const sequence = await this.prisma.orderNumberSequence.upsert({
+        where: { scope },
+        create: { scope, value: 1 },
+        update: { value: { increment: 1 } },
+      });
+
+      return `${scope}-${String(sequence.value).padStart(this.options.padLength, '0')}`;
+    } catch (error) {
+      this.logger.error('Error generating order number:', error);
+      throw error;
+    }
+  }
+}
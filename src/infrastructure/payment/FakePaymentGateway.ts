@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import {
+  IPaymentGateway,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentEventType,
+  PaymentWebhookEvent,
+  CreatePaymentIntentRequest,
+} from '@/business/interfaces/IPaymentGateway';
+import { Logger } from '@/shared/utils/Logger';
+
+export type FakePaymentOutcome = 'succeed' | 'fail';
+
+// In-memory payment provider for local development.
+// Every operation succeeds or fails according to the configured outcome.
+export class FakePaymentGateway implements IPaymentGateway {
+  private logger = new Logger('FakePaymentGateway');
+  private intents = new Map<string, PaymentIntent>();
+
+  constructor(
+    private webhookSecret: string,
+    private outcome: FakePaymentOutcome = 'succeed'
+  ) {}
+
+  setOutcome(outcome: FakePaymentOutcome): void {
+    this.outcome = outcome;
+    this.logger.info(`Fake payment outcome set to: ${outcome}`);
+  }
+
+  async createPaymentIntent(request: CreatePaymentIntentRequest): Promise<PaymentIntent> {
+    if (request.amount <= 0) {
+      throw new Error('Invalid payment amount');
+    }
+
+    const id = `pi_fake_${crypto.randomBytes(12).toString('hex')}`;
+    const intent: PaymentIntent = {
+      id,
+      orderId: request.orderId,
+      amount: request.amount,
+      amountRefunded: 0,
+      currency: request.currency,
+      status: PaymentIntentStatus.REQUIRES_CAPTURE,
+      clientSecret: `${id}_secret_${crypto.randomBytes(8).toString('hex')}`,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.intents.set(id, intent);
+    this.logger.info(`Payment intent created: ${id} for order ${request.orderId}`);
+    return { ...intent };
+  }
+
+  async getPaymentIntent(intentId: string): Promise<PaymentIntent | null> {
+    const intent = this.intents.get(intentId);
+    return intent ? { ...intent } : null;
+  }
+
+  async capturePayment(intentId: string): Promise<PaymentIntent> {
+    const intent = this.getIntentOrThrow(intentId);
+
+    if (intent.status !== PaymentIntentStatus.REQUIRES_CAPTURE) {
+      throw new Error(`Payment intent cannot be captured in status ${intent.status}`);
+    }
+
+    if (this.outcome === 'fail') {
+      intent.status = PaymentIntentStatus.FAILED;
+      intent.failureReason = 'Card declined (fake gateway)';
+    } else {
+      intent.status = PaymentIntentStatus.SUCCEEDED;
+    }
+    intent.updatedAt = new Date();
+
+    this.logger.info(`Payment intent captured: ${intentId} -> ${intent.status}`);
+    return { ...intent };
+  }
+
+  async voidPayment(intentId: string): Promise<PaymentIntent> {
+    const intent = this.getIntentOrThrow(intentId);
+
+    if (intent.status !== PaymentIntentStatus.REQUIRES_CAPTURE) {
+      throw new Error(`Payment intent cannot be voided in status ${intent.status}`);
+    }
+
+    intent.status = PaymentIntentStatus.VOIDED;
+    intent.updatedAt = new Date();
+
+    this.logger.info(`Payment intent voided: ${intentId}`);
+    return { ...intent };
+  }
+
+  async refundPayment(intentId: string, amount?: number): Promise<PaymentIntent> {
+    const intent = this.getIntentOrThrow(intentId);
+
+    if (![PaymentIntentStatus.SUCCEEDED, PaymentIntentStatus.PARTIALLY_REFUNDED].includes(intent.status)) {
+      throw new Error(`Payment intent cannot be refunded in status ${intent.status}`);
+    }
+
+    const refundable = intent.amount - intent.amountRefunded;
+    const refundAmount = amount ?? refundable;
+
+    if (refundAmount <= 0 || refundAmount > refundable) {
+      throw new Error(`Invalid refund amount. Refundable: ${refundable}, Requested: ${refundAmount}`);
+    }
+
+    if (this.outcome === 'fail') {
+      throw new Error('Refund declined (fake gateway)');
+    }
+
+    intent.amountRefunded += refundAmount;
+    intent.status = intent.amountRefunded >= intent.amount
+      ? PaymentIntentStatus.REFUNDED
+      : PaymentIntentStatus.PARTIALLY_REFUNDED;
+    intent.updatedAt = new Date();
+
+    this.logger.info(`Payment intent refunded: ${intentId} (${refundAmount})`);
+    return { ...intent };
+  }
+
+  constructWebhookEvent(payload: string, signature: string): PaymentWebhookEvent {
+    const expected = this.signPayload(payload);
+    const expectedBuffer = Buffer.from(expected);
+    const signatureBuffer = Buffer.from(signature || '');
+
+    if (expectedBuffer.length !== signatureBuffer.length ||
+        !crypto.timingSafeEqual(expectedBuffer, signatureBuffer)) {
+      throw new Error('Invalid webhook signature');
+    }
+
+    const event = JSON.parse(payload);
+    return {
+      id: event.id,
+      type: event.type as PaymentEventType,
+      paymentIntentId: event.paymentIntentId,
+      orderId: event.orderId,
+      amount: event.amount,
+      createdAt: new Date(event.createdAt),
+    };
+  }
+
+  // Build a signed webhook for an intent, as the real provider would send it
+  simulateWebhook(intentId: string, type: PaymentEventType): { payload: string; signature: string } {
+    const intent = this.getIntentOrThrow(intentId);
+    const payload = JSON.stringify({
+      id: `evt_fake_${crypto.randomBytes(12).toString('hex')}`,
+      type,
+      paymentIntentId: intent.id,
+      orderId: intent.orderId,
+      amount: intent.amount,
+      createdAt: new Date().toISOString(),
+    });
+
+    return { payload, signature: this.signPayload(payload) };
+  }
+
+  signPayload(payload: string): string {
+    const digest = crypto.createHmac('sha256', this.webhookSecret).update(payload).digest('hex');
+    return `sha256=${digest}`;
+  }
+
+  private getIntentOrThrow(intentId: string): PaymentIntent {
+    const intent = this.intents.get(intentId);
+    if (!intent) {
+      throw new Error(`Payment intent ${intentId} not found`);
+    }
+    return intent;
+  }
+}
@@ -0,0 +1,61 @@
+import { RedisClientType } from 'redis';
+import { AbandonedCartService, AbandonedCartRunResult } from '@/business/services/AbandonedCartService';
+import { LockedIntervalJob } from '@/infrastructure/scheduler/LockedIntervalJob';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface AbandonedCartSchedulerOptions {
+  idleHours: number; // carts untouched for this long count as abandoned; keep it below the 24h cart TTL
+  intervalMs: number;
+  batchSize: number;
+}
+
+// Periodically looks for carts left with items and sends the recovery email before the cart expires
+export class AbandonedCartScheduler {
+  private logger = new Logger('AbandonedCartScheduler');
+  private job: LockedIntervalJob<AbandonedCartRunResult>;
+
+  constructor(
+    private abandonedCartService: AbandonedCartService,
+    redis: RedisClientType,
+    private options: AbandonedCartSchedulerOptions
+  ) {
+    this.job = new LockedIntervalJob(
+      redis,
+      { name: 'Abandoned cart', lockKey: 'abandoned-carts:lock', intervalMs: options.intervalMs },
+      () => this.processIdleCarts()
+    );
+  }
+
+  start(): void {
+    if (!this.job.start()) return;
+
+    this.logger.info(
+      `Abandoned cart scheduler started (idle: ${this.options.idleHours}h, every ${Math.round(this.options.intervalMs / 1000)}s)`
+    );
+  }
+
+  stop(): void {
+    if (!this.job.stop()) return;
+
+    this.logger.info('Abandoned cart scheduler stopped');
+  }
+
+  getIdleSince(now: Date = new Date()): Date {
+    return new Date(now.getTime() - this.options.idleHours * 60 * 60 * 1000);
+  }
+
+  // Returns null when another instance is already running the job
+  async runOnce(): Promise<AbandonedCartRunResult | null> {
+    return this.job.runOnce();
+  }
+
+  private async processIdleCarts(): Promise<AbandonedCartRunResult> {
+    const result = await this.abandonedCartService.processIdleCarts(this.getIdleSince(), this.options.batchSize);
+
+    result.failed.forEach(failure =>
+      this.logger.warn(`Abandoned cart of user ${failure.userId} could not be processed: ${failure.error}`)
+    );
+
+    return result;
+  }
+}
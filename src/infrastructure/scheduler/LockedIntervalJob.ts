@@ -0,0 +1,70 @@
+import { randomUUID } from 'crypto';
+import { RedisClientType } from 'redis';
+import { Logger } from '@/shared/utils/Logger';
+
+// Deletes the lock only while it still holds this run's token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+export interface LockedIntervalJobOptions {
+  name: string; // used in log lines, e.g. "Order expiry"
+  lockKey: string;
+  intervalMs: number;
+}
+
+// Runs a job on an interval; a Redis lock keeps several instances from running it at the same time
+export class LockedIntervalJob<T> {
+  private logger = new Logger('LockedIntervalJob');
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private redis: RedisClientType,
+    private options: LockedIntervalJobOptions,
+    private job: () => Promise<T>
+  ) {}
+
+  // Returns false when the job was already started
+  start(): boolean {
+    if (this.timer) return false;
+
+    this.timer = setInterval(() => {
+      this.runOnce().catch(error => this.logger.error(`Scheduled ${this.options.name} run failed:`, error));
+    }, this.options.intervalMs);
+    // Don't keep the process alive just for this timer
+    this.timer.unref();
+    return true;
+  }
+
+  // Returns false when the job was not running
+  stop(): boolean {
+    if (!this.timer) return false;
+
+    clearInterval(this.timer);
+    this.timer = null;
+    return true;
+  }
+
+  // Returns null when another instance is already running the job
+  async runOnce(): Promise<T | null> {
+    // The lock outlives a crashed run by at most one interval
+    const lockTtl = Math.max(Math.ceil(this.options.intervalMs / 1000), 60);
+    // A run slower than the TTL may find its lock taken over, so it only releases its own token
+    const token = `${process.pid}:${randomUUID()}`;
+    const acquired = await this.redis.set(this.options.lockKey, token, { NX: true, EX: lockTtl });
+
+    if (!acquired) {
+      this.logger.debug(`${this.options.name} run skipped: another run is in progress`);
+      return null;
+    }
+
+    try {
+      return await this.job();
+    } finally {
+      await this.redis.eval(RELEASE_LOCK_SCRIPT, { keys: [this.options.lockKey], arguments: [token] });
+    }
+  }
+}
@@ -0,0 +1,71 @@
+import { RedisClientType } from 'redis';
+import { Order } from '@/business/domain/Order';
+import { OrderService, OrderExpiryResult } from '@/business/services/OrderService';
+import { LockedIntervalJob } from '@/infrastructure/scheduler/LockedIntervalJob';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface OrderExpiryOptions {
+  ttlMinutes: number; // unpaid PENDING orders older than this are cancelled
+  intervalMs: number;
+  batchSize: number;
+}
+
+// Periodically cancels unpaid PENDING orders so their reserved stock goes back on sale
+export class OrderExpiryScheduler {
+  private logger = new Logger('OrderExpiryScheduler');
+  private job: LockedIntervalJob<OrderExpiryResult>;
+
+  constructor(
+    private orderService: OrderService,
+    redis: RedisClientType,
+    private options: OrderExpiryOptions
+  ) {
+    this.job = new LockedIntervalJob(
+      redis,
+      { name: 'Order expiry', lockKey: 'order-expiry:lock', intervalMs: options.intervalMs },
+      () => this.expireOrders()
+    );
+  }
+
+  start(): void {
+    if (!this.job.start()) return;
+
+    this.logger.info(
+      `Order expiry scheduler started (ttl: ${this.options.ttlMinutes}m, every ${Math.round(this.options.intervalMs / 1000)}s)`
+    );
+  }
+
+  stop(): void {
+    if (!this.job.stop()) return;
+
+    this.logger.info('Order expiry scheduler stopped');
+  }
+
+  getCutoff(now: Date = new Date()): Date {
+    return new Date(now.getTime() - this.options.ttlMinutes * 60 * 1000);
+  }
+
+  async preview(): Promise<Order[]> {
+    return this.orderService.getExpiredPendingOrders(this.getCutoff(), this.options.batchSize);
+  }
+
+  // Returns null when another instance is already running the job
+  async runOnce(): Promise<OrderExpiryResult | null> {
+    return this.job.runOnce();
+  }
+
+  private async expireOrders(): Promise<OrderExpiryResult> {
+    const startedAt = Date.now();
+    const result = await this.orderService.expirePendingOrders(this.getCutoff(), this.options.batchSize);
+
+    this.logger.info(
+      `Order expiry run: ${result.expired.length} expired, ${result.skipped.length} skipped, ` +
+      `${result.failed.length} failed (cutoff ${result.cutoff.toISOString()}, ${Date.now() - startedAt}ms)`
+    );
+    result.failed.forEach(failure =>
+      this.logger.warn(`Order ${failure.orderNumber} could not be expired: ${failure.error}`)
+    );
+
+    return result;
+  }
+}
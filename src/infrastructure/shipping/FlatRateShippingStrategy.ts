@@ -0,0 +1,36 @@
+import {
+  IShippingStrategy,
+  ShippingQuoteRequest,
+  ShippingRate,
+} from '@/business/interfaces/IShippingStrategy';
+import { Money } from '@/business/domain/Money';
+
+export interface FlatRateShippingOptions {
+  method: string;
+  name: string;
+  price: number;
+  estimatedDays: number;
+  freeShippingThreshold?: number | null;
+}
+
+// Same price for every destination and parcel size
+export class FlatRateShippingStrategy implements IShippingStrategy {
+  readonly method: string;
+  readonly name: string;
+  readonly freeShippingThreshold: Money | null;
+
+  constructor(private options: FlatRateShippingOptions) {
+    this.method = options.method;
+    this.name = options.name;
+    this.freeShippingThreshold = typeof options.freeShippingThreshold === 'number'
+      ? Money.fromDecimal(options.freeShippingThreshold)
+      : null;
+  }
+
+  calculate(_request: ShippingQuoteRequest): ShippingRate | null {
+    return {
+      price: Money.fromDecimal(this.options.price),
+      estimatedDays: this.options.estimatedDays,
+    };
+  }
+}
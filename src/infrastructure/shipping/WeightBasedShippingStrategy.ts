@@ -0,0 +1,55 @@
+import {
+  IShippingStrategy,
+  ShippingQuoteRequest,
+  ShippingRate,
+} from '@/business/interfaces/IShippingStrategy';
+import { Money } from '@/business/domain/Money';
+
+export interface WeightBracket {
+  maxWeight: number; // kg, inclusive
+  price: number;
+}
+
+export interface WeightBasedShippingOptions {
+  method: string;
+  name: string;
+  brackets: WeightBracket[];
+  extraPerKg: number | null; // charged per started kg above the last bracket (null = not served)
+  estimatedDays: number;
+  freeShippingThreshold?: number | null;
+}
+
+// Price looked up from weight brackets, e.g. up to 1kg, up to 5kg, up to 10kg
+export class WeightBasedShippingStrategy implements IShippingStrategy {
+  readonly method: string;
+  readonly name: string;
+  readonly freeShippingThreshold: Money | null;
+  private brackets: WeightBracket[];
+
+  constructor(private options: WeightBasedShippingOptions) {
+    this.method = options.method;
+    this.name = options.name;
+    this.freeShippingThreshold = typeof options.freeShippingThreshold === 'number'
+      ? Money.fromDecimal(options.freeShippingThreshold)
+      : null;
+    this.brackets = [...options.brackets].sort((a, b) => a.maxWeight - b.maxWeight);
+  }
+
+  calculate(request: ShippingQuoteRequest): ShippingRate | null {
+    const bracket = this.brackets.find(b => request.totalWeight <= b.maxWeight);
+    if (bracket) {
+      return { price: Money.fromDecimal(bracket.price), estimatedDays: this.options.estimatedDays };
+    }
+
+    const last = this.brackets[this.brackets.length - 1];
+    if (!last || this.options.extraPerKg === null) {
+      return null;
+    }
+
+    const extraKg = Math.ceil(request.totalWeight - last.maxWeight);
+    return {
+      price: Money.fromDecimal(last.price).add(Money.fromDecimal(this.options.extraPerKg).multiply(extraKg)),
+      estimatedDays: this.options.estimatedDays,
+    };
+  }
+}
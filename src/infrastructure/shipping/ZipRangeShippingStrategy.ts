@@ -0,0 +1,71 @@
+import {
+  IShippingStrategy,
+  ShippingQuoteRequest,
+  ShippingRate,
+} from '@/business/interfaces/IShippingStrategy';
+import { Money } from '@/business/domain/Money';
+
+export interface CepBand {
+  from: string; // 8-digit CEP, inclusive
+  to: string; // 8-digit CEP, inclusive
+  price: number;
+  perKgRate: number;
+  estimatedDays: number;
+}
+
+export interface ZipRangeShippingOptions {
+  method: string;
+  name: string;
+  bands: CepBand[];
+  freeShippingThreshold?: number | null;
+}
+
+// Reference CEP bands by region (first digit of the CEP)
+export const DEFAULT_CEP_BANDS: CepBand[] = [
+  { from: '01000000', to: '19999999', price: 12.9, perKgRate: 1.5, estimatedDays: 3 }, // SP
+  { from: '20000000', to: '29999999', price: 15.9, perKgRate: 2.0, estimatedDays: 4 }, // RJ / ES
+  { from: '30000000', to: '39999999', price: 16.9, perKgRate: 2.0, estimatedDays: 5 }, // MG
+  { from: '40000000', to: '65999999', price: 24.9, perKgRate: 3.5, estimatedDays: 8 }, // Nordeste
+  { from: '66000000', to: '69999999', price: 34.9, perKgRate: 4.5, estimatedDays: 12 }, // Norte
+  { from: '70000000', to: '79999999', price: 21.9, perKgRate: 3.0, estimatedDays: 6 }, // Centro-Oeste
+  { from: '80000000', to: '99999999', price: 18.9, perKgRate: 2.5, estimatedDays: 5 }, // Sul
+];
+
+// Price table keyed by Brazilian CEP ranges; only serves BR addresses
+export class ZipRangeShippingStrategy implements IShippingStrategy {
+  readonly method: string;
+  readonly name: string;
+  readonly freeShippingThreshold: Money | null;
+
+  constructor(private options: ZipRangeShippingOptions) {
+    this.method = options.method;
+    this.name = options.name;
+    this.freeShippingThreshold = typeof options.freeShippingThreshold === 'number'
+      ? Money.fromDecimal(options.freeShippingThreshold)
+      : null;
+  }
+
+  calculate(request: ShippingQuoteRequest): ShippingRate | null {
+    const country = request.address.country.trim().toUpperCase();
+    if (country !== 'BR' && country !== 'BRASIL' && country !== 'BRAZIL') {
+      return null;
+    }
+
+    const cep = request.address.zipCode.replace(/\D/g, '');
+    if (cep.length !== 8) {
+      return null;
+    }
+
+    // Fixed-width numeric strings compare correctly as strings
+    const band = this.options.bands.find(b => cep >= b.from && cep <= b.to);
+    if (!band) {
+      return null;
+    }
+
+    const weightCharge = Money.fromDecimal(band.perKgRate).multiply(Math.ceil(request.totalWeight));
+    return {
+      price: Money.fromDecimal(band.price).add(weightCharge),
+      estimatedDays: band.estimatedDays,
+    };
+  }
+}
@@ -0,0 +1,51 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { IFileStorage } from '@/business/interfaces/IFileStorage';
+import { Logger } from '@/shared/utils/Logger';
+
+export interface LocalFileStorageOptions {
+  rootDir: string; // directory files are written to
+  publicUrl: string; // URL prefix the directory is served under, e.g. "/uploads"
+}
+
+// Development storage: writes files under a local directory that the app serves statically.
+// Swap it for an S3-compatible adapter in the container.
+export class LocalFileStorage implements IFileStorage {
+  private logger = new Logger('LocalFileStorage');
+  private readonly rootDir: string;
+
+  constructor(private options: LocalFileStorageOptions) {
+    this.rootDir = path.resolve(options.rootDir);
+  }
+
+  async put(key: string, content: Buffer, contentType: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+
+    this.logger.debug(`File stored: ${key} (${contentType}, ${content.length} bytes)`);
+  }
+
+  // Deleting a file that is already gone is not an error
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.resolvePath(key));
+      this.logger.debug(`File deleted: ${key}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+  }
+
+  getUrl(key: string): string {
+    return `${this.options.publicUrl.replace(/\/+$/, '')}/${key}`;
+  }
+
+  // Keys come from the services, but never let one point outside the storage directory
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+}
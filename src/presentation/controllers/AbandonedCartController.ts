@@ -0,0 +1,73 @@
+import { Request, Response } from 'express';
+import { AbandonedCartService } from '@/business/services/AbandonedCartService';
+import { AbandonedCartScheduler } from '@/infrastructure/scheduler/AbandonedCartScheduler';
+import { Logger } from '@/shared/utils/Logger';
+
+export class AbandonedCartController {
+  private logger = new Logger('AbandonedCartController');
+  private readonly DEFAULT_REPORT_DAYS = 30;
+
+  constructor(
+    private abandonedCartService: AbandonedCartService,
+    private abandonedCartScheduler: AbandonedCartScheduler
+  ) {}
+
+  // GET /api/v1/cart/admin/abandoned/report
+  getReport = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = req.query as { startDate?: Date; endDate?: Date };
+      const endDate = query.endDate ?? new Date();
+      const startDate = query.startDate ?? new Date(endDate.getTime() - this.DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+
+      const report = await this.abandonedCartService.getReport(startDate, endDate);
+
+      res.json({
+        data: report,
+        message: 'Abandoned cart report retrieved successfully',
+      });
+    } catch (error) {
+      this.logger.error('Error getting abandoned cart report:', error);
+
+      if (error instanceof Error && error.message.includes('must be before')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve abandoned cart report',
+      });
+    }
+  };
+
+  // POST /api/v1/cart/admin/abandoned/run
+  runDetection = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await this.abandonedCartScheduler.runOnce();
+
+      if (!result) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'An abandoned cart run is already in progress',
+        });
+        return;
+      }
+
+      res.json({
+        data: result,
+        message: `${result.notified} recovery emails sent`,
+      });
+
+      this.logger.info(`Manual abandoned cart run by ${req.user?.email}: ${result.detected} detected`);
+    } catch (error) {
+      this.logger.error('Error running abandoned cart detection:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to run abandoned cart detection',
+      });
+    }
+  };
+}
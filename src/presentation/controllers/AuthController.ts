@@ -1,11 +1,15 @@
 import { Request, Response } from 'express';
 import { AuthService } from '@/business/services/AuthService';
+import { CartService } from '@/business/services/CartService';
 import { Logger } from '@/shared/utils/Logger';
 
 export class AuthController {
   private logger = new Logger('AuthController');
 
-  constructor(private authService: AuthService) {}
+  constructor(
+    private authService: AuthService,
+    private cartService: CartService
+  ) {}
 
   // POST /api/v1/auth/login
   login = async (req: Request, res: Response): Promise<void> => {
@@ -22,6 +26,15 @@ export class AuthController {
 
       const result = await this.authService.login(email, password);
 
+      // The login already succeeded, so a failed merge only leaves the guest cart where it was
+      if (req.guest) {
+        try {
+          await this.cartService.adoptGuestCart(result.user.id, req.guest.id);
+        } catch (error) {
+          this.logger.warn(`Could not merge guest cart ${req.guest.id} into user: ${result.user.id}`, error);
+        }
+      }
+
       res.json({
         data: result,
         message: 'Login successful',
@@ -56,6 +69,27 @@ export class AuthController {
     }
   };
 
+  // POST /api/v1/auth/guest
+  createGuestSession = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const session = this.authService.createGuestSession();
+
+      res.status(201).json({
+        data: session,
+        message: 'Guest session created successfully',
+      });
+
+      this.logger.info(`Guest session created: ${session.guestId}`);
+    } catch (error) {
+      this.logger.error('Guest session error:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to create guest session',
+      });
+    }
+  };
+
   // POST /api/v1/auth/logout
   logout = async (req: Request, res: Response): Promise<void> => {
     try {
@@ -1,16 +1,20 @@
 import { Request, Response } from 'express';
 import { CartService } from '@/business/services/CartService';
+import { OrderService } from '@/business/services/OrderService';
 import { Logger } from '@/shared/utils/Logger';
 
 export class CartController {
   private logger = new Logger('CartController');
 
-  constructor(private cartService: CartService) {}
+  constructor(
+    private cartService: CartService,
+    private orderService: OrderService
+  ) {}
 
   // GET /api/v1/cart
   getCart = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = req.user?.id;
+      const userId = this.getCartOwnerId(req);
 
       if (!userId) {
         res.status(401).json({
@@ -21,10 +25,14 @@ export class CartController {
       }
 
       const cart = await this.cartService.getCartByUserId(userId);
+      const changes = await this.cartService.getCartChanges(userId);
 
       res.json({
         data: cart,
-        message: 'Cart retrieved successfully',
+        changes,
+        message: changes.length > 0
+          ? 'Cart retrieved successfully; some items changed since they were added'
+          : 'Cart retrieved successfully',
       });
 
       this.logger.info(`Cart retrieved for user: ${userId}`);
@@ -40,8 +48,8 @@ export class CartController {
   // POST /api/v1/cart/items
   addItemToCart = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = req.user?.id;
-      const { productId, quantity } = req.body;
+      const userId = this.getCartOwnerId(req);
+      const { productId, quantity, variantId } = req.body;
 
       if (!userId) {
         res.status(401).json({
@@ -67,7 +75,7 @@ export class CartController {
         return;
       }
 
-      const cart = await this.cartService.addItemToCart(userId, productId, quantity);
+      const cart = await this.cartService.addItemToCart(userId, productId, quantity, variantId ?? null);
 
       res.json({
         data: cart,
@@ -94,6 +102,14 @@ export class CartController {
           });
           return;
         }
+
+        if (error.message.includes('Select a variant') || error.message.includes('not available')) {
+          res.status(400).json({
+            error: 'Validation error',
+            message: error.message,
+          });
+          return;
+        }
       }
 
       res.status(500).json({
@@ -106,9 +122,9 @@ export class CartController {
   // PUT /api/v1/cart/items/:productId
   updateCartItem = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = req.user?.id;
+      const userId = this.getCartOwnerId(req);
       const { productId } = req.params;
-      const { quantity } = req.body;
+      const { quantity, variantId } = req.body;
 
       if (!userId) {
         res.status(401).json({
@@ -134,7 +150,7 @@ export class CartController {
         return;
       }
 
-      const cart = await this.cartService.updateCartItemQuantity(userId, productId, quantity);
+      const cart = await this.cartService.updateCartItemQuantity(userId, productId, quantity, variantId ?? null);
 
       res.json({
         data: cart,
@@ -161,6 +177,14 @@ export class CartController {
           });
           return;
         }
+
+        if (error.message.includes('Select a variant')) {
+          res.status(400).json({
+            error: 'Validation error',
+            message: error.message,
+          });
+          return;
+        }
       }
 
       res.status(500).json({
@@ -173,7 +197,7 @@ export class CartController {
   // DELETE /api/v1/cart/items/:productId
   removeCartItem = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = req.user?.id;
+      const userId = this.getCartOwnerId(req);
       const { productId } = req.params;
 
       if (!userId) {
@@ -192,7 +216,8 @@ export class CartController {
         return;
       }
 
-      const cart = await this.cartService.removeItemFromCart(userId, productId);
+      const variantId = typeof req.query.variantId === 'string' ? req.query.variantId : null;
+      const cart = await this.cartService.removeItemFromCart(userId, productId, variantId);
 
       res.json({
         data: cart,
@@ -221,7 +246,7 @@ export class CartController {
   // DELETE /api/v1/cart
   clearCart = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = req.user?.id;
+      const userId = this.getCartOwnerId(req);
 
       if (!userId) {
         res.status(401).json({
@@ -252,7 +277,7 @@ export class CartController {
   // GET /api/v1/cart/summary
   getCartSummary = async (req: Request, res: Response): Promise<void> => {
     try {
-      const userId = req.user?.id;
+      const userId = this.getCartOwnerId(req);
 
       if (!userId) {
         res.status(401).json({
@@ -262,7 +287,13 @@ export class CartController {
         return;
       }
 
-      const summary = await this.cartService.getCartSummary(userId);
+      // Street and city do not affect taxes or shipping rates
+      const { zipCode, state, country } = req.query as { zipCode?: string; state?: string; country?: string };
+      const shippingAddress = zipCode && country
+        ? { street: '', city: '', state: state ?? '', zipCode, country }
+        : undefined;
+
+      const summary = await this.cartService.getCartSummary(userId, shippingAddress);
 
       res.json({
         data: summary,
@@ -279,4 +310,251 @@ export class CartController {
       });
     }
   };
+
+  // POST /api/v1/cart/accept-changes
+  acceptCartChanges = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = this.getCartOwnerId(req);
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const summary = await this.cartService.acceptCartChanges(userId);
+
+      res.json({
+        data: summary,
+        message: 'Cart updated to current prices and stock',
+      });
+
+      this.logger.info(`Cart changes accepted for user: ${userId}`);
+    } catch (error) {
+      this.logger.error('Error accepting cart changes:', error);
+
+      if (error instanceof Error && error.message.includes('stock')) {
+        res.status(409).json({
+          error: 'Stock error',
+          message: error.message,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to accept cart changes',
+      });
+    }
+  };
+
+  // POST /api/v1/cart/coupon
+  applyCoupon = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = this.getCartOwnerId(req);
+      const { code } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const summary = await this.cartService.applyCoupon(userId, code);
+
+      res.json({
+        data: summary,
+        message: 'Coupon applied successfully',
+      });
+
+      this.logger.info(`Coupon ${code} applied for user: ${userId}`);
+    } catch (error) {
+      this.logger.error('Error applying coupon:', error);
+
+      if (error instanceof Error && (error.message.toLowerCase().includes('coupon') || error.message.includes('empty cart'))) {
+        res.status(400).json({
+          error: 'Invalid coupon',
+          message: error.message,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to apply coupon',
+      });
+    }
+  };
+
+  // DELETE /api/v1/cart/coupon
+  removeCoupon = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = this.getCartOwnerId(req);
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const summary = await this.cartService.removeCoupon(userId);
+
+      res.json({
+        data: summary,
+        message: 'Coupon removed successfully',
+      });
+
+      this.logger.info(`Coupon removed for user: ${userId}`);
+    } catch (error) {
+      this.logger.error('Error removing coupon:', error);
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to remove coupon',
+      });
+    }
+  };
+
+  // POST /api/v1/cart/shipping-quote
+  getShippingQuote = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = this.getCartOwnerId(req);
+      const { shippingAddress } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const options = await this.cartService.quoteShipping(userId, shippingAddress);
+
+      res.json({
+        data: options,
+        message: options.length > 0
+          ? 'Shipping options retrieved successfully'
+          : 'No shipping options available for this address',
+      });
+    } catch (error) {
+      this.logger.error('Error quoting shipping:', error);
+
+      if (error instanceof Error && error.message.includes('Cart is empty')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Resource not found',
+          message: error.message,
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to quote shipping',
+      });
+    }
+  };
+
+  // POST /api/v1/cart/checkout
+  checkout = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = this.getCartOwnerId(req);
+      const { shippingAddress, shippingMethod, email } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      if (!shippingAddress) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Shipping address is required',
+        });
+        return;
+      }
+
+      let order;
+      if (req.user) {
+        order = await this.orderService.createOrderFromCart(req.user.id, shippingAddress, shippingMethod);
+      } else {
+        // Guests have no account, so the order keeps their email for confirmations
+        if (!email) {
+          res.status(400).json({
+            error: 'Validation error',
+            message: 'Email is required for guest checkout',
+          });
+          return;
+        }
+
+        order = await this.orderService.createGuestOrderFromCart(
+          { guestId: req.guest!.id, email },
+          shippingAddress,
+          shippingMethod
+        );
+      }
+
+      res.status(201).json({
+        data: order,
+        message: 'Checkout completed successfully',
+      });
+
+      this.logger.info(`Checkout completed: ${order.orderNumber} for user: ${userId}`);
+    } catch (error) {
+      this.logger.error('Error during checkout:', error);
+
+      if (error instanceof Error) {
+        if (error.message.includes('validation failed') ||
+            error.message.includes('Invalid') ||
+            error.message.includes('Insufficient stock') ||
+            error.message.includes('for this address') ||
+            error.message.toLowerCase().includes('coupon')) {
+          res.status(400).json({
+            error: 'Validation error',
+            message: error.message,
+          });
+          return;
+        }
+
+        if (error.message.includes('not found')) {
+          res.status(404).json({
+            error: 'Resource not found',
+            message: error.message,
+          });
+          return;
+        }
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to complete checkout',
+      });
+    }
+  };
+
+  // Signed-in users own the cart under their id; guests under the id carried by their guest token
+  private getCartOwnerId(req: Request): string | undefined {
+    if (req.user) {
+      return req.user.id;
+    }
+
+    return req.guest ? CartService.guestCartId(req.guest.id) : undefined;
+  }
 }
\ No newline at end of file
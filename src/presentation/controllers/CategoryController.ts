@@ -0,0 +1,182 @@
+import { Request, Response } from 'express';
+import { CategoryService } from '@/business/services/CategoryService';
+import { Logger } from '@/shared/utils/Logger';
+
+export class CategoryController {
+  private logger = new Logger('CategoryController');
+
+  constructor(private categoryService: CategoryService) {}
+
+  // GET /api/v1/categories
+  getCategoryTree = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tree = await this.categoryService.getCategoryTree();
+
+      res.json({
+        data: tree,
+      });
+    } catch (error) {
+      this.logger.error('Error getting category tree:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve categories',
+      });
+    }
+  };
+
+  // GET /api/v1/categories/admin/all
+  getFullCategoryTree = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const tree = await this.categoryService.getCategoryTree(true);
+
+      res.json({
+        data: tree,
+      });
+    } catch (error) {
+      this.logger.error('Error getting full category tree:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve categories',
+      });
+    }
+  };
+
+  // GET /api/v1/categories/:id
+  getCategoryById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Category ID is required',
+        });
+        return;
+      }
+
+      const category = await this.categoryService.getCategoryById(id);
+
+      if (!category) {
+        res.status(404).json({
+          error: 'Category not found',
+          message: `Category with ID ${id} does not exist`,
+        });
+        return;
+      }
+
+      res.json({
+        data: category,
+      });
+    } catch (error) {
+      this.logger.error('Error getting category by ID:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve category',
+      });
+    }
+  };
+
+  // POST /api/v1/categories
+  createCategory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const category = await this.categoryService.createCategory(req.body);
+
+      res.status(201).json({
+        data: category,
+        message: 'Category created successfully',
+      });
+
+      this.logger.info(`Category created: ${category.slug} (ID: ${category.id})`);
+    } catch (error) {
+      this.logger.error('Error creating category:', error);
+      this.handleCategoryError(error, res, 'Failed to create category');
+    }
+  };
+
+  // PUT /api/v1/categories/:id
+  updateCategory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Category ID is required',
+        });
+        return;
+      }
+
+      const category = await this.categoryService.updateCategory(id, req.body);
+
+      res.json({
+        data: category,
+        message: 'Category updated successfully',
+      });
+
+      this.logger.info(`Category updated: ${category.slug} (ID: ${id})`);
+    } catch (error) {
+      this.logger.error('Error updating category:', error);
+      this.handleCategoryError(error, res, 'Failed to update category');
+    }
+  };
+
+  // DELETE /api/v1/categories/:id
+  deleteCategory = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Category ID is required',
+        });
+        return;
+      }
+
+      await this.categoryService.deleteCategory(id);
+
+      res.json({
+        message: 'Category deleted successfully',
+      });
+
+      this.logger.info(`Category deleted: ${id}`);
+    } catch (error) {
+      this.logger.error('Error deleting category:', error);
+      this.handleCategoryError(error, res, 'Failed to delete category');
+    }
+  };
+
+  private handleCategoryError(error: unknown, res: Response, fallbackMessage: string): void {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Category not found',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('already exists')) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('Validation failed') ||
+          error.message.includes('cannot be deleted')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
@@ -0,0 +1,179 @@
+import { Request, Response } from 'express';
+import { CouponService } from '@/business/services/CouponService';
+import { Logger } from '@/shared/utils/Logger';
+
+export class CouponController {
+  private logger = new Logger('CouponController');
+
+  constructor(private couponService: CouponService) {}
+
+  // GET /api/v1/coupons
+  getAllCoupons = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const { coupons, total } = await this.couponService.getAllCoupons(page, limit);
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        data: coupons,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+
+      this.logger.info(`Retrieved ${coupons.length} coupons for page ${page}`);
+    } catch (error) {
+      this.logger.error('Error getting coupons:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve coupons',
+      });
+    }
+  };
+
+  // GET /api/v1/coupons/:id
+  getCouponById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Coupon ID is required',
+        });
+        return;
+      }
+
+      const coupon = await this.couponService.getCouponById(id);
+
+      if (!coupon) {
+        res.status(404).json({
+          error: 'Coupon not found',
+          message: `Coupon with ID ${id} does not exist`,
+        });
+        return;
+      }
+
+      res.json({
+        data: coupon,
+      });
+    } catch (error) {
+      this.logger.error('Error getting coupon by ID:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve coupon',
+      });
+    }
+  };
+
+  // POST /api/v1/coupons
+  createCoupon = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const coupon = await this.couponService.createCoupon(req.body);
+
+      res.status(201).json({
+        data: coupon,
+        message: 'Coupon created successfully',
+      });
+
+      this.logger.info(`Coupon created: ${coupon.code} (ID: ${coupon.id})`);
+    } catch (error) {
+      this.logger.error('Error creating coupon:', error);
+      this.handleCouponError(error, res, 'Failed to create coupon');
+    }
+  };
+
+  // PUT /api/v1/coupons/:id
+  updateCoupon = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Coupon ID is required',
+        });
+        return;
+      }
+
+      const coupon = await this.couponService.updateCoupon(id, req.body);
+
+      res.json({
+        data: coupon,
+        message: 'Coupon updated successfully',
+      });
+
+      this.logger.info(`Coupon updated: ${coupon.code} (ID: ${id})`);
+    } catch (error) {
+      this.logger.error('Error updating coupon:', error);
+      this.handleCouponError(error, res, 'Failed to update coupon');
+    }
+  };
+
+  // DELETE /api/v1/coupons/:id
+  deleteCoupon = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Coupon ID is required',
+        });
+        return;
+      }
+
+      await this.couponService.deleteCoupon(id);
+
+      res.json({
+        message: 'Coupon deleted successfully',
+      });
+
+      this.logger.info(`Coupon deleted: ${id}`);
+    } catch (error) {
+      this.logger.error('Error deleting coupon:', error);
+      this.handleCouponError(error, res, 'Failed to delete coupon');
+    }
+  };
+
+  private handleCouponError(error: unknown, res: Response, fallbackMessage: string): void {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Coupon not found',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('already exists')) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('Validation failed') ||
+          error.message.includes('cannot be deleted')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
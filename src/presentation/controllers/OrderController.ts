@@ -1,12 +1,38 @@
 import { Request, Response } from 'express';
 import { OrderService } from '@/business/services/OrderService';
-import { OrderStatus, PaymentStatus } from '@/business/domain/Order';
+import { OrderExpiryScheduler } from '@/infrastructure/scheduler/OrderExpiryScheduler';
+import { Order, OrderStatus } from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
+import { OrderSearchCriteria } from '@/business/interfaces/IOrderRepository';
+import { OrderSearchDTO, OrderExportDTO } from '@/presentation/dtos/OrderSearchDTO';
 import { Logger } from '@/shared/utils/Logger';
 
+// Columns of the reconciliation export, in order
+const EXPORT_COLUMNS = [
+  'orderNumber',
+  'createdAt',
+  'status',
+  'paymentStatus',
+  'currency',
+  'subtotal',
+  'discount',
+  'shipping',
+  'taxes',
+  'total',
+  'refundedTotal',
+  'couponCode',
+  'itemCount',
+  'userId',
+  'paymentIntentId',
+] as const;
+
 export class OrderController {
   private logger = new Logger('OrderController');
 
-  constructor(private orderService: OrderService) {}
+  constructor(
+    private orderService: OrderService,
+    private orderExpiryScheduler: OrderExpiryScheduler
+  ) {}
 
   // GET /api/v1/orders
   getUserOrders = async (req: Request, res: Response): Promise<void> => {
@@ -59,7 +85,7 @@ export class OrderController {
       const userId = req.user?.id;
       const userRole = req.user?.role;
 
-      if (!userId) {
+      if (!userId && !req.guest) {
         res.status(401).json({
           error: 'Authentication required',
           message: 'User not authenticated',
@@ -85,8 +111,9 @@ export class OrderController {
         return;
       }
 
-      // Check if user owns the order or is admin/moderator
-      if (order.userId !== userId && userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
+      // Check if the user or guest owns the order, or is admin/moderator
+      const isGuestOwner = !userId && !!req.guest && order.guestId === req.guest.id;
+      if (!isGuestOwner && order.userId !== userId && userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
         res.status(403).json({
           error: 'Access denied',
           message: 'You can only access your own orders',
@@ -98,7 +125,7 @@ export class OrderController {
         data: order,
       });
 
-      this.logger.info(`Retrieved order: ${order.orderNumber} for user: ${userId}`);
+      this.logger.info(`Retrieved order: ${order.orderNumber} for user: ${userId ?? `guest ${req.guest?.id}`}`);
     } catch (error) {
       this.logger.error('Error getting order by ID:', error);
       res.status(500).json({
@@ -108,11 +135,69 @@ export class OrderController {
     }
   };
 
+  // GET /api/v1/orders/:id/timeline
+  getOrderTimeline = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Order ID is required',
+        });
+        return;
+      }
+
+      const order = await this.orderService.getOrderById(id);
+
+      if (!order) {
+        res.status(404).json({
+          error: 'Order not found',
+          message: `Order with ID ${id} does not exist`,
+        });
+        return;
+      }
+
+      // Check if user owns the order or is admin/moderator
+      if (order.userId !== userId && userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: 'You can only access your own orders',
+        });
+        return;
+      }
+
+      const timeline = await this.orderService.getOrderTimeline(id);
+
+      res.json({
+        data: timeline,
+      });
+
+      this.logger.info(`Retrieved timeline for order: ${order.orderNumber} (${timeline.length} entries)`);
+    } catch (error) {
+      this.logger.error('Error getting order timeline:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve order timeline',
+      });
+    }
+  };
+
   // POST /api/v1/orders
   createOrder = async (req: Request, res: Response): Promise<void> => {
     try {
       const userId = req.user?.id;
-      const { cartItems, shippingAddress } = req.body;
+      const { cartItems, shippingAddress, shippingMethod, couponCode } = req.body;
 
       if (!userId) {
         res.status(401).json({
@@ -140,8 +225,14 @@ export class OrderController {
 
       const order = await this.orderService.createOrder({
         userId,
-        cartItems,
+        cartItems: cartItems.map((item: { productId: string; variantId?: string; quantity: number }) => ({
+          productId: item.productId,
+          variantId: item.variantId ?? null,
+          quantity: item.quantity,
+        })),
         shippingAddress,
+        shippingMethod,
+        couponCode,
       });
 
       res.status(201).json({
@@ -156,7 +247,10 @@ export class OrderController {
       if (error instanceof Error) {
         if (error.message.includes('Validation failed') || 
             error.message.includes('Invalid') ||
-            error.message.includes('Insufficient stock')) {
+            error.message.includes('Insufficient stock') ||
+            error.message.includes('Select a variant') ||
+            error.message.includes('for this address') ||
+            error.message.toLowerCase().includes('coupon')) {
           res.status(400).json({
             error: 'Validation error',
             message: error.message,
@@ -184,7 +278,8 @@ export class OrderController {
   updateOrderStatus = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const { status } = req.body;
+      const { status, reason } = req.body;
+      const userId = req.user?.id;
       const userRole = req.user?.role;
 
       // Only admins and moderators can update order status
@@ -212,7 +307,7 @@ export class OrderController {
         return;
       }
 
-      const order = await this.orderService.updateOrderStatus(id, status);
+      const order = await this.orderService.updateOrderStatus(id, status, userId, reason);
 
       res.json({
         data: order,
@@ -232,6 +327,14 @@ export class OrderController {
           return;
         }
 
+        if (error.message.includes('changed by another request')) {
+          res.status(409).json({
+            error: 'Conflict',
+            message: error.message,
+          });
+          return;
+        }
+
         if (error.message.includes('cannot be') || error.message.includes('Invalid')) {
           res.status(400).json({
             error: 'Business logic error',
@@ -248,18 +351,18 @@ export class OrderController {
     }
   };
 
-  // PATCH /api/v1/orders/:id/payment
-  updatePaymentStatus = async (req: Request, res: Response): Promise<void> => {
+  // POST /api/v1/orders/:id/cancel
+  cancelOrder = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const { paymentStatus } = req.body;
+      const { reason } = req.body;
+      const userId = req.user?.id;
       const userRole = req.user?.role;
 
-      // Only admins and moderators can update payment status
-      if (userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
-        res.status(403).json({
-          error: 'Access denied',
-          message: 'Only admins and moderators can update payment status',
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
         });
         return;
       }
@@ -272,24 +375,35 @@ export class OrderController {
         return;
       }
 
-      if (!paymentStatus || !Object.values(PaymentStatus).includes(paymentStatus)) {
-        res.status(400).json({
-          error: 'Validation error',
-          message: 'Valid payment status is required',
+      // Get order to check ownership
+      const existingOrder = await this.orderService.getOrderById(id);
+      if (!existingOrder) {
+        res.status(404).json({
+          error: 'Order not found',
+          message: 'Order does not exist',
         });
         return;
       }
 
-      const order = await this.orderService.updatePaymentStatus(id, paymentStatus);
+      // Check if user owns the order or is admin/moderator
+      if (existingOrder.userId !== userId && userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: 'You can only cancel your own orders',
+        });
+        return;
+      }
+
+      const order = await this.orderService.cancelOrder(id, reason, userId);
 
       res.json({
         data: order,
-        message: 'Payment status updated successfully',
+        message: 'Order cancelled successfully',
       });
 
-      this.logger.info(`Payment status updated: ${order.orderNumber} -> ${paymentStatus}`);
+      this.logger.info(`Order cancelled: ${order.orderNumber} by user: ${userId}`);
     } catch (error) {
-      this.logger.error('Error updating payment status:', error);
+      this.logger.error('Error cancelling order:', error);
 
       if (error instanceof Error) {
         if (error.message.includes('not found')) {
@@ -300,7 +414,15 @@ export class OrderController {
           return;
         }
 
-        if (error.message.includes('Invalid')) {
+        if (error.message.includes('changed by another request')) {
+          res.status(409).json({
+            error: 'Conflict',
+            message: error.message,
+          });
+          return;
+        }
+
+        if (error.message.includes('cannot be cancelled')) {
           res.status(400).json({
             error: 'Business logic error',
             message: error.message,
@@ -311,18 +433,79 @@ export class OrderController {
 
       res.status(500).json({
         error: 'Internal server error',
-        message: 'Failed to update payment status',
+        message: 'Failed to cancel order',
       });
     }
   };
 
-  // POST /api/v1/orders/:id/cancel
-  cancelOrder = async (req: Request, res: Response): Promise<void> => {
+  // POST /api/v1/orders/:id/items
+  addOrderItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const order = await this.findOrderForEdit(req, res);
+      if (!order) return;
+
+      const { productId, quantity, variantId } = req.body;
+      const updatedOrder = await this.orderService.addOrderItem(order.id, productId, quantity, variantId ?? null);
+
+      res.json({
+        data: updatedOrder,
+        message: 'Item added to order',
+      });
+
+      this.logger.info(`Item ${productId} added to order: ${order.orderNumber}`);
+    } catch (error) {
+      this.logger.error('Error adding order item:', error);
+      this.handleOrderEditError(error, res, 'Failed to add item to order');
+    }
+  };
+
+  // PATCH /api/v1/orders/:id/items/:itemId
+  updateOrderItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const order = await this.findOrderForEdit(req, res);
+      if (!order) return;
+
+      const { itemId } = req.params;
+      const updatedOrder = await this.orderService.updateOrderItemQuantity(order.id, itemId!, req.body.quantity);
+
+      res.json({
+        data: updatedOrder,
+        message: 'Order item updated',
+      });
+
+      this.logger.info(`Item ${itemId} updated on order: ${order.orderNumber}`);
+    } catch (error) {
+      this.logger.error('Error updating order item:', error);
+      this.handleOrderEditError(error, res, 'Failed to update order item');
+    }
+  };
+
+  // DELETE /api/v1/orders/:id/items/:itemId
+  removeOrderItem = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const order = await this.findOrderForEdit(req, res);
+      if (!order) return;
+
+      const { itemId } = req.params;
+      const updatedOrder = await this.orderService.removeOrderItem(order.id, itemId!);
+
+      res.json({
+        data: updatedOrder,
+        message: 'Item removed from order',
+      });
+
+      this.logger.info(`Item ${itemId} removed from order: ${order.orderNumber}`);
+    } catch (error) {
+      this.logger.error('Error removing order item:', error);
+      this.handleOrderEditError(error, res, 'Failed to remove order item');
+    }
+  };
+
+  // POST /api/v1/orders/:id/reorder
+  reorder = async (req: Request, res: Response): Promise<void> => {
     try {
       const { id } = req.params;
-      const { reason } = req.body;
       const userId = req.user?.id;
-      const userRole = req.user?.role;
 
       if (!userId) {
         res.status(401).json({
@@ -340,57 +523,40 @@ export class OrderController {
         return;
       }
 
-      // Get order to check ownership
-      const existingOrder = await this.orderService.getOrderById(id);
-      if (!existingOrder) {
+      const order = await this.orderService.getOrderById(id);
+      if (!order) {
         res.status(404).json({
           error: 'Order not found',
-          message: 'Order does not exist',
+          message: `Order with ID ${id} does not exist`,
         });
         return;
       }
 
-      // Check if user owns the order or is admin/moderator
-      if (existingOrder.userId !== userId && userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
+      // Items go into the caller's own cart, so only the customer who placed the order can reorder it
+      if (order.userId !== userId) {
         res.status(403).json({
           error: 'Access denied',
-          message: 'You can only cancel your own orders',
+          message: 'You can only reorder your own orders',
         });
         return;
       }
 
-      const order = await this.orderService.cancelOrder(id, reason);
+      const result = await this.orderService.reorder(order, userId);
+      const addedCount = result.added.length + result.reduced.length;
 
       res.json({
-        data: order,
-        message: 'Order cancelled successfully',
+        data: result,
+        message: addedCount > 0
+          ? `${addedCount} of ${addedCount + result.skipped.length} items added to cart`
+          : 'None of the items of this order are available',
       });
 
-      this.logger.info(`Order cancelled: ${order.orderNumber} by user: ${userId}`);
+      this.logger.info(`Order reordered: ${order.orderNumber} by user: ${userId}`);
     } catch (error) {
-      this.logger.error('Error cancelling order:', error);
-
-      if (error instanceof Error) {
-        if (error.message.includes('not found')) {
-          res.status(404).json({
-            error: 'Order not found',
-            message: error.message,
-          });
-          return;
-        }
-
-        if (error.message.includes('cannot be cancelled')) {
-          res.status(400).json({
-            error: 'Business logic error',
-            message: error.message,
-          });
-          return;
-        }
-      }
-
+      this.logger.error('Error reordering:', error);
       res.status(500).json({
         error: 'Internal server error',
-        message: 'Failed to cancel order',
+        message: 'Failed to reorder',
       });
     }
   };
@@ -429,4 +595,290 @@ export class OrderController {
       });
     }
   };
-}
\ No newline at end of file
+
+  // GET /api/v1/orders/admin/search
+  searchOrders = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const query = req.query as unknown as OrderSearchDTO;
+      const page = query.page || 1;
+      const limit = query.limit || 20;
+
+      const { orders, total } = await this.orderService.searchOrders(this.toSearchCriteria(query), page, limit);
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        data: orders,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+
+      this.logger.info(`Order search returned ${orders.length} of ${total} orders`);
+    } catch (error) {
+      this.logger.error('Error searching orders:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to search orders',
+      });
+    }
+  };
+
+  // GET /api/v1/orders/admin/export
+  exportOrders = async (req: Request, res: Response): Promise<void> => {
+    const query = req.query as unknown as OrderExportDTO;
+    const isCsv = query.format === 'csv';
+    let exported = 0;
+
+    try {
+      for await (const batch of this.orderService.streamSearchResults(this.toSearchCriteria(query))) {
+        // Headers go out with the first chunk so query errors can still return a proper status
+        if (!res.headersSent) {
+          this.startExport(res, isCsv);
+        }
+
+        const chunk = batch
+          .map(order => (isCsv ? this.toCsvRow(order) : JSON.stringify(this.toExportRecord(order))) + '\n')
+          .join('');
+        await this.writeChunk(res, chunk);
+        exported += batch.length;
+
+        if (res.destroyed) {
+          this.logger.warn(`Order export aborted by client after ${exported} orders`);
+          return;
+        }
+      }
+
+      if (!res.headersSent) {
+        this.startExport(res, isCsv);
+      }
+      res.end();
+
+      this.logger.info(`Exported ${exported} orders as ${query.format} for ${req.user?.email}`);
+    } catch (error) {
+      this.logger.error('Error exporting orders:', error);
+
+      if (res.headersSent) {
+        // Mid-stream failure: truncate so the client sees an incomplete download rather than a valid file
+        res.destroy(error instanceof Error ? error : undefined);
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to export orders',
+      });
+    }
+  };
+
+  // GET /api/v1/orders/admin/expired
+  getExpiredOrders = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const orders = await this.orderExpiryScheduler.preview();
+
+      res.json({
+        data: orders,
+        cutoff: this.orderExpiryScheduler.getCutoff(),
+        message: `${orders.length} unpaid pending orders would expire`,
+      });
+    } catch (error) {
+      this.logger.error('Error previewing expired orders:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve expired orders',
+      });
+    }
+  };
+
+  // POST /api/v1/orders/admin/expire
+  expireOrders = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await this.orderExpiryScheduler.runOnce();
+
+      if (!result) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: 'An order expiry run is already in progress',
+        });
+        return;
+      }
+
+      res.json({
+        data: result,
+        message: `${result.expired.length} orders expired`,
+      });
+
+      this.logger.info(`Manual order expiry run by ${req.user?.email}: ${result.expired.length} expired`);
+    } catch (error) {
+      this.logger.error('Error expiring orders:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to expire orders',
+      });
+    }
+  };
+
+  // Loads the order and checks ownership; sends the error response and returns null when the edit isn't allowed
+  private async findOrderForEdit(req: Request, res: Response): Promise<Order | null> {
+    const { id } = req.params;
+    const userId = req.user?.id;
+    const userRole = req.user?.role;
+
+    if (!userId) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'User not authenticated',
+      });
+      return null;
+    }
+
+    if (!id) {
+      res.status(400).json({
+        error: 'Invalid request',
+        message: 'Order ID is required',
+      });
+      return null;
+    }
+
+    const order = await this.orderService.getOrderById(id);
+    if (!order) {
+      res.status(404).json({
+        error: 'Order not found',
+        message: `Order with ID ${id} does not exist`,
+      });
+      return null;
+    }
+
+    if (order.userId !== userId && userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
+      res.status(403).json({
+        error: 'Access denied',
+        message: 'You can only edit your own orders',
+      });
+      return null;
+    }
+
+    return order;
+  }
+
+  private handleOrderEditError(error: unknown, res: Response, fallbackMessage: string): void {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('changed by another request')) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('can be edited') ||
+          error.message.includes('Cannot remove') ||
+          error.message.includes('not available') ||
+          error.message.includes('Select a variant') ||
+          error.message.includes('Insufficient stock') ||
+          error.message.includes('would no longer apply') ||
+          error.message.includes('shipping') ||
+          error.message.includes('must be positive') ||
+          error.message.includes('validation failed')) {
+        res.status(400).json({
+          error: 'Business logic error',
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+
+  private toSearchCriteria(query: OrderSearchDTO | OrderExportDTO): OrderSearchCriteria {
+    return {
+      ...(query.status && { statuses: query.status }),
+      ...(query.paymentStatus && { paymentStatus: query.paymentStatus }),
+      ...(query.startDate && { createdFrom: query.startDate }),
+      ...(query.endDate && { createdTo: query.endDate }),
+      ...(query.minTotal !== undefined && { minTotal: Money.fromDecimal(query.minTotal) }),
+      ...(query.maxTotal !== undefined && { maxTotal: Money.fromDecimal(query.maxTotal) }),
+      ...(query.email && { customerEmail: query.email }),
+      ...(query.orderNumber && { orderNumberPrefix: query.orderNumber }),
+      ...(query.requiresAction && { requiresAction: true }),
+      ...(query.sortBy && { sortBy: query.sortBy }),
+      ...(query.sortOrder && { sortOrder: query.sortOrder }),
+    };
+  }
+
+  private startExport(res: Response, isCsv: boolean): void {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    res.status(200);
+    res.setHeader('Content-Type', isCsv ? 'text/csv; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="orders-${timestamp}.${isCsv ? 'csv' : 'ndjson'}"`);
+    res.setHeader('Cache-Control', 'no-store');
+
+    if (isCsv) {
+      res.write(EXPORT_COLUMNS.join(',') + '\n');
+    }
+  }
+
+  private toExportRecord(order: Order): Record<(typeof EXPORT_COLUMNS)[number], string | number | null> {
+    return {
+      orderNumber: order.orderNumber,
+      createdAt: order.createdAt.toISOString(),
+      status: order.status,
+      paymentStatus: order.paymentStatus,
+      currency: order.currency,
+      subtotal: order.subtotal.toDecimal(),
+      discount: order.discount.toDecimal(),
+      shipping: order.shipping.toDecimal(),
+      taxes: order.taxes.toDecimal(),
+      total: order.total.toDecimal(),
+      refundedTotal: order.refundedTotal.toDecimal(),
+      couponCode: order.couponCode,
+      itemCount: order.items.reduce((sum, item) => sum + item.quantity, 0),
+      userId: order.userId,
+      paymentIntentId: order.paymentIntentId,
+    };
+  }
+
+  private toCsvRow(order: Order): string {
+    const record = this.toExportRecord(order);
+    return EXPORT_COLUMNS.map(column => this.escapeCsv(record[column])).join(',');
+  }
+
+  private escapeCsv(value: string | number | null): string {
+    if (value === null) return '';
+    if (typeof value === 'number') return String(value);
+
+    // Keep spreadsheets from evaluating user-controlled text as a formula
+    const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  // Respects backpressure so a slow client doesn't make us buffer the whole export
+  private async writeChunk(res: Response, chunk: string): Promise<void> {
+    if (res.write(chunk)) return;
+
+    await new Promise<void>(resolve => {
+      const done = () => {
+        res.off('drain', done);
+        res.off('close', done);
+        resolve();
+      };
+      res.on('drain', done);
+      res.on('close', done);
+    });
+  }
+}
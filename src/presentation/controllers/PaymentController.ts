@@ -0,0 +1,188 @@
+import { Request, Response } from 'express';
+import { PaymentService } from '@/business/services/PaymentService';
+import { OrderService } from '@/business/services/OrderService';
+import { Logger } from '@/shared/utils/Logger';
+
+export class PaymentController {
+  private logger = new Logger('PaymentController');
+
+  constructor(
+    private paymentService: PaymentService,
+    private orderService: OrderService
+  ) {}
+
+  // POST /api/v1/orders/:id/payment/intent
+  createPaymentIntent = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId && !req.guest) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Order ID is required',
+        });
+        return;
+      }
+
+      // Get order to check ownership
+      const existingOrder = await this.orderService.getOrderById(id);
+      if (!existingOrder) {
+        res.status(404).json({
+          error: 'Order not found',
+          message: 'Order does not exist',
+        });
+        return;
+      }
+
+      const isGuestOwner = !userId && !!req.guest && existingOrder.guestId === req.guest.id;
+      if (!isGuestOwner && existingOrder.userId !== userId && userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: 'You can only pay for your own orders',
+        });
+        return;
+      }
+
+      const intent = await this.paymentService.createPaymentIntent(id);
+
+      res.status(201).json({
+        data: intent,
+        message: 'Payment intent created successfully',
+      });
+
+      this.logger.info(`Payment intent created: ${intent.id} for order: ${existingOrder.orderNumber}`);
+    } catch (error) {
+      this.logger.error('Error creating payment intent:', error);
+      this.handlePaymentError(error, res, 'Failed to create payment intent');
+    }
+  };
+
+  // POST /api/v1/orders/:id/payment/capture
+  capturePayment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const order = await this.paymentService.capturePayment(id, req.user?.id);
+
+      res.json({
+        data: order,
+        message: 'Payment capture processed',
+      });
+
+      this.logger.info(`Payment capture processed: ${order.orderNumber} -> ${order.paymentStatus}`);
+    } catch (error) {
+      this.logger.error('Error capturing payment:', error);
+      this.handlePaymentError(error, res, 'Failed to capture payment');
+    }
+  };
+
+  // POST /api/v1/orders/:id/payment/void
+  voidPayment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const order = await this.paymentService.voidPayment(id, req.user?.id);
+
+      res.json({
+        data: order,
+        message: 'Payment voided successfully',
+      });
+
+      this.logger.info(`Payment voided: ${order.orderNumber}`);
+    } catch (error) {
+      this.logger.error('Error voiding payment:', error);
+      this.handlePaymentError(error, res, 'Failed to void payment');
+    }
+  };
+
+  // POST /api/v1/orders/:id/payment/refund
+  refundPayment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { reason } = req.body;
+      const order = await this.paymentService.refundPayment(id, req.user?.id, reason);
+
+      res.json({
+        data: order,
+        message: 'Payment refunded successfully',
+      });
+
+      this.logger.info(`Payment refunded: ${order.orderNumber}`);
+    } catch (error) {
+      this.logger.error('Error refunding payment:', error);
+      this.handlePaymentError(error, res, 'Failed to refund payment');
+    }
+  };
+
+  // POST /api/v1/payments/webhook
+  handleWebhook = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const signature = req.get('X-Payment-Signature');
+      const payload = req.rawBody?.toString('utf8');
+
+      if (!signature || !payload) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Webhook payload and X-Payment-Signature header are required',
+        });
+        return;
+      }
+
+      const result = await this.paymentService.handleWebhook(payload, signature);
+
+      res.json({
+        data: result,
+        message: result.processed ? 'Webhook processed' : 'Webhook already processed',
+      });
+    } catch (error) {
+      this.logger.error('Error handling payment webhook:', error);
+
+      if (error instanceof Error && error.message.includes('Invalid webhook signature')) {
+        res.status(401).json({
+          error: 'Invalid signature',
+          message: error.message,
+        });
+        return;
+      }
+
+      this.handlePaymentError(error, res, 'Failed to process webhook');
+    }
+  };
+
+  private handlePaymentError(error: unknown, res: Response, fallbackMessage: string): void {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Order not found',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('cannot be') ||
+          error.message.includes('Cannot') ||
+          error.message.includes('already') ||
+          error.message.includes('no payment intent') ||
+          error.message.includes('Invalid')) {
+        res.status(400).json({
+          error: 'Business logic error',
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
@@ -76,6 +76,7 @@ export class ProductController {
 
       res.json({
         data: product,
+        variantMatrix: product.getVariantMatrix(),
       });
 
       this.logger.info(`Retrieved product: ${product.name} (ID: ${id})`);
@@ -303,6 +304,7 @@ export class ProductController {
       const { categoryId } = req.params;
       const page = parseInt(req.query.page as string) || 1;
       const limit = parseInt(req.query.limit as string) || 10;
+      const includeDescendants = String(req.query.includeDescendants) === 'true';
 
       if (!categoryId) {
         res.status(400).json({
@@ -312,11 +314,12 @@ export class ProductController {
         return;
       }
 
-      const products = await this.productService.getProductsByCategory(categoryId, page, limit);
+      const products = await this.productService.getProductsByCategory(categoryId, page, limit, includeDescendants);
 
       res.json({
         data: products,
         categoryId,
+        includeDescendants,
         pagination: {
           page,
           limit,
@@ -327,6 +330,15 @@ export class ProductController {
       this.logger.info(`Retrieved ${products.length} products for category ${categoryId}`);
     } catch (error) {
       this.logger.error('Error getting products by category:', error);
+
+      if (error instanceof Error && error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Category not found',
+          message: error.message,
+        });
+        return;
+      }
+
       res.status(500).json({
         error: 'Internal server error',
         message: 'Failed to retrieve products',
@@ -528,4 +540,163 @@ export class ProductController {
       });
     }
   };
-}
\ No newline at end of file
+
+  // POST /api/v1/products/:id/variants
+  addVariant = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const variant = await this.productService.addVariant(id!, req.body);
+
+      res.status(201).json({
+        data: variant,
+        message: 'Variant created successfully',
+      });
+
+      this.logger.info(`Variant created: ${variant.sku} for product ${id}`);
+    } catch (error) {
+      this.logger.error('Error creating variant:', error);
+      this.handleSubresourceError(error, res, 'Failed to create variant');
+    }
+  };
+
+  // PUT /api/v1/products/:id/variants/:variantId
+  updateVariant = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, variantId } = req.params;
+      const variant = await this.productService.updateVariant(id!, variantId!, req.body);
+
+      res.json({
+        data: variant,
+        message: 'Variant updated successfully',
+      });
+
+      this.logger.info(`Variant updated: ${variant.sku} (ID: ${variantId})`);
+    } catch (error) {
+      this.logger.error('Error updating variant:', error);
+      this.handleSubresourceError(error, res, 'Failed to update variant');
+    }
+  };
+
+  // DELETE /api/v1/products/:id/variants/:variantId
+  deleteVariant = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, variantId } = req.params;
+      await this.productService.deleteVariant(id!, variantId!);
+
+      res.json({
+        message: 'Variant deleted successfully',
+      });
+
+      this.logger.info(`Variant deleted: ${variantId}`);
+    } catch (error) {
+      this.logger.error('Error deleting variant:', error);
+      this.handleSubresourceError(error, res, 'Failed to delete variant');
+    }
+  };
+
+  // POST /api/v1/products/:id/images
+  addImage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const file = req.file!;
+      const image = await this.productService.addImage(
+        id!,
+        { content: file.buffer, originalName: file.originalname },
+        req.body.altText
+      );
+
+      res.status(201).json({
+        data: image,
+        message: 'Image uploaded successfully',
+      });
+
+      this.logger.info(`Image uploaded: ${image.id} for product ${id}`);
+    } catch (error) {
+      this.logger.error('Error uploading image:', error);
+      this.handleSubresourceError(error, res, 'Failed to upload image');
+    }
+  };
+
+  // PATCH /api/v1/products/:id/images/:imageId
+  updateImage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, imageId } = req.params;
+      const image = await this.productService.updateImage(id!, imageId!, req.body);
+
+      res.json({
+        data: image,
+        message: 'Image updated successfully',
+      });
+    } catch (error) {
+      this.logger.error('Error updating image:', error);
+      this.handleSubresourceError(error, res, 'Failed to update image');
+    }
+  };
+
+  // PUT /api/v1/products/:id/images/order
+  reorderImages = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const images = await this.productService.reorderImages(id!, req.body.imageIds);
+
+      res.json({
+        data: images,
+        message: 'Images reordered successfully',
+      });
+    } catch (error) {
+      this.logger.error('Error reordering images:', error);
+      this.handleSubresourceError(error, res, 'Failed to reorder images');
+    }
+  };
+
+  // DELETE /api/v1/products/:id/images/:imageId
+  deleteImage = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, imageId } = req.params;
+      await this.productService.deleteImage(id!, imageId!);
+
+      res.json({
+        message: 'Image deleted successfully',
+      });
+
+      this.logger.info(`Image deleted: ${imageId}`);
+    } catch (error) {
+      this.logger.error('Error deleting image:', error);
+      this.handleSubresourceError(error, res, 'Failed to delete image');
+    }
+  };
+
+  // Errors of the variant and image endpoints
+  private handleSubresourceError(error: unknown, res: Response, fallbackMessage: string): void {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('already exists')) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
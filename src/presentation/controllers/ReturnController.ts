@@ -0,0 +1,298 @@
+import { Request, Response } from 'express';
+import { ReturnService } from '@/business/services/ReturnService';
+import { OrderService } from '@/business/services/OrderService';
+import { ReturnStatus } from '@/business/domain/ReturnRequest';
+import { Money } from '@/business/domain/Money';
+import { Logger } from '@/shared/utils/Logger';
+
+export class ReturnController {
+  private logger = new Logger('ReturnController');
+
+  constructor(
+    private returnService: ReturnService,
+    private orderService: OrderService
+  ) {}
+
+  // POST /api/v1/orders/:id/returns
+  createReturn = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Order ID is required',
+        });
+        return;
+      }
+
+      const order = await this.orderService.getOrderById(id);
+      if (!order) {
+        res.status(404).json({
+          error: 'Order not found',
+          message: `Order with ID ${id} does not exist`,
+        });
+        return;
+      }
+
+      if (order.userId !== userId && userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: 'You can only return items from your own orders',
+        });
+        return;
+      }
+
+      const returnRequest = await this.returnService.createReturn(order, req.body);
+
+      res.status(201).json({
+        data: returnRequest,
+        message: 'Return requested successfully',
+      });
+
+      this.logger.info(`Return requested: ${returnRequest.id} for order: ${order.orderNumber}`);
+    } catch (error) {
+      this.logger.error('Error creating return:', error);
+      this.handleReturnError(error, res, 'Failed to create return');
+    }
+  };
+
+  // GET /api/v1/orders/:id/returns
+  getOrderReturns = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Order ID is required',
+        });
+        return;
+      }
+
+      const order = await this.orderService.getOrderById(id);
+      if (!order) {
+        res.status(404).json({
+          error: 'Order not found',
+          message: `Order with ID ${id} does not exist`,
+        });
+        return;
+      }
+
+      if (order.userId !== userId && userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: 'You can only access your own orders',
+        });
+        return;
+      }
+
+      const returns = await this.returnService.getReturnsByOrder(id);
+
+      res.json({
+        data: returns,
+        refundedTotal: order.refundedTotal,
+      });
+    } catch (error) {
+      this.logger.error('Error getting order returns:', error);
+      this.handleReturnError(error, res, 'Failed to retrieve returns');
+    }
+  };
+
+  // GET /api/v1/returns
+  getAllReturns = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const status = req.query.status as ReturnStatus | undefined;
+
+      const { returns, total } = await this.returnService.getAllReturns(page, limit, status);
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        data: returns,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+
+      this.logger.info(`Retrieved ${returns.length} returns for page ${page}`);
+    } catch (error) {
+      this.logger.error('Error getting returns:', error);
+      this.handleReturnError(error, res, 'Failed to retrieve returns');
+    }
+  };
+
+  // GET /api/v1/returns/:id
+  getReturnById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Return ID is required',
+        });
+        return;
+      }
+
+      const returnRequest = await this.returnService.getReturnById(id);
+
+      if (!returnRequest) {
+        res.status(404).json({
+          error: 'Return not found',
+          message: `Return with ID ${id} does not exist`,
+        });
+        return;
+      }
+
+      if (returnRequest.userId !== userId && userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: 'You can only access your own returns',
+        });
+        return;
+      }
+
+      res.json({
+        data: returnRequest,
+      });
+    } catch (error) {
+      this.logger.error('Error getting return by ID:', error);
+      this.handleReturnError(error, res, 'Failed to retrieve return');
+    }
+  };
+
+  // POST /api/v1/returns/:id/approve
+  approveReturn = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const returnRequest = await this.returnService.approveReturn(id, req.user!.id, req.body.note);
+
+      res.json({
+        data: returnRequest,
+        message: 'Return approved successfully',
+      });
+    } catch (error) {
+      this.logger.error('Error approving return:', error);
+      this.handleReturnError(error, res, 'Failed to approve return');
+    }
+  };
+
+  // POST /api/v1/returns/:id/reject
+  rejectReturn = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const returnRequest = await this.returnService.rejectReturn(id, req.user!.id, req.body.note);
+
+      res.json({
+        data: returnRequest,
+        message: 'Return rejected',
+      });
+    } catch (error) {
+      this.logger.error('Error rejecting return:', error);
+      this.handleReturnError(error, res, 'Failed to reject return');
+    }
+  };
+
+  // POST /api/v1/returns/:id/receive
+  receiveReturn = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const returnRequest = await this.returnService.receiveReturn(id, req.body.restock);
+
+      res.json({
+        data: returnRequest,
+        message: returnRequest.restocked ? 'Return received and restocked' : 'Return received',
+      });
+    } catch (error) {
+      this.logger.error('Error receiving return:', error);
+      this.handleReturnError(error, res, 'Failed to receive return');
+    }
+  };
+
+  // POST /api/v1/returns/:id/refund
+  refundReturn = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const amount = req.body.amount !== undefined ? Money.fromDecimal(req.body.amount) : undefined;
+
+      const returnRequest = await this.returnService.refundReturn(id, req.user!.id, amount);
+
+      res.json({
+        data: returnRequest,
+        message: 'Return refunded successfully',
+      });
+    } catch (error) {
+      this.logger.error('Error refunding return:', error);
+      this.handleReturnError(error, res, 'Failed to refund return');
+    }
+  };
+
+  private handleReturnError(error: unknown, res: Response, fallbackMessage: string): void {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('already been received') ||
+          error.message.includes('already being refunded')) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('Validation failed') ||
+          error.message.includes('Cannot return') ||
+          error.message.includes('does not belong') ||
+          error.message.includes('more than once') ||
+          error.message.includes('cannot be') ||
+          error.message.includes('Only') ||
+          error.message.includes('Refund amount')) {
+        res.status(400).json({
+          error: 'Business logic error',
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
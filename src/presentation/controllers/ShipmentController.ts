@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import { ShipmentService } from '@/business/services/ShipmentService';
+import { OrderService } from '@/business/services/OrderService';
+import { Logger } from '@/shared/utils/Logger';
+
+export class ShipmentController {
+  private logger = new Logger('ShipmentController');
+
+  constructor(
+    private shipmentService: ShipmentService,
+    private orderService: OrderService
+  ) {}
+
+  // POST /api/v1/orders/:id/shipments
+  createShipment = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Order ID is required',
+        });
+        return;
+      }
+
+      const order = await this.orderService.getOrderById(id);
+      if (!order) {
+        res.status(404).json({
+          error: 'Order not found',
+          message: `Order with ID ${id} does not exist`,
+        });
+        return;
+      }
+
+      const shipment = await this.shipmentService.createShipment(order, req.body, req.user!.id);
+      const updatedOrder = await this.orderService.getOrderById(id);
+
+      res.status(201).json({
+        data: shipment,
+        orderStatus: updatedOrder?.status,
+        message: 'Shipment created successfully',
+      });
+
+      this.logger.info(`Shipment created: ${shipment.id} for order: ${order.orderNumber}`);
+    } catch (error) {
+      this.logger.error('Error creating shipment:', error);
+      this.handleShipmentError(error, res, 'Failed to create shipment');
+    }
+  };
+
+  // GET /api/v1/orders/:id/shipments
+  getOrderShipments = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.id;
+      const userRole = req.user?.role;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Order ID is required',
+        });
+        return;
+      }
+
+      const order = await this.orderService.getOrderById(id);
+      if (!order) {
+        res.status(404).json({
+          error: 'Order not found',
+          message: `Order with ID ${id} does not exist`,
+        });
+        return;
+      }
+
+      if (order.userId !== userId && userRole !== 'ADMIN' && userRole !== 'MODERATOR') {
+        res.status(403).json({
+          error: 'Access denied',
+          message: 'You can only access your own orders',
+        });
+        return;
+      }
+
+      const shipments = await this.shipmentService.getShipmentsByOrder(id);
+      const { shipped, delivered } = this.shipmentService.getCoverage(shipments);
+
+      res.json({
+        data: shipments,
+        orderStatus: order.status,
+        coverage: order.items.map(item => ({
+          orderItemId: item.id,
+          productName: item.productName,
+          quantity: item.quantity,
+          shipped: shipped[item.id] || 0,
+          delivered: delivered[item.id] || 0,
+        })),
+      });
+    } catch (error) {
+      this.logger.error('Error getting order shipments:', error);
+      this.handleShipmentError(error, res, 'Failed to retrieve shipments');
+    }
+  };
+
+  // POST /api/v1/orders/:id/shipments/:shipmentId/deliver
+  markDelivered = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id, shipmentId } = req.params;
+
+      if (!id || !shipmentId) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Order ID and shipment ID are required',
+        });
+        return;
+      }
+
+      const shipment = await this.shipmentService.markDelivered(id, shipmentId, req.user!.id);
+      const updatedOrder = await this.orderService.getOrderById(id);
+
+      res.json({
+        data: shipment,
+        orderStatus: updatedOrder?.status,
+        message: 'Shipment marked as delivered',
+      });
+    } catch (error) {
+      this.logger.error('Error marking shipment as delivered:', error);
+      this.handleShipmentError(error, res, 'Failed to mark shipment as delivered');
+    }
+  };
+
+  private handleShipmentError(error: unknown, res: Response, fallbackMessage: string): void {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('already exists') ||
+          error.message.includes('already been delivered')) {
+        res.status(409).json({
+          error: 'Conflict',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('Validation failed') ||
+          error.message.includes('Cannot ship') ||
+          error.message.includes('does not belong') ||
+          error.message.includes('more than once') ||
+          error.message.includes('already been shipped') ||
+          error.message.includes('Only')) {
+        res.status(400).json({
+          error: 'Business logic error',
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
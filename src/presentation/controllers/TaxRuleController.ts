@@ -0,0 +1,170 @@
+import { Request, Response } from 'express';
+import { TaxService } from '@/business/services/TaxService';
+import { Logger } from '@/shared/utils/Logger';
+
+export class TaxRuleController {
+  private logger = new Logger('TaxRuleController');
+
+  constructor(private taxService: TaxService) {}
+
+  // GET /api/v1/tax-rules
+  getAllTaxRules = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const { rules, total } = await this.taxService.getAllTaxRules(page, limit);
+      const totalPages = Math.ceil(total / limit);
+
+      res.json({
+        data: rules,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+
+      this.logger.info(`Retrieved ${rules.length} tax rules for page ${page}`);
+    } catch (error) {
+      this.logger.error('Error getting tax rules:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve tax rules',
+      });
+    }
+  };
+
+  // GET /api/v1/tax-rules/:id
+  getTaxRuleById = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Tax rule ID is required',
+        });
+        return;
+      }
+
+      const rule = await this.taxService.getTaxRuleById(id);
+
+      if (!rule) {
+        res.status(404).json({
+          error: 'Tax rule not found',
+          message: `Tax rule with ID ${id} does not exist`,
+        });
+        return;
+      }
+
+      res.json({
+        data: rule,
+      });
+    } catch (error) {
+      this.logger.error('Error getting tax rule by ID:', error);
+      res.status(500).json({
+        error: 'Internal server error',
+        message: 'Failed to retrieve tax rule',
+      });
+    }
+  };
+
+  // POST /api/v1/tax-rules
+  createTaxRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const rule = await this.taxService.createTaxRule(req.body);
+
+      res.status(201).json({
+        data: rule,
+        message: 'Tax rule created successfully',
+      });
+
+      this.logger.info(`Tax rule created: ${rule.name} (ID: ${rule.id})`);
+    } catch (error) {
+      this.logger.error('Error creating tax rule:', error);
+      this.handleTaxRuleError(error, res, 'Failed to create tax rule');
+    }
+  };
+
+  // PUT /api/v1/tax-rules/:id
+  updateTaxRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Tax rule ID is required',
+        });
+        return;
+      }
+
+      const rule = await this.taxService.updateTaxRule(id, req.body);
+
+      res.json({
+        data: rule,
+        message: 'Tax rule updated successfully',
+      });
+
+      this.logger.info(`Tax rule updated: ${rule.name} (ID: ${id})`);
+    } catch (error) {
+      this.logger.error('Error updating tax rule:', error);
+      this.handleTaxRuleError(error, res, 'Failed to update tax rule');
+    }
+  };
+
+  // DELETE /api/v1/tax-rules/:id
+  deleteTaxRule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!id) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Tax rule ID is required',
+        });
+        return;
+      }
+
+      await this.taxService.deleteTaxRule(id);
+
+      res.json({
+        message: 'Tax rule deleted successfully',
+      });
+
+      this.logger.info(`Tax rule deleted: ${id}`);
+    } catch (error) {
+      this.logger.error('Error deleting tax rule:', error);
+      this.handleTaxRuleError(error, res, 'Failed to delete tax rule');
+    }
+  };
+
+  private handleTaxRuleError(error: unknown, res: Response, fallbackMessage: string): void {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Tax rule not found',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('Validation failed')) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
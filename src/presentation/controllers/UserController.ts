@@ -1,12 +1,16 @@
 import { Request, Response } from 'express';
 import { UserService } from '@/business/services/UserService';
+import { CartService } from '@/business/services/CartService';
 import { Logger } from '@/shared/utils/Logger';
 import { CreateUserDTO, UpdateUserDTO } from '@/presentation/dtos/CreateUserDTO';
 
 export class UserController {
   private logger = new Logger('UserController');
 
-  constructor(private userService: UserService) {}
+  constructor(
+    private userService: UserService,
+    private cartService: CartService
+  ) {}
 
   // GET /api/v1/users
   getAllUsers = async (req: Request, res: Response): Promise<void> => {
@@ -93,6 +97,15 @@ export class UserController {
 
       const user = await this.userService.createUser(createUserDTO);
 
+      // Carry over whatever the visitor put in their cart before registering
+      if (req.guest) {
+        try {
+          await this.cartService.adoptGuestCart(user.id, req.guest.id);
+        } catch (error) {
+          this.logger.warn(`Could not merge guest cart ${req.guest.id} into user: ${user.id}`, error);
+        }
+      }
+
       res.status(201).json({
         data: user.toSafeObject(),
         message: 'User created successfully',
@@ -0,0 +1,190 @@
+import { Request, Response } from 'express';
+import { WishlistService } from '@/business/services/WishlistService';
+import { Logger } from '@/shared/utils/Logger';
+
+export class WishlistController {
+  private logger = new Logger('WishlistController');
+
+  constructor(private wishlistService: WishlistService) {}
+
+  // GET /api/v1/wishlist
+  getWishlist = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const entries = await this.wishlistService.getWishlist(userId);
+
+      res.json({
+        data: entries,
+        message: 'Wishlist retrieved successfully',
+      });
+    } catch (error) {
+      this.logger.error('Error getting wishlist:', error);
+      this.handleWishlistError(error, res, 'Failed to retrieve wishlist');
+    }
+  };
+
+  // POST /api/v1/wishlist
+  addToWishlist = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      const { productId, variantId } = req.body;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      const item = await this.wishlistService.addToWishlist(userId, productId, variantId ?? null);
+
+      res.status(201).json({
+        data: item,
+        message: 'Product saved to wishlist',
+      });
+
+      this.logger.info(`Product ${productId} saved to wishlist for user: ${userId}`);
+    } catch (error) {
+      this.logger.error('Error adding to wishlist:', error);
+      this.handleWishlistError(error, res, 'Failed to add product to wishlist');
+    }
+  };
+
+  // DELETE /api/v1/wishlist/:productId
+  removeFromWishlist = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      const { productId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      if (!productId) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Product ID is required',
+        });
+        return;
+      }
+
+      await this.wishlistService.removeFromWishlist(userId, productId);
+
+      res.json({
+        message: 'Product removed from wishlist',
+      });
+    } catch (error) {
+      this.logger.error('Error removing from wishlist:', error);
+      this.handleWishlistError(error, res, 'Failed to remove product from wishlist');
+    }
+  };
+
+  // POST /api/v1/wishlist/:productId/move-to-cart
+  moveToCart = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      const { productId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      if (!productId) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Product ID is required',
+        });
+        return;
+      }
+
+      const cart = await this.wishlistService.moveToCart(userId, productId, req.body.quantity ?? 1, req.body.variantId ?? null);
+
+      res.json({
+        data: cart,
+        message: 'Product moved to cart',
+      });
+    } catch (error) {
+      this.logger.error('Error moving wishlist item to cart:', error);
+      this.handleWishlistError(error, res, 'Failed to move product to cart');
+    }
+  };
+
+  // POST /api/v1/wishlist/from-cart/:productId
+  moveFromCart = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const userId = req.user?.id;
+      const { productId } = req.params;
+
+      if (!userId) {
+        res.status(401).json({
+          error: 'Authentication required',
+          message: 'User not authenticated',
+        });
+        return;
+      }
+
+      if (!productId) {
+        res.status(400).json({
+          error: 'Validation error',
+          message: 'Product ID is required',
+        });
+        return;
+      }
+
+      const item = await this.wishlistService.moveFromCart(userId, productId, req.body?.variantId ?? null);
+
+      res.json({
+        data: item,
+        message: 'Product saved for later',
+      });
+    } catch (error) {
+      this.logger.error('Error moving cart item to wishlist:', error);
+      this.handleWishlistError(error, res, 'Failed to save product for later');
+    }
+  };
+
+  private handleWishlistError(error: unknown, res: Response, fallbackMessage: string): void {
+    if (error instanceof Error) {
+      if (error.message.includes('not found')) {
+        res.status(404).json({
+          error: 'Not found',
+          message: error.message,
+        });
+        return;
+      }
+
+      if (error.message.includes('Validation failed') ||
+          error.message.includes('not available') ||
+          error.message.includes('stock')) {
+        res.status(400).json({
+          error: 'Business logic error',
+          message: error.message,
+        });
+        return;
+      }
+    }
+
+    res.status(500).json({
+      error: 'Internal server error',
+      message: fallbackMessage,
+    });
+  }
+}
@@ -0,0 +1,18 @@
+import { z } from 'zod';
+
+// Abandoned Cart Report Query DTO (defaults to the last 30 days)
+export const AbandonedCartReportQueryDTO = z.object({
+  startDate: z.coerce
+    .date({ invalid_type_error: 'Invalid start date format' })
+    .optional(),
+
+  endDate: z.coerce
+    .date({ invalid_type_error: 'Invalid end date format' })
+    .optional(),
+}).refine(
+  query => !query.startDate || !query.endDate || query.startDate <= query.endDate,
+  { message: 'Start date must be before end date', path: ['startDate'] }
+);
+
+// Export types
+export type AbandonedCartReportQueryDTO = z.infer<typeof AbandonedCartReportQueryDTO>;
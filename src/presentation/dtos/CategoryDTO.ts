@@ -0,0 +1,60 @@
+import { z } from 'zod';
+
+// Base category validation schema
+const CategoryBaseSchema = {
+  name: z
+    .string()
+    .min(1, 'Category name is required')
+    .max(100, 'Category name must not exceed 100 characters'),
+
+  slug: z
+    .string()
+    .min(1, 'Slug cannot be empty')
+    .max(100, 'Slug must not exceed 100 characters')
+    .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must contain only lowercase letters, numbers and single hyphens'),
+
+  description: z
+    .string()
+    .max(1000, 'Description must not exceed 1000 characters'),
+
+  parentId: z.string().min(1, 'Parent category ID cannot be empty').nullable(),
+
+  sortOrder: z
+    .number()
+    .int('Sort order must be an integer')
+    .min(0, 'Sort order cannot be negative'),
+
+  isActive: z.boolean(),
+};
+
+// Create Category DTO (the slug is derived from the name when omitted)
+export const CreateCategoryDTO = z.object({
+  name: CategoryBaseSchema.name,
+  slug: CategoryBaseSchema.slug.optional(),
+  description: CategoryBaseSchema.description.optional().default(''),
+  parentId: CategoryBaseSchema.parentId.optional().default(null),
+  sortOrder: CategoryBaseSchema.sortOrder.optional().default(0),
+  isActive: CategoryBaseSchema.isActive.optional().default(true),
+});
+
+// Update Category DTO (parentId null moves the category to the top level)
+export const UpdateCategoryDTO = z.object({
+  name: CategoryBaseSchema.name.optional(),
+  slug: CategoryBaseSchema.slug.optional(),
+  description: CategoryBaseSchema.description.optional(),
+  parentId: CategoryBaseSchema.parentId.optional(),
+  sortOrder: CategoryBaseSchema.sortOrder.optional(),
+  isActive: CategoryBaseSchema.isActive.optional(),
+});
+
+// Category ID Parameter DTO
+export const CategoryIdDTO = z.object({
+  id: z
+    .string()
+    .min(1, 'Category ID is required'),
+});
+
+// Export types
+export type CreateCategoryDTO = z.infer<typeof CreateCategoryDTO>;
+export type UpdateCategoryDTO = z.infer<typeof UpdateCategoryDTO>;
+export type CategoryIdDTO = z.infer<typeof CategoryIdDTO>;
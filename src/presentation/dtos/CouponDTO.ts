@@ -0,0 +1,97 @@
+import { z } from 'zod';
+import { CouponType } from '@/business/domain/Coupon';
+
+// Base coupon validation schema
+const CouponBaseSchema = {
+  code: z
+    .string()
+    .min(3, 'Coupon code must have at least 3 characters')
+    .max(32, 'Coupon code must not exceed 32 characters')
+    .regex(/^[A-Za-z0-9_-]+$/, 'Coupon code must contain only letters, numbers, "-" and "_"'),
+
+  description: z
+    .string()
+    .max(255, 'Description must not exceed 255 characters'),
+
+  type: z.nativeEnum(CouponType),
+
+  value: z
+    .number()
+    .min(0, 'Value cannot be negative'),
+
+  buyQuantity: z.number().int().min(1, 'Buy quantity must be at least 1').nullable(),
+  getQuantity: z.number().int().min(1, 'Get quantity must be at least 1').nullable(),
+  categoryId: z.string().min(1, 'Category ID cannot be empty').nullable(),
+  minSubtotal: z.number().min(0, 'Minimum subtotal cannot be negative').nullable(),
+  maxUses: z.number().int().min(1, 'Max uses must be at least 1').nullable(),
+  maxUsesPerUser: z.number().int().min(1, 'Max uses per user must be at least 1').nullable(),
+  startsAt: z.coerce.date().nullable(),
+  endsAt: z.coerce.date().nullable(),
+  isActive: z.boolean(),
+};
+
+// Create Coupon DTO
+export const CreateCouponDTO = z.object({
+  code: CouponBaseSchema.code,
+  description: CouponBaseSchema.description.optional().default(''),
+  type: CouponBaseSchema.type,
+  value: CouponBaseSchema.value.optional().default(0),
+  buyQuantity: CouponBaseSchema.buyQuantity.optional().default(null),
+  getQuantity: CouponBaseSchema.getQuantity.optional().default(null),
+  categoryId: CouponBaseSchema.categoryId.optional().default(null),
+  minSubtotal: CouponBaseSchema.minSubtotal.optional().default(null),
+  maxUses: CouponBaseSchema.maxUses.optional().default(null),
+  maxUsesPerUser: CouponBaseSchema.maxUsesPerUser.optional().default(null),
+  startsAt: CouponBaseSchema.startsAt.optional().default(null),
+  endsAt: CouponBaseSchema.endsAt.optional().default(null),
+  isActive: CouponBaseSchema.isActive.optional().default(true),
+});
+
+// Update Coupon DTO (the code itself cannot be changed)
+export const UpdateCouponDTO = z.object({
+  description: CouponBaseSchema.description.optional(),
+  type: CouponBaseSchema.type.optional(),
+  value: CouponBaseSchema.value.optional(),
+  buyQuantity: CouponBaseSchema.buyQuantity.optional(),
+  getQuantity: CouponBaseSchema.getQuantity.optional(),
+  categoryId: CouponBaseSchema.categoryId.optional(),
+  minSubtotal: CouponBaseSchema.minSubtotal.optional(),
+  maxUses: CouponBaseSchema.maxUses.optional(),
+  maxUsesPerUser: CouponBaseSchema.maxUsesPerUser.optional(),
+  startsAt: CouponBaseSchema.startsAt.optional(),
+  endsAt: CouponBaseSchema.endsAt.optional(),
+  isActive: CouponBaseSchema.isActive.optional(),
+});
+
+// Apply Coupon DTO (customer cart)
+export const ApplyCouponDTO = z.object({
+  code: CouponBaseSchema.code,
+});
+
+// Coupon Query DTO (pagination)
+export const CouponQueryDTO = z.object({
+  page: z.coerce
+    .number()
+    .int('Page must be an integer')
+    .min(1, 'Page must be at least 1')
+    .optional(),
+
+  limit: z.coerce
+    .number()
+    .int('Limit must be an integer')
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .optional(),
+});
+
+// Coupon ID Parameter DTO
+export const CouponIdDTO = z.object({
+  id: z
+    .string()
+    .min(1, 'Coupon ID is required'),
+});
+
+// Export types
+export type CreateCouponDTO = z.infer<typeof CreateCouponDTO>;
+export type UpdateCouponDTO = z.infer<typeof UpdateCouponDTO>;
+export type ApplyCouponDTO = z.infer<typeof ApplyCouponDTO>;
@@ -25,8 +25,20 @@ const ProductBaseSchema = {
   
   categoryId: z
     .string()
-    .min(1, 'Category ID is required')
-    .uuid('Category ID must be a valid UUID'),
+    .min(1, 'Category ID is required'),
+
+  weight: z
+    .number()
+    .min(0, 'Weight cannot be negative')
+    .max(1000, 'Weight must not exceed 1000 kg'),
+
+  // Option axes variants are defined by, e.g. [{ name: 'size', values: ['P', 'M', 'G'] }]
+  options: z
+    .array(z.object({
+      name: z.string().min(1, 'Option name is required').max(50, 'Option name must not exceed 50 characters'),
+      values: z.array(z.string().min(1, 'Option value cannot be empty').max(50)).min(1, 'Option must have at least one value'),
+    }))
+    .max(3, 'A product can have at most 3 options'),
 };
 
 // Create Product DTO
@@ -38,6 +50,10 @@ export const CreateProductDTO = z.object({
     .int('Stock must be an integer')
     .min(0, 'Stock cannot be negative'),
   
+  weight: ProductBaseSchema.weight.optional().default(0),
+
+  options: ProductBaseSchema.options.optional().default([]),
+
   isActive: z
     .boolean()
     .optional()
@@ -51,6 +67,8 @@ export const UpdateProductDTO = z.object({
   price: ProductBaseSchema.price.optional(),
   sku: ProductBaseSchema.sku.optional(),
   categoryId: ProductBaseSchema.categoryId.optional(),
+  weight: ProductBaseSchema.weight.optional(),
+  options: ProductBaseSchema.options.optional(),
   
   stock: z
     .number()
@@ -181,7 +199,90 @@ export const ProductSkuDTO = z.object({
 export const CategoryIdDTO = z.object({
   categoryId: z
     .string()
-    .uuid('Category ID must be a valid UUID'),
+    .min(1, 'Category ID is required'),
+});
+
+// Products by Category Query DTO (pagination, optionally spanning subcategories)
+export const CategoryProductsQueryDTO = ProductQueryDTO.extend({
+  includeDescendants: z
+    .string()
+    .regex(/^(true|false)$/, 'includeDescendants must be true or false')
+    .transform((val) => val === 'true')
+    .optional(),
+});
+
+// Create Variant DTO (price overrides the product price when set)
+export const CreateVariantDTO = z.object({
+  sku: ProductBaseSchema.sku,
+
+  options: z.record(z.string().min(1, 'Option value cannot be empty')),
+
+  price: ProductBaseSchema.price.nullable().optional(),
+
+  stock: z
+    .number()
+    .int('Stock must be an integer')
+    .min(0, 'Stock cannot be negative'),
+
+  isActive: z.boolean().optional().default(true),
+});
+
+// Update Variant DTO
+export const UpdateVariantDTO = z.object({
+  sku: ProductBaseSchema.sku.optional(),
+  options: CreateVariantDTO.shape.options.optional(),
+  price: ProductBaseSchema.price.nullable().optional(),
+
+  stock: z
+    .number()
+    .int('Stock must be an integer')
+    .min(0, 'Stock cannot be negative')
+    .optional(),
+
+  isActive: z.boolean().optional(),
+});
+
+// Variant Parameters DTO
+export const VariantParamsDTO = z.object({
+  id: z
+    .string()
+    .min(1, 'Product ID is required'),
+  variantId: z
+    .string()
+    .min(1, 'Variant ID is required'),
+});
+
+// Product Image Upload DTO (text fields of the multipart request; the file itself is checked by validateFile)
+export const UploadProductImageDTO = z.object({
+  altText: z
+    .string()
+    .max(255, 'Alt text must not exceed 255 characters')
+    .optional()
+    .default(''),
+});
+
+// Update Product Image DTO
+export const UpdateProductImageDTO = z.object({
+  altText: z
+    .string()
+    .max(255, 'Alt text must not exceed 255 characters'),
+});
+
+// Reorder Product Images DTO (every image id, main image first)
+export const ReorderProductImagesDTO = z.object({
+  imageIds: z
+    .array(z.string().min(1, 'Image ID cannot be empty'))
+    .min(1, 'At least one image ID is required'),
+});
+
+// Image Parameters DTO
+export const ImageParamsDTO = z.object({
+  id: z
+    .string()
+    .min(1, 'Product ID is required'),
+  imageId: z
+    .string()
+    .min(1, 'Image ID is required'),
 });
 
 // Low Stock Query DTO
@@ -205,4 +306,12 @@ export type UpdateStockDTO = z.infer<typeof UpdateStockDTO>;
 export type ProductIdDTO = z.infer<typeof ProductIdDTO>;
 export type ProductSkuDTO = z.infer<typeof ProductSkuDTO>;
 export type CategoryIdDTO = z.infer<typeof CategoryIdDTO>;
-export type LowStockQueryDTO = z.infer<typeof LowStockQueryDTO>;
\ No newline at end of file
+export type CategoryProductsQueryDTO = z.infer<typeof CategoryProductsQueryDTO>;
+export type LowStockQueryDTO = z.infer<typeof LowStockQueryDTO>;
+export type CreateVariantDTO = z.infer<typeof CreateVariantDTO>;
+export type UpdateVariantDTO = z.infer<typeof UpdateVariantDTO>;
+export type VariantParamsDTO = z.infer<typeof VariantParamsDTO>;
+export type UploadProductImageDTO = z.infer<typeof UploadProductImageDTO>;
+export type UpdateProductImageDTO = z.infer<typeof UpdateProductImageDTO>;
+export type ReorderProductImagesDTO = z.infer<typeof ReorderProductImagesDTO>;
+export type ImageParamsDTO = z.infer<typeof ImageParamsDTO>;
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { OrderStatus, PaymentStatus } from '@/business/domain/Order';
+
+// Accepts `status=PAID&status=SHIPPED` as well as `status=PAID,SHIPPED`
+const commaSeparated = (value: unknown) =>
+  typeof value === 'string' ? value.split(',').map(part => part.trim()).filter(Boolean) : value;
+
+const OrderSearchFilters = z.object({
+  status: z.preprocess(
+    commaSeparated,
+    z.array(z.nativeEnum(OrderStatus, {
+      errorMap: () => ({ message: 'Invalid order status' }),
+    })).optional()
+  ),
+
+  paymentStatus: z
+    .nativeEnum(PaymentStatus, {
+      errorMap: () => ({ message: 'Invalid payment status' }),
+    })
+    .optional(),
+
+  startDate: z.coerce
+    .date({ invalid_type_error: 'Invalid start date format' })
+    .optional(),
+
+  endDate: z.coerce
+    .date({ invalid_type_error: 'Invalid end date format' })
+    .optional(),
+
+  minTotal: z.coerce
+    .number()
+    .min(0, 'Minimum total must be non-negative')
+    .optional(),
+
+  maxTotal: z.coerce
+    .number()
+    .min(0, 'Maximum total must be non-negative')
+    .optional(),
+
+  email: z
+    .string()
+    .min(3, 'Email filter must be at least 3 characters long')
+    .max(255, 'Email filter must not exceed 255 characters')
+    .trim()
+    .optional(),
+
+  orderNumber: z
+    .string()
+    .min(1, 'Order number prefix cannot be empty')
+    .max(50, 'Order number prefix must not exceed 50 characters')
+    .trim()
+    .optional(),
+
+  requiresAction: z
+    .enum(['true', 'false'])
+    .transform(value => value === 'true')
+    .optional(),
+
+  sortBy: z
+    .enum(['createdAt', 'total', 'orderNumber', 'status'])
+    .optional(),
+
+  sortOrder: z
+    .enum(['asc', 'desc'])
+    .optional(),
+});
+
+type OrderSearchFilters = z.infer<typeof OrderSearchFilters>;
+
+const withConsistentRanges = <Output extends OrderSearchFilters>(schema: z.ZodType<Output, z.ZodTypeDef, unknown>) =>
+  schema
+    .refine(
+      query => !query.startDate || !query.endDate || query.startDate <= query.endDate,
+      { message: 'Start date must be before end date', path: ['startDate'] }
+    )
+    .refine(
+      query => query.minTotal === undefined || query.maxTotal === undefined || query.minTotal <= query.maxTotal,
+      { message: 'Minimum total must not exceed maximum total', path: ['minTotal'] }
+    );
+
+// Order Search DTO (admin, paginated)
+export const OrderSearchDTO = withConsistentRanges(
+  OrderSearchFilters.extend({
+    page: z.coerce
+      .number()
+      .int('Page must be an integer')
+      .min(1, 'Page must be at least 1')
+      .optional(),
+
+    limit: z.coerce
+      .number()
+      .int('Limit must be an integer')
+      .min(1, 'Limit must be between 1 and 100')
+      .max(100, 'Limit must be between 1 and 100')
+      .optional(),
+  })
+);
+
+// Order Export DTO (admin, same filters streamed without pagination)
+export const OrderExportDTO = withConsistentRanges(
+  OrderSearchFilters.extend({
+    format: z
+      .enum(['csv', 'ndjson'])
+      .default('csv'),
+  })
+);
+
+// Export types
+export type OrderSearchDTO = z.infer<typeof OrderSearchDTO>;
+export type OrderExportDTO = z.infer<typeof OrderExportDTO>;
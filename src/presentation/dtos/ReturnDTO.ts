@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { ReturnStatus } from '@/business/domain/ReturnRequest';
+
+// Create Return DTO (customer, against one of their orders)
+export const CreateReturnDTO = z.object({
+  reason: z
+    .string()
+    .min(3, 'Reason must be at least 3 characters long')
+    .max(500, 'Reason must not exceed 500 characters')
+    .trim(),
+
+  items: z
+    .array(z.object({
+      orderItemId: z.string().min(1, 'Order item ID is required'),
+      quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+    }))
+    .min(1, 'At least one item is required'),
+});
+
+// Approve Return DTO
+export const ApproveReturnDTO = z.object({
+  note: z
+    .string()
+    .max(500, 'Note must not exceed 500 characters')
+    .optional(),
+});
+
+// Reject Return DTO
+export const RejectReturnDTO = z.object({
+  note: z
+    .string()
+    .min(3, 'A note explaining the rejection is required')
+    .max(500, 'Note must not exceed 500 characters'),
+});
+
+// Receive Return DTO
+export const ReceiveReturnDTO = z.object({
+  restock: z.boolean().default(true),
+});
+
+// Refund Return DTO (amount defaults to the value computed for the returned items)
+export const RefundReturnDTO = z.object({
+  amount: z
+    .number()
+    .positive('Amount must be positive')
+    .multipleOf(0.01, 'Amount must have at most 2 decimal places')
+    .optional(),
+});
+
+// Return Query DTO (pagination and filtering)
+export const ReturnQueryDTO = z.object({
+  page: z.coerce
+    .number()
+    .int('Page must be an integer')
+    .min(1, 'Page must be at least 1')
+    .optional(),
+
+  limit: z.coerce
+    .number()
+    .int('Limit must be an integer')
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .optional(),
+
+  status: z.nativeEnum(ReturnStatus).optional(),
+});
+
+// Return ID Parameter DTO
+export const ReturnIdDTO = z.object({
+  id: z
+    .string()
+    .min(1, 'Return ID is required'),
+});
+
+// Export types
+export type CreateReturnDTO = z.infer<typeof CreateReturnDTO>;
+export type ApproveReturnDTO = z.infer<typeof ApproveReturnDTO>;
+export type RejectReturnDTO = z.infer<typeof RejectReturnDTO>;
+export type ReceiveReturnDTO = z.infer<typeof ReceiveReturnDTO>;
+export type RefundReturnDTO = z.infer<typeof RefundReturnDTO>;
+export type ReturnQueryDTO = z.infer<typeof ReturnQueryDTO>;
+export type ReturnIdDTO = z.infer<typeof ReturnIdDTO>;
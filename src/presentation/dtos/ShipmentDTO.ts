@@ -0,0 +1,39 @@
+import { z } from 'zod';
+
+// Create Shipment DTO (items default to everything not yet shipped)
+export const CreateShipmentDTO = z.object({
+  carrier: z
+    .string()
+    .min(2, 'Carrier must be at least 2 characters long')
+    .max(50, 'Carrier must not exceed 50 characters')
+    .trim(),
+
+  trackingCode: z
+    .string()
+    .min(4, 'Tracking code must be at least 4 characters long')
+    .max(64, 'Tracking code must not exceed 64 characters')
+    .trim(),
+
+  items: z
+    .array(z.object({
+      orderItemId: z.string().min(1, 'Order item ID is required'),
+      quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+    }))
+    .min(1, 'At least one item is required')
+    .optional(),
+});
+
+// Shipment Parameters DTO
+export const ShipmentParamsDTO = z.object({
+  id: z
+    .string()
+    .min(1, 'Order ID is required'),
+
+  shipmentId: z
+    .string()
+    .min(1, 'Shipment ID is required'),
+});
+
+// Export types
+export type CreateShipmentDTO = z.infer<typeof CreateShipmentDTO>;
+export type ShipmentParamsDTO = z.infer<typeof ShipmentParamsDTO>;
@@ -0,0 +1,13 @@
+import { z } from 'zod';
+
+// Shipping Address DTO (shared by order creation and cart checkout)
+export const ShippingAddressDTO = z.object({
+  street: z.string().min(1, 'Street is required').max(200, 'Street is too long'),
+  city: z.string().min(1, 'City is required').max(100, 'City is too long'),
+  state: z.string().min(1, 'State is required').max(100, 'State is too long'),
+  zipCode: z.string().min(1, 'ZIP code is required').max(20, 'ZIP code is too long'),
+  country: z.string().min(1, 'Country is required').max(100, 'Country is too long'),
+});
+
+// Export types
+export type ShippingAddressDTO = z.infer<typeof ShippingAddressDTO>;
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+
+// Base tax rule validation schema
+const TaxRuleBaseSchema = {
+  name: z
+    .string()
+    .min(1, 'Tax rule name is required')
+    .max(100, 'Tax rule name must not exceed 100 characters'),
+
+  country: z
+    .string()
+    .min(2, 'Country is required')
+    .max(100, 'Country must not exceed 100 characters'),
+
+  state: z
+    .string()
+    .min(1, 'State cannot be empty')
+    .max(100, 'State must not exceed 100 characters')
+    .nullable(),
+
+  categoryId: z
+    .string()
+    .min(1, 'Category ID cannot be empty')
+    .nullable(),
+
+  rate: z
+    .number()
+    .min(0, 'Rate cannot be negative')
+    .max(1, 'Rate must be expressed as a fraction (e.g. 0.18 for 18%)'),
+
+  isExempt: z.boolean(),
+
+  isActive: z.boolean(),
+};
+
+// Create Tax Rule DTO
+export const CreateTaxRuleDTO = z.object({
+  name: TaxRuleBaseSchema.name,
+  country: TaxRuleBaseSchema.country,
+  state: TaxRuleBaseSchema.state.optional().default(null),
+  categoryId: TaxRuleBaseSchema.categoryId.optional().default(null),
+  rate: TaxRuleBaseSchema.rate,
+  isExempt: TaxRuleBaseSchema.isExempt.optional().default(false),
+  isActive: TaxRuleBaseSchema.isActive.optional().default(true),
+});
+
+// Update Tax Rule DTO
+export const UpdateTaxRuleDTO = z.object({
+  name: TaxRuleBaseSchema.name.optional(),
+  country: TaxRuleBaseSchema.country.optional(),
+  state: TaxRuleBaseSchema.state.optional(),
+  categoryId: TaxRuleBaseSchema.categoryId.optional(),
+  rate: TaxRuleBaseSchema.rate.optional(),
+  isExempt: TaxRuleBaseSchema.isExempt.optional(),
+  isActive: TaxRuleBaseSchema.isActive.optional(),
+});
+
+// Tax Rule Query DTO (pagination)
+export const TaxRuleQueryDTO = z.object({
+  page: z.coerce
+    .number()
+    .int('Page must be an integer')
+    .min(1, 'Page must be at least 1')
+    .optional(),
+
+  limit: z.coerce
+    .number()
+    .int('Limit must be an integer')
+    .min(1, 'Limit must be between 1 and 100')
+    .max(100, 'Limit must be between 1 and 100')
+    .optional(),
+});
+
+// Tax Rule ID Parameter DTO
+export const TaxRuleIdDTO = z.object({
+  id: z
+    .string()
+    .min(1, 'Tax rule ID is required'),
+});
+
+// Export types
+export type CreateTaxRuleDTO = z.infer<typeof CreateTaxRuleDTO>;
+export type UpdateTaxRuleDTO = z.infer<typeof UpdateTaxRuleDTO>;
@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+// Add Wishlist Item DTO
+export const AddWishlistItemDTO = z.object({
+  productId: z
+    .string()
+    .min(1, 'Product ID is required')
+    .trim(),
+
+  // The variant to save, for products sold per variant
+  variantId: z
+    .string()
+    .min(1, 'Variant ID cannot be empty')
+    .optional(),
+});
+
+// Move To Cart DTO (defaults to a single unit; variant products need the variant to buy)
+export const MoveToCartDTO = z.object({
+  quantity: z
+    .number()
+    .int('Quantity must be an integer')
+    .min(1, 'Quantity must be at least 1')
+    .max(100, 'Quantity cannot exceed 100')
+    .optional(),
+
+  variantId: z
+    .string()
+    .min(1, 'Variant ID cannot be empty')
+    .optional(),
+});
+
+// Move From Cart DTO (the variant of the cart line, if any)
+export const MoveFromCartDTO = z.object({
+  variantId: z
+    .string()
+    .min(1, 'Variant ID cannot be empty')
+    .optional(),
+});
+
+// Wishlist Product Parameter DTO
+export const WishlistProductParamDTO = z.object({
+  productId: z
+    .string()
+    .min(1, 'Product ID is required')
+    .trim(),
+});
+
+// Export types
+export type AddWishlistItemDTO = z.infer<typeof AddWishlistItemDTO>;
+export type MoveToCartDTO = z.infer<typeof MoveToCartDTO>;
+export type MoveFromCartDTO = z.infer<typeof MoveFromCartDTO>;
+export type WishlistProductParamDTO = z.infer<typeof WishlistProductParamDTO>;
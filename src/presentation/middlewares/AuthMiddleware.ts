@@ -2,6 +2,7 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { Logger } from '@/shared/utils/Logger';
 import { UserRole } from '@/business/domain/User';
+import { GuestTokenPayload } from '@/business/services/AuthService';
 
 // Extend Express Request type to include user
 declare global {
@@ -13,6 +14,9 @@ declare global {
         role: UserRole;
         isActive: boolean;
       };
+      guest?: {
+        id: string;
+      };
     }
   }
 }
@@ -48,7 +52,8 @@ export class AuthMiddleware {
       // Verify JWT token
       const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
 
-      if (!decoded || !decoded.id) {
+      // Guest tokens are signed with the same secret but identify no user
+      if (!decoded || !decoded.id || decoded.type === 'guest') {
         res.status(401).json({
           error: 'Authentication failed',
           message: 'Invalid token payload',
@@ -170,7 +175,7 @@ export class AuthMiddleware {
       // Try to verify token
       const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
 
-      if (decoded && decoded.id) {
+      if (decoded && decoded.id && decoded.type !== 'guest') {
         req.user = {
           id: decoded.id,
           email: decoded.email,
@@ -187,6 +192,40 @@ export class AuthMiddleware {
     }
   };
 
+  // Accepts a user access token or, when there is no Authorization header, a guest token
+  static authenticateOrGuest = (req: Request, res: Response, next: NextFunction): void => {
+    if (req.headers.authorization) {
+      AuthMiddleware.authenticate(req, res, next);
+      return;
+    }
+
+    const guestId = AuthMiddleware.verifyGuestToken(req);
+
+    if (!guestId) {
+      res.status(401).json({
+        error: 'Authentication required',
+        message: 'Sign in or provide a valid X-Guest-Token header',
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    req.guest = { id: guestId };
+    AuthMiddleware.logger.debug(`Guest authenticated: ${guestId}`);
+    next();
+  };
+
+  // Attaches the guest identity when a valid guest token is sent (e.g. on login, to merge the guest cart)
+  static optionalGuest = (req: Request, res: Response, next: NextFunction): void => {
+    const guestId = AuthMiddleware.verifyGuestToken(req);
+
+    if (guestId) {
+      req.guest = { id: guestId };
+    }
+
+    next();
+  };
+
   // Check if user owns resource or has admin privileges
   static ownerOrAdmin = (req: Request, res: Response, next: NextFunction): void => {
     try {
@@ -225,6 +264,23 @@ export class AuthMiddleware {
     }
   };
 
+  private static verifyGuestToken(req: Request): string | null {
+    const token = req.header('X-Guest-Token');
+
+    if (!token) {
+      return null;
+    }
+
+    try {
+      // Any token signed with the secret verifies, so check it really is a guest token
+      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as Partial<GuestTokenPayload>;
+      return decoded.type === 'guest' && decoded.guestId ? decoded.guestId : null;
+    } catch (error) {
+      AuthMiddleware.logger.debug('Guest token verification failed:', error);
+      return null;
+    }
+  }
+
   // Extract token from Authorization header
   private static extractTokenFromHeader(authHeader: string): string | null {
     // Expected format: "Bearer <token>"
@@ -0,0 +1,123 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { RedisConnection } from '@/infrastructure/cache/RedisConnection';
+import { Logger } from '@/shared/utils/Logger';
+
+interface IdempotencyRecord {
+  state: 'processing' | 'completed';
+  fingerprint: string;
+  statusCode?: number;
+  body?: unknown;
+}
+
+export class IdempotencyMiddleware {
+  private static logger = new Logger('IdempotencyMiddleware');
+  private static readonly HEADER = 'idempotency-key';
+  private static readonly KEY_PREFIX = 'idempotency:';
+  private static readonly MAX_KEY_LENGTH = 255;
+
+  // Stores the first response for an Idempotency-Key and replays it on retries.
+  // Requests without the header are processed normally.
+  static handle = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const idempotencyKey = req.header(IdempotencyMiddleware.HEADER);
+
+    if (idempotencyKey === undefined) {
+      next();
+      return;
+    }
+
+    if (!idempotencyKey.trim() || idempotencyKey.length > IdempotencyMiddleware.MAX_KEY_LENGTH) {
+      res.status(400).json({
+        error: 'Invalid idempotency key',
+        message: `Idempotency-Key must be between 1 and ${IdempotencyMiddleware.MAX_KEY_LENGTH} characters`,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    const redis = RedisConnection.getInstance();
+    // Keys are scoped per user so one client can never replay another client's response
+    const cacheKey = `${IdempotencyMiddleware.KEY_PREFIX}${req.user?.id || (req.guest && `guest:${req.guest.id}`) || 'anonymous'}:${idempotencyKey}`;
+    const fingerprint = IdempotencyMiddleware.fingerprint(req);
+    const ttl = parseInt(process.env.IDEMPOTENCY_KEY_TTL || '86400'); // 24 hours
+
+    try {
+      const processing: IdempotencyRecord = { state: 'processing', fingerprint };
+      const acquired = await redis.set(cacheKey, JSON.stringify(processing), { NX: true, EX: ttl });
+
+      if (!acquired) {
+        const cached = await redis.get(cacheKey);
+        const record: IdempotencyRecord | null = cached ? JSON.parse(cached) : null;
+
+        if (record && record.fingerprint !== fingerprint) {
+          IdempotencyMiddleware.logger.warn(`Idempotency key reused with a different request: ${idempotencyKey}`);
+          res.status(422).json({
+            error: 'Idempotency key reused',
+            message: 'This Idempotency-Key was already used with a different request',
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        // A missing record means the key expired between SET and GET; the retry will succeed
+        if (!record || record.state === 'processing') {
+          res.status(409).json({
+            error: 'Conflict',
+            message: 'A request with this Idempotency-Key is being processed, please retry',
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        IdempotencyMiddleware.logger.info(`Replaying response for idempotency key: ${idempotencyKey}`);
+        res.setHeader('Idempotent-Replayed', 'true');
+        res.status(record.statusCode || 200).json(record.body);
+        return;
+      }
+    } catch (error) {
+      // Fail open: an unavailable cache must not block checkout
+      IdempotencyMiddleware.logger.error('Idempotency check failed, processing request without it:', error);
+      next();
+      return;
+    }
+
+    IdempotencyMiddleware.captureResponse(res, cacheKey, fingerprint, ttl);
+    next();
+  };
+
+  // Saves the handler's JSON response under the key once it is sent
+  private static captureResponse(res: Response, cacheKey: string, fingerprint: string, ttl: number): void {
+    const redis = RedisConnection.getInstance();
+    const originalJson = res.json.bind(res);
+    let stored = false;
+
+    res.json = (body: unknown) => {
+      // Server errors are not final, so the key is released and the client may retry
+      if (res.statusCode < 500) {
+        const record: IdempotencyRecord = { state: 'completed', fingerprint, statusCode: res.statusCode, body };
+        stored = true;
+        redis.set(cacheKey, JSON.stringify(record), { EX: ttl }).catch(error => {
+          IdempotencyMiddleware.logger.error('Error storing idempotent response:', error);
+        });
+      }
+      return originalJson(body);
+    };
+
+    // 'close' also fires when the client disconnects before a response is sent
+    res.on('close', () => {
+      if (!stored) {
+        redis.del(cacheKey).catch(error => {
+          IdempotencyMiddleware.logger.error('Error releasing idempotency key:', error);
+        });
+      }
+    });
+  }
+
+  private static fingerprint(req: Request): string {
+    const payload = req.rawBody ? req.rawBody.toString('utf8') : JSON.stringify(req.body ?? {});
+    return crypto
+      .createHash('sha256')
+      .update(`${req.method} ${req.baseUrl}${req.path}\n${payload}`)
+      .digest('hex');
+  }
+}
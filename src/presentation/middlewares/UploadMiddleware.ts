@@ -0,0 +1,39 @@
+import multer from 'multer';
+import { Request, Response, NextFunction } from 'express';
+import { Logger } from '@/shared/utils/Logger';
+
+export class UploadMiddleware {
+  private static logger = new Logger('UploadMiddleware');
+  static readonly MAX_SIZE = parseInt(process.env.UPLOAD_MAX_SIZE || '5242880'); // 5MB
+  static readonly ALLOWED_TYPES = (process.env.UPLOAD_ALLOWED_TYPES || 'image/jpeg,image/png,image/webp')
+    .split(',')
+    .map(type => type.trim());
+
+  // Parses a multipart request carrying one file into req.file (kept in memory) and its text fields into req.body.
+  // Follow it with ValidationMiddleware.validateFile to check the file itself.
+  static single(fieldName: string) {
+    const upload = multer({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: UploadMiddleware.MAX_SIZE, files: 1 },
+    }).single(fieldName);
+
+    return (req: Request, res: Response, next: NextFunction): void => {
+      upload(req, res, (error: unknown) => {
+        if (error instanceof multer.MulterError) {
+          UploadMiddleware.logger.warn(`Upload rejected: ${error.code}`);
+
+          res.status(400).json({
+            error: 'Validation failed',
+            message: error.code === 'LIMIT_FILE_SIZE'
+              ? `File size exceeds maximum allowed size of ${UploadMiddleware.MAX_SIZE / (1024 * 1024)}MB`
+              : error.message,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        next(error);
+      });
+    };
+  }
+}
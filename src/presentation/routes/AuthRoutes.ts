@@ -22,8 +22,15 @@ export class AuthRoutes {
 
   private setupRoutes(): void {
     // Public routes
+    this.router.post(
+      '/guest',
+      this.authController.createGuestSession
+    );
+
+    // A guest token sent along with the login moves the guest cart into the account
     this.router.post(
       '/login',
+      AuthMiddleware.optionalGuest,
       ValidationMiddleware.validate(LoginDTO),
       this.authController.login
     );
@@ -1,8 +1,14 @@
 import { Router } from 'express';
 import { CartController } from '@/presentation/controllers/CartController';
+import { AbandonedCartController } from '@/presentation/controllers/AbandonedCartController';
 import { Container } from '@/infrastructure/container/Container';
 import { ValidationMiddleware } from '@/presentation/middlewares/ValidationMiddleware';
 import { AuthMiddleware } from '@/presentation/middlewares/AuthMiddleware';
+import { IdempotencyMiddleware } from '@/presentation/middlewares/IdempotencyMiddleware';
+import { ShippingAddressDTO } from '@/presentation/dtos/ShippingAddressDTO';
+import { ApplyCouponDTO } from '@/presentation/dtos/CouponDTO';
+import { AbandonedCartReportQueryDTO } from '@/presentation/dtos/AbandonedCartDTO';
+import { UserRole } from '@/business/domain/User';
 import { z } from 'zod';
 
 // Cart Item DTO for adding items to cart
@@ -17,6 +23,12 @@ const AddCartItemDTO = z.object({
     .int('Quantity must be an integer')
     .min(1, 'Quantity must be at least 1')
     .max(100, 'Quantity cannot exceed 100'),
+
+  // Required for products sold per variant
+  variantId: z
+    .string()
+    .min(1, 'Variant ID cannot be empty')
+    .optional(),
 });
 
 // Update Cart Item DTO for updating item quantities
@@ -26,6 +38,11 @@ const UpdateCartItemDTO = z.object({
     .int('Quantity must be an integer')
     .min(0, 'Quantity cannot be negative')
     .max(100, 'Quantity cannot exceed 100'),
+
+  variantId: z
+    .string()
+    .min(1, 'Variant ID cannot be empty')
+    .optional(),
 });
 
 // Product ID Parameter DTO
@@ -36,19 +53,52 @@ const ProductIdParamDTO = z.object({
     .trim(),
 });
 
+// Cart Item Query DTO (picks the variant line of a product)
+const CartItemQueryDTO = z.object({
+  variantId: z
+    .string()
+    .min(1, 'Variant ID cannot be empty')
+    .optional(),
+});
+
+// Checkout DTO for turning the cart into an order
+const CheckoutDTO = z.object({
+  shippingAddress: ShippingAddressDTO,
+  shippingMethod: z.string().min(1, 'Shipping method cannot be empty').optional(),
+  // Required for guest checkout, ignored for signed-in users
+  email: z.string().email('Invalid email format').toLowerCase().optional(),
+});
+
+// Cart Summary Query DTO (optional destination for the tax and shipping estimate)
+const CartSummaryQueryDTO = z.object({
+  zipCode: z.string().min(1, 'ZIP code cannot be empty').max(20, 'ZIP code is too long').optional(),
+  state: z.string().min(1, 'State cannot be empty').max(100, 'State is too long').optional(),
+  country: z.string().min(1, 'Country cannot be empty').max(100, 'Country is too long').optional(),
+}).refine(
+  query => !query.zipCode === !query.country,
+  { message: 'ZIP code and country must be given together', path: ['zipCode'] }
+);
+
+// Shipping Quote DTO
+const ShippingQuoteDTO = z.object({
+  shippingAddress: ShippingAddressDTO,
+});
+
 export class CartRoutes {
   public router: Router;
   private cartController: CartController;
+  private abandonedCartController: AbandonedCartController;
 
   constructor(private container: Container) {
     this.router = Router();
     this.cartController = this.container.resolve<CartController>('CartController');
+    this.abandonedCartController = this.container.resolve<AbandonedCartController>('AbandonedCartController');
     this.setupRoutes();
   }
 
   private setupRoutes(): void {
-    // All cart routes require authentication
-    this.router.use(AuthMiddleware.authenticate);
+    // Cart routes accept either a signed-in user or a guest token (X-Guest-Token)
+    this.router.use(AuthMiddleware.authenticateOrGuest);
 
     // GET /api/v1/cart - Get user's cart
     this.router.get(
@@ -59,6 +109,7 @@ export class CartRoutes {
     // GET /api/v1/cart/summary - Get cart summary with calculations
     this.router.get(
       '/summary',
+      ValidationMiddleware.validateQuery(CartSummaryQueryDTO),
       this.cartController.getCartSummary
     );
 
@@ -81,18 +132,72 @@ export class CartRoutes {
     this.router.delete(
       '/items/:productId',
       ValidationMiddleware.validateParams(ProductIdParamDTO),
+      ValidationMiddleware.validateQuery(CartItemQueryDTO),
       this.cartController.removeCartItem
     );
 
+    // POST /api/v1/cart/accept-changes - Take current prices and stock for lines that changed
+    this.router.post(
+      '/accept-changes',
+      this.cartController.acceptCartChanges
+    );
+
+    // POST /api/v1/cart/coupon - Apply a coupon code to the cart
+    this.router.post(
+      '/coupon',
+      ValidationMiddleware.validate(ApplyCouponDTO),
+      this.cartController.applyCoupon
+    );
+
+    // DELETE /api/v1/cart/coupon - Remove the applied coupon
+    this.router.delete(
+      '/coupon',
+      this.cartController.removeCoupon
+    );
+
+    // POST /api/v1/cart/shipping-quote - List shipping options for an address
+    this.router.post(
+      '/shipping-quote',
+      ValidationMiddleware.validate(ShippingQuoteDTO),
+      this.cartController.getShippingQuote
+    );
+
+    // POST /api/v1/cart/checkout - Create an order from the cart contents
+    this.router.post(
+      '/checkout',
+      ValidationMiddleware.validate(CheckoutDTO),
+      IdempotencyMiddleware.handle,
+      this.cartController.checkout
+    );
+
     // DELETE /api/v1/cart - Clear entire cart
     this.router.delete(
       '/',
       this.cartController.clearCart
     );
+
+    // Admin routes - abandoned cart recovery
+
+    // GET /api/v1/cart/admin/abandoned/report - Abandonment rate and recovered revenue (admin/moderator only)
+    this.router.get(
+      '/admin/abandoned/report',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateQuery(AbandonedCartReportQueryDTO),
+      this.abandonedCartController.getReport
+    );
+
+    // POST /api/v1/cart/admin/abandoned/run - Detect abandoned carts and send recovery emails now (admin only)
+    this.router.post(
+      '/admin/abandoned/run',
+      AuthMiddleware.authorize([UserRole.ADMIN]),
+      this.abandonedCartController.runDetection
+    );
   }
 }
 
 // Export types for use in other files
 export type AddCartItemDTO = z.infer<typeof AddCartItemDTO>;
 export type UpdateCartItemDTO = z.infer<typeof UpdateCartItemDTO>;
-export type ProductIdParamDTO = z.infer<typeof ProductIdParamDTO>;
\ No newline at end of file
+export type ProductIdParamDTO = z.infer<typeof ProductIdParamDTO>;
+export type CheckoutDTO = z.infer<typeof CheckoutDTO>;
+export type ShippingQuoteDTO = z.infer<typeof ShippingQuoteDTO>;
\ No newline at end of file
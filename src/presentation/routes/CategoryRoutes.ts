@@ -0,0 +1,73 @@
+import { Router } from 'express';
+import { CategoryController } from '@/presentation/controllers/CategoryController';
+import { Container } from '@/infrastructure/container/Container';
+import { ValidationMiddleware } from '@/presentation/middlewares/ValidationMiddleware';
+import { AuthMiddleware } from '@/presentation/middlewares/AuthMiddleware';
+import { UserRole } from '@/business/domain/User';
+import {
+  CreateCategoryDTO,
+  UpdateCategoryDTO,
+  CategoryIdDTO,
+} from '@/presentation/dtos/CategoryDTO';
+
+export class CategoryRoutes {
+  public router: Router;
+  private categoryController: CategoryController;
+
+  constructor(private container: Container) {
+    this.router = Router();
+    this.categoryController = this.container.resolve<CategoryController>('CategoryController');
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // GET /api/v1/categories - Active category tree
+    this.router.get(
+      '/',
+      this.categoryController.getCategoryTree
+    );
+
+    // GET /api/v1/categories/admin/all - Full tree, inactive categories included
+    this.router.get(
+      '/admin/all',
+      AuthMiddleware.authenticate,
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      this.categoryController.getFullCategoryTree
+    );
+
+    // GET /api/v1/categories/:id - A category with its active subcategories
+    this.router.get(
+      '/:id',
+      ValidationMiddleware.validateParams(CategoryIdDTO),
+      this.categoryController.getCategoryById
+    );
+
+    // POST /api/v1/categories - Create a category
+    this.router.post(
+      '/',
+      AuthMiddleware.authenticate,
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validate(CreateCategoryDTO),
+      this.categoryController.createCategory
+    );
+
+    // PUT /api/v1/categories/:id - Update or move a category
+    this.router.put(
+      '/:id',
+      AuthMiddleware.authenticate,
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(CategoryIdDTO),
+      ValidationMiddleware.validate(UpdateCategoryDTO),
+      this.categoryController.updateCategory
+    );
+
+    // DELETE /api/v1/categories/:id - Delete an empty category
+    this.router.delete(
+      '/:id',
+      AuthMiddleware.authenticate,
+      AuthMiddleware.authorize([UserRole.ADMIN]),
+      ValidationMiddleware.validateParams(CategoryIdDTO),
+      this.categoryController.deleteCategory
+    );
+  }
+}
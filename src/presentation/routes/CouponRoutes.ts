@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { CouponController } from '@/presentation/controllers/CouponController';
+import { Container } from '@/infrastructure/container/Container';
+import { ValidationMiddleware } from '@/presentation/middlewares/ValidationMiddleware';
+import { AuthMiddleware } from '@/presentation/middlewares/AuthMiddleware';
+import { UserRole } from '@/business/domain/User';
+import {
+  CreateCouponDTO,
+  UpdateCouponDTO,
+  CouponQueryDTO,
+  CouponIdDTO,
+} from '@/presentation/dtos/CouponDTO';
+
+export class CouponRoutes {
+  public router: Router;
+  private couponController: CouponController;
+
+  constructor(private container: Container) {
+    this.router = Router();
+    this.couponController = this.container.resolve<CouponController>('CouponController');
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // All coupon routes require admin/moderator privileges
+    this.router.use(AuthMiddleware.authenticate);
+    this.router.use(AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]));
+
+    // GET /api/v1/coupons - List coupons with pagination
+    this.router.get(
+      '/',
+      ValidationMiddleware.validateQuery(CouponQueryDTO),
+      this.couponController.getAllCoupons
+    );
+
+    // GET /api/v1/coupons/:id - Get a single coupon
+    this.router.get(
+      '/:id',
+      ValidationMiddleware.validateParams(CouponIdDTO),
+      this.couponController.getCouponById
+    );
+
+    // POST /api/v1/coupons - Create a coupon
+    this.router.post(
+      '/',
+      ValidationMiddleware.validate(CreateCouponDTO),
+      this.couponController.createCoupon
+    );
+
+    // PUT /api/v1/coupons/:id - Update a coupon
+    this.router.put(
+      '/:id',
+      ValidationMiddleware.validateParams(CouponIdDTO),
+      ValidationMiddleware.validate(UpdateCouponDTO),
+      this.couponController.updateCoupon
+    );
+
+    // DELETE /api/v1/coupons/:id - Delete a coupon
+    this.router.delete(
+      '/:id',
+      ValidationMiddleware.validateParams(CouponIdDTO),
+      this.couponController.deleteCoupon
+    );
+  }
+}
@@ -1,10 +1,18 @@
 import { Router } from 'express';
 import { OrderController } from '@/presentation/controllers/OrderController';
+import { PaymentController } from '@/presentation/controllers/PaymentController';
+import { ReturnController } from '@/presentation/controllers/ReturnController';
+import { ShipmentController } from '@/presentation/controllers/ShipmentController';
 import { Container } from '@/infrastructure/container/Container';
 import { ValidationMiddleware } from '@/presentation/middlewares/ValidationMiddleware';
 import { AuthMiddleware } from '@/presentation/middlewares/AuthMiddleware';
+import { IdempotencyMiddleware } from '@/presentation/middlewares/IdempotencyMiddleware';
 import { UserRole } from '@/business/domain/User';
-import { OrderStatus, PaymentStatus } from '@/business/domain/Order';
+import { OrderStatus } from '@/business/domain/Order';
+import { ShippingAddressDTO } from '@/presentation/dtos/ShippingAddressDTO';
+import { CreateReturnDTO } from '@/presentation/dtos/ReturnDTO';
+import { CreateShipmentDTO, ShipmentParamsDTO } from '@/presentation/dtos/ShipmentDTO';
+import { OrderSearchDTO, OrderExportDTO } from '@/presentation/dtos/OrderSearchDTO';
 import { z } from 'zod';
 
 // Create Order DTO
@@ -12,17 +20,15 @@ const CreateOrderDTO = z.object({
   cartItems: z
     .array(z.object({
       productId: z.string().min(1, 'Product ID is required'),
+      // Required for products sold per variant
+      variantId: z.string().min(1, 'Variant ID cannot be empty').optional(),
       quantity: z.number().int().min(1, 'Quantity must be at least 1'),
     }))
     .min(1, 'At least one cart item is required'),
   
-  shippingAddress: z.object({
-    street: z.string().min(1, 'Street is required').max(200, 'Street is too long'),
-    city: z.string().min(1, 'City is required').max(100, 'City is too long'),
-    state: z.string().min(1, 'State is required').max(100, 'State is too long'),
-    zipCode: z.string().min(1, 'ZIP code is required').max(20, 'ZIP code is too long'),
-    country: z.string().min(1, 'Country is required').max(100, 'Country is too long'),
-  }),
+  shippingAddress: ShippingAddressDTO,
+  shippingMethod: z.string().min(1, 'Shipping method cannot be empty').optional(),
+  couponCode: z.string().min(1, 'Coupon code cannot be empty').max(32, 'Coupon code is too long').optional(),
 });
 
 // Update Order Status DTO
@@ -30,13 +36,18 @@ const UpdateOrderStatusDTO = z.object({
   status: z.nativeEnum(OrderStatus, {
     errorMap: () => ({ message: 'Invalid order status' }),
   }),
+  reason: z
+    .string()
+    .max(500, 'Reason must not exceed 500 characters')
+    .optional(),
 });
 
-// Update Payment Status DTO
-const UpdatePaymentStatusDTO = z.object({
-  paymentStatus: z.nativeEnum(PaymentStatus, {
-    errorMap: () => ({ message: 'Invalid payment status' }),
-  }),
+// Refund Payment DTO
+const RefundPaymentDTO = z.object({
+  reason: z
+    .string()
+    .max(500, 'Reason must not exceed 500 characters')
+    .optional(),
 });
 
 // Cancel Order DTO
@@ -55,6 +66,31 @@ const OrderIdParamDTO = z.object({
     .trim(),
 });
 
+// Add Order Item DTO
+const AddOrderItemDTO = z.object({
+  productId: z.string().min(1, 'Product ID is required'),
+  variantId: z.string().min(1, 'Variant ID cannot be empty').optional(),
+  quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+});
+
+// Update Order Item DTO
+const UpdateOrderItemDTO = z.object({
+  quantity: z.number().int().min(1, 'Quantity must be at least 1'),
+});
+
+// Order Item Parameters DTO
+const OrderItemParamDTO = z.object({
+  id: z
+    .string()
+    .min(1, 'Order ID is required')
+    .trim(),
+
+  itemId: z
+    .string()
+    .min(1, 'Order item ID is required')
+    .trim(),
+});
+
 // Order Query DTO (for filtering and pagination)
 const OrderQueryDTO = z.object({
   page: z
@@ -91,15 +127,41 @@ const OrderQueryDTO = z.object({
 export class OrderRoutes {
   public router: Router;
   private orderController: OrderController;
+  private paymentController: PaymentController;
+  private returnController: ReturnController;
+  private shipmentController: ShipmentController;
 
   constructor(private container: Container) {
     this.router = Router();
     this.orderController = this.container.resolve<OrderController>('OrderController');
+    this.paymentController = this.container.resolve<PaymentController>('PaymentController');
+    this.returnController = this.container.resolve<ReturnController>('ReturnController');
+    this.shipmentController = this.container.resolve<ShipmentController>('ShipmentController');
     this.setupRoutes();
   }
 
   private setupRoutes(): void {
-    // All order routes require authentication
+    // Guests can follow and pay for the orders they placed with their guest token
+    const orderOwner = AuthMiddleware.authenticateOrGuest;
+
+    // GET /api/v1/orders/:id - Get specific order by ID (owner, guest owner or admin)
+    this.router.get(
+      '/:id',
+      orderOwner,
+      ValidationMiddleware.validateParams(OrderIdParamDTO),
+      this.orderController.getOrderById
+    );
+
+    // POST /api/v1/orders/:id/payment/intent - Start payment for an order (owner, guest owner or admin)
+    this.router.post(
+      '/:id/payment/intent',
+      orderOwner,
+      ValidationMiddleware.validateParams(OrderIdParamDTO),
+      IdempotencyMiddleware.handle,
+      this.paymentController.createPaymentIntent
+    );
+
+    // All other order routes require authentication
     this.router.use(AuthMiddleware.authenticate);
 
     // Customer routes - users can manage their own orders
@@ -111,17 +173,18 @@ export class OrderRoutes {
       this.orderController.getUserOrders
     );
 
-    // GET /api/v1/orders/:id - Get specific order by ID
+    // GET /api/v1/orders/:id/timeline - Get status history of an order (owner or admin)
     this.router.get(
-      '/:id',
+      '/:id/timeline',
       ValidationMiddleware.validateParams(OrderIdParamDTO),
-      this.orderController.getOrderById
+      this.orderController.getOrderTimeline
     );
 
     // POST /api/v1/orders - Create new order
     this.router.post(
       '/',
       ValidationMiddleware.validate(CreateOrderDTO),
+      IdempotencyMiddleware.handle,
       this.orderController.createOrder
     );
 
@@ -130,9 +193,65 @@ export class OrderRoutes {
       '/:id/cancel',
       ValidationMiddleware.validateParams(OrderIdParamDTO),
       ValidationMiddleware.validate(CancelOrderDTO),
+      IdempotencyMiddleware.handle,
       this.orderController.cancelOrder
     );
 
+    // POST /api/v1/orders/:id/items - Add an item to a pending, unpaid order (owner or admin)
+    this.router.post(
+      '/:id/items',
+      ValidationMiddleware.validateParams(OrderIdParamDTO),
+      ValidationMiddleware.validate(AddOrderItemDTO),
+      IdempotencyMiddleware.handle,
+      this.orderController.addOrderItem
+    );
+
+    // PATCH /api/v1/orders/:id/items/:itemId - Change the quantity of an item of a pending, unpaid order (owner or admin)
+    this.router.patch(
+      '/:id/items/:itemId',
+      ValidationMiddleware.validateParams(OrderItemParamDTO),
+      ValidationMiddleware.validate(UpdateOrderItemDTO),
+      this.orderController.updateOrderItem
+    );
+
+    // DELETE /api/v1/orders/:id/items/:itemId - Remove an item from a pending, unpaid order (owner or admin)
+    this.router.delete(
+      '/:id/items/:itemId',
+      ValidationMiddleware.validateParams(OrderItemParamDTO),
+      this.orderController.removeOrderItem
+    );
+
+    // POST /api/v1/orders/:id/reorder - Add the items of a past order to the cart (owner only)
+    this.router.post(
+      '/:id/reorder',
+      ValidationMiddleware.validateParams(OrderIdParamDTO),
+      IdempotencyMiddleware.handle,
+      this.orderController.reorder
+    );
+
+    // GET /api/v1/orders/:id/returns - List returns for an order (owner or admin)
+    this.router.get(
+      '/:id/returns',
+      ValidationMiddleware.validateParams(OrderIdParamDTO),
+      this.returnController.getOrderReturns
+    );
+
+    // POST /api/v1/orders/:id/returns - Request a return for some items of an order (owner or admin)
+    this.router.post(
+      '/:id/returns',
+      ValidationMiddleware.validateParams(OrderIdParamDTO),
+      ValidationMiddleware.validate(CreateReturnDTO),
+      IdempotencyMiddleware.handle,
+      this.returnController.createReturn
+    );
+
+    // GET /api/v1/orders/:id/shipments - List shipments and per-item coverage of an order (owner or admin)
+    this.router.get(
+      '/:id/shipments',
+      ValidationMiddleware.validateParams(OrderIdParamDTO),
+      this.shipmentController.getOrderShipments
+    );
+
     // Admin/Moderator routes - order management
     
     // PATCH /api/v1/orders/:id/status - Update order status (admin/moderator only)
@@ -144,13 +263,52 @@ export class OrderRoutes {
       this.orderController.updateOrderStatus
     );
 
-    // PATCH /api/v1/orders/:id/payment - Update payment status (admin/moderator only)
-    this.router.patch(
-      '/:id/payment',
+    // POST /api/v1/orders/:id/shipments - Ship some or all remaining items (admin/moderator only)
+    this.router.post(
+      '/:id/shipments',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(OrderIdParamDTO),
+      ValidationMiddleware.validate(CreateShipmentDTO),
+      IdempotencyMiddleware.handle,
+      this.shipmentController.createShipment
+    );
+
+    // POST /api/v1/orders/:id/shipments/:shipmentId/deliver - Mark a shipment as delivered (admin/moderator only)
+    this.router.post(
+      '/:id/shipments/:shipmentId/deliver',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(ShipmentParamsDTO),
+      this.shipmentController.markDelivered
+    );
+
+    // Payment routes - state changes go through the payment gateway
+
+    // POST /api/v1/orders/:id/payment/capture - Capture authorized payment (admin/moderator only)
+    this.router.post(
+      '/:id/payment/capture',
       AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
       ValidationMiddleware.validateParams(OrderIdParamDTO),
-      ValidationMiddleware.validate(UpdatePaymentStatusDTO),
-      this.orderController.updatePaymentStatus
+      IdempotencyMiddleware.handle,
+      this.paymentController.capturePayment
+    );
+
+    // POST /api/v1/orders/:id/payment/void - Release authorized payment (admin/moderator only)
+    this.router.post(
+      '/:id/payment/void',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(OrderIdParamDTO),
+      IdempotencyMiddleware.handle,
+      this.paymentController.voidPayment
+    );
+
+    // POST /api/v1/orders/:id/payment/refund - Refund captured payment (admin/moderator only)
+    this.router.post(
+      '/:id/payment/refund',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(OrderIdParamDTO),
+      ValidationMiddleware.validate(RefundPaymentDTO),
+      IdempotencyMiddleware.handle,
+      this.paymentController.refundPayment
     );
 
     // GET /api/v1/orders/admin/summary - Get order summary/analytics (admin/moderator only)
@@ -160,13 +318,46 @@ export class OrderRoutes {
       ValidationMiddleware.validateQuery(OrderQueryDTO),
       this.orderController.getOrderSummary
     );
+
+    // GET /api/v1/orders/admin/search - Search orders with combined filters and sorting (admin/moderator only)
+    this.router.get(
+      '/admin/search',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateQuery(OrderSearchDTO),
+      this.orderController.searchOrders
+    );
+
+    // GET /api/v1/orders/admin/export - Stream the same search as CSV or NDJSON (admin/moderator only)
+    this.router.get(
+      '/admin/export',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateQuery(OrderExportDTO),
+      this.orderController.exportOrders
+    );
+
+    // GET /api/v1/orders/admin/expired - Preview unpaid pending orders past the TTL (admin/moderator only)
+    this.router.get(
+      '/admin/expired',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      this.orderController.getExpiredOrders
+    );
+
+    // POST /api/v1/orders/admin/expire - Run order expiry now (admin only)
+    this.router.post(
+      '/admin/expire',
+      AuthMiddleware.authorize([UserRole.ADMIN]),
+      this.orderController.expireOrders
+    );
   }
 }
 
 // Export types for use in other files
 export type CreateOrderDTO = z.infer<typeof CreateOrderDTO>;
 export type UpdateOrderStatusDTO = z.infer<typeof UpdateOrderStatusDTO>;
-export type UpdatePaymentStatusDTO = z.infer<typeof UpdatePaymentStatusDTO>;
+export type RefundPaymentDTO = z.infer<typeof RefundPaymentDTO>;
 export type CancelOrderDTO = z.infer<typeof CancelOrderDTO>;
 export type OrderIdParamDTO = z.infer<typeof OrderIdParamDTO>;
+export type AddOrderItemDTO = z.infer<typeof AddOrderItemDTO>;
+export type UpdateOrderItemDTO = z.infer<typeof UpdateOrderItemDTO>;
+export type OrderItemParamDTO = z.infer<typeof OrderItemParamDTO>;
 export type OrderQueryDTO = z.infer<typeof OrderQueryDTO>;
\ No newline at end of file
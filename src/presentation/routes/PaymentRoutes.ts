@@ -0,0 +1,22 @@
+import { Router } from 'express';
+import { PaymentController } from '@/presentation/controllers/PaymentController';
+import { Container } from '@/infrastructure/container/Container';
+
+export class PaymentRoutes {
+  public router: Router;
+  private paymentController: PaymentController;
+
+  constructor(private container: Container) {
+    this.router = Router();
+    this.paymentController = this.container.resolve<PaymentController>('PaymentController');
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // POST /api/v1/payments/webhook - Provider callbacks, authenticated by HMAC signature
+    this.router.post(
+      '/webhook',
+      this.paymentController.handleWebhook
+    );
+  }
+}
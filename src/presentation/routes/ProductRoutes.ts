@@ -3,6 +3,7 @@ import { ProductController } from '@/presentation/controllers/ProductController'
 import { Container } from '@/infrastructure/container/Container';
 import { ValidationMiddleware } from '@/presentation/middlewares/ValidationMiddleware';
 import { AuthMiddleware } from '@/presentation/middlewares/AuthMiddleware';
+import { UploadMiddleware } from '@/presentation/middlewares/UploadMiddleware';
 import { UserRole } from '@/business/domain/User';
 import {
   CreateProductDTO,
@@ -14,7 +15,15 @@ import {
   ProductIdDTO,
   ProductSkuDTO,
   CategoryIdDTO,
+  CategoryProductsQueryDTO,
   LowStockQueryDTO,
+  CreateVariantDTO,
+  UpdateVariantDTO,
+  VariantParamsDTO,
+  UploadProductImageDTO,
+  UpdateProductImageDTO,
+  ReorderProductImagesDTO,
+  ImageParamsDTO,
 } from '@/presentation/dtos/CreateProductDTO';
 
 export class ProductRoutes {
@@ -50,7 +59,7 @@ export class ProductRoutes {
     this.router.get(
       '/category/:categoryId',
       ValidationMiddleware.validateParams(CategoryIdDTO),
-      ValidationMiddleware.validateQuery(ProductQueryDTO),
+      ValidationMiddleware.validateQuery(CategoryProductsQueryDTO),
       this.productController.getProductsByCategory
     );
 
@@ -124,5 +133,74 @@ export class ProductRoutes {
       ValidationMiddleware.validateParams(ProductIdDTO),
       this.productController.deactivateProduct
     );
+
+    this.router.post(
+      '/:id/variants',
+      AuthMiddleware.authenticate,
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(ProductIdDTO),
+      ValidationMiddleware.validate(CreateVariantDTO),
+      this.productController.addVariant
+    );
+
+    this.router.put(
+      '/:id/variants/:variantId',
+      AuthMiddleware.authenticate,
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(VariantParamsDTO),
+      ValidationMiddleware.validate(UpdateVariantDTO),
+      this.productController.updateVariant
+    );
+
+    this.router.delete(
+      '/:id/variants/:variantId',
+      AuthMiddleware.authenticate,
+      AuthMiddleware.authorize([UserRole.ADMIN]),
+      ValidationMiddleware.validateParams(VariantParamsDTO),
+      this.productController.deleteVariant
+    );
+
+    // Images are sent as multipart/form-data: an "image" file and an optional "altText" field
+    this.router.post(
+      '/:id/images',
+      AuthMiddleware.authenticate,
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(ProductIdDTO),
+      UploadMiddleware.single('image'),
+      ValidationMiddleware.validateFile({
+        required: true,
+        fieldName: 'image',
+        maxSize: UploadMiddleware.MAX_SIZE,
+        allowedTypes: UploadMiddleware.ALLOWED_TYPES,
+      }),
+      ValidationMiddleware.validate(UploadProductImageDTO),
+      this.productController.addImage
+    );
+
+    this.router.put(
+      '/:id/images/order',
+      AuthMiddleware.authenticate,
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(ProductIdDTO),
+      ValidationMiddleware.validate(ReorderProductImagesDTO),
+      this.productController.reorderImages
+    );
+
+    this.router.patch(
+      '/:id/images/:imageId',
+      AuthMiddleware.authenticate,
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(ImageParamsDTO),
+      ValidationMiddleware.validate(UpdateProductImageDTO),
+      this.productController.updateImage
+    );
+
+    this.router.delete(
+      '/:id/images/:imageId',
+      AuthMiddleware.authenticate,
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(ImageParamsDTO),
+      this.productController.deleteImage
+    );
   }
 }
\ No newline at end of file
@@ -0,0 +1,83 @@
+import { Router } from 'express';
+import { ReturnController } from '@/presentation/controllers/ReturnController';
+import { Container } from '@/infrastructure/container/Container';
+import { ValidationMiddleware } from '@/presentation/middlewares/ValidationMiddleware';
+import { AuthMiddleware } from '@/presentation/middlewares/AuthMiddleware';
+import { IdempotencyMiddleware } from '@/presentation/middlewares/IdempotencyMiddleware';
+import { UserRole } from '@/business/domain/User';
+import {
+  ApproveReturnDTO,
+  RejectReturnDTO,
+  ReceiveReturnDTO,
+  RefundReturnDTO,
+  ReturnQueryDTO,
+  ReturnIdDTO,
+} from '@/presentation/dtos/ReturnDTO';
+
+export class ReturnRoutes {
+  public router: Router;
+  private returnController: ReturnController;
+
+  constructor(private container: Container) {
+    this.router = Router();
+    this.returnController = this.container.resolve<ReturnController>('ReturnController');
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // All return routes require authentication; customers open returns via /orders/:id/returns
+    this.router.use(AuthMiddleware.authenticate);
+
+    // GET /api/v1/returns - List returns, optionally by status (admin/moderator only)
+    this.router.get(
+      '/',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateQuery(ReturnQueryDTO),
+      this.returnController.getAllReturns
+    );
+
+    // GET /api/v1/returns/:id - Get a single return (owner or admin)
+    this.router.get(
+      '/:id',
+      ValidationMiddleware.validateParams(ReturnIdDTO),
+      this.returnController.getReturnById
+    );
+
+    // POST /api/v1/returns/:id/approve - Approve a return request (admin/moderator only)
+    this.router.post(
+      '/:id/approve',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(ReturnIdDTO),
+      ValidationMiddleware.validate(ApproveReturnDTO),
+      this.returnController.approveReturn
+    );
+
+    // POST /api/v1/returns/:id/reject - Reject a return request (admin/moderator only)
+    this.router.post(
+      '/:id/reject',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(ReturnIdDTO),
+      ValidationMiddleware.validate(RejectReturnDTO),
+      this.returnController.rejectReturn
+    );
+
+    // POST /api/v1/returns/:id/receive - Record returned goods, optionally restocking them (admin/moderator only)
+    this.router.post(
+      '/:id/receive',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(ReturnIdDTO),
+      ValidationMiddleware.validate(ReceiveReturnDTO),
+      this.returnController.receiveReturn
+    );
+
+    // POST /api/v1/returns/:id/refund - Refund the return through the payment gateway (admin/moderator only)
+    this.router.post(
+      '/:id/refund',
+      AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]),
+      ValidationMiddleware.validateParams(ReturnIdDTO),
+      ValidationMiddleware.validate(RefundReturnDTO),
+      IdempotencyMiddleware.handle,
+      this.returnController.refundReturn
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { TaxRuleController } from '@/presentation/controllers/TaxRuleController';
+import { Container } from '@/infrastructure/container/Container';
+import { ValidationMiddleware } from '@/presentation/middlewares/ValidationMiddleware';
+import { AuthMiddleware } from '@/presentation/middlewares/AuthMiddleware';
+import { UserRole } from '@/business/domain/User';
+import {
+  CreateTaxRuleDTO,
+  UpdateTaxRuleDTO,
+  TaxRuleQueryDTO,
+  TaxRuleIdDTO,
+} from '@/presentation/dtos/TaxRuleDTO';
+
+export class TaxRuleRoutes {
+  public router: Router;
+  private taxRuleController: TaxRuleController;
+
+  constructor(private container: Container) {
+    this.router = Router();
+    this.taxRuleController = this.container.resolve<TaxRuleController>('TaxRuleController');
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // All tax rule routes require admin/moderator privileges
+    this.router.use(AuthMiddleware.authenticate);
+    this.router.use(AuthMiddleware.authorize([UserRole.ADMIN, UserRole.MODERATOR]));
+
+    // GET /api/v1/tax-rules - List tax rules with pagination
+    this.router.get(
+      '/',
+      ValidationMiddleware.validateQuery(TaxRuleQueryDTO),
+      this.taxRuleController.getAllTaxRules
+    );
+
+    // GET /api/v1/tax-rules/:id - Get a single tax rule
+    this.router.get(
+      '/:id',
+      ValidationMiddleware.validateParams(TaxRuleIdDTO),
+      this.taxRuleController.getTaxRuleById
+    );
+
+    // POST /api/v1/tax-rules - Create a tax rule
+    this.router.post(
+      '/',
+      ValidationMiddleware.validate(CreateTaxRuleDTO),
+      this.taxRuleController.createTaxRule
+    );
+
+    // PUT /api/v1/tax-rules/:id - Update a tax rule
+    this.router.put(
+      '/:id',
+      ValidationMiddleware.validateParams(TaxRuleIdDTO),
+      ValidationMiddleware.validate(UpdateTaxRuleDTO),
+      this.taxRuleController.updateTaxRule
+    );
+
+    // DELETE /api/v1/tax-rules/:id - Delete a tax rule
+    this.router.delete(
+      '/:id',
+      ValidationMiddleware.validateParams(TaxRuleIdDTO),
+      this.taxRuleController.deleteTaxRule
+    );
+  }
+}
@@ -19,6 +19,7 @@ export class UserRoutes {
     // Public routes
     this.router.post(
       '/',
+      AuthMiddleware.optionalGuest,
       ValidationMiddleware.validate(CreateUserDTO),
       this.userController.createUser
     );
@@ -0,0 +1,63 @@
+import { Router } from 'express';
+import { WishlistController } from '@/presentation/controllers/WishlistController';
+import { Container } from '@/infrastructure/container/Container';
+import { ValidationMiddleware } from '@/presentation/middlewares/ValidationMiddleware';
+import { AuthMiddleware } from '@/presentation/middlewares/AuthMiddleware';
+import {
+  AddWishlistItemDTO,
+  MoveToCartDTO,
+  MoveFromCartDTO,
+  WishlistProductParamDTO,
+} from '@/presentation/dtos/WishlistDTO';
+
+export class WishlistRoutes {
+  public router: Router;
+  private wishlistController: WishlistController;
+
+  constructor(private container: Container) {
+    this.router = Router();
+    this.wishlistController = this.container.resolve<WishlistController>('WishlistController');
+    this.setupRoutes();
+  }
+
+  private setupRoutes(): void {
+    // The wishlist belongs to an account, so guests can't use it
+    this.router.use(AuthMiddleware.authenticate);
+
+    // GET /api/v1/wishlist - List saved products with stock status and price difference
+    this.router.get(
+      '/',
+      this.wishlistController.getWishlist
+    );
+
+    // POST /api/v1/wishlist - Save a product
+    this.router.post(
+      '/',
+      ValidationMiddleware.validate(AddWishlistItemDTO),
+      this.wishlistController.addToWishlist
+    );
+
+    // POST /api/v1/wishlist/from-cart/:productId - Move a cart line to the wishlist (save for later)
+    this.router.post(
+      '/from-cart/:productId',
+      ValidationMiddleware.validateParams(WishlistProductParamDTO),
+      ValidationMiddleware.validate(MoveFromCartDTO),
+      this.wishlistController.moveFromCart
+    );
+
+    // POST /api/v1/wishlist/:productId/move-to-cart - Move a saved product into the cart
+    this.router.post(
+      '/:productId/move-to-cart',
+      ValidationMiddleware.validateParams(WishlistProductParamDTO),
+      ValidationMiddleware.validate(MoveToCartDTO),
+      this.wishlistController.moveToCart
+    );
+
+    // DELETE /api/v1/wishlist/:productId - Remove a saved product
+    this.router.delete(
+      '/:productId',
+      ValidationMiddleware.validateParams(WishlistProductParamDTO),
+      this.wishlistController.removeFromWishlist
+    );
+  }
+}
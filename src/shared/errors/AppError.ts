@@ -73,6 +73,15 @@ export class AppError extends Error {
     return new AppError(message, ErrorType.INTERNAL_SERVER_ERROR, 500, true, details);
   }
 
+  // Domain transitions throw plain errors; surface them as business rule violations
+  static applyTransition(transition: () => void): void {
+    try {
+      transition();
+    } catch (error) {
+      throw AppError.businessLogic(error instanceof Error ? error.message : String(error));
+    }
+  }
+
   // Convert to JSON for API responses
   toJSON(): object {
     return {
@@ -0,0 +1,7 @@
+// Runs before each test file
+
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-jwt-secret';
+
+// Keeps test output quiet and stops winston from writing to logs/
+jest.mock('@/shared/utils/Logger');
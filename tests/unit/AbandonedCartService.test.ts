@@ -0,0 +1,115 @@
+import { AbandonedCartService } from '@/business/services/AbandonedCartService';
+import { AbandonedCart } from '@/business/domain/AbandonedCart';
+import { Cart } from '@/business/domain/Cart';
+import { Product } from '@/business/domain/Product';
+import { Order, PaymentStatus } from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
+
+const idleSince = new Date('2026-06-15T08:00:00Z');
+
+const idleCart = (userId: string): Cart => {
+  const cart = new Cart({ id: userId, userId, updatedAt: new Date('2026-06-15T06:00:00Z') });
+  cart.addItem('product-1', 2, Money.fromMinor(2000));
+  return cart;
+};
+
+describe('AbandonedCartService', () => {
+  let carts: Cart[];
+  let abandonedCartRepository: {
+    findByUserAndCartVersion: jest.Mock;
+    create: jest.Mock;
+    update: jest.Mock;
+    findAwaitingRecovery: jest.Mock;
+  };
+  let orderRepository: { findRecentOrders: jest.Mock };
+  let userRepository: { findById: jest.Mock };
+  let couponService: { createCoupon: jest.Mock };
+  let notifier: { sendCartRecovery: jest.Mock };
+  let service: AbandonedCartService;
+
+  beforeEach(() => {
+    carts = [idleCart('user-1')];
+    abandonedCartRepository = {
+      findByUserAndCartVersion: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async (abandonedCart: AbandonedCart) => new AbandonedCart({ ...abandonedCart, id: 'abandoned-1' })),
+      update: jest.fn(),
+      findAwaitingRecovery: jest.fn().mockResolvedValue([]),
+    };
+    orderRepository = { findRecentOrders: jest.fn().mockResolvedValue([]) };
+    userRepository = {
+      findById: jest.fn(async (id: string) => ({ id, email: `${id}@example.com`, firstName: 'Ana', isActive: true })),
+    };
+    couponService = { createCoupon: jest.fn(async (data: { code: string }) => data) };
+    notifier = { sendCartRecovery: jest.fn() };
+    const cartService = {
+      findIdleCarts: jest.fn(async function* () {
+        yield* carts;
+      }),
+    };
+    const productRepository = {
+      findById: jest.fn().mockResolvedValue(new Product({ id: 'product-1', name: 'Camiseta', price: Money.fromMinor(2000) })),
+    };
+
+    service = new AbandonedCartService(
+      abandonedCartRepository as never,
+      orderRepository as never,
+      userRepository as never,
+      productRepository as never,
+      cartService as never,
+      couponService as never,
+      notifier as never,
+      { couponPercentOff: 10, couponValidDays: 3, recoveryWindowDays: 7 }
+    );
+  });
+
+  describe('processIdleCarts', () => {
+    it('records the idle cart and sends the reminder with a one-time coupon', async () => {
+      const result = await service.processIdleCarts(idleSince);
+
+      expect(result).toMatchObject({ detected: 1, notified: 1, failed: [] });
+      expect(couponService.createCoupon).toHaveBeenCalledWith(expect.objectContaining({ value: 10, maxUses: 1, maxUsesPerUser: 1 }));
+      expect(notifier.sendCartRecovery).toHaveBeenCalledWith(expect.objectContaining({
+        email: 'user-1@example.com',
+        items: [{ productId: 'product-1', productName: 'Camiseta', quantity: 2, unitPrice: Money.fromMinor(2000) }],
+        couponCode: expect.stringMatching(/^BACK-/),
+      }));
+      expect(abandonedCartRepository.update)
+        .toHaveBeenCalledWith('abandoned-1', expect.objectContaining({ notifiedAt: expect.any(Date) }));
+    });
+
+    it('does not notify the same idle cart twice', async () => {
+      abandonedCartRepository.findByUserAndCartVersion.mockResolvedValue(new AbandonedCart({ id: 'abandoned-1' }));
+
+      const result = await service.processIdleCarts(idleSince);
+
+      expect(result.detected).toBe(0);
+      expect(notifier.sendCartRecovery).not.toHaveBeenCalled();
+    });
+
+    it('reports carts whose reminder fails and goes on with the rest', async () => {
+      carts = [idleCart('user-1'), idleCart('user-2')];
+      notifier.sendCartRecovery.mockRejectedValueOnce(new Error('SMTP unavailable'));
+
+      const result = await service.processIdleCarts(idleSince);
+
+      expect(result.notified).toBe(1);
+      expect(result.failed).toEqual([{ userId: 'user-1', error: 'SMTP unavailable' }]);
+    });
+
+    it('credits a notified cart with the first paid order placed after the email', async () => {
+      const notified = new AbandonedCart({ id: 'abandoned-0', userId: 'user-3', notifiedAt: new Date('2026-06-14T10:00:00Z') });
+      abandonedCartRepository.findAwaitingRecovery.mockResolvedValue([notified]);
+      orderRepository.findRecentOrders.mockResolvedValue([
+        new Order({ id: 'order-2', paymentStatus: PaymentStatus.PAID, total: Money.fromMinor(9000), createdAt: new Date('2026-06-15T09:00:00Z') }),
+        new Order({ id: 'order-1', paymentStatus: PaymentStatus.PAID, total: Money.fromMinor(4000), createdAt: new Date('2026-06-14T11:00:00Z') }),
+        new Order({ id: 'order-0', paymentStatus: PaymentStatus.PAID, total: Money.fromMinor(1000), createdAt: new Date('2026-06-13T11:00:00Z') }),
+      ]);
+
+      const result = await service.processIdleCarts(idleSince);
+
+      expect(result.recovered).toBe(1);
+      expect(notified.recoveredOrderId).toBe('order-1');
+      expect(notified.recoveredTotal?.amount).toBe(4000);
+    });
+  });
+});
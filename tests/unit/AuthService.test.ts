@@ -0,0 +1,86 @@
+import { RedisClientType } from 'redis';
+import jwt from 'jsonwebtoken';
+import { Request, Response, NextFunction } from 'express';
+import { AuthService, GuestTokenPayload } from '@/business/services/AuthService';
+import { IUserRepository } from '@/business/interfaces/IUserRepository';
+import { AuthMiddleware } from '@/presentation/middlewares/AuthMiddleware';
+
+const createResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  return res;
+};
+
+const createRequest = (headers: Record<string, string>): Request => ({
+  header: (name: string) => headers[name],
+  headers: Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])),
+} as unknown as Request);
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  beforeEach(() => {
+    service = new AuthService({} as IUserRepository, {} as RedisClientType);
+  });
+
+  describe('createGuestSession', () => {
+    it('signs a guest token that carries the guest id and no user', () => {
+      const session = service.createGuestSession();
+      const decoded = jwt.verify(session.guestToken, process.env.JWT_SECRET!) as GuestTokenPayload & { id?: string };
+
+      expect(decoded.guestId).toBe(session.guestId);
+      expect(decoded.type).toBe('guest');
+      expect(decoded.id).toBeUndefined();
+    });
+
+    it('gives each session its own guest id', () => {
+      expect(service.createGuestSession().guestId).not.toBe(service.createGuestSession().guestId);
+    });
+  });
+});
+
+describe('AuthMiddleware guest tokens', () => {
+  let guestToken: string;
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    guestToken = new AuthService({} as IUserRepository, {} as RedisClientType).createGuestSession().guestToken;
+    next = jest.fn();
+  });
+
+  it('does not accept a guest token as a user access token', () => {
+    const res = createResponse();
+
+    AuthMiddleware.authenticate(
+      createRequest({ Authorization: `Bearer ${guestToken}` }),
+      res as unknown as Response,
+      next as NextFunction
+    );
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('identifies the guest from the X-Guest-Token header', () => {
+    const req = createRequest({ 'X-Guest-Token': guestToken });
+
+    AuthMiddleware.authenticateOrGuest(req, createResponse() as unknown as Response, next as NextFunction);
+
+    expect(req.guest?.id).toEqual(expect.any(String));
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('does not accept a user access token as a guest token', () => {
+    const userToken = jwt.sign({ id: 'user-1', email: 'ana@example.com', role: 'USER', isActive: true }, process.env.JWT_SECRET!);
+    const res = createResponse();
+
+    AuthMiddleware.authenticateOrGuest(
+      createRequest({ 'X-Guest-Token': userToken }),
+      res as unknown as Response,
+      next as NextFunction
+    );
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,270 @@
+import { RedisClientType } from 'redis';
+import { CartService } from '@/business/services/CartService';
+import { ShippingService } from '@/business/services/ShippingService';
+import { FlatRateShippingStrategy } from '@/infrastructure/shipping/FlatRateShippingStrategy';
+import { Cart, CartItemIssue } from '@/business/domain/Cart';
+import { Product } from '@/business/domain/Product';
+import { Money } from '@/business/domain/Money';
+
+const address = { street: 'Rua A, 100', city: 'São Paulo', state: 'SP', zipCode: '01000-000', country: 'BR' };
+
+const buildProduct = (overrides: Partial<Product> = {}): Product => new Product({
+  id: 'product-1',
+  name: 'Camiseta',
+  sku: 'CAM-1',
+  price: Money.fromMinor(2000),
+  stock: 10,
+  weight: 0.2,
+  categoryId: 'clothing',
+  isActive: true,
+  ...overrides,
+});
+
+const cartWith = (quantity: number, price: number): Cart => {
+  const cart = new Cart({ id: 'cart-1', userId: 'user-1' });
+  cart.addItem('product-1', quantity, Money.fromMinor(price));
+  return cart;
+};
+
+describe('CartService', () => {
+  let product: Product;
+  let storedCart: Cart | null;
+  let cartRepository: { findByUserId: jest.Mock; save: jest.Mock; delete: jest.Mock };
+  let couponService: { evaluateCoupon: jest.Mock };
+  let stockHoldService: {
+    getAvailableStock: jest.Mock;
+    getHoldExpiries: jest.Mock;
+    holdStock: jest.Mock;
+    releaseHold: jest.Mock;
+    releaseHolds: jest.Mock;
+  };
+  let redis: { get: jest.Mock; setEx: jest.Mock; del: jest.Mock };
+  let service: CartService;
+
+  beforeEach(() => {
+    product = buildProduct();
+    storedCart = null;
+    cartRepository = {
+      findByUserId: jest.fn(async () => storedCart),
+      save: jest.fn(async (cart: Cart) => new Cart({ ...cart, id: 'cart-1' })),
+      delete: jest.fn(),
+    };
+    couponService = { evaluateCoupon: jest.fn() };
+    stockHoldService = {
+      getAvailableStock: jest.fn(async (sellable: { stock: number }) => sellable.stock),
+      getHoldExpiries: jest.fn().mockResolvedValue(new Map()),
+      holdStock: jest.fn(),
+      releaseHold: jest.fn(),
+      releaseHolds: jest.fn(),
+    };
+    redis = { get: jest.fn().mockResolvedValue(null), setEx: jest.fn(), del: jest.fn() };
+
+    const taxService = {
+      calculateLineTaxes: jest.fn(async (_address: unknown, lines: Array<{ amount: Money }>) =>
+        lines.map(line => ({ taxRate: 0.18, taxAmount: line.amount.multiply(0.18), taxRuleId: 'sp' }))
+      ),
+      estimateLineTaxes: jest.fn((lines: Array<{ amount: Money }>) =>
+        lines.map(line => ({ taxRate: 0.1, taxAmount: line.amount.multiply(0.1), taxRuleId: null }))
+      ),
+    };
+    const shippingService = new ShippingService([
+      new FlatRateShippingStrategy({ method: 'standard', name: 'Padrão', price: 15, estimatedDays: 7 }),
+      new FlatRateShippingStrategy({ method: 'express', name: 'Expressa', price: 40, estimatedDays: 2 }),
+    ]);
+
+    service = new CartService(
+      { findById: jest.fn(async () => product) } as never,
+      { findById: jest.fn(async (id: string) => ({ id, isActive: true })) } as never,
+      cartRepository as never,
+      couponService as never,
+      stockHoldService as never,
+      taxService as never,
+      shippingService,
+      redis as unknown as RedisClientType
+    );
+  });
+
+  describe('getCartSummary', () => {
+    it('estimates taxes at the default rate and leaves shipping out without an address', async () => {
+      storedCart = cartWith(2, 2000);
+
+      const summary = await service.getCartSummary('user-1');
+
+      expect(summary.estimatedTaxes.amount).toBe(400);
+      expect(summary.estimatedShipping).toBeNull();
+      expect(summary.estimatedTotal.amount).toBe(4400);
+      expect(summary.items[0]).not.toHaveProperty('categoryId');
+    });
+
+    it('uses the destination rules and the cheapest shipping option with an address', async () => {
+      storedCart = cartWith(2, 2000);
+
+      const summary = await service.getCartSummary('user-1', address);
+
+      expect(summary.estimatedTaxes.amount).toBe(720);
+      expect(summary.estimatedShipping?.amount).toBe(1500);
+      expect(summary.estimatedTotal.amount).toBe(6220);
+    });
+
+    it('taxes and totals the amounts left after the coupon', async () => {
+      storedCart = cartWith(2, 2000);
+      storedCart.applyCoupon('SAVE10');
+      couponService.evaluateCoupon.mockResolvedValue({
+        coupon: { code: 'SAVE10', description: '10 off' },
+        lineDiscounts: [{ productId: 'product-1', variantId: null, amount: Money.fromMinor(1000) }],
+      });
+
+      const summary = await service.getCartSummary('user-1');
+
+      expect(summary.discountTotal.amount).toBe(1000);
+      expect(summary.estimatedTaxes.amount).toBe(300);
+      expect(summary.estimatedTotal.amount).toBe(3300);
+    });
+
+    it('keeps the full price and reports why when the coupon no longer applies', async () => {
+      storedCart = cartWith(2, 2000);
+      storedCart.applyCoupon('SAVE10');
+      couponService.evaluateCoupon.mockRejectedValue(new Error('Coupon has expired'));
+
+      const summary = await service.getCartSummary('user-1');
+
+      expect(summary.discountTotal.amount).toBe(0);
+      expect(summary.couponError).toBe('Coupon has expired');
+      expect(summary.estimatedTotal.amount).toBe(4400);
+    });
+
+    it('returns an empty summary for an empty cart', async () => {
+      const summary = await service.getCartSummary('user-1');
+
+      expect(summary).toMatchObject({ itemCount: 0, estimatedTaxes: Money.zero(), estimatedShipping: null, items: [] });
+    });
+  });
+
+  describe('quoteShipping', () => {
+    it('lists every option for the cart, cheapest first', async () => {
+      storedCart = cartWith(1, 2000);
+
+      const options = await service.quoteShipping('user-1', address);
+
+      expect(options.map(option => option.method)).toEqual(['standard', 'express']);
+    });
+
+    it('refuses to quote an empty cart', async () => {
+      await expect(service.quoteShipping('user-1', address)).rejects.toThrow('Cart is empty');
+    });
+  });
+
+  describe('getCartChanges', () => {
+    it('flags lines whose price or stock changed since they were added', async () => {
+      storedCart = cartWith(3, 1800);
+      stockHoldService.getAvailableStock.mockResolvedValue(2);
+
+      const [change] = await service.getCartChanges('user-1');
+
+      expect(change).toMatchObject({
+        productId: 'product-1',
+        cartPrice: Money.fromMinor(1800),
+        currentPrice: Money.fromMinor(2000),
+        availableStock: 2,
+        issues: [CartItemIssue.PRICE_INCREASED, CartItemIssue.INSUFFICIENT_STOCK],
+      });
+    });
+
+    it('flags lines whose product is no longer sold', async () => {
+      storedCart = cartWith(1, 2000);
+      product = buildProduct({ isActive: false });
+
+      const [change] = await service.getCartChanges('user-1');
+
+      expect(change?.issues).toEqual([CartItemIssue.PRODUCT_UNAVAILABLE]);
+    });
+
+    it('reports nothing for an unchanged cart', async () => {
+      storedCart = cartWith(1, 2000);
+
+      await expect(service.getCartChanges('user-1')).resolves.toEqual([]);
+    });
+  });
+
+  describe('acceptCartChanges', () => {
+    it('reprices lines and shrinks them to the stock left', async () => {
+      storedCart = cartWith(3, 1800);
+      stockHoldService.getAvailableStock.mockResolvedValue(2);
+
+      await service.acceptCartChanges('user-1');
+
+      const saved: Cart = cartRepository.save.mock.calls[0]![0];
+      expect(saved.items).toEqual([expect.objectContaining({ quantity: 2, price: Money.fromMinor(2000) })]);
+      expect(stockHoldService.holdStock).toHaveBeenCalledWith('user-1', expect.objectContaining({ id: 'product-1' }), 2);
+    });
+
+    it('drops lines whose product is no longer sold and releases their holds', async () => {
+      storedCart = cartWith(1, 2000);
+      product = buildProduct({ isActive: false });
+
+      await service.acceptCartChanges('user-1');
+
+      expect(cartRepository.save.mock.calls[0]![0].items).toEqual([]);
+      expect(stockHoldService.releaseHolds).toHaveBeenCalledWith('user-1', ['product-1']);
+    });
+  });
+
+  describe('stock holds', () => {
+    it('holds the whole line quantity when an item is added', async () => {
+      storedCart = cartWith(1, 2000);
+
+      await service.addItemToCart('user-1', 'product-1', 2);
+
+      expect(stockHoldService.holdStock).toHaveBeenCalledWith('user-1', expect.objectContaining({ id: 'product-1' }), 3);
+    });
+
+    it('releases the hold when the line is removed', async () => {
+      storedCart = cartWith(1, 2000);
+
+      await service.removeItemFromCart('user-1', 'product-1');
+
+      expect(stockHoldService.releaseHold).toHaveBeenCalledWith('user-1', 'product-1');
+    });
+
+    it('adds nothing to the cart when the hold is refused', async () => {
+      storedCart = cartWith(1, 2000);
+      stockHoldService.holdStock.mockRejectedValue(new Error('Insufficient stock. Available: 1, Requested: 2'));
+
+      await expect(service.addItemToCart('user-1', 'product-1', 2)).rejects.toThrow('Insufficient stock');
+      expect(cartRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('storage', () => {
+    it('reads the stored cart when the cache has none and warms the cache with it', async () => {
+      storedCart = cartWith(1, 2000);
+
+      const cart = await service.getCartByUserId('user-1');
+
+      expect(cart.itemCount).toBe(1);
+      expect(redis.setEx).toHaveBeenCalledWith('cart:user-1', 86400, expect.any(String));
+    });
+
+    it('keeps carts readable while the cache is down', async () => {
+      storedCart = cartWith(1, 2000);
+      redis.get.mockRejectedValue(new Error('Redis unavailable'));
+      redis.setEx.mockRejectedValue(new Error('Redis unavailable'));
+
+      await expect(service.getCartByUserId('user-1')).resolves.toMatchObject({ itemCount: 1 });
+    });
+
+    it('writes the cart to the database before caching it', async () => {
+      await service.addItemToCart('user-1', 'product-1', 1);
+
+      expect(cartRepository.save).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user-1', itemCount: 1 }));
+      expect(cartRepository.save.mock.invocationCallOrder[0]!).toBeLessThan(redis.setEx.mock.invocationCallOrder[0]!);
+    });
+
+    it('does not write to the cache when the database write fails', async () => {
+      cartRepository.save.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(service.addItemToCart('user-1', 'product-1', 1)).rejects.toThrow('Database unavailable');
+      expect(redis.setEx).not.toHaveBeenCalled();
+    });
+  });
+});
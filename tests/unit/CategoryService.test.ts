@@ -0,0 +1,98 @@
+import { CategoryService } from '@/business/services/CategoryService';
+import { ICategoryRepository } from '@/business/interfaces/ICategoryRepository';
+import { Category } from '@/business/domain/Category';
+
+const categories = [
+  new Category({ id: 'clothing', name: 'Roupas' }),
+  new Category({ id: 'shirts', name: 'Camisetas', parentId: 'clothing' }),
+  new Category({ id: 'polo', name: 'Polo', parentId: 'shirts' }),
+  new Category({ id: 'vintage', name: 'Vintage', parentId: 'clothing', isActive: false }),
+  new Category({ id: 'vintage-shirts', name: 'Camisetas vintage', parentId: 'vintage' }),
+];
+
+describe('CategoryService', () => {
+  let categoryRepository: {
+    findAll: jest.Mock;
+    findById: jest.Mock;
+    findBySlug: jest.Mock;
+    create: jest.Mock;
+    update: jest.Mock;
+    delete: jest.Mock;
+    countChildren: jest.Mock;
+    countProducts: jest.Mock;
+  };
+  let service: CategoryService;
+
+  beforeEach(() => {
+    categoryRepository = {
+      findAll: jest.fn().mockResolvedValue(categories),
+      findById: jest.fn(async (id: string) => categories.find(category => category.id === id) ?? null),
+      findBySlug: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async (category: Category) => category),
+      update: jest.fn(async (id: string, data: Partial<Category>) => new Category({ id, ...data })),
+      delete: jest.fn(),
+      countChildren: jest.fn().mockResolvedValue(0),
+      countProducts: jest.fn().mockResolvedValue(0),
+    };
+    service = new CategoryService(categoryRepository as unknown as ICategoryRepository);
+  });
+
+  describe('getCategoryTree', () => {
+    it('nests categories and leaves out inactive ones with everything below them', async () => {
+      const tree = await service.getCategoryTree();
+
+      expect(tree).toEqual([expect.objectContaining({
+        id: 'clothing',
+        children: [expect.objectContaining({
+          id: 'shirts',
+          children: [expect.objectContaining({ id: 'polo', children: [] })],
+        })],
+      })]);
+    });
+
+    it('includes inactive categories when asked', async () => {
+      const [clothing] = await service.getCategoryTree(true);
+
+      expect(clothing?.children.map(child => child.id)).toEqual(['shirts', 'vintage']);
+    });
+  });
+
+  describe('getDescendantIds', () => {
+    it('lists the category and its active descendants', async () => {
+      await expect(service.getDescendantIds('clothing')).resolves.toEqual(['clothing', 'shirts', 'polo']);
+    });
+  });
+
+  describe('createCategory', () => {
+    it('derives the slug from the name', async () => {
+      const created = await service.createCategory({ name: 'Periféricos & Acessórios' });
+
+      expect(created.slug).toBe('perifericos-acessorios');
+    });
+
+    it('rejects a slug that is already taken', async () => {
+      categoryRepository.findBySlug.mockResolvedValue(categories[0]);
+
+      await expect(service.createCategory({ name: 'Roupas' })).rejects.toThrow('Category with this slug already exists');
+    });
+  });
+
+  describe('updateCategory', () => {
+    it('refuses to move a category under one of its descendants', async () => {
+      await expect(service.updateCategory('clothing', { parentId: 'polo' }))
+        .rejects.toThrow('Category cannot be moved under one of its descendants');
+      expect(categoryRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteCategory', () => {
+    it('refuses categories that still have subcategories or products', async () => {
+      categoryRepository.countChildren.mockResolvedValue(1);
+      categoryRepository.countProducts.mockResolvedValue(3);
+
+      await expect(service.deleteCategory('shirts'))
+        .rejects.toThrow('Category has 1 subcategories and 3 products and cannot be deleted');
+      expect(categoryRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { Coupon, CouponType, DiscountableLine } from '@/business/domain/Coupon';
+import { Money } from '@/business/domain/Money';
+
+const line = (productId: string, categoryId: string, quantity: number, unitPrice: number): DiscountableLine => ({
+  productId,
+  categoryId,
+  quantity,
+  unitPrice: Money.fromMinor(unitPrice),
+  subtotal: Money.fromMinor(unitPrice * quantity),
+});
+
+const now = new Date('2026-06-15T12:00:00Z');
+
+describe('Coupon', () => {
+  describe('getIneligibilityReason', () => {
+    const lines = [line('p1', 'books', 2, 1500), line('p2', 'games', 1, 4000)];
+
+    it('accepts a coupon within all of its limits', () => {
+      const coupon = new Coupon({ code: 'SAVE10', value: 10, maxUses: 5, usesCount: 4, maxUsesPerUser: 2 });
+
+      expect(coupon.getIneligibilityReason(lines, 1, now)).toBeNull();
+    });
+
+    it('rejects inactive coupons', () => {
+      const coupon = new Coupon({ code: 'SAVE10', value: 10, isActive: false });
+
+      expect(coupon.getIneligibilityReason(lines, 0, now)).toBe('Coupon is not active');
+    });
+
+    it('rejects coupons outside their validity window', () => {
+      const upcoming = new Coupon({ code: 'SAVE10', value: 10, startsAt: new Date('2026-07-01T00:00:00Z') });
+      const expired = new Coupon({ code: 'SAVE10', value: 10, endsAt: new Date('2026-06-01T00:00:00Z') });
+
+      expect(upcoming.getIneligibilityReason(lines, 0, now)).toBe('Coupon is not yet valid');
+      expect(expired.getIneligibilityReason(lines, 0, now)).toBe('Coupon has expired');
+    });
+
+    it('rejects coupons that reached their total usage limit', () => {
+      const coupon = new Coupon({ code: 'SAVE10', value: 10, maxUses: 5, usesCount: 5 });
+
+      expect(coupon.hasUsesRemaining()).toBe(false);
+      expect(coupon.getIneligibilityReason(lines, 0, now)).toBe('Coupon usage limit reached');
+    });
+
+    it('rejects coupons the user already redeemed the maximum number of times', () => {
+      const coupon = new Coupon({ code: 'SAVE10', value: 10, maxUsesPerUser: 1 });
+
+      expect(coupon.getIneligibilityReason(lines, 1, now)).toBe('Coupon already used the maximum number of times');
+    });
+
+    it('rejects carts below the minimum subtotal', () => {
+      const coupon = new Coupon({ code: 'SAVE10', value: 10, minSubtotal: Money.fromMinor(10000) });
+
+      expect(coupon.getIneligibilityReason(lines, 0, now)).toBe('Coupon requires a minimum subtotal of 100.00');
+    });
+
+    it('rejects carts without an item in the coupon category', () => {
+      const coupon = new Coupon({ code: 'SAVE10', value: 10, categoryId: 'toys' });
+
+      expect(coupon.getIneligibilityReason(lines, 0, now)).toBe('Coupon does not apply to any item in the cart');
+    });
+  });
+
+  describe('calculateLineDiscounts', () => {
+    it('applies percentage discounts to eligible lines only', () => {
+      const coupon = new Coupon({ code: 'BOOKS20', type: CouponType.PERCENTAGE, value: 20, categoryId: 'books' });
+      const discounts = coupon.calculateLineDiscounts([line('p1', 'books', 3, 999), line('p2', 'games', 1, 4000)]);
+
+      expect(discounts).toHaveLength(1);
+      expect(discounts[0]!.productId).toBe('p1');
+      expect(discounts[0]!.amount.amount).toBe(599);
+    });
+
+    it('splits fixed discounts across lines without losing cents', () => {
+      const coupon = new Coupon({ code: 'TENOFF', type: CouponType.FIXED_AMOUNT, value: 10 });
+      const discounts = coupon.calculateLineDiscounts([
+        line('p1', 'books', 1, 1000),
+        line('p2', 'books', 1, 1000),
+        line('p3', 'books', 1, 1000),
+      ]);
+
+      expect(discounts.map(discount => discount.amount.amount)).toEqual([334, 333, 333]);
+    });
+
+    it('never discounts more than the eligible subtotal', () => {
+      const coupon = new Coupon({ code: 'FIFTYOFF', type: CouponType.FIXED_AMOUNT, value: 50 });
+
+      expect(coupon.calculateDiscount([line('p1', 'books', 1, 1250)]).amount).toBe(1250);
+    });
+  });
+});
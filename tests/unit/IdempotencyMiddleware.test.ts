@@ -0,0 +1,173 @@
+import { Request, Response, NextFunction } from 'express';
+import { RedisClientType } from 'redis';
+import { IdempotencyMiddleware } from '@/presentation/middlewares/IdempotencyMiddleware';
+import { RedisConnection } from '@/infrastructure/cache/RedisConnection';
+
+const createRequest = (overrides: Record<string, unknown> = {}, key: string | null = 'key-1'): Request => ({
+  method: 'POST',
+  baseUrl: '/api/v1/orders',
+  path: '/',
+  body: { items: [{ productId: 'product-1', quantity: 1 }] },
+  user: { id: 'user-1' },
+  header: (name: string) => (name.toLowerCase() === 'idempotency-key' ? key ?? undefined : undefined),
+  ...overrides,
+} as unknown as Request);
+
+interface FakeResponse {
+  statusCode: number;
+  status: jest.Mock<FakeResponse, [number]>;
+  json: jest.Mock<FakeResponse, [unknown]>;
+  setHeader: jest.Mock;
+  on: jest.Mock<FakeResponse, [string, () => void]>;
+}
+
+const createResponse = () => {
+  const listeners: Record<string, () => void> = {};
+  const res: FakeResponse = {
+    statusCode: 200,
+    status: jest.fn((code: number) => {
+      res.statusCode = code;
+      return res;
+    }),
+    json: jest.fn((_body: unknown) => res),
+    setHeader: jest.fn(),
+    on: jest.fn((event: string, listener: () => void) => {
+      listeners[event] = listener;
+      return res;
+    }),
+  };
+  return { res, listeners };
+};
+
+describe('IdempotencyMiddleware', () => {
+  let redis: { set: jest.Mock; get: jest.Mock; del: jest.Mock };
+  let next: jest.Mock;
+
+  beforeEach(() => {
+    redis = {
+      set: jest.fn().mockResolvedValue('OK'),
+      get: jest.fn().mockResolvedValue(null),
+      del: jest.fn().mockResolvedValue(1),
+    };
+    next = jest.fn();
+    jest.spyOn(RedisConnection, 'getInstance').mockReturnValue(redis as unknown as RedisClientType);
+  });
+
+  const handle = (req: Request, res: ReturnType<typeof createResponse>['res']) =>
+    IdempotencyMiddleware.handle(req, res as unknown as Response, next as NextFunction);
+
+  it('lets requests without the header through untouched', async () => {
+    const { res } = createResponse();
+
+    await handle(createRequest({}, null), res);
+
+    expect(next).toHaveBeenCalled();
+    expect(redis.set).not.toHaveBeenCalled();
+  });
+
+  it('rejects empty keys', async () => {
+    const { res } = createResponse();
+
+    await handle(createRequest({}, '  '), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('claims the key per user and stores the response once it is sent', async () => {
+    const { res } = createResponse();
+
+    await handle(createRequest(), res);
+    res.status(201);
+    res.json({ data: { id: 'order-1' } });
+
+    expect(next).toHaveBeenCalled();
+    expect(redis.set).toHaveBeenNthCalledWith(
+      1,
+      'idempotency:user-1:key-1',
+      expect.stringContaining('"state":"processing"'),
+      { NX: true, EX: 86400 }
+    );
+    const stored = JSON.parse(redis.set.mock.calls[1][1]);
+    expect(stored).toMatchObject({ state: 'completed', statusCode: 201, body: { data: { id: 'order-1' } } });
+  });
+
+  it('scopes guest keys to the guest id', async () => {
+    const { res } = createResponse();
+
+    await handle(createRequest({ user: undefined, guest: { id: 'guest-1' } }), res);
+
+    expect(redis.set.mock.calls[0][0]).toBe('idempotency:guest:guest-1:key-1');
+  });
+
+  it('answers 409 while the first request is still being processed', async () => {
+    const { res: first } = createResponse();
+    await handle(createRequest(), first);
+    const processing = redis.set.mock.calls[0][1];
+
+    redis.set.mockResolvedValue(null);
+    redis.get.mockResolvedValue(processing);
+    next.mockClear();
+    const { res } = createResponse();
+
+    await handle(createRequest(), res);
+
+    expect(res.status).toHaveBeenCalledWith(409);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('replays the stored response on a retry', async () => {
+    const { res: first } = createResponse();
+    await handle(createRequest(), first);
+    first.status(201);
+    first.json({ data: { id: 'order-1' } });
+    const completed = redis.set.mock.calls[1][1];
+
+    redis.set.mockResolvedValue(null);
+    redis.get.mockResolvedValue(completed);
+    next.mockClear();
+    const { res } = createResponse();
+
+    await handle(createRequest(), res);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.setHeader).toHaveBeenCalledWith('Idempotent-Replayed', 'true');
+    expect(res.status).toHaveBeenCalledWith(201);
+    expect(res.json).toHaveBeenCalledWith({ data: { id: 'order-1' } });
+  });
+
+  it('refuses to reuse a key for a different request', async () => {
+    const { res: first } = createResponse();
+    await handle(createRequest(), first);
+    const processing = redis.set.mock.calls[0][1];
+
+    redis.set.mockResolvedValue(null);
+    redis.get.mockResolvedValue(processing);
+    const { res } = createResponse();
+
+    await handle(createRequest({ body: { items: [{ productId: 'product-2', quantity: 1 }] } }), res);
+
+    expect(res.status).toHaveBeenCalledWith(422);
+  });
+
+  it('releases the key when the handler fails with a server error', async () => {
+    const { res, listeners } = createResponse();
+
+    await handle(createRequest(), res);
+    res.status(500);
+    res.json({ error: 'Internal server error' });
+    listeners.close!();
+
+    expect(redis.set).toHaveBeenCalledTimes(1);
+    expect(redis.del).toHaveBeenCalledWith('idempotency:user-1:key-1');
+  });
+
+  it('processes the request without idempotency when the cache is down', async () => {
+    redis.set.mockRejectedValue(new Error('Connection refused'));
+    const { res } = createResponse();
+
+    await handle(createRequest(), res);
+
+    expect(next).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,58 @@
+import { Money } from '@/business/domain/Money';
+
+describe('Money', () => {
+  describe('fromDecimal', () => {
+    it('stores amounts as integer cents', () => {
+      expect(Money.fromDecimal(29.99).amount).toBe(2999);
+      expect(Money.fromDecimal(0.1 + 0.2).amount).toBe(30);
+    });
+
+    it('rounds half away from zero despite binary float error', () => {
+      expect(Money.fromDecimal(1.005).amount).toBe(101);
+      expect(Money.fromDecimal(2.675).amount).toBe(268);
+      expect(Money.fromDecimal(-1.005).amount).toBe(-101);
+    });
+
+    it('rejects amounts that are not whole cents', () => {
+      expect(() => Money.fromMinor(10.5)).toThrow('integer number of minor units');
+    });
+  });
+
+  describe('multiply', () => {
+    it('rounds the result to whole cents', () => {
+      expect(Money.fromMinor(1999).multiply(0.1).amount).toBe(200);
+      expect(Money.fromMinor(5).multiply(0.5).amount).toBe(3);
+      expect(Money.fromMinor(-5).multiply(0.5).amount).toBe(-3);
+    });
+  });
+
+  describe('allocate', () => {
+    it('splits without losing or creating cents', () => {
+      const parts = Money.fromMinor(1000).allocate([1, 1, 1]);
+
+      expect(parts.map(part => part.amount)).toEqual([334, 333, 333]);
+      expect(Money.sum(parts).amount).toBe(1000);
+    });
+
+    it('follows the weights and skips zero-weight parts for the remainder', () => {
+      const parts = Money.fromMinor(101).allocate([0, 3, 1]);
+
+      expect(parts.map(part => part.amount)).toEqual([0, 76, 25]);
+    });
+
+    it('returns zeros when there is nothing to weigh by', () => {
+      expect(Money.fromMinor(500).allocate([0, 0]).map(part => part.amount)).toEqual([0, 0]);
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('refuses to mix currencies', () => {
+      expect(() => Money.fromMinor(100, 'BRL').add(Money.fromMinor(100, 'USD'))).toThrow('Currency mismatch');
+    });
+
+    it('serializes to a decimal number', () => {
+      expect(JSON.stringify({ total: Money.fromMinor(12345) })).toBe('{"total":123.45}');
+      expect(Money.from(123.45).equals(Money.fromMinor(12345))).toBe(true);
+    });
+  });
+});
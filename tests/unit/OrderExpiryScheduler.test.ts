@@ -0,0 +1,83 @@
+import { RedisClientType } from 'redis';
+import { OrderExpiryScheduler } from '@/infrastructure/scheduler/OrderExpiryScheduler';
+import { OrderService } from '@/business/services/OrderService';
+
+const now = new Date('2026-06-15T12:00:00Z');
+
+describe('OrderExpiryScheduler', () => {
+  let orderService: { expirePendingOrders: jest.Mock; getExpiredPendingOrders: jest.Mock };
+  let redis: { set: jest.Mock; eval: jest.Mock };
+  let scheduler: OrderExpiryScheduler;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now, doNotFake: ['nextTick', 'setImmediate'] });
+    orderService = {
+      expirePendingOrders: jest.fn(async (cutoff: Date) => ({ cutoff, expired: ['ORD-1'], skipped: [], failed: [] })),
+      getExpiredPendingOrders: jest.fn().mockResolvedValue([]),
+    };
+    redis = { set: jest.fn().mockResolvedValue('OK'), eval: jest.fn() };
+
+    scheduler = new OrderExpiryScheduler(
+      orderService as unknown as OrderService,
+      redis as unknown as RedisClientType,
+      { ttlMinutes: 30, intervalMs: 60000, batchSize: 50 }
+    );
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  describe('runOnce', () => {
+    it('expires orders older than the ttl while holding the lock', async () => {
+      const result = await scheduler.runOnce();
+
+      expect(result?.expired).toEqual(['ORD-1']);
+      expect(orderService.expirePendingOrders).toHaveBeenCalledWith(new Date('2026-06-15T11:30:00Z'), 50);
+      expect(redis.set).toHaveBeenCalledWith('order-expiry:lock', expect.any(String), { NX: true, EX: 60 });
+    });
+
+    it('releases the lock only if it still holds its own token', async () => {
+      await scheduler.runOnce();
+
+      const token = redis.set.mock.calls[0]![1];
+      expect(redis.eval).toHaveBeenCalledWith(expect.stringContaining('GET'), {
+        keys: ['order-expiry:lock'],
+        arguments: [token],
+      });
+    });
+
+    it('uses a new token for every run', async () => {
+      await scheduler.runOnce();
+      await scheduler.runOnce();
+
+      expect(redis.set.mock.calls[0]![1]).not.toBe(redis.set.mock.calls[1]![1]);
+    });
+
+    it('skips the run while another instance holds the lock', async () => {
+      redis.set.mockResolvedValue(null);
+
+      await expect(scheduler.runOnce()).resolves.toBeNull();
+      expect(orderService.expirePendingOrders).not.toHaveBeenCalled();
+      expect(redis.eval).not.toHaveBeenCalled();
+    });
+
+    it('releases the lock when the run fails', async () => {
+      orderService.expirePendingOrders.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(scheduler.runOnce()).rejects.toThrow('Database unavailable');
+      expect(redis.eval).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('start', () => {
+    it('runs on every interval', async () => {
+      scheduler.start();
+
+      await jest.advanceTimersByTimeAsync(120000);
+
+      expect(orderService.expirePendingOrders).toHaveBeenCalledTimes(2);
+    });
+  });
+});
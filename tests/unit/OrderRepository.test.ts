@@ -0,0 +1,277 @@
+import { PrismaClient } from '@prisma/client';
+import { OrderRepository } from '@/data/repositories/OrderRepository';
+import { Order, OrderItem, OrderStatus, PaymentStatus } from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
+
+const createTx = () => ({
+  order: {
+    create: jest.fn(),
+    updateMany: jest.fn(),
+    findUnique: jest.fn(),
+    findUniqueOrThrow: jest.fn(),
+  },
+  product: {
+    updateMany: jest.fn(),
+    findUnique: jest.fn(),
+  },
+  productVariant: {
+    updateMany: jest.fn(),
+    findUnique: jest.fn(),
+  },
+  coupon: {
+    findUnique: jest.fn(),
+    updateMany: jest.fn(),
+  },
+  couponRedemption: {
+    count: jest.fn(),
+    create: jest.fn(),
+    findUnique: jest.fn(),
+    delete: jest.fn(),
+  },
+  orderStatusHistory: {
+    create: jest.fn(),
+  },
+});
+
+const item = (overrides: Partial<OrderItem>): OrderItem => ({
+  id: 'item-1',
+  productId: 'product-1',
+  productName: 'Camiseta',
+  variantId: null,
+  variantName: null,
+  quantity: 1,
+  unitPrice: Money.fromMinor(2000),
+  subtotal: Money.fromMinor(2000),
+  taxRate: 0,
+  taxAmount: Money.zero(),
+  taxRuleId: null,
+  discountAmount: Money.zero(),
+  ...overrides,
+});
+
+const buildOrder = (overrides: Partial<Order> = {}): Order => new Order({
+  id: 'order-1',
+  userId: 'user-1',
+  orderNumber: 'ORD-1',
+  items: [
+    item({ id: 'item-1', productId: 'product-1', quantity: 2 }),
+    item({ id: 'item-2', productId: 'product-2', variantId: 'variant-2', variantName: 'M', quantity: 3 }),
+  ],
+  subtotal: Money.fromMinor(10000),
+  shipping: Money.zero(),
+  taxes: Money.zero(),
+  total: Money.fromMinor(10000),
+  shippingAddress: { street: 'Rua A', city: 'São Paulo', state: 'SP', zipCode: '01000-000', country: 'BR' },
+  ...overrides,
+});
+
+// Shape of an order row as Prisma returns it, with money in minor units
+const toRow = (order: Order) => ({
+  ...order,
+  items: order.items.map(orderItem => ({
+    ...orderItem,
+    unitPrice: orderItem.unitPrice.amount,
+    subtotal: orderItem.subtotal.amount,
+    taxAmount: orderItem.taxAmount.amount,
+    discountAmount: orderItem.discountAmount.amount,
+  })),
+  subtotal: order.subtotal.amount,
+  shipping: order.shipping.amount,
+  taxes: order.taxes.amount,
+  discount: order.discount.amount,
+  total: order.total.amount,
+  refundedTotal: order.refundedTotal.amount,
+});
+
+describe('OrderRepository', () => {
+  let tx: ReturnType<typeof createTx>;
+  let prismaOrder: { findMany: jest.Mock; count: jest.Mock };
+  let repository: OrderRepository;
+
+  beforeEach(() => {
+    tx = createTx();
+    prismaOrder = { findMany: jest.fn().mockResolvedValue([]), count: jest.fn().mockResolvedValue(0) };
+    const prisma = {
+      $transaction: jest.fn((callback: (client: typeof tx) => Promise<unknown>) => callback(tx)),
+      order: prismaOrder,
+    };
+    repository = new OrderRepository(prisma as unknown as PrismaClient);
+  });
+
+  describe('createWithStockReservation', () => {
+    it('reserves stock per product or variant and creates the order', async () => {
+      const order = buildOrder();
+      tx.product.updateMany.mockResolvedValue({ count: 1 });
+      tx.productVariant.updateMany.mockResolvedValue({ count: 1 });
+      tx.order.create.mockResolvedValue(toRow(order));
+
+      const created = await repository.createWithStockReservation(order);
+
+      expect(tx.product.updateMany).toHaveBeenCalledWith({
+        where: { id: 'product-1', stock: { gte: 2 } },
+        data: { stock: { decrement: 2 } },
+      });
+      expect(tx.productVariant.updateMany).toHaveBeenCalledWith({
+        where: { id: 'variant-2', stock: { gte: 3 } },
+        data: { stock: { decrement: 3 } },
+      });
+      expect(created.total.amount).toBe(10000);
+    });
+
+    it('reports every shortfall and creates nothing when stock runs out', async () => {
+      tx.product.updateMany.mockResolvedValue({ count: 0 });
+      tx.product.findUnique.mockResolvedValue({ stock: 1 });
+      tx.productVariant.updateMany.mockResolvedValue({ count: 0 });
+      tx.productVariant.findUnique.mockResolvedValue(null);
+
+      await expect(repository.createWithStockReservation(buildOrder()))
+        .rejects.toThrow('Insufficient stock for: Camiseta (available: 1, requested: 2); Camiseta (M) (available: 0, requested: 3)');
+      expect(tx.order.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses the order once the coupon usage limit is reached', async () => {
+      tx.product.updateMany.mockResolvedValue({ count: 1 });
+      tx.productVariant.updateMany.mockResolvedValue({ count: 1 });
+      tx.coupon.findUnique.mockResolvedValue({ id: 'coupon-1', isActive: true, maxUses: 10, maxUsesPerUser: null });
+      tx.coupon.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(repository.createWithStockReservation(buildOrder({ couponCode: 'SAVE10' })))
+        .rejects.toThrow('Coupon SAVE10 usage limit reached');
+      expect(tx.coupon.updateMany).toHaveBeenCalledWith({
+        where: { id: 'coupon-1', usesCount: { lt: 10 } },
+        data: { usesCount: { increment: 1 } },
+      });
+      expect(tx.order.create).not.toHaveBeenCalled();
+    });
+
+    it('records the coupon redemption with the order', async () => {
+      const order = buildOrder({ couponCode: 'SAVE10', discount: Money.fromMinor(1000) });
+      tx.product.updateMany.mockResolvedValue({ count: 1 });
+      tx.productVariant.updateMany.mockResolvedValue({ count: 1 });
+      tx.coupon.findUnique.mockResolvedValue({ id: 'coupon-1', isActive: true, maxUses: null, maxUsesPerUser: null });
+      tx.coupon.updateMany.mockResolvedValue({ count: 1 });
+      tx.order.create.mockResolvedValue(toRow(order));
+
+      await repository.createWithStockReservation(order);
+
+      expect(tx.couponRedemption.create).toHaveBeenCalledWith({
+        data: { couponId: 'coupon-1', orderId: 'order-1', userId: 'user-1', amount: 1000 },
+      });
+    });
+  });
+
+  describe('cancelWithStockRelease', () => {
+    const expected = { status: OrderStatus.PENDING, paymentStatus: PaymentStatus.PENDING };
+
+    it('returns null without releasing anything when the order changed meanwhile', async () => {
+      tx.order.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await repository.cancelWithStockRelease(buildOrder({ couponCode: 'SAVE10' }), expected);
+
+      expect(result).toBeNull();
+      expect(tx.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', ...expected },
+        data: { status: OrderStatus.CANCELLED, updatedAt: expect.any(Date) },
+      });
+      expect(tx.product.updateMany).not.toHaveBeenCalled();
+      expect(tx.productVariant.updateMany).not.toHaveBeenCalled();
+      expect(tx.couponRedemption.delete).not.toHaveBeenCalled();
+    });
+
+    it('returns reserved stock and the coupon use', async () => {
+      const order = buildOrder({ couponCode: 'SAVE10' });
+      tx.order.updateMany.mockResolvedValue({ count: 1 });
+      tx.couponRedemption.findUnique.mockResolvedValue({ id: 'redemption-1', couponId: 'coupon-1' });
+      tx.order.findUniqueOrThrow.mockResolvedValue({ ...toRow(order), status: OrderStatus.CANCELLED });
+
+      const result = await repository.cancelWithStockRelease(order, expected);
+
+      expect(result?.status).toBe(OrderStatus.CANCELLED);
+      expect(tx.product.updateMany).toHaveBeenCalledWith({
+        where: { id: 'product-1' },
+        data: { stock: { increment: 2 } },
+      });
+      expect(tx.productVariant.updateMany).toHaveBeenCalledWith({
+        where: { id: 'variant-2' },
+        data: { stock: { increment: 3 } },
+      });
+      expect(tx.couponRedemption.delete).toHaveBeenCalledWith({ where: { id: 'redemption-1' } });
+      expect(tx.coupon.updateMany).toHaveBeenCalledWith({
+        where: { id: 'coupon-1', usesCount: { gt: 0 } },
+        data: { usesCount: { decrement: 1 } },
+      });
+    });
+  });
+
+  describe('reserveRefund', () => {
+    it('reserves the amount only while it fits in what is left of the paid total', async () => {
+      const order = buildOrder({ paymentStatus: PaymentStatus.PAID, refundedTotal: Money.fromMinor(4000) });
+      tx.order.findUnique.mockResolvedValue({ total: 10000 });
+      tx.order.updateMany.mockResolvedValue({ count: 1 });
+      tx.order.findUniqueOrThrow.mockResolvedValue(toRow(order));
+
+      const reserved = await repository.reserveRefund('order-1', Money.fromMinor(3000));
+
+      expect(reserved?.refundedTotal.amount).toBe(4000);
+      expect(tx.order.updateMany).toHaveBeenCalledWith({
+        where: { id: 'order-1', paymentStatus: PaymentStatus.PAID, refundedTotal: { lte: 7000 } },
+        data: { refundedTotal: { increment: 3000 }, updatedAt: expect.any(Date) },
+      });
+    });
+
+    it('returns null when a concurrent refund already took what was left', async () => {
+      tx.order.findUnique.mockResolvedValue({ total: 10000 });
+      tx.order.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(repository.reserveRefund('order-1', Money.fromMinor(3000))).resolves.toBeNull();
+      expect(tx.order.findUniqueOrThrow).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('search', () => {
+    it('combines every filter into one query', async () => {
+      await repository.search({
+        statuses: [OrderStatus.CONFIRMED, OrderStatus.PROCESSING],
+        paymentStatus: PaymentStatus.PAID,
+        createdFrom: new Date('2026-06-01T00:00:00Z'),
+        minTotal: Money.fromMinor(10000),
+        customerEmail: 'ana@',
+        orderNumberPrefix: 'ORD-2026',
+        sortBy: 'total',
+        sortOrder: 'asc',
+      }, 2, 20);
+
+      expect(prismaOrder.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {
+          AND: [
+            { status: { in: [OrderStatus.CONFIRMED, OrderStatus.PROCESSING] } },
+            { paymentStatus: PaymentStatus.PAID },
+            { createdAt: { gte: new Date('2026-06-01T00:00:00Z') } },
+            { total: { gte: 10000 } },
+            {
+              OR: [
+                { user: { email: { contains: 'ana@', mode: 'insensitive' } } },
+                { guestEmail: { contains: 'ana@', mode: 'insensitive' } },
+              ],
+            },
+            { orderNumber: { startsWith: 'ORD-2026' } },
+          ],
+        },
+        skip: 20,
+        take: 20,
+        orderBy: [{ total: 'asc' }, { id: 'asc' }],
+      }));
+    });
+
+    it('continues after the cursor when exporting', async () => {
+      await repository.searchAfter({}, 'order-9', 200);
+
+      expect(prismaOrder.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: {},
+        cursor: { id: 'order-9' },
+        skip: 1,
+        take: 200,
+      }));
+    });
+  });
+});
@@ -0,0 +1,479 @@
+import { RedisClientType } from 'redis';
+import { OrderService } from '@/business/services/OrderService';
+import { IOrderRepository } from '@/business/interfaces/IOrderRepository';
+import { Order, OrderStatus, PaymentStatus, StatusChangeType } from '@/business/domain/Order';
+import { Product } from '@/business/domain/Product';
+import { Cart } from '@/business/domain/Cart';
+import { Money } from '@/business/domain/Money';
+
+const cutoff = new Date('2026-06-15T12:00:00Z');
+
+const buildOrder = (overrides: Partial<Order> = {}): Order => new Order({
+  id: 'order-1',
+  userId: 'user-1',
+  orderNumber: 'ORD-1',
+  total: Money.fromMinor(5000),
+  createdAt: new Date('2026-06-15T10:00:00Z'),
+  ...overrides,
+});
+
+describe('OrderService', () => {
+  let orderRepository: {
+    findById: jest.Mock;
+    update: jest.Mock;
+    exists: jest.Mock;
+    findStatusHistory: jest.Mock;
+    reserveRefund: jest.Mock;
+    findUnpaidPendingOrdersCreatedBefore: jest.Mock;
+    cancelWithStockRelease: jest.Mock;
+  };
+  let redis: { get: jest.Mock; setEx: jest.Mock; del: jest.Mock; keys: jest.Mock };
+  let service: OrderService;
+
+  beforeEach(() => {
+    orderRepository = {
+      findById: jest.fn(),
+      update: jest.fn(async (_id: string, data: Partial<Order>) => new Order({ ...buildOrder(), ...data })),
+      exists: jest.fn(),
+      findStatusHistory: jest.fn(),
+      reserveRefund: jest.fn(),
+      findUnpaidPendingOrdersCreatedBefore: jest.fn(),
+      cancelWithStockRelease: jest.fn(),
+    };
+    redis = {
+      get: jest.fn().mockResolvedValue(null),
+      setEx: jest.fn(),
+      del: jest.fn(),
+      keys: jest.fn().mockResolvedValue([]),
+    };
+
+    // Only the repository and cache take part in status changes, refunds, cancellation and expiry
+    const unused = {} as never;
+    service = new OrderService(
+      orderRepository as unknown as IOrderRepository,
+      unused, unused, unused, unused, unused, unused, unused, unused,
+      redis as unknown as RedisClientType
+    );
+  });
+
+  describe('updateOrderStatus', () => {
+    it('records who moved the order and why', async () => {
+      orderRepository.findById.mockResolvedValue(buildOrder({ paymentStatus: PaymentStatus.PAID }));
+
+      await service.updateOrderStatus('order-1', OrderStatus.CONFIRMED, 'admin-1', 'Stock checked');
+
+      expect(orderRepository.update).toHaveBeenCalledWith(
+        'order-1',
+        expect.objectContaining({ status: OrderStatus.CONFIRMED }),
+        [{
+          type: StatusChangeType.ORDER,
+          fromStatus: OrderStatus.PENDING,
+          toStatus: OrderStatus.CONFIRMED,
+          actorId: 'admin-1',
+          reason: 'Stock checked',
+        }]
+      );
+    });
+  });
+
+  describe('getOrderTimeline', () => {
+    it('returns the stored status history', async () => {
+      const history = [{
+        id: 'history-1',
+        orderId: 'order-1',
+        type: StatusChangeType.ORDER,
+        fromStatus: null,
+        toStatus: OrderStatus.PENDING,
+        actorId: 'user-1',
+        reason: null,
+        createdAt: new Date(),
+      }];
+      orderRepository.exists.mockResolvedValue(true);
+      orderRepository.findStatusHistory.mockResolvedValue(history);
+
+      await expect(service.getOrderTimeline('order-1')).resolves.toEqual(history);
+    });
+
+    it('fails for unknown orders', async () => {
+      orderRepository.exists.mockResolvedValue(false);
+
+      await expect(service.getOrderTimeline('missing')).rejects.toThrow('Order not found');
+      expect(orderRepository.findStatusHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reserveRefund', () => {
+    it('explains how much is left when the reservation does not fit', async () => {
+      orderRepository.reserveRefund.mockResolvedValue(null);
+      orderRepository.findById.mockResolvedValue(buildOrder({
+        paymentStatus: PaymentStatus.PAID,
+        refundedTotal: Money.fromMinor(3000),
+      }));
+
+      await expect(service.reserveRefund('order-1', Money.fromMinor(2500)))
+        .rejects.toThrow('Refund amount must be between 0.01 and 20.00');
+    });
+
+    it('refuses refunds on unpaid orders', async () => {
+      orderRepository.reserveRefund.mockResolvedValue(null);
+      orderRepository.findById.mockResolvedValue(buildOrder());
+
+      await expect(service.reserveRefund('order-1', Money.fromMinor(1000))).rejects.toThrow('Only paid orders can be refunded');
+    });
+  });
+
+  describe('recordRefund', () => {
+    it('marks the order refunded once the reservations cover the total, without writing refundedTotal', async () => {
+      orderRepository.findById.mockResolvedValue(buildOrder({
+        status: OrderStatus.DELIVERED,
+        paymentStatus: PaymentStatus.PAID,
+        refundedTotal: Money.fromMinor(5000),
+      }));
+
+      await service.recordRefund('order-1', Money.fromMinor(2000), 'admin-1', 'Return return-1 refunded');
+
+      expect(orderRepository.update).toHaveBeenCalledWith(
+        'order-1',
+        { status: OrderStatus.REFUNDED, paymentStatus: PaymentStatus.REFUNDED },
+        expect.arrayContaining([expect.objectContaining({ toStatus: PaymentStatus.REFUNDED })])
+      );
+    });
+  });
+
+  describe('expirePendingOrders', () => {
+    it('cancels unpaid orders older than the cutoff', async () => {
+      const order = buildOrder();
+      orderRepository.findUnpaidPendingOrdersCreatedBefore.mockResolvedValue([order]);
+      orderRepository.findById.mockResolvedValue(order);
+      orderRepository.cancelWithStockRelease.mockResolvedValue(buildOrder({ status: OrderStatus.CANCELLED }));
+
+      const result = await service.expirePendingOrders(cutoff);
+
+      expect(result.expired).toEqual(['ORD-1']);
+      expect(orderRepository.cancelWithStockRelease).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'order-1', status: OrderStatus.CANCELLED }),
+        { status: OrderStatus.PENDING, paymentStatus: PaymentStatus.PENDING, paymentIntentId: null },
+        [expect.objectContaining({ fromStatus: OrderStatus.PENDING, toStatus: OrderStatus.CANCELLED })]
+      );
+    });
+
+    it('skips orders that were paid or given a payment intent since the batch was loaded', async () => {
+      orderRepository.findUnpaidPendingOrdersCreatedBefore.mockResolvedValue([
+        buildOrder({ id: 'order-1', orderNumber: 'ORD-1' }),
+        buildOrder({ id: 'order-2', orderNumber: 'ORD-2' }),
+      ]);
+      orderRepository.findById.mockImplementation(async (id: string) => id === 'order-1'
+        ? buildOrder({ id, orderNumber: 'ORD-1', paymentIntentId: 'pi_123' })
+        : buildOrder({ id, orderNumber: 'ORD-2', paymentStatus: PaymentStatus.PAID }));
+
+      const result = await service.expirePendingOrders(cutoff);
+
+      expect(result.expired).toEqual([]);
+      expect(result.skipped).toEqual(['ORD-1', 'ORD-2']);
+      expect(orderRepository.cancelWithStockRelease).not.toHaveBeenCalled();
+    });
+
+    it('skips orders that change between the check and the cancellation', async () => {
+      const order = buildOrder();
+      orderRepository.findUnpaidPendingOrdersCreatedBefore.mockResolvedValue([order]);
+      orderRepository.findById.mockResolvedValue(order);
+      orderRepository.cancelWithStockRelease.mockResolvedValue(null);
+
+      const result = await service.expirePendingOrders(cutoff);
+
+      expect(result.expired).toEqual([]);
+      expect(result.skipped).toEqual(['ORD-1']);
+    });
+  });
+
+  describe('cancelOrder', () => {
+    it('cancels the order and releases its stock in one step', async () => {
+      orderRepository.findById.mockResolvedValue(buildOrder());
+      orderRepository.cancelWithStockRelease.mockResolvedValue(buildOrder({ status: OrderStatus.CANCELLED }));
+
+      const cancelled = await service.cancelOrder('order-1', 'Changed my mind', 'user-1');
+
+      expect(cancelled.status).toBe(OrderStatus.CANCELLED);
+      expect(orderRepository.cancelWithStockRelease).toHaveBeenCalledWith(
+        expect.objectContaining({ status: OrderStatus.CANCELLED }),
+        { status: OrderStatus.PENDING, paymentStatus: PaymentStatus.PENDING },
+        [expect.objectContaining({ actorId: 'user-1', reason: 'Changed my mind' })]
+      );
+      expect(redis.del).toHaveBeenCalledWith('order:order-1');
+    });
+
+    it('refuses orders that can no longer be cancelled', async () => {
+      orderRepository.findById.mockResolvedValue(buildOrder({ status: OrderStatus.DELIVERED }));
+
+      await expect(service.cancelOrder('order-1')).rejects.toThrow('cannot be cancelled');
+      expect(orderRepository.cancelWithStockRelease).not.toHaveBeenCalled();
+    });
+
+    it('fails when another request changed the order first', async () => {
+      orderRepository.findById.mockResolvedValue(buildOrder());
+      orderRepository.cancelWithStockRelease.mockResolvedValue(null);
+
+      await expect(service.cancelOrder('order-1')).rejects.toThrow('changed by another request');
+      expect(redis.del).toHaveBeenCalledWith('order:order-1');
+    });
+  });
+});
+
+describe('OrderService placing and editing orders', () => {
+  const address = { street: 'Rua A, 100', city: 'São Paulo', state: 'SP', zipCode: '01000-000', country: 'BR' };
+
+  const product = new Product({
+    id: 'product-1',
+    name: 'Camiseta',
+    price: Money.fromMinor(2000),
+    stock: 5,
+    categoryId: 'clothing',
+    isActive: true,
+  });
+
+  let orderRepository: {
+    findById: jest.Mock;
+    createWithStockReservation: jest.Mock;
+    updateItemsWithStockAdjustment: jest.Mock;
+  };
+  let productRepository: { findById: jest.Mock };
+  let userRepository: { findById: jest.Mock };
+  let cartService: {
+    validateCartForCheckout: jest.Mock;
+    getCartByUserId: jest.Mock;
+    addItemToCart: jest.Mock;
+    clearCart: jest.Mock;
+  };
+  let stockHoldService: { getAvailableStock: jest.Mock };
+  let service: OrderService;
+
+  beforeEach(() => {
+    orderRepository = {
+      findById: jest.fn(),
+      createWithStockReservation: jest.fn(async (order: Order) => order),
+      updateItemsWithStockAdjustment: jest.fn(async (order: Order) => order),
+    };
+    productRepository = { findById: jest.fn().mockResolvedValue(product) };
+    userRepository = { findById: jest.fn().mockResolvedValue({ id: 'user-1', isActive: true }) };
+    cartService = {
+      validateCartForCheckout: jest.fn().mockResolvedValue({ isValid: true, errors: [] }),
+      getCartByUserId: jest.fn(async (userId: string) => new Cart({ id: userId, userId })),
+      addItemToCart: jest.fn(),
+      clearCart: jest.fn(),
+    };
+    stockHoldService = { getAvailableStock: jest.fn(async (sellable: { stock: number }) => sellable.stock) };
+
+    const taxService = {
+      calculateLineTaxes: jest.fn(async (_address: unknown, lines: Array<{ amount: Money }>) =>
+        lines.map(line => ({ taxRate: 0.1, taxAmount: line.amount.multiply(0.1), taxRuleId: null }))
+      ),
+    };
+    const shippingService = {
+      selectShippingOption: jest.fn(() => ({
+        method: 'standard',
+        name: 'Standard',
+        price: Money.fromMinor(1500),
+        originalPrice: Money.fromMinor(1500),
+        isFree: false,
+        estimatedDays: 5,
+      })),
+    };
+    const orderNumberGenerator = { next: jest.fn().mockResolvedValue('ORD-2026-000001') };
+    const redis = { del: jest.fn(), keys: jest.fn().mockResolvedValue([]) };
+
+    service = new OrderService(
+      orderRepository as unknown as IOrderRepository,
+      productRepository as never,
+      userRepository as never,
+      cartService as never,
+      taxService as never,
+      shippingService as never,
+      {} as never,
+      stockHoldService as never,
+      orderNumberGenerator as never,
+      redis as unknown as RedisClientType
+    );
+  });
+
+  const pendingOrder = (overrides: Partial<Order> = {}): Order => {
+    const order = new Order({
+      id: 'order-1',
+      userId: 'user-1',
+      orderNumber: 'ORD-1',
+      shippingAddress: address,
+      shippingOption: { method: 'standard', name: 'Standard', estimatedDays: 5 },
+      items: [{
+        id: 'item-1',
+        productId: 'product-1',
+        productName: 'Camiseta',
+        variantId: null,
+        variantName: null,
+        quantity: 2,
+        unitPrice: Money.fromMinor(2000),
+        subtotal: Money.fromMinor(4000),
+        taxRate: 0,
+        taxAmount: Money.zero(),
+        taxRuleId: null,
+        discountAmount: Money.zero(),
+      }],
+      ...overrides,
+    });
+    order.calculateTotals();
+    return order;
+  };
+
+  describe('createOrder', () => {
+    it('counts the buyer\'s own cart holds as available when ordering directly', async () => {
+      await service.createOrder({
+        userId: 'user-1',
+        cartItems: [{ productId: 'product-1', quantity: 2 }],
+        shippingAddress: address,
+      });
+
+      expect(stockHoldService.getAvailableStock)
+        .toHaveBeenCalledWith(expect.objectContaining({ id: 'product-1' }), 'user-1');
+    });
+
+    it('refuses quantities beyond what other carts leave available', async () => {
+      stockHoldService.getAvailableStock.mockResolvedValue(1);
+
+      await expect(service.createOrder({
+        userId: 'user-1',
+        cartItems: [{ productId: 'product-1', quantity: 2 }],
+        shippingAddress: address,
+      })).rejects.toThrow('Insufficient stock for product Camiseta. Available: 1, Requested: 2');
+      expect(orderRepository.createWithStockReservation).not.toHaveBeenCalled();
+    });
+
+    it('places guest orders with the guest email and the guest cart holds', async () => {
+      const order = await service.createOrder({
+        userId: null,
+        guest: { guestId: 'guest-1', email: 'ana@example.com' },
+        cartItems: [{ productId: 'product-1', quantity: 1 }],
+        shippingAddress: address,
+      });
+
+      expect(order.userId).toBeNull();
+      expect(order.guestEmail).toBe('ana@example.com');
+      expect(userRepository.findById).not.toHaveBeenCalled();
+      expect(stockHoldService.getAvailableStock)
+        .toHaveBeenCalledWith(expect.anything(), 'guest:guest-1');
+    });
+
+    it('refuses coupons on guest orders', async () => {
+      await expect(service.createOrder({
+        userId: null,
+        guest: { guestId: 'guest-1', email: 'ana@example.com' },
+        cartItems: [{ productId: 'product-1', quantity: 1 }],
+        shippingAddress: address,
+        couponCode: 'SAVE10',
+      })).rejects.toThrow('Sign in to use a coupon');
+    });
+  });
+
+  describe('createOrderFromCart', () => {
+    it('orders the current cart at today\'s prices and empties it afterwards', async () => {
+      cartService.getCartByUserId.mockImplementation(async (userId: string) => {
+        const cart = new Cart({ id: userId, userId });
+        cart.addItem('product-1', 2, Money.fromMinor(1800)); // added before a price change
+        return cart;
+      });
+
+      const order = await service.createOrderFromCart('user-1', address);
+
+      expect(order.userId).toBe('user-1');
+      expect(order.items[0]?.unitPrice.amount).toBe(2000);
+      expect(order.total.amount).toBe(5900);
+      expect(cartService.clearCart).toHaveBeenCalledWith('user-1');
+    });
+
+    it('still returns the order when the cart cannot be emptied', async () => {
+      cartService.getCartByUserId.mockImplementation(async (userId: string) => {
+        const cart = new Cart({ id: userId, userId });
+        cart.addItem('product-1', 1, Money.fromMinor(2000));
+        return cart;
+      });
+      cartService.clearCart.mockRejectedValue(new Error('Redis unavailable'));
+
+      await expect(service.createOrderFromCart('user-1', address)).resolves.toBeInstanceOf(Order);
+    });
+  });
+
+  describe('createGuestOrderFromCart', () => {
+    it('orders the guest cart and empties it afterwards', async () => {
+      cartService.getCartByUserId.mockImplementation(async (cartId: string) => {
+        const cart = new Cart({ id: cartId, userId: cartId });
+        cart.addItem('product-1', 1, Money.fromMinor(2000));
+        return cart;
+      });
+
+      const order = await service.createGuestOrderFromCart({ guestId: 'guest-1', email: 'ana@example.com' }, address);
+
+      expect(cartService.validateCartForCheckout).toHaveBeenCalledWith('guest:guest-1');
+      expect(order.guestId).toBe('guest-1');
+      expect(order.items).toHaveLength(1);
+      expect(cartService.clearCart).toHaveBeenCalledWith('guest:guest-1');
+    });
+
+    it('keeps the cart when the cart no longer validates', async () => {
+      cartService.validateCartForCheckout.mockResolvedValue({ isValid: false, errors: ['Camiseta is out of stock'] });
+
+      await expect(service.createGuestOrderFromCart({ guestId: 'guest-1', email: 'ana@example.com' }, address))
+        .rejects.toThrow('Cart validation failed: Camiseta is out of stock');
+      expect(orderRepository.createWithStockReservation).not.toHaveBeenCalled();
+      expect(cartService.clearCart).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('order edits', () => {
+    it('re-prices the order and reserves only the extra units', async () => {
+      const order = pendingOrder();
+      order.updatedAt = new Date('2026-06-15T10:00:00Z'); // as last stored
+      orderRepository.findById.mockResolvedValue(order);
+
+      const edited = await service.updateOrderItemQuantity('order-1', 'item-1', 3);
+
+      expect(edited.subtotal.amount).toBe(6000);
+      expect(edited.total.amount).toBe(8100);
+      expect(orderRepository.updateItemsWithStockAdjustment)
+        .toHaveBeenCalledWith(order, { products: { 'product-1': 1 }, variants: {} }, new Date('2026-06-15T10:00:00Z'));
+    });
+
+    it('refuses edits once the order has a payment', async () => {
+      orderRepository.findById.mockResolvedValue(pendingOrder({ paymentIntentId: 'pi_123' }));
+
+      await expect(service.updateOrderItemQuantity('order-1', 'item-1', 3))
+        .rejects.toThrow('Only pending orders without a payment can be edited');
+      expect(orderRepository.updateItemsWithStockAdjustment).not.toHaveBeenCalled();
+    });
+
+    it('surfaces domain rule violations as business errors', async () => {
+      orderRepository.findById.mockResolvedValue(pendingOrder());
+
+      await expect(service.removeOrderItem('order-1', 'item-1'))
+        .rejects.toMatchObject({ statusCode: 400, message: expect.stringContaining('Cannot remove the last item') });
+    });
+  });
+
+  describe('reorder', () => {
+    it('adds what is available and reports lines it had to reduce', async () => {
+      stockHoldService.getAvailableStock.mockResolvedValue(1);
+
+      const result = await service.reorder(pendingOrder({ status: OrderStatus.DELIVERED }), 'user-1');
+
+      expect(stockHoldService.getAvailableStock)
+        .toHaveBeenCalledWith(expect.objectContaining({ id: 'product-1' }), 'user-1');
+      expect(cartService.addItemToCart).toHaveBeenCalledWith('user-1', 'product-1', 1, null);
+      expect(result.reduced).toEqual([expect.objectContaining({ requested: 2, added: 1 })]);
+    });
+
+    it('skips products that are no longer sold', async () => {
+      productRepository.findById.mockResolvedValue(null);
+
+      const result = await service.reorder(pendingOrder({ status: OrderStatus.DELIVERED }), 'user-1');
+
+      expect(result.skipped).toEqual([expect.objectContaining({ reason: 'Product is no longer available' })]);
+      expect(cartService.addItemToCart).not.toHaveBeenCalled();
+    });
+  });
+});
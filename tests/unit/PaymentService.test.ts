@@ -0,0 +1,143 @@
+import { RedisClientType } from 'redis';
+import { PaymentService } from '@/business/services/PaymentService';
+import { OrderService } from '@/business/services/OrderService';
+import { IPaymentGateway, PaymentEventType, PaymentIntentStatus } from '@/business/interfaces/IPaymentGateway';
+import { Order, OrderStatus, PaymentStatus } from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
+
+const buildOrder = (overrides: Partial<Order> = {}): Order => new Order({
+  id: 'order-1',
+  orderNumber: 'ORD-1',
+  total: Money.fromMinor(5000),
+  paymentIntentId: 'pi_123',
+  ...overrides,
+});
+
+const webhookEvent = (type: PaymentEventType) => ({
+  id: 'evt_1',
+  type,
+  paymentIntentId: 'pi_123',
+  orderId: 'order-1',
+  amount: 5000,
+  createdAt: new Date(),
+});
+
+describe('PaymentService', () => {
+  let orderService: {
+    getOrderById: jest.Mock;
+    updatePaymentStatus: jest.Mock;
+    reserveRefund: jest.Mock;
+    releaseRefund: jest.Mock;
+    recordRefund: jest.Mock;
+  };
+  let paymentGateway: { capturePayment: jest.Mock; refundPayment: jest.Mock; constructWebhookEvent: jest.Mock };
+  let redis: { set: jest.Mock; del: jest.Mock };
+  let service: PaymentService;
+
+  beforeEach(() => {
+    orderService = {
+      getOrderById: jest.fn(),
+      updatePaymentStatus: jest.fn(),
+      reserveRefund: jest.fn(),
+      releaseRefund: jest.fn(),
+      recordRefund: jest.fn(),
+    };
+    paymentGateway = { capturePayment: jest.fn(), refundPayment: jest.fn(), constructWebhookEvent: jest.fn() };
+    redis = { set: jest.fn().mockResolvedValue('OK'), del: jest.fn() };
+
+    service = new PaymentService(
+      orderService as unknown as OrderService,
+      paymentGateway as unknown as IPaymentGateway,
+      redis as unknown as RedisClientType
+    );
+  });
+
+  describe('capturePayment', () => {
+    it('marks the order paid once the capture succeeds', async () => {
+      const order = buildOrder();
+      orderService.getOrderById.mockResolvedValue(order);
+      paymentGateway.capturePayment.mockResolvedValue({ id: 'pi_123', status: PaymentIntentStatus.SUCCEEDED });
+      orderService.updatePaymentStatus.mockResolvedValue(buildOrder({ paymentStatus: PaymentStatus.PAID }));
+
+      const captured = await service.capturePayment('order-1', 'admin-1');
+
+      expect(captured.paymentStatus).toBe(PaymentStatus.PAID);
+      expect(orderService.updatePaymentStatus)
+        .toHaveBeenCalledWith('order-1', PaymentStatus.PAID, 'admin-1', 'Payment captured');
+    });
+
+    it('refuses to capture a cancelled order', async () => {
+      orderService.getOrderById.mockResolvedValue(buildOrder({ status: OrderStatus.CANCELLED }));
+
+      await expect(service.capturePayment('order-1')).rejects.toThrow('Cannot capture payment for a cancelled order');
+      expect(paymentGateway.capturePayment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundPartial', () => {
+    beforeEach(() => {
+      orderService.getOrderById.mockResolvedValue(buildOrder({ paymentStatus: PaymentStatus.PAID }));
+    });
+
+    it('reserves the amount before refunding it through the gateway', async () => {
+      paymentGateway.refundPayment.mockResolvedValue({ id: 'pi_123', status: PaymentIntentStatus.SUCCEEDED });
+
+      await service.refundPartial('order-1', Money.fromMinor(1500), 'admin-1', 'Damaged item');
+
+      expect(orderService.reserveRefund).toHaveBeenCalledWith('order-1', Money.fromMinor(1500));
+      expect(paymentGateway.refundPayment).toHaveBeenCalledWith('pi_123', 15);
+      expect(orderService.recordRefund)
+        .toHaveBeenCalledWith('order-1', Money.fromMinor(1500), 'admin-1', 'Damaged item');
+      expect(orderService.releaseRefund).not.toHaveBeenCalled();
+    });
+
+    it('does not call the gateway when the amount cannot be reserved', async () => {
+      orderService.reserveRefund.mockRejectedValue(new Error('Refund amount must be between 0.01 and 20.00'));
+
+      await expect(service.refundPartial('order-1', Money.fromMinor(3000))).rejects.toThrow('Refund amount must be');
+      expect(paymentGateway.refundPayment).not.toHaveBeenCalled();
+    });
+
+    it('releases the reservation when the gateway refund fails', async () => {
+      paymentGateway.refundPayment.mockRejectedValue(new Error('Gateway unavailable'));
+
+      await expect(service.refundPartial('order-1', Money.fromMinor(1500))).rejects.toThrow('Gateway unavailable');
+      expect(orderService.releaseRefund).toHaveBeenCalledWith('order-1', Money.fromMinor(1500));
+      expect(orderService.recordRefund).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('applies a successful payment to a pending order', async () => {
+      paymentGateway.constructWebhookEvent.mockReturnValue(webhookEvent(PaymentEventType.PAYMENT_SUCCEEDED));
+      orderService.getOrderById.mockResolvedValue(buildOrder());
+
+      const result = await service.handleWebhook('{}', 'signature');
+
+      expect(result).toEqual({ eventId: 'evt_1', processed: true });
+      expect(orderService.updatePaymentStatus).toHaveBeenCalledWith(
+        'order-1', PaymentStatus.PAID, undefined, 'Payment webhook payment.succeeded (evt_1)'
+      );
+    });
+
+    it('does not revive a cancelled order when a late payment arrives', async () => {
+      paymentGateway.constructWebhookEvent.mockReturnValue(webhookEvent(PaymentEventType.PAYMENT_SUCCEEDED));
+      orderService.getOrderById.mockResolvedValue(buildOrder({ status: OrderStatus.CANCELLED }));
+
+      const result = await service.handleWebhook('{}', 'signature');
+
+      expect(result.processed).toBe(true);
+      expect(orderService.updatePaymentStatus).not.toHaveBeenCalled();
+    });
+
+    it('ignores duplicate deliveries', async () => {
+      paymentGateway.constructWebhookEvent.mockReturnValue(webhookEvent(PaymentEventType.PAYMENT_SUCCEEDED));
+      redis.set.mockResolvedValue(null);
+
+      const result = await service.handleWebhook('{}', 'signature');
+
+      expect(result).toEqual({ eventId: 'evt_1', processed: false });
+      expect(orderService.getOrderById).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import { Product } from '@/business/domain/Product';
+import { ProductVariant } from '@/business/domain/ProductVariant';
+import { Money } from '@/business/domain/Money';
+
+const variantProduct = (): Product => new Product({
+  id: 'product-1',
+  name: 'Camiseta',
+  sku: 'CAM',
+  price: Money.fromMinor(2000),
+  stock: 99, // ignored once the product has variants
+  options: [{ name: 'size', values: ['P', 'M'] }, { name: 'color', values: ['Azul'] }],
+  variants: [
+    new ProductVariant({ id: 'variant-p', productId: 'product-1', sku: 'CAM-P', options: { size: 'P', color: 'Azul' }, stock: 3 }),
+    new ProductVariant({
+      id: 'variant-m', productId: 'product-1', sku: 'CAM-M', options: { size: 'M', color: 'Azul' },
+      price: Money.fromMinor(2200), stock: 5, isActive: false,
+    }),
+  ],
+});
+
+describe('Product', () => {
+  describe('getSellable', () => {
+    it('sells a product without variants as itself', () => {
+      const product = new Product({ id: 'product-2', name: 'Caneca', sku: 'CAN', price: Money.fromMinor(3000), stock: 7 });
+
+      expect(product.getSellable(null)).toMatchObject({ id: 'product-2', variantId: null, sku: 'CAN', stock: 7 });
+    });
+
+    it('sells a variant with its own SKU and stock, at the product price unless it has one', () => {
+      const product = variantProduct();
+
+      expect(product.getSellable('variant-p')).toMatchObject({
+        id: 'variant-p',
+        variantName: 'P / Azul',
+        sku: 'CAM-P',
+        price: Money.fromMinor(2000),
+        stock: 3,
+        isActive: true,
+      });
+      expect(product.getSellable('variant-m')).toMatchObject({ price: Money.fromMinor(2200), isActive: false });
+    });
+
+    it('requires a variant for products sold per variant', () => {
+      expect(() => variantProduct().getSellable(null)).toThrow('Select a variant of Camiseta');
+      expect(() => variantProduct().getSellable('variant-x')).toThrow('Variant variant-x not found for Camiseta');
+    });
+  });
+
+  describe('getAvailableStock', () => {
+    it('sums the stock of the active variants', () => {
+      expect(variantProduct().getAvailableStock()).toBe(3);
+    });
+  });
+
+  describe('getVariantMatrix', () => {
+    it('lists every option combination with the variant selling it', () => {
+      expect(variantProduct().getVariantMatrix()).toEqual([
+        expect.objectContaining({ options: { size: 'P', color: 'Azul' }, variantId: 'variant-p', isAvailable: true }),
+        expect.objectContaining({ options: { size: 'M', color: 'Azul' }, variantId: 'variant-m', isAvailable: false }),
+      ]);
+    });
+  });
+});
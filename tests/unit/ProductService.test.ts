@@ -0,0 +1,152 @@
+import { RedisClientType } from 'redis';
+import { ProductService } from '@/business/services/ProductService';
+import { CategoryService } from '@/business/services/CategoryService';
+import { IProductRepository } from '@/business/interfaces/IProductRepository';
+import { Product } from '@/business/domain/Product';
+import { ProductVariant } from '@/business/domain/ProductVariant';
+import { ProductImage } from '@/business/domain/ProductImage';
+import { Category } from '@/business/domain/Category';
+import { Money } from '@/business/domain/Money';
+
+const productData: Partial<Product> = {
+  name: 'Camiseta',
+  description: 'Camiseta de algodão',
+  price: Money.fromMinor(2000),
+  sku: 'CAM-1',
+  stock: 10,
+  categoryId: 'clothing',
+};
+
+describe('ProductService', () => {
+  let product: Product;
+  let productRepository: {
+    findById: jest.Mock;
+    findBySku: jest.Mock;
+    findVariantBySku: jest.Mock;
+    create: jest.Mock;
+    createVariant: jest.Mock;
+    createImage: jest.Mock;
+  };
+  let categoryService: { getCategoryById: jest.Mock };
+  let fileStorage: { put: jest.Mock; delete: jest.Mock; getUrl: jest.Mock };
+  let imageProcessor: { inspect: jest.Mock; createThumbnail: jest.Mock };
+  let service: ProductService;
+
+  beforeEach(() => {
+    product = new Product({ ...productData, id: 'product-1' });
+    productRepository = {
+      findById: jest.fn(async () => product),
+      findBySku: jest.fn().mockResolvedValue(null),
+      findVariantBySku: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async (created: Product) => created),
+      createVariant: jest.fn(async (variant: ProductVariant) => variant),
+      createImage: jest.fn(async (image: ProductImage) => new ProductImage({ ...image, id: 'image-1' })),
+    };
+    categoryService = {
+      getCategoryById: jest.fn(async (id: string) => new Category({ id, name: 'Roupas', slug: 'roupas' })),
+    };
+    fileStorage = { put: jest.fn(), delete: jest.fn(), getUrl: jest.fn((key: string) => `/uploads/${key}`) };
+    imageProcessor = {
+      inspect: jest.fn().mockResolvedValue({ format: 'png', width: 800, height: 600 }),
+      createThumbnail: jest.fn().mockResolvedValue({
+        content: Buffer.from('thumb'),
+        contentType: 'image/webp',
+        extension: 'webp',
+        width: 320,
+        height: 240,
+      }),
+    };
+    const redis = { del: jest.fn(), keys: jest.fn().mockResolvedValue([]) };
+
+    service = new ProductService(
+      productRepository as unknown as IProductRepository,
+      categoryService as unknown as CategoryService,
+      fileStorage,
+      imageProcessor,
+      redis as unknown as RedisClientType
+    );
+  });
+
+  describe('createProduct', () => {
+    it('files the product under an existing category', async () => {
+      const created = await service.createProduct(productData);
+
+      expect(created.categoryId).toBe('clothing');
+      expect(categoryService.getCategoryById).toHaveBeenCalledWith('clothing');
+    });
+
+    it('rejects unknown categories', async () => {
+      categoryService.getCategoryById.mockResolvedValue(null);
+
+      await expect(service.createProduct(productData)).rejects.toThrow('Category clothing does not exist');
+      expect(productRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects inactive categories', async () => {
+      categoryService.getCategoryById.mockResolvedValue(new Category({ id: 'clothing', name: 'Roupas', isActive: false }));
+
+      await expect(service.createProduct(productData)).rejects.toThrow('Category clothing is not active');
+      expect(productRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('addVariant', () => {
+    beforeEach(() => {
+      product = new Product({
+        ...productData,
+        id: 'product-1',
+        options: [{ name: 'size', values: ['P', 'M'] }],
+        variants: [new ProductVariant({ id: 'variant-p', productId: 'product-1', sku: 'CAM-P', options: { size: 'P' } })],
+      });
+    });
+
+    it('adds a variant for an unused option combination', async () => {
+      const variant = await service.addVariant('product-1', { sku: 'CAM-M', options: { size: 'M' }, stock: 4 });
+
+      expect(variant).toMatchObject({ productId: 'product-1', sku: 'CAM-M' });
+    });
+
+    it('rejects option values the product does not offer', async () => {
+      await expect(service.addVariant('product-1', { sku: 'CAM-G', options: { size: 'G' } }))
+        .rejects.toThrow('Validation failed');
+    });
+
+    it('rejects a second variant with the same options', async () => {
+      await expect(service.addVariant('product-1', { sku: 'CAM-P2', options: { size: 'P' } }))
+        .rejects.toThrow('Variant with these options already exists');
+    });
+
+    it('rejects SKUs already used by a product or variant', async () => {
+      productRepository.findVariantBySku.mockResolvedValue(new ProductVariant({ sku: 'CAM-M' }));
+
+      await expect(service.addVariant('product-1', { sku: 'CAM-M', options: { size: 'M' } }))
+        .rejects.toThrow('Product with this SKU already exists');
+    });
+  });
+
+  describe('addImage', () => {
+    const upload = { content: Buffer.from('image'), originalName: 'camiseta.png' };
+
+    it('stores the original and its thumbnail and appends the image to the gallery', async () => {
+      const image = await service.addImage('product-1', upload, ' Frente ');
+
+      expect(fileStorage.put).toHaveBeenCalledWith(expect.stringMatching(/^products\/product-1\/.+\.png$/), upload.content, 'image/png');
+      expect(fileStorage.put).toHaveBeenCalledWith(expect.stringMatching(/-thumb\.webp$/), expect.any(Buffer), 'image/webp');
+      expect(image).toMatchObject({ altText: 'Frente', position: 0, width: 800, height: 600 });
+    });
+
+    it.each(['svg', 'gif', 'tiff'])('rejects %s content whatever its declared type', async (format) => {
+      imageProcessor.inspect.mockResolvedValue({ format, width: 100, height: 100 });
+
+      await expect(service.addImage('product-1', upload)).rejects.toThrow('Image must be a JPEG, PNG or WebP file');
+      expect(fileStorage.put).not.toHaveBeenCalled();
+    });
+
+    it('removes the stored files when the image row cannot be written', async () => {
+      productRepository.createImage.mockRejectedValue(new Error('Database unavailable'));
+
+      await expect(service.addImage('product-1', upload)).rejects.toThrow('Database unavailable');
+      expect(fileStorage.delete).toHaveBeenCalledTimes(2);
+    });
+  });
+});
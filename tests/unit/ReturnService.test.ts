@@ -0,0 +1,92 @@
+import { ReturnService } from '@/business/services/ReturnService';
+import { IReturnRepository } from '@/business/interfaces/IReturnRepository';
+import { PaymentService } from '@/business/services/PaymentService';
+import { ReturnRequest, ReturnStatus } from '@/business/domain/ReturnRequest';
+import { Order } from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
+
+const buildReturn = (overrides: Partial<ReturnRequest> = {}): ReturnRequest => new ReturnRequest({
+  id: 'return-1',
+  orderId: 'order-1',
+  userId: 'user-1',
+  status: ReturnStatus.RECEIVED,
+  reason: 'Wrong size',
+  items: [{
+    id: 'return-item-1',
+    orderItemId: 'item-1',
+    productId: 'product-1',
+    productName: 'Camiseta',
+    quantity: 1,
+    refundAmount: Money.fromMinor(2500),
+  }],
+  ...overrides,
+});
+
+describe('ReturnService', () => {
+  let returnRepository: {
+    findById: jest.Mock;
+    transitionStatus: jest.Mock;
+    update: jest.Mock;
+  };
+  let paymentService: { refundPartial: jest.Mock };
+  let service: ReturnService;
+
+  beforeEach(() => {
+    returnRepository = {
+      findById: jest.fn(),
+      transitionStatus: jest.fn(),
+      update: jest.fn(async (_id: string, returnRequest: ReturnRequest) => returnRequest),
+    };
+    paymentService = { refundPartial: jest.fn() };
+
+    service = new ReturnService(
+      returnRepository as unknown as IReturnRepository,
+      {} as never,
+      paymentService as unknown as PaymentService
+    );
+  });
+
+  describe('refundReturn', () => {
+    it('claims the return, refunds the order and marks the return refunded', async () => {
+      returnRepository.findById.mockResolvedValue(buildReturn());
+      returnRepository.transitionStatus.mockResolvedValue(true);
+      paymentService.refundPartial.mockResolvedValue(new Order({ id: 'order-1', orderNumber: 'ORD-1' }));
+
+      const refunded = await service.refundReturn('return-1', 'admin-1');
+
+      expect(returnRepository.transitionStatus)
+        .toHaveBeenCalledWith('return-1', ReturnStatus.RECEIVED, ReturnStatus.REFUNDING);
+      expect(paymentService.refundPartial)
+        .toHaveBeenCalledWith('order-1', Money.fromMinor(2500), 'admin-1', 'Return return-1 refunded');
+      expect(refunded.status).toBe(ReturnStatus.REFUNDED);
+      expect(refunded.refundAmount.amount).toBe(2500);
+    });
+
+    it('does not call the gateway when another request already claimed the return', async () => {
+      returnRepository.findById.mockResolvedValue(buildReturn());
+      returnRepository.transitionStatus.mockResolvedValue(false);
+
+      await expect(service.refundReturn('return-1', 'admin-1')).rejects.toThrow('already being refunded');
+      expect(paymentService.refundPartial).not.toHaveBeenCalled();
+      expect(returnRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('releases the claim when the refund fails so it can be retried', async () => {
+      returnRepository.findById.mockResolvedValue(buildReturn({ status: ReturnStatus.APPROVED }));
+      returnRepository.transitionStatus.mockResolvedValue(true);
+      paymentService.refundPartial.mockRejectedValue(new Error('Gateway unavailable'));
+
+      await expect(service.refundReturn('return-1', 'admin-1')).rejects.toThrow('Gateway unavailable');
+      expect(returnRepository.transitionStatus)
+        .toHaveBeenLastCalledWith('return-1', ReturnStatus.REFUNDING, ReturnStatus.APPROVED);
+      expect(returnRepository.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses returns that are not approved or received', async () => {
+      returnRepository.findById.mockResolvedValue(buildReturn({ status: ReturnStatus.REFUNDED }));
+
+      await expect(service.refundReturn('return-1', 'admin-1')).rejects.toThrow('cannot be refunded');
+      expect(returnRepository.transitionStatus).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { PrismaClient } from '@prisma/client';
+import { SequentialOrderNumberGenerator } from '@/infrastructure/ordering/SequentialOrderNumberGenerator';
+
+describe('SequentialOrderNumberGenerator', () => {
+  let upsert: jest.Mock;
+  let prisma: PrismaClient;
+
+  beforeEach(() => {
+    upsert = jest.fn();
+    prisma = { orderNumberSequence: { upsert } } as unknown as PrismaClient;
+  });
+
+  it('numbers orders per year with zero padding', async () => {
+    upsert.mockResolvedValue({ scope: '2026', value: 123 });
+    const generator = new SequentialOrderNumberGenerator(prisma, { padLength: 6 });
+
+    const orderNumber = await generator.next(new Date(2026, 5, 15));
+
+    expect(orderNumber).toBe('2026-000123');
+    expect(upsert).toHaveBeenCalledWith({
+      where: { scope: '2026' },
+      create: { scope: '2026', value: 1 },
+      update: { value: { increment: 1 } },
+    });
+  });
+
+  it('restarts the sequence in a new year', async () => {
+    upsert.mockResolvedValue({ scope: '2027', value: 1 });
+    const generator = new SequentialOrderNumberGenerator(prisma, { padLength: 6 });
+
+    await expect(generator.next(new Date(2027, 0, 1))).resolves.toBe('2027-000001');
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { scope: '2027' } }));
+  });
+
+  it('keeps a separate sequence per store prefix', async () => {
+    upsert.mockResolvedValue({ scope: 'SP-2026', value: 42 });
+    const generator = new SequentialOrderNumberGenerator(prisma, { prefix: ' sp ', padLength: 4 });
+
+    await expect(generator.next(new Date(2026, 5, 15))).resolves.toBe('SP-2026-0042');
+    expect(upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { scope: 'SP-2026' } }));
+  });
+
+  it('does not cut numbers that outgrow the padding', async () => {
+    upsert.mockResolvedValue({ scope: '2026', value: 1234567 });
+    const generator = new SequentialOrderNumberGenerator(prisma, { padLength: 6 });
+
+    await expect(generator.next(new Date(2026, 5, 15))).resolves.toBe('2026-1234567');
+  });
+
+  it('rejects prefixes that would break the number format', () => {
+    expect(() => new SequentialOrderNumberGenerator(prisma, { prefix: 'S-P', padLength: 6 }))
+      .toThrow('Order number prefix must be 1-10 letters or digits');
+  });
+});
@@ -0,0 +1,196 @@
+import { ShipmentService } from '@/business/services/ShipmentService';
+import { IShipmentRepository } from '@/business/interfaces/IShipmentRepository';
+import { OrderService } from '@/business/services/OrderService';
+import { Shipment, ShipmentStatus } from '@/business/domain/Shipment';
+import { Order, OrderItem, OrderStatus, PaymentStatus } from '@/business/domain/Order';
+import { Money } from '@/business/domain/Money';
+
+const item = (id: string, quantity: number): OrderItem => ({
+  id,
+  productId: `product-${id}`,
+  productName: `Produto ${id}`,
+  variantId: null,
+  variantName: null,
+  quantity,
+  unitPrice: Money.fromMinor(1000),
+  subtotal: Money.fromMinor(1000 * quantity),
+  taxRate: 0,
+  taxAmount: Money.zero(),
+  taxRuleId: null,
+  discountAmount: Money.zero(),
+});
+
+const buildOrder = (overrides: Partial<Order> = {}): Order => new Order({
+  id: 'order-1',
+  orderNumber: 'ORD-1',
+  status: OrderStatus.CONFIRMED,
+  paymentStatus: PaymentStatus.PAID,
+  items: [item('item-1', 2), item('item-2', 1)],
+  ...overrides,
+});
+
+const shipment = (items: Array<[string, number]>, status: ShipmentStatus = ShipmentStatus.SHIPPED): Shipment => new Shipment({
+  id: 'shipment-0',
+  orderId: 'order-1',
+  carrier: 'Correios',
+  trackingCode: 'AA000000000BR',
+  status,
+  items: items.map(([orderItemId, quantity]) => ({
+    id: '',
+    orderItemId,
+    productId: `product-${orderItemId}`,
+    productName: `Produto ${orderItemId}`,
+    quantity,
+  })),
+});
+
+describe('ShipmentService', () => {
+  let existingShipments: Shipment[];
+  let shipmentRepository: {
+    findById: jest.Mock;
+    findByTrackingCode: jest.Mock;
+    findByOrderId: jest.Mock;
+    createForOrder: jest.Mock;
+    update: jest.Mock;
+  };
+  let orderService: { applyShipmentProgress: jest.Mock };
+  let service: ShipmentService;
+
+  beforeEach(() => {
+    existingShipments = [];
+    shipmentRepository = {
+      findById: jest.fn(),
+      findByTrackingCode: jest.fn().mockResolvedValue(null),
+      findByOrderId: jest.fn(async () => existingShipments),
+      // Stands in for the locked transaction: builds from the current shipments and stores the result
+      createForOrder: jest.fn(async (_orderId: string, build: (existing: Shipment[]) => Partial<Shipment>) => {
+        const created = new Shipment({ ...build(existingShipments), id: `shipment-${existingShipments.length + 1}` });
+        existingShipments.push(created);
+        return created;
+      }),
+      update: jest.fn(async (_id: string, data: Shipment) => data),
+    };
+    orderService = { applyShipmentProgress: jest.fn() };
+
+    service = new ShipmentService(
+      shipmentRepository as unknown as IShipmentRepository,
+      orderService as unknown as OrderService
+    );
+  });
+
+  const request = (items?: Array<{ orderItemId: string; quantity: number }>) => ({
+    carrier: 'Correios',
+    trackingCode: 'br123',
+    ...(items && { items }),
+  });
+
+  describe('createShipment', () => {
+    it('ships every remaining unit when no items are given', async () => {
+      existingShipments = [shipment([['item-1', 1]])];
+
+      const created = await service.createShipment(buildOrder(), request(), 'admin-1');
+
+      expect(created.items.map(shipped => [shipped.orderItemId, shipped.quantity]))
+        .toEqual([['item-1', 1], ['item-2', 1]]);
+      expect(created.trackingCode).toBe('BR123');
+      expect(orderService.applyShipmentProgress).toHaveBeenCalledWith(
+        'order-1',
+        { 'item-1': 2, 'item-2': 1 },
+        {},
+        'admin-1',
+        'Shipment Correios BR123 created'
+      );
+    });
+
+    it('refuses to ship more than what is left of an item', async () => {
+      existingShipments = [shipment([['item-1', 2]])];
+
+      await expect(service.createShipment(buildOrder(), request([{ orderItemId: 'item-1', quantity: 1 }]), 'admin-1'))
+        .rejects.toThrow('Cannot ship 1 of Produto item-1. Remaining: 0');
+      expect(orderService.applyShipmentProgress).not.toHaveBeenCalled();
+    });
+
+    it('computes what is left inside the order lock, not from an earlier read', async () => {
+      // A concurrent request shipped everything between the tracking code check and the lock
+      shipmentRepository.findByTrackingCode.mockImplementation(async () => {
+        existingShipments = [shipment([['item-1', 2], ['item-2', 1]])];
+        return null;
+      });
+
+      await expect(service.createShipment(buildOrder(), request(), 'admin-1'))
+        .rejects.toThrow('All items of this order have already been shipped');
+    });
+
+    it('rejects items of other orders and duplicated lines', async () => {
+      await expect(service.createShipment(buildOrder(), request([{ orderItemId: 'other', quantity: 1 }]), 'admin-1'))
+        .rejects.toThrow('does not belong to this order');
+      await expect(service.createShipment(buildOrder(), request([
+        { orderItemId: 'item-1', quantity: 1 },
+        { orderItemId: 'item-1', quantity: 1 },
+      ]), 'admin-1')).rejects.toThrow('listed more than once');
+    });
+
+    it('refuses orders that are not ready to ship', async () => {
+      await expect(service.createShipment(buildOrder({ status: OrderStatus.PENDING }), request(), 'admin-1'))
+        .rejects.toThrow('Only confirmed or processing orders can be shipped');
+      expect(shipmentRepository.createForOrder).not.toHaveBeenCalled();
+    });
+
+    it('refuses a tracking code that is already in use', async () => {
+      shipmentRepository.findByTrackingCode.mockResolvedValue(shipment([['item-1', 1]]));
+
+      await expect(service.createShipment(buildOrder(), request(), 'admin-1')).rejects.toThrow('already exists');
+    });
+  });
+
+  describe('markDelivered', () => {
+    it('marks the shipment delivered and updates the order coverage', async () => {
+      existingShipments = [shipment([['item-1', 2], ['item-2', 1]])];
+      shipmentRepository.findById.mockResolvedValue(existingShipments[0]);
+
+      const delivered = await service.markDelivered('order-1', 'shipment-0', 'admin-1');
+
+      expect(delivered.status).toBe(ShipmentStatus.DELIVERED);
+      expect(orderService.applyShipmentProgress).toHaveBeenCalledWith(
+        'order-1',
+        { 'item-1': 2, 'item-2': 1 },
+        { 'item-1': 2, 'item-2': 1 },
+        'admin-1',
+        'Shipment Correios AA000000000BR delivered'
+      );
+    });
+
+    it('refuses to deliver a shipment twice', async () => {
+      shipmentRepository.findById.mockResolvedValue(shipment([['item-1', 1]], ShipmentStatus.DELIVERED));
+
+      await expect(service.markDelivered('order-1', 'shipment-0', 'admin-1'))
+        .rejects.toThrow('Shipment has already been delivered');
+    });
+  });
+});
+
+describe('Order.applyShipmentCoverage', () => {
+  it('moves the order through partially shipped, shipped and delivered', () => {
+    const order = buildOrder();
+
+    order.applyShipmentCoverage({ 'item-1': 1 }, {});
+    expect(order.status).toBe(OrderStatus.PARTIALLY_SHIPPED);
+
+    order.applyShipmentCoverage({ 'item-1': 2, 'item-2': 1 }, {});
+    expect(order.status).toBe(OrderStatus.SHIPPED);
+
+    order.applyShipmentCoverage({ 'item-1': 2, 'item-2': 1 }, { 'item-1': 2, 'item-2': 1 });
+    expect(order.status).toBe(OrderStatus.DELIVERED);
+  });
+
+  it('rejects shipment progress on cancelled, refunded or unpaid orders', () => {
+    const shipped = { 'item-1': 2, 'item-2': 1 };
+
+    expect(() => buildOrder({ status: OrderStatus.CANCELLED }).applyShipmentCoverage(shipped, {}))
+      .toThrow('Cannot ship or deliver order in current status');
+    expect(() => buildOrder({ status: OrderStatus.REFUNDED }).applyShipmentCoverage(shipped, {}))
+      .toThrow('Cannot ship or deliver order in current status');
+    expect(() => buildOrder({ status: OrderStatus.PENDING, paymentStatus: PaymentStatus.PENDING }).applyShipmentCoverage(shipped, {}))
+      .toThrow('Cannot ship or deliver order in current status');
+  });
+});
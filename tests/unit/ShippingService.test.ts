@@ -0,0 +1,62 @@
+import { ShippingService } from '@/business/services/ShippingService';
+import { FlatRateShippingStrategy } from '@/infrastructure/shipping/FlatRateShippingStrategy';
+import { WeightBasedShippingStrategy } from '@/infrastructure/shipping/WeightBasedShippingStrategy';
+import { Money } from '@/business/domain/Money';
+
+const address = { street: 'Rua A, 100', city: 'São Paulo', state: 'SP', zipCode: '01000-000', country: 'BR' };
+
+const quote = (subtotal: number, totalWeight: number) => ({
+  address,
+  subtotal: Money.fromMinor(subtotal),
+  totalWeight,
+  itemCount: 1,
+});
+
+describe('ShippingService', () => {
+  let service: ShippingService;
+
+  beforeEach(() => {
+    service = new ShippingService([
+      new FlatRateShippingStrategy({ method: 'express', name: 'Expressa', price: 40, estimatedDays: 2 }),
+      new WeightBasedShippingStrategy({
+        method: 'standard',
+        name: 'Padrão',
+        brackets: [{ maxWeight: 1, price: 15 }, { maxWeight: 5, price: 25 }],
+        extraPerKg: 5,
+        estimatedDays: 7,
+        freeShippingThreshold: 200,
+      }),
+    ]);
+  });
+
+  describe('getShippingOptions', () => {
+    it('lists every method, cheapest first', () => {
+      const options = service.getShippingOptions(quote(5000, 0.5));
+
+      expect(options.map(option => [option.method, option.price.amount])).toEqual([['standard', 1500], ['express', 4000]]);
+    });
+
+    it('charges per started kilogram above the last bracket', () => {
+      const [standard] = service.getShippingOptions(quote(5000, 6.2));
+
+      expect(standard?.price.amount).toBe(3500);
+    });
+
+    it('ships for free above the threshold and keeps the original price', () => {
+      const [standard] = service.getShippingOptions(quote(20000, 0.5));
+
+      expect(standard).toMatchObject({ isFree: true, price: Money.zero(), originalPrice: Money.fromMinor(1500) });
+    });
+  });
+
+  describe('selectShippingOption', () => {
+    it('picks the cheapest method when none is chosen', () => {
+      expect(service.selectShippingOption(quote(5000, 0.5)).method).toBe('standard');
+    });
+
+    it('rejects methods that are not offered', () => {
+      expect(() => service.selectShippingOption(quote(5000, 0.5), 'drone'))
+        .toThrow('Shipping method drone is not available for this address');
+    });
+  });
+});
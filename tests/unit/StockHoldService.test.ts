@@ -0,0 +1,79 @@
+import { RedisClientType } from 'redis';
+import { StockHoldService } from '@/business/services/StockHoldService';
+
+const now = new Date('2026-06-15T12:00:00Z').getTime();
+const item = { id: 'product-1', stock: 10 };
+
+describe('StockHoldService', () => {
+  let redis: { hGetAll: jest.Mock; hGet: jest.Mock; hDel: jest.Mock; eval: jest.Mock };
+  let service: StockHoldService;
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    redis = { hGetAll: jest.fn(), hGet: jest.fn(), hDel: jest.fn(), eval: jest.fn() };
+    service = new StockHoldService(redis as unknown as RedisClientType, { enabled: true, ttlSeconds: 600 });
+  });
+
+  describe('getAvailableStock', () => {
+    it('leaves out what other carts hold, but not the asking cart\'s own hold', async () => {
+      redis.hGetAll.mockResolvedValue({
+        'user-1': `3:${now + 60000}`,
+        'guest:guest-1': `4:${now + 60000}`,
+      });
+
+      await expect(service.getAvailableStock(item, 'user-1')).resolves.toBe(6);
+      await expect(service.getAvailableStock(item)).resolves.toBe(3);
+      expect(redis.hGetAll).toHaveBeenCalledWith('stock-hold:product-1');
+    });
+
+    it('ignores holds that have run out', async () => {
+      redis.hGetAll.mockResolvedValue({ 'user-2': `8:${now - 1}` });
+
+      await expect(service.getAvailableStock(item, 'user-1')).resolves.toBe(10);
+    });
+
+    it('never reports negative stock', async () => {
+      redis.hGetAll.mockResolvedValue({ 'user-2': `12:${now + 60000}` });
+
+      await expect(service.getAvailableStock(item, 'user-1')).resolves.toBe(0);
+    });
+
+    it('reports the full stock without touching Redis when holds are disabled', async () => {
+      service = new StockHoldService(redis as unknown as RedisClientType, { enabled: false, ttlSeconds: 600 });
+
+      await expect(service.getAvailableStock(item, 'user-1')).resolves.toBe(10);
+      expect(redis.hGetAll).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('holdStock', () => {
+    it('places the hold through the script and returns its expiry', async () => {
+      redis.eval.mockResolvedValue([1, 10]);
+
+      const expiresAt = await service.holdStock('user-1', item, 2);
+
+      expect(expiresAt).toEqual(new Date(now + 600000));
+      expect(redis.eval).toHaveBeenCalledWith(expect.any(String), {
+        keys: ['stock-hold:product-1'],
+        arguments: ['user-1', '2', String(now), '10', String(now + 600000), '600000'],
+      });
+    });
+
+    it('refuses the hold when other carts hold the rest of the stock', async () => {
+      redis.eval.mockResolvedValue([0, 1]);
+
+      await expect(service.holdStock('user-1', item, 2))
+        .rejects.toThrow('Insufficient stock. Available: 1, Requested: 2 (other carts are holding the rest)');
+    });
+  });
+
+  describe('getHoldExpiries', () => {
+    it('returns only the cart\'s active holds', async () => {
+      redis.hGet.mockResolvedValueOnce(`2:${now + 60000}`).mockResolvedValueOnce(`1:${now - 1}`).mockResolvedValueOnce(null);
+
+      const expiries = await service.getHoldExpiries('user-1', ['product-1', 'product-2', 'product-3']);
+
+      expect([...expiries.entries()]).toEqual([['product-1', new Date(now + 60000)]]);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { RedisClientType } from 'redis';
+import { TaxService } from '@/business/services/TaxService';
+import { ITaxRuleRepository } from '@/business/interfaces/ITaxRuleRepository';
+import { TaxRule } from '@/business/domain/TaxRule';
+import { Money } from '@/business/domain/Money';
+
+const address = { street: 'Rua A, 100', city: 'São Paulo', state: 'SP', zipCode: '01000-000', country: 'BR' };
+
+describe('TaxService', () => {
+  let taxRuleRepository: { findActiveForLocation: jest.Mock };
+  let redis: { get: jest.Mock; setEx: jest.Mock };
+  let service: TaxService;
+
+  beforeEach(() => {
+    taxRuleRepository = { findActiveForLocation: jest.fn().mockResolvedValue([]) };
+    redis = { get: jest.fn().mockResolvedValue(null), setEx: jest.fn() };
+    service = new TaxService(
+      taxRuleRepository as unknown as ITaxRuleRepository,
+      redis as unknown as RedisClientType,
+      0.1
+    );
+  });
+
+  describe('calculateLineTaxes', () => {
+    it('uses the most specific rule for each line', async () => {
+      taxRuleRepository.findActiveForLocation.mockResolvedValue([
+        new TaxRule({ id: 'br', name: 'Brasil', country: 'BR', rate: 0.17 }),
+        new TaxRule({ id: 'sp', name: 'São Paulo', country: 'BR', state: 'SP', rate: 0.18 }),
+        new TaxRule({ id: 'sp-books', name: 'Livros SP', country: 'BR', state: 'SP', categoryId: 'books', isExempt: true }),
+      ]);
+
+      const taxes = await service.calculateLineTaxes(address, [
+        { categoryId: 'clothing', amount: Money.fromMinor(10000) },
+        { categoryId: 'books', amount: Money.fromMinor(5000) },
+      ]);
+
+      expect(taxes).toEqual([
+        { taxRate: 0.18, taxAmount: Money.fromMinor(1800), taxRuleId: 'sp' },
+        { taxRate: 0, taxAmount: Money.zero(), taxRuleId: 'sp-books' },
+      ]);
+    });
+
+    it('falls back to the default rate when no rule applies', async () => {
+      const [tax] = await service.calculateLineTaxes(address, [{ categoryId: 'clothing', amount: Money.fromMinor(2000) }]);
+
+      expect(tax).toEqual({ taxRate: 0.1, taxAmount: Money.fromMinor(200), taxRuleId: null });
+    });
+
+    it('reads the rules of a location from the cache once stored', async () => {
+      redis.get.mockResolvedValue(JSON.stringify([new TaxRule({ id: 'sp', name: 'São Paulo', country: 'BR', state: 'SP', rate: 0.18 })]));
+
+      const [tax] = await service.calculateLineTaxes(address, [{ categoryId: 'clothing', amount: Money.fromMinor(1000) }]);
+
+      expect(tax?.taxRuleId).toBe('sp');
+      expect(redis.get).toHaveBeenCalledWith('tax-rules:BR:SP');
+      expect(taxRuleRepository.findActiveForLocation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createTaxRule', () => {
+    it('rejects invalid rules', async () => {
+      await expect(service.createTaxRule({ name: 'Sem país', rate: 2 })).rejects.toThrow('Validation failed');
+    });
+  });
+});
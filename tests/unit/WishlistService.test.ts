@@ -0,0 +1,174 @@
+import { WishlistService } from '@/business/services/WishlistService';
+import { CartService } from '@/business/services/CartService';
+import { WishlistItem } from '@/business/domain/WishlistItem';
+import { Product } from '@/business/domain/Product';
+import { ProductVariant } from '@/business/domain/ProductVariant';
+import { Cart } from '@/business/domain/Cart';
+import { Money } from '@/business/domain/Money';
+
+const buildProduct = (overrides: Partial<Product> = {}): Product => new Product({
+  id: 'product-1',
+  name: 'Camiseta',
+  price: Money.fromMinor(2000),
+  stock: 50,
+  isActive: true,
+  ...overrides,
+});
+
+const savedItem = (overrides: Partial<WishlistItem> = {}): WishlistItem => new WishlistItem({
+  id: 'wish-1',
+  userId: 'user-1',
+  productId: 'product-1',
+  savedPrice: Money.fromMinor(2500),
+  ...overrides,
+});
+
+describe('WishlistService', () => {
+  let product: Product;
+  let wishlistRepository: {
+    findByUserId: jest.Mock;
+    findByUserAndProduct: jest.Mock;
+    create: jest.Mock;
+    delete: jest.Mock;
+  };
+  let cartService: { getCartByUserId: jest.Mock; addItemToCart: jest.Mock; removeItemFromCart: jest.Mock };
+  let service: WishlistService;
+
+  beforeEach(() => {
+    product = buildProduct();
+    wishlistRepository = {
+      findByUserId: jest.fn().mockResolvedValue([]),
+      findByUserAndProduct: jest.fn().mockResolvedValue(null),
+      create: jest.fn(async (item: WishlistItem) => new WishlistItem({ ...item, id: 'wish-1' })),
+      delete: jest.fn().mockResolvedValue(true),
+    };
+    cartService = { getCartByUserId: jest.fn(), addItemToCart: jest.fn(), removeItemFromCart: jest.fn() };
+
+    service = new WishlistService(
+      wishlistRepository as never,
+      { findById: jest.fn(async () => product) } as never,
+      cartService as unknown as CartService
+    );
+  });
+
+  describe('getWishlist', () => {
+    it('compares each entry with the current price and stock', async () => {
+      wishlistRepository.findByUserId.mockResolvedValue([savedItem()]);
+      product = buildProduct({ stock: 3 });
+
+      const [entry] = await service.getWishlist('user-1');
+
+      expect(entry).toMatchObject({
+        savedPrice: Money.fromMinor(2500),
+        currentPrice: Money.fromMinor(2000),
+        priceDifference: Money.fromMinor(-500),
+        stockStatus: 'low_stock',
+        isAvailable: true,
+      });
+    });
+  });
+
+  describe('addToWishlist', () => {
+    it('saves the product at its current price', async () => {
+      const item = await service.addToWishlist('user-1', 'product-1');
+
+      expect(item.savedPrice.amount).toBe(2000);
+    });
+
+    it('keeps the first entry when the product is saved again', async () => {
+      const existing = savedItem();
+      wishlistRepository.findByUserAndProduct.mockResolvedValue(existing);
+
+      await expect(service.addToWishlist('user-1', 'product-1')).resolves.toBe(existing);
+      expect(wishlistRepository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moveToCart', () => {
+    it('keeps the entry when the cart refuses the item', async () => {
+      wishlistRepository.findByUserAndProduct.mockResolvedValue(savedItem());
+      cartService.addItemToCart.mockRejectedValue(new Error('Insufficient stock'));
+
+      await expect(service.moveToCart('user-1', 'product-1')).rejects.toThrow('Insufficient stock');
+      expect(wishlistRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moveFromCart', () => {
+    it('saves the price the customer saw in the cart and removes the line', async () => {
+      const cart = new Cart({ userId: 'user-1' });
+      cart.addItem('product-1', 1, Money.fromMinor(1800));
+      cartService.getCartByUserId.mockResolvedValue(cart);
+
+      const item = await service.moveFromCart('user-1', 'product-1');
+
+      expect(item.savedPrice.amount).toBe(1800);
+      expect(cartService.removeItemFromCart).toHaveBeenCalledWith('user-1', 'product-1', null);
+    });
+  });
+
+  describe('variants', () => {
+    beforeEach(() => {
+      product = buildProduct({
+        options: [{ name: 'size', values: ['M', 'G'] }],
+        variants: [
+          new ProductVariant({ id: 'variant-m', productId: 'product-1', sku: 'CAM-M', options: { size: 'M' }, stock: 0 }),
+          new ProductVariant({
+            id: 'variant-g', productId: 'product-1', sku: 'CAM-G', options: { size: 'G' }, price: Money.fromMinor(2600), stock: 20,
+          }),
+        ],
+      });
+    });
+
+    it('compares a variant entry with the variant\'s own price and stock', async () => {
+      wishlistRepository.findByUserId.mockResolvedValue([savedItem({ variantId: 'variant-g', savedPrice: Money.fromMinor(2400) })]);
+
+      const [entry] = await service.getWishlist('user-1');
+
+      expect(entry).toMatchObject({
+        variantId: 'variant-g',
+        variantName: 'G',
+        currentPrice: Money.fromMinor(2600),
+        priceDifference: Money.fromMinor(200),
+        stockStatus: 'in_stock',
+      });
+    });
+
+    it('reports a sold out variant as unavailable', async () => {
+      wishlistRepository.findByUserId.mockResolvedValue([savedItem({ variantId: 'variant-m' })]);
+
+      const [entry] = await service.getWishlist('user-1');
+
+      expect(entry).toMatchObject({ stockStatus: 'out_of_stock', isAvailable: false });
+    });
+
+    it('saves the variant and its price', async () => {
+      await service.addToWishlist('user-1', 'product-1', 'variant-g');
+
+      expect(wishlistRepository.create)
+        .toHaveBeenCalledWith(expect.objectContaining({ variantId: 'variant-g', savedPrice: Money.fromMinor(2600) }));
+    });
+
+    it('rejects unknown variants', async () => {
+      await expect(service.addToWishlist('user-1', 'product-1', 'variant-x')).rejects.toThrow('Variant not found');
+    });
+
+    it('keeps the variant when saving a cart line for later', async () => {
+      const cart = new Cart({ userId: 'user-1' });
+      cart.addItem('product-1', 1, Money.fromMinor(2600), 'variant-g');
+      cartService.getCartByUserId.mockResolvedValue(cart);
+
+      await service.moveFromCart('user-1', 'product-1', 'variant-g');
+
+      expect(wishlistRepository.create).toHaveBeenCalledWith(expect.objectContaining({ variantId: 'variant-g' }));
+    });
+
+    it('moves the saved variant to the cart', async () => {
+      wishlistRepository.findByUserAndProduct.mockResolvedValue(savedItem({ variantId: 'variant-g' }));
+
+      await service.moveToCart('user-1', 'product-1', 2);
+
+      expect(cartService.addItemToCart).toHaveBeenCalledWith('user-1', 'product-1', 2, 'variant-g');
+    });
+  });
+});